@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deletionCancelExpiry" TIMESTAMP(3),
+ADD COLUMN     "deletionCancelToken" TEXT,
+ADD COLUMN     "deletionRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "deletionScheduledFor" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_deletionCancelToken_key" ON "User"("deletionCancelToken");
+
+-- CreateIndex
+CREATE INDEX "User_deletionScheduledFor_idx" ON "User"("deletionScheduledFor");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailChangeExpiry" TIMESTAMP(3),
+ADD COLUMN     "emailChangeToken" TEXT,
+ADD COLUMN     "emailRevertExpiry" TIMESTAMP(3),
+ADD COLUMN     "emailRevertToken" TEXT,
+ADD COLUMN     "pendingEmail" TEXT,
+ADD COLUMN     "previousEmail" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_emailChangeToken_key" ON "User"("emailChangeToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_emailRevertToken_key" ON "User"("emailRevertToken");
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "passwordResetRequired" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "LoginEvent" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "failureReason" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "deviceHash" TEXT,
+    "newDevice" BOOLEAN NOT NULL DEFAULT false,
+    "notMeToken" TEXT,
+    "notMeExpiry" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoginEvent_notMeToken_key" ON "LoginEvent"("notMeToken");
+
+-- CreateIndex
+CREATE INDEX "LoginEvent_userId_createdAt_idx" ON "LoginEvent"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginEvent_userId_deviceHash_idx" ON "LoginEvent"("userId", "deviceHash");
+
+-- CreateIndex
+CREATE INDEX "LoginEvent_createdAt_idx" ON "LoginEvent"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LoginEvent" ADD CONSTRAINT "LoginEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
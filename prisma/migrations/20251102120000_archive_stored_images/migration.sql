@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "StoredImage" ADD COLUMN     "byteSize" INTEGER,
+ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "sha256" TEXT;
+
+-- CreateIndex
+CREATE INDEX "StoredImage_sha256_idx" ON "StoredImage"("sha256");
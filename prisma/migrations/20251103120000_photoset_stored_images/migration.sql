@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "StoredImage_userId_postId_key";
+
+-- AlterTable
+ALTER TABLE "StoredImage" ADD COLUMN     "photoIndex" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoredImage_userId_postId_photoIndex_key" ON "StoredImage"("userId", "postId", "photoIndex");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Collection" ADD COLUMN     "rules" JSONB;
+
+-- CreateIndex
+CREATE INDEX "StoredImage_userId_storedAt_idx" ON "StoredImage"("userId", "storedAt");
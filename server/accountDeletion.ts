@@ -0,0 +1,84 @@
+import type { PrismaClient } from '@prisma/client';
+import type { Mailer } from './mailer';
+import type { BlobStore } from './blobStore';
+import { AuditAction, auditLogData } from './audit';
+import { removeDataExports } from './dataExport';
+import { releaseBlobs, storedImageBlobs } from './imageArchive';
+
+// Self-service account deletion. Requesting it signs the user out and starts a
+// grace period during which signing in offers to cancel; afterwards a periodic
+// sweep hard-deletes the user and the schema's onDelete: Cascade relations take
+// everything else with it.
+
+export const DELETION_GRACE_PERIOD = 14 * 24 * 60 * 60 * 1000; // 14 days
+const PURGE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Hard-delete every account whose grace period is over. Returns how many were deleted.
+ */
+export async function purgeDeletedAccounts(prisma: PrismaClient, mailer: Mailer, blobStore: BlobStore, now = new Date()): Promise<number> {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: now } },
+    select: { id: true, email: true, username: true, deletionRequestedAt: true }
+  });
+
+  let deleted = 0;
+  for (const user of due) {
+    try {
+      // Archives and image files live outside the database, so the cascade can't remove them
+      await removeDataExports(prisma, user.id);
+      const blobs = await storedImageBlobs(prisma, user.id);
+
+      const removed = await prisma.$transaction(async (tx) => {
+        // Re-checked here in case the user cancelled since the query above
+        const { count } = await tx.user.deleteMany({
+          where: { id: user.id, deletionScheduledFor: { lte: now } }
+        });
+
+        if (count > 0) {
+          await tx.auditLog.create({
+            data: auditLogData(null, {
+              actor: null,
+              action: AuditAction.USER_DELETED,
+              targetType: 'user',
+              targetId: user.id,
+              before: {
+                username: user.username,
+                email: user.email,
+                deletionRequestedAt: user.deletionRequestedAt?.toISOString() ?? null,
+              },
+            })
+          });
+        }
+
+        return count > 0;
+      });
+
+      if (removed) {
+        deleted++;
+        await releaseBlobs(prisma, blobStore, blobs);
+        await mailer.sendAccountDeleted(user).catch(error => console.error('Account deleted email error:', error));
+      }
+    } catch (error) {
+      console.error(`Account deletion error for ${user.id}:`, error);
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Run the sweep now and then every hour for as long as the process lives
+ */
+export function scheduleAccountPurge(prisma: PrismaClient, mailer: Mailer, blobStore: BlobStore, intervalMs = PURGE_INTERVAL) {
+  const run = () => {
+    purgeDeletedAccounts(prisma, mailer, blobStore)
+      .then(count => {
+        if (count > 0) console.log(`🗑️  Deleted ${count} account(s) after their grace period`);
+      })
+      .catch(error => console.error('Account purge error:', error));
+  };
+
+  run();
+  setInterval(run, intervalMs).unref();
+}
@@ -0,0 +1,53 @@
+import type express from 'express';
+import type { User } from '@prisma/client';
+import { sendError } from './errors';
+
+// Suspensions and bans. A suspension lapses on its own once suspendedUntil
+// has passed, so nothing needs to run to lift it.
+
+export interface AccountRestriction {
+  status: 'SUSPENDED' | 'BANNED';
+  reason: string | null;
+  until: Date | null;
+}
+
+type StatusFields = Pick<User, 'status' | 'suspendedUntil' | 'statusReason'>;
+
+/**
+ * Why this account may not sign in right now, or null if it may
+ */
+export function getAccountRestriction(user: StatusFields, now = new Date()): AccountRestriction | null {
+  if (user.status === 'BANNED') {
+    return { status: 'BANNED', reason: user.statusReason, until: null };
+  }
+
+  if (user.status === 'SUSPENDED' && (!user.suspendedUntil || user.suspendedUntil > now)) {
+    return { status: 'SUSPENDED', reason: user.statusReason, until: user.suspendedUntil };
+  }
+
+  return null;
+}
+
+/**
+ * Reply 403 to a sign-in on an account whose owner said a new-device sign-in
+ * wasn't them; it stays locked until the password is reset
+ */
+export function sendPasswordResetRequired(res: express.Response) {
+  return sendError(res, 403, 'For your security, choose a new password before signing in. Use "Forgot password?" to get a reset link.');
+}
+
+/**
+ * Reply 403 with the status, reason and end date so the client can explain it
+ */
+export function sendAccountRestricted(res: express.Response, restriction: AccountRestriction) {
+  const summary = restriction.status === 'BANNED'
+    ? 'This account has been banned.'
+    : restriction.until
+      ? `This account is suspended until ${restriction.until.toISOString()}.`
+      : 'This account is suspended.';
+
+  return sendError(res, 403, restriction.reason ? `${summary} Reason: ${restriction.reason}` : summary, {
+    error: 'ACCOUNT_RESTRICTED',
+    accountStatus: restriction,
+  });
+}
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { UserRole } from '@prisma/client';
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '../shared/api';
+
+// Personal access tokens for scripts. They are bearer tokens like sessions but
+// carry a prefix so the auth middleware can tell them apart, and only work on
+// routes that opt in with a matching scope.
+
+export const API_TOKEN_PREFIX = 'tt_pat_';
+
+// Scopes are part of the API contract, so the Settings page offers the same list
+export { API_TOKEN_SCOPES, type ApiTokenScope };
+
+export const MAX_API_TOKEN_LIFETIME_DAYS = 365;
+
+export const isApiToken = (token: string) => token.startsWith(API_TOKEN_PREFIX);
+
+/**
+ * New plaintext token plus the short prefix kept in plaintext so users can
+ * recognise it in Settings. Only a hash of the full token is stored.
+ */
+export function generateApiToken(): { token: string; tokenPrefix: string } {
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  return { token, tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6) };
+}
+
+export interface ApiTokenRequest {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt: Date | null;
+}
+
+/**
+ * Turn a validated create-token body (see schemas.ts) into the row to store.
+ * expiresInDays is null for a token that never expires.
+ */
+export function parseApiTokenRequest(
+  body: { name: string; scopes: ApiTokenScope[]; expiresInDays: number | null },
+  role: UserRole,
+  now = new Date()
+): { error: string } | ApiTokenRequest {
+  const scopes = [...new Set(body.scopes)];
+
+  // A token can never do more than its owner
+  if (scopes.includes('admin') && role === UserRole.USER) {
+    return { error: 'Only admins and moderators can create tokens with the admin scope' };
+  }
+
+  const expiresAt = body.expiresInDays === null
+    ? null
+    : new Date(now.getTime() + body.expiresInDays * 24 * 60 * 60 * 1000);
+
+  return { name: body.name, scopes, expiresAt };
+}
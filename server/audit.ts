@@ -0,0 +1,103 @@
+import type express from 'express';
+import type { Prisma } from '@prisma/client';
+
+// Append-only record of privileged actions. Rows are written in the same
+// transaction as the change they describe; the table rejects UPDATE and
+// DELETE at the database level (see the add_audit_log migration).
+
+export const AuditAction = {
+  USER_ROLE_CHANGED: 'user.role_changed',
+  USER_DELETED: 'user.deleted',
+  PASSWORD_RESET: 'user.password_reset',
+  EMAIL_CHANGED: 'user.email_changed',
+  EMAIL_CHANGE_REVERTED: 'user.email_change_reverted',
+  LOGIN_DISAVOWED: 'user.login_disavowed',
+  USER_SUSPENDED: 'user.suspended',
+  USER_BANNED: 'user.banned',
+  USER_UNSUSPENDED: 'user.unsuspended',
+  USER_DELETION_SCHEDULED: 'user.deletion_scheduled',
+  USER_DELETION_CANCELLED: 'user.deletion_cancelled',
+  STORED_IMAGES_BULK_DELETED: 'stored_images.bulk_deleted',
+  INVITE_CREATED: 'invite.created',
+  INVITE_REVOKED: 'invite.revoked',
+} as const;
+
+export type AuditAction = typeof AuditAction[keyof typeof AuditAction];
+
+export interface AuditActor {
+  id: string;
+  username: string;
+}
+
+export interface AuditEntry {
+  // Who did it; the user themself for self-service actions, null for background jobs
+  actor: AuditActor | null;
+  action: AuditAction;
+  targetType: 'user' | 'invite';
+  targetId: string;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+}
+
+/**
+ * Build the create input for an audit row, so callers can put it in the same
+ * $transaction as the change itself:
+ *
+ *   prisma.$transaction([prisma.user.update(...), prisma.auditLog.create({ data: auditLogData(req, {...}) })])
+ *
+ * Background jobs pass null for req.
+ */
+export function auditLogData(req: express.Request | null, entry: AuditEntry): Prisma.AuditLogCreateInput {
+  return {
+    // Denormalized so the record survives the actor's account being deleted
+    actorId: entry.actor?.id ?? null,
+    actorUsername: entry.actor?.username ?? null,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    before: entry.before,
+    after: entry.after,
+    ipAddress: req?.ip ?? null,
+    userAgent: req?.get('user-agent') ?? null,
+  };
+}
+
+export interface AuditQuery {
+  where: Prisma.AuditLogWhereInput;
+  limit: number;
+  offset: number;
+}
+
+export const MAX_AUDIT_PAGE = 200;
+
+// /api/admin/audit query params, already validated (see schemas.ts)
+export interface AuditQueryParams {
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Turn the audit query params into a Prisma filter and page
+ */
+export function parseAuditQuery(query: AuditQueryParams): AuditQuery {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  for (const field of ['action', 'actorId', 'targetType', 'targetId'] as const) {
+    const value = query[field];
+    if (value) {
+      where[field] = value;
+    }
+  }
+
+  if (query.from || query.to) {
+    where.createdAt = { gte: query.from, lte: query.to };
+  }
+
+  return { where, limit: Math.max(query.limit, 1), offset: query.offset };
+}
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Readable } from 'stream';
+import { S3Client, s3ConfigFromEnv } from './s3';
+
+// Content-addressed file storage. Blobs are named by the SHA-256 of their
+// bytes, so identical files are kept once however many rows point at them,
+// and a blob never changes once written.
+
+export const sha256Hex = (data: Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+
+const isSha256 = (value: string) => /^[a-f0-9]{64}$/.test(value);
+
+/**
+ * SHA-256 and length of everything a stream yields
+ */
+export async function hashStream(stream: Readable): Promise<{ sha256: string; byteSize: number }> {
+  const hash = crypto.createHash('sha256');
+  let byteSize = 0;
+  for await (const chunk of stream) {
+    hash.update(chunk);
+    byteSize += chunk.length;
+  }
+  return { sha256: hash.digest('hex'), byteSize };
+}
+
+/**
+ * Where blob bytes live. Swap implementations with BLOB_STORE.
+ */
+export interface BlobStore {
+  // Store bytes under their hash; does nothing if they're already there
+  put(sha256: string, data: Buffer): Promise<void>;
+  // The bytes, or null if nothing is stored under that hash
+  get(sha256: string): Promise<Readable | null>;
+  has(sha256: string): Promise<boolean>;
+  delete(sha256: string): Promise<void>;
+  // Every hash in the store
+  list(): AsyncIterable<string>;
+  // A short-lived URL the browser can download the bytes from directly, or
+  // null when the store can't make one (or is set not to)
+  presignedUrl(sha256: string, contentType?: string | null): Promise<string | null>;
+}
+
+/**
+ * Files under a directory, fanned out as ab/cd/abcd... so no single
+ * directory grows too large
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(private directory: string) {}
+
+  private pathFor(sha256: string) {
+    if (!isSha256(sha256)) {
+      throw new Error(`Not a SHA-256 hash: ${sha256}`);
+    }
+    return path.join(this.directory, sha256.slice(0, 2), sha256.slice(2, 4), sha256);
+  }
+
+  async put(sha256: string, data: Buffer) {
+    const target = this.pathFor(sha256);
+    if (fs.existsSync(target)) return;
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // Written under a temporary name and renamed, so readers never see half a file
+    const temporary = `${target}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.promises.writeFile(temporary, data);
+    await fs.promises.rename(temporary, target);
+  }
+
+  async get(sha256: string) {
+    if (!(await this.has(sha256))) return null;
+    return fs.createReadStream(this.pathFor(sha256));
+  }
+
+  async has(sha256: string) {
+    try {
+      await fs.promises.access(this.pathFor(sha256));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(sha256: string) {
+    await fs.promises.rm(this.pathFor(sha256), { force: true });
+  }
+
+  async *list() {
+    const entries = await fs.promises.readdir(this.directory, { recursive: true, withFileTypes: true })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      });
+    for (const entry of entries) {
+      // Leftover .tmp files from interrupted writes don't count
+      if (entry.isFile() && isSha256(entry.name)) yield entry.name;
+    }
+  }
+
+  async presignedUrl() {
+    return null;
+  }
+}
+
+/**
+ * Objects in an S3-compatible bucket, keyed <prefix>ab/abcd...
+ */
+export class S3BlobStore implements BlobStore {
+  constructor(
+    private client: S3Client,
+    private prefix = 'blobs/',
+    // Seconds a presigned download URL stays valid; null serves every download through the API
+    private presignExpiry: number | null = null
+  ) {}
+
+  private keyFor(sha256: string) {
+    if (!isSha256(sha256)) {
+      throw new Error(`Not a SHA-256 hash: ${sha256}`);
+    }
+    return `${this.prefix}${sha256.slice(0, 2)}/${sha256}`;
+  }
+
+  async put(sha256: string, data: Buffer) {
+    if (await this.has(sha256)) return;
+    await this.client.putObject(this.keyFor(sha256), data);
+  }
+
+  async get(sha256: string) {
+    return this.client.getObject(this.keyFor(sha256));
+  }
+
+  async has(sha256: string) {
+    return this.client.headObject(this.keyFor(sha256));
+  }
+
+  async delete(sha256: string) {
+    await this.client.deleteObject(this.keyFor(sha256));
+  }
+
+  async *list() {
+    for await (const key of this.client.listObjects(this.prefix)) {
+      const name = key.slice(key.lastIndexOf('/') + 1);
+      if (isSha256(name)) yield name;
+    }
+  }
+
+  async presignedUrl(sha256: string, contentType?: string | null) {
+    if (this.presignExpiry === null) return null;
+    return this.client.presignGetUrl(this.keyFor(sha256), {
+      expiresIn: this.presignExpiry,
+      contentType: contentType ?? undefined,
+    });
+  }
+}
+
+/**
+ * Pick a store from BLOB_STORE: "local" (the default, files under BLOB_DIR)
+ * or "s3" (see s3ConfigFromEnv; S3_PREFIX, and S3_PRESIGN_EXPIRY to hand out
+ * presigned download URLs). kind overrides BLOB_STORE, for moving blobs
+ * between stores.
+ */
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env, kind = env.BLOB_STORE || 'local'): BlobStore {
+  switch (kind) {
+    case 'local':
+      return new LocalBlobStore(path.resolve(env.BLOB_DIR || '.blobs'));
+    case 's3':
+      return new S3BlobStore(
+        new S3Client(s3ConfigFromEnv(env)),
+        env.S3_PREFIX ?? 'blobs/',
+        env.S3_PRESIGN_EXPIRY ? parseInt(env.S3_PRESIGN_EXPIRY, 10) : null
+      );
+    default:
+      throw new Error(`Unknown BLOB_STORE: ${kind}`);
+  }
+}
+
+export interface CopyBlobsResult {
+  copied: number;
+  // Already in the target
+  skipped: number;
+  // Hashes whose bytes in the source don't match; left where they are
+  corrupt: string[];
+}
+
+/**
+ * Copy every blob from one store to another, checking each against its hash
+ * on the way. With deleteSource the source copy is removed once the target
+ * has it, which makes this a move.
+ */
+export async function copyBlobs(
+  source: BlobStore,
+  target: BlobStore,
+  options: { deleteSource?: boolean; onProgress?: (done: number) => void } = {}
+): Promise<CopyBlobsResult> {
+  const result: CopyBlobsResult = { copied: 0, skipped: 0, corrupt: [] };
+
+  for await (const sha256 of source.list()) {
+    if (await target.has(sha256)) {
+      result.skipped++;
+    } else {
+      const stream = await source.get(sha256);
+      if (!stream) continue; // Deleted since it was listed
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      const data = Buffer.concat(chunks);
+      if (sha256Hex(data) !== sha256) {
+        result.corrupt.push(sha256);
+        continue;
+      }
+
+      await target.put(sha256, data);
+      result.copied++;
+    }
+
+    if (options.deleteSource) {
+      await source.delete(sha256);
+    }
+    options.onProgress?.(result.copied + result.skipped);
+  }
+
+  return result;
+}
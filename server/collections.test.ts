@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import type { SmartRule } from '../shared/smartRules';
+import { MAX_COLLECTION_IMAGES, reorderCollection, smartCollectionWhere } from './collections';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// The database condition for one rule
+const where = (rule: SmartRule) => smartCollectionWhere('user-1', { match: 'all', conditions: [rule] }).AND;
+
+describe('smartCollectionWhere', () => {
+  it("is every one of the owner's images without conditions", () => {
+    expect(smartCollectionWhere('user-1', { match: 'all', conditions: [] })).toEqual({ userId: 'user-1' });
+    expect(smartCollectionWhere('user-1', { match: 'any', conditions: [] })).toEqual({ userId: 'user-1' });
+  });
+
+  it('needs every condition with all, and any one with any', () => {
+    const conditions: SmartRule[] = [
+      { field: 'width', op: 'gte', value: 2000 },
+      { field: 'notes', op: 'lte', value: 10 },
+    ];
+    const translated = [{ width: { gte: 2000 } }, { notes: { lte: 10 } }];
+
+    expect(smartCollectionWhere('user-1', { match: 'all', conditions })).toEqual({ userId: 'user-1', AND: translated });
+    expect(smartCollectionWhere('user-1', { match: 'any', conditions })).toEqual({ userId: 'user-1', OR: translated });
+  });
+
+  it('keeps the owner outside the conditions, so any can never reach other users', () => {
+    const query = smartCollectionWhere('user-1', {
+      match: 'any',
+      conditions: [{ field: 'blogName', op: 'notIn', value: ['a'] }],
+    });
+
+    expect(query.userId).toBe('user-1');
+    expect(Object.keys(query)).toEqual(['userId', 'OR']);
+  });
+});
+
+describe('text rules', () => {
+  it('match one of a list exactly', () => {
+    expect(where({ field: 'blogName', op: 'in', value: ['kodakportra', 'filmdaily'] }))
+      .toEqual([{ blogName: { in: ['kodakportra', 'filmdaily'] } }]);
+  });
+
+  it('count images without a value as none of the list', () => {
+    expect(where({ field: 'description', op: 'notIn', value: ['x'] }))
+      .toEqual([{ OR: [{ description: null }, { description: { notIn: ['x'] } }] }]);
+  });
+
+  it('match part of the text, ignoring case', () => {
+    expect(where({ field: 'description', op: 'contains', value: 'Sunset' }))
+      .toEqual([{ description: { contains: 'Sunset', mode: 'insensitive' } }]);
+  });
+});
+
+describe('tag rules', () => {
+  it('look for the whole tag, quotes included, ignoring case', () => {
+    expect(where({ field: 'tags', op: 'includes', value: ' film photography ' }))
+      .toEqual([{ tags: { contains: '"film photography"', mode: 'insensitive' } }]);
+  });
+
+  it('escape tags the way they are stored', () => {
+    expect(where({ field: 'tags', op: 'includes', value: 'say "cheese"' }))
+      .toEqual([{ tags: { contains: '"say \\"cheese\\""', mode: 'insensitive' } }]);
+  });
+
+  it('exclude images with the tag', () => {
+    expect(where({ field: 'tags', op: 'excludes', value: 'nsfw' }))
+      .toEqual([{ NOT: { tags: { contains: '"nsfw"', mode: 'insensitive' } } }]);
+  });
+});
+
+describe('number rules', () => {
+  it.each(['gte', 'lte', 'equals'] as const)('compare with %s', (op) => {
+    expect(where({ field: 'byteSize', op, value: 1024 })).toEqual([{ byteSize: { [op]: 1024 } }]);
+  });
+});
+
+describe('date rules', () => {
+  it('include the day itself with after, in UTC', () => {
+    expect(where({ field: 'timestamp', op: 'after', value: '2023-06-01' }))
+      .toEqual([{ timestamp: { gte: new Date('2023-06-01T00:00:00Z') } }]);
+  });
+
+  it('leave the day itself out with before', () => {
+    expect(where({ field: 'storedAt', op: 'before', value: '2023-06-01' }))
+      .toEqual([{ storedAt: { lt: new Date('2023-06-01T00:00:00Z') } }]);
+  });
+
+  it('cover a calendar year from January 1 up to the next', () => {
+    expect(where({ field: 'timestamp', op: 'year', value: 2023 }))
+      .toEqual([{ timestamp: { gte: new Date('2023-01-01T00:00:00Z'), lt: new Date('2024-01-01T00:00:00Z') } }]);
+  });
+
+  it('count the last so many days back from now', () => {
+    vi.useFakeTimers({ now: new Date('2025-03-31T12:00:00Z') });
+
+    expect(where({ field: 'storedAt', op: 'lastDays', value: 30 }))
+      .toEqual([{ storedAt: { gte: new Date('2025-03-01T12:00:00Z') } }]);
+  });
+});
+
+describe('reorderCollection', () => {
+  // A collection whose images are image-0, image-1... in that order
+  const collection = (size: number) => {
+    const tx = {
+      collectionItem: {
+        findMany: vi.fn().mockResolvedValue(
+          Array.from({ length: size }, (_, position) => ({ storedImageId: `image-${position}`, position }))
+        ),
+      },
+      $executeRaw: vi.fn().mockResolvedValue(0),
+    };
+    return { tx, client: tx as unknown as Prisma.TransactionClient };
+  };
+
+  // The image ids and positions written by the update
+  const written = (executeRaw: ReturnType<typeof vi.fn>) => {
+    const [, ids, positions, collectionId] = executeRaw.mock.calls[0];
+    return { ids, positions, collectionId };
+  };
+
+  it('writes only the images that moved', async () => {
+    const { tx, client } = collection(4);
+
+    expect(await reorderCollection(client, 'collection-1', ['image-0', 'image-2', 'image-1', 'image-3'])).toBeNull();
+    expect(written(tx.$executeRaw)).toEqual({ ids: ['image-2', 'image-1'], positions: [1, 2], collectionId: 'collection-1' });
+  });
+
+  it('writes a full collection in one statement', async () => {
+    const { tx, client } = collection(MAX_COLLECTION_IMAGES);
+    const reversed = Array.from({ length: MAX_COLLECTION_IMAGES }, (_, index) => `image-${MAX_COLLECTION_IMAGES - 1 - index}`);
+
+    expect(await reorderCollection(client, 'collection-1', reversed)).toBeNull();
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+
+    const { ids, positions } = written(tx.$executeRaw);
+    // Reversing an even number of images moves every one
+    expect(ids).toHaveLength(MAX_COLLECTION_IMAGES);
+    expect(ids[0]).toBe(`image-${MAX_COLLECTION_IMAGES - 1}`);
+    expect(positions[0]).toBe(0);
+  });
+
+  it('writes nothing when the order is unchanged', async () => {
+    const { tx, client } = collection(3);
+
+    expect(await reorderCollection(client, 'collection-1', ['image-0', 'image-1', 'image-2'])).toBeNull();
+    expect(tx.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['leaves an image out', ['image-0', 'image-1']],
+    ['lists an image twice', ['image-0', 'image-1', 'image-1']],
+    ['lists an image from elsewhere', ['image-0', 'image-1', 'image-9']],
+  ])('refuses an order that %s', async (_, imageIds) => {
+    const { tx, client } = collection(3);
+
+    expect(await reorderCollection(client, 'collection-1', imageIds)).toBe('imageIds must list every image in the collection exactly once');
+    expect(tx.$executeRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { SmartRule, SmartRules } from '../shared/smartRules';
+
+// Albums of stored images. An image can be in any number of collections;
+// each item has a position so the owner can order a collection by
+// drag-and-drop. Deleting a stored image takes it out of every collection.
+//
+// A smart collection has rules instead of items: it holds whichever of the
+// owner's images match them at the time it's read.
+
+export const MAX_COLLECTION_IMAGES = 5000;
+export const MAX_COLLECTION_NAME_LENGTH = 100;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 1000;
+
+const coverSelect = { id: true, sha256: true, url: true, description: true } as const;
+
+// What toCollection() needs: the image count and both candidates for the cover
+export const collectionInclude = {
+  _count: { select: { items: true } },
+  coverImage: { select: coverSelect },
+  items: {
+    orderBy: [{ position: 'asc' }, { addedAt: 'asc' }],
+    take: 1,
+    select: { storedImage: { select: coverSelect } },
+  },
+} satisfies Prisma.CollectionInclude;
+
+// Collection order; addedAt breaks ties between images added at the same moment
+export const itemOrder = [{ position: 'asc' }, { addedAt: 'asc' }] satisfies Prisma.CollectionItemOrderByWithRelationInput[];
+
+// Smart collections list newest first, like the library itself
+export const smartOrder = [
+  { storedAt: 'desc' },
+  { postId: 'asc' },
+  { photoIndex: 'asc' },
+] satisfies Prisma.StoredImageOrderByWithRelationInput[];
+
+type CollectionWithCover = Prisma.CollectionGetPayload<{ include: typeof collectionInclude }>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Tags are kept as a JSON array in a string, so a whole tag is its JSON
+// encoding, quotes included; that can't match part of a longer tag
+const tagPattern = (tag: string) => JSON.stringify(tag.trim());
+
+function ruleWhere(rule: SmartRule): Prisma.StoredImageWhereInput {
+  switch (rule.op) {
+    case 'in':
+      return { [rule.field]: { in: rule.value } };
+    case 'notIn':
+      // Images with no value at all aren't any of them either
+      return { OR: [{ [rule.field]: null }, { [rule.field]: { notIn: rule.value } }] };
+    case 'contains':
+      return { [rule.field]: { contains: rule.value, mode: 'insensitive' } };
+    case 'includes':
+      return { tags: { contains: tagPattern(rule.value), mode: 'insensitive' } };
+    case 'excludes':
+      return { NOT: { tags: { contains: tagPattern(rule.value), mode: 'insensitive' } } };
+    case 'gte':
+    case 'lte':
+    case 'equals':
+      return { [rule.field]: { [rule.op]: rule.value } };
+    case 'after':
+      return { [rule.field]: { gte: new Date(`${rule.value}T00:00:00Z`) } };
+    case 'before':
+      return { [rule.field]: { lt: new Date(`${rule.value}T00:00:00Z`) } };
+    case 'year':
+      return { [rule.field]: { gte: new Date(Date.UTC(rule.value, 0, 1)), lt: new Date(Date.UTC(rule.value + 1, 0, 1)) } };
+    case 'lastDays':
+      return { [rule.field]: { gte: new Date(Date.now() - rule.value * DAY) } };
+  }
+}
+
+/**
+ * The owner's stored images that a smart collection's rules select, as a
+ * query the database can page through
+ */
+export function smartCollectionWhere(userId: string, rules: SmartRules): Prisma.StoredImageWhereInput {
+  const conditions = rules.conditions.map(ruleWhere);
+  if (conditions.length === 0) return { userId };
+  return { userId, [rules.match === 'all' ? 'AND' : 'OR']: conditions };
+}
+
+// Rules are validated before they're saved (see schemas.createCollection)
+export const collectionRules = (collection: { rules: Prisma.JsonValue | null }) =>
+  collection.rules as SmartRules | null;
+
+/**
+ * A collection as the API returns it (see Collection in shared/api.ts).
+ * Smart collections are counted, and their first image found, from the rules.
+ */
+export async function toCollection(
+  db: PrismaClient | Prisma.TransactionClient,
+  { userId, _count, coverImage, items, ...collection }: CollectionWithCover
+) {
+  const rules = collectionRules(collection);
+  if (!rules) {
+    return { ...collection, rules, imageCount: _count.items, cover: coverImage ?? items[0]?.storedImage ?? null };
+  }
+
+  const where = smartCollectionWhere(userId, rules);
+  const [imageCount, first] = await Promise.all([
+    db.storedImage.count({ where }),
+    coverImage ? null : db.storedImage.findFirst({ where, orderBy: smartOrder, select: coverSelect }),
+  ]);
+  return { ...collection, rules, imageCount, cover: coverImage ?? first };
+}
+
+/**
+ * Append images to the end of a collection in the order given. Images that
+ * are already in it, or that aren't the user's, are skipped.
+ */
+export async function addToCollection(
+  tx: Prisma.TransactionClient,
+  collectionId: string,
+  userId: string,
+  imageIds: string[]
+): Promise<{ added: number } | { error: string }> {
+  const [owned, present, current] = await Promise.all([
+    tx.storedImage.findMany({ where: { id: { in: imageIds }, userId }, select: { id: true } }),
+    tx.collectionItem.findMany({
+      where: { collectionId, storedImageId: { in: imageIds } },
+      select: { storedImageId: true }
+    }),
+    tx.collectionItem.aggregate({ where: { collectionId }, _count: true, _max: { position: true } }),
+  ]);
+
+  const ownedIds = new Set(owned.map(image => image.id));
+  const presentIds = new Set(present.map(item => item.storedImageId));
+  const toAdd = [...new Set(imageIds)].filter(id => ownedIds.has(id) && !presentIds.has(id));
+
+  if (current._count + toAdd.length > MAX_COLLECTION_IMAGES) {
+    return { error: `A collection can hold at most ${MAX_COLLECTION_IMAGES} images` };
+  }
+
+  const start = (current._max.position ?? -1) + 1;
+  await tx.collectionItem.createMany({
+    data: toAdd.map((storedImageId, index) => ({ collectionId, storedImageId, position: start + index }))
+  });
+  return { added: toAdd.length };
+}
+
+/**
+ * Put a collection's images in the given order, which must list each of them
+ * exactly once. Returns an error message when it doesn't.
+ */
+export async function reorderCollection(
+  tx: Prisma.TransactionClient,
+  collectionId: string,
+  imageIds: string[]
+): Promise<string | null> {
+  const items = await tx.collectionItem.findMany({
+    where: { collectionId },
+    select: { storedImageId: true, position: true }
+  });
+
+  const positions = new Map(items.map(item => [item.storedImageId, item.position]));
+  if (imageIds.length !== positions.size || new Set(imageIds).size !== imageIds.length || !imageIds.every(id => positions.has(id))) {
+    return 'imageIds must list every image in the collection exactly once';
+  }
+
+  // Only the images that moved, written in one statement however many there are
+  const moved = [...imageIds.entries()].filter(([position, storedImageId]) => positions.get(storedImageId) !== position);
+  if (moved.length > 0) {
+    await tx.$executeRaw`
+      UPDATE "CollectionItem" SET "position" = moved."position"
+      FROM unnest(${moved.map(([, storedImageId]) => storedImageId)}::text[], ${moved.map(([position]) => position)}::int[])
+        AS moved("storedImageId", "position")
+      WHERE "CollectionItem"."collectionId" = ${collectionId}
+        AND "CollectionItem"."storedImageId" = moved."storedImageId"
+    `;
+  }
+  return null;
+}
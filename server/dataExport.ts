@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { ZipArchive } from 'archiver';
+import type { PrismaClient } from '@prisma/client';
+import { escapeHtml } from './emailTemplates';
+
+// Personal data export ("takeout"). A job row tracks progress while the
+// archive is built in the background; the finished ZIP sits in EXPORT_DIR
+// until it expires. Each section becomes data/<name>.json plus a table in
+// index.html.
+
+export const EXPORT_EXPIRY = 7 * 24 * 60 * 60 * 1000; // 7 days
+const EXPIRED_CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+export const exportDirFromEnv = (env: NodeJS.ProcessEnv = process.env) =>
+  path.resolve(env.EXPORT_DIR || '.exports');
+
+interface ExportSection {
+  name: string;
+  title: string;
+  load: (prisma: PrismaClient, userId: string) => Promise<unknown>;
+}
+
+// Collected in this order; progress advances one step per section
+const sections: ExportSection[] = [
+  {
+    name: 'profile',
+    title: 'Profile',
+    // Secrets (password hash, TOTP secret, tokens) are left out on purpose
+    load: (prisma, userId) => prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        avatar: true,
+        bio: true,
+        role: true,
+        emailVerified: true,
+        twoFactorEnabled: true,
+        lastLoginAt: true,
+        createdAt: true,
+        updatedAt: true,
+      }
+    }),
+  },
+  {
+    name: 'preferences',
+    title: 'Preferences',
+    load: (prisma, userId) => prisma.userPreferences.findUnique({ where: { userId } }),
+  },
+  {
+    name: 'blogs',
+    title: 'Blogs',
+    load: (prisma, userId) => prisma.blog.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  },
+  {
+    name: 'posts',
+    title: 'Posts',
+    load: (prisma, userId) => prisma.post.findMany({ where: { userId }, orderBy: { timestamp: 'asc' } }),
+  },
+  {
+    name: 'drafts',
+    title: 'Drafts',
+    load: (prisma, userId) => prisma.draft.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  },
+  {
+    name: 'saved-posts',
+    title: 'Saved posts',
+    load: (prisma, userId) => prisma.savedPost.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  },
+  {
+    name: 'liked-posts',
+    title: 'Liked posts',
+    load: (prisma, userId) => prisma.likedPost.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  },
+  {
+    name: 'following',
+    title: 'Following',
+    load: (prisma, userId) => prisma.follow.findMany({
+      where: { followerId: userId },
+      select: { followingId: true, following: { select: { username: true } }, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+  },
+  {
+    name: 'followers',
+    title: 'Followers',
+    load: (prisma, userId) => prisma.follow.findMany({
+      where: { followingId: userId },
+      select: { followerId: true, follower: { select: { username: true } }, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+  },
+  {
+    name: 'stored-images',
+    title: 'Stored images',
+    load: (prisma, userId) => prisma.storedImage.findMany({ where: { userId }, orderBy: { storedAt: 'asc' } }),
+  },
+  {
+    name: 'collections',
+    title: 'Collections',
+    load: (prisma, userId) => prisma.collection.findMany({
+      where: { userId },
+      include: { items: { select: { storedImageId: true }, orderBy: [{ position: 'asc' }, { addedAt: 'asc' }] } },
+      orderBy: { createdAt: 'asc' }
+    }),
+  },
+  {
+    name: 'search-history',
+    title: 'Search history',
+    load: (prisma, userId) => prisma.searchHistory.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+  },
+];
+
+// ==================== HTML INDEX ====================
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const renderTable = (rows: Record<string, unknown>[]): string => {
+  if (rows.length === 0) {
+    return '<p class="empty">Nothing here.</p>';
+  }
+
+  const columns = Object.keys(rows[0]);
+  const head = columns.map(column => `<th>${escapeHtml(column)}</th>`).join('');
+  const body = rows
+    .map(row => `<tr>${columns.map(column => `<td>${escapeHtml(formatCell(row[column]))}</td>`).join('')}</tr>`)
+    .join('\n');
+
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+};
+
+const asRows = (data: unknown): Record<string, unknown>[] => {
+  if (Array.isArray(data)) return data;
+  return data ? [data as Record<string, unknown>] : [];
+};
+
+export function renderExportIndex(username: string, data: Record<string, unknown>, generatedAt: Date): string {
+  const contents = sections
+    .map(section => `<li><a href="#${section.name}">${escapeHtml(section.title)}</a> (${asRows(data[section.name]).length})</li>`)
+    .join('\n');
+
+  const body = sections
+    .map(section => `
+<section id="${section.name}">
+  <h2>${escapeHtml(section.title)}</h2>
+  <p class="file">data/${section.name}.json</p>
+  ${renderTable(asRows(data[section.name]))}
+</section>`)
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Data export for ${escapeHtml(username)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 32px; color: #111827; }
+  table { border-collapse: collapse; font-size: 13px; margin-bottom: 24px; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  .file, .empty { color: #6b7280; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>Data export for ${escapeHtml(username)}</h1>
+<p>Generated ${generatedAt.toISOString()}. The same data is in the <code>data/</code> folder as JSON.</p>
+<ul>
+${contents}
+</ul>
+${body}
+</body>
+</html>
+`;
+}
+
+// ==================== JOB ====================
+
+/**
+ * Build the archive for an export row and record progress as it goes.
+ * Never throws: failures are stored on the row for the client to show.
+ */
+export async function runDataExport(prisma: PrismaClient, exportId: string, exportDir = exportDirFromEnv()) {
+  const fileName = `${exportId}.zip`;
+  const filePath = path.join(exportDir, fileName);
+
+  try {
+    const job = await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: 'RUNNING', progress: 0 },
+      include: { user: { select: { username: true } } }
+    });
+
+    const data: Record<string, unknown> = {};
+    // The last step is writing the archive itself
+    const steps = sections.length + 1;
+
+    for (const [index, section] of sections.entries()) {
+      data[section.name] = await section.load(prisma, job.userId);
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: { progress: Math.round(((index + 1) / steps) * 100) }
+      });
+    }
+
+    await fs.promises.mkdir(exportDir, { recursive: true });
+
+    const archive = new ZipArchive({ zlib: { level: 9 } });
+    const written = pipeline(archive, fs.createWriteStream(filePath));
+
+    archive.append(renderExportIndex(job.user.username, data, new Date()), { name: 'index.html' });
+    for (const section of sections) {
+      archive.append(JSON.stringify(data[section.name], null, 2), { name: `data/${section.name}.json` });
+    }
+
+    await archive.finalize();
+    await written;
+
+    const { size } = await fs.promises.stat(filePath);
+    const completedAt = new Date();
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'READY',
+        progress: 100,
+        fileName,
+        size,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_EXPIRY),
+      }
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    await fs.promises.rm(filePath, { force: true });
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: 'FAILED', error: 'Export failed. Please try again.', completedAt: new Date() }
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Delete a user's earlier exports (rows and archives) before starting a new one
+ */
+export async function removeDataExports(prisma: PrismaClient, userId: string, exportDir = exportDirFromEnv()) {
+  const previous = await prisma.dataExport.findMany({ where: { userId }, select: { id: true, fileName: true } });
+
+  await Promise.all(
+    previous
+      .filter(job => job.fileName)
+      .map(job => fs.promises.rm(path.join(exportDir, job.fileName!), { force: true }))
+  );
+  await prisma.dataExport.deleteMany({ where: { id: { in: previous.map(job => job.id) } } });
+}
+
+/**
+ * Delete the archives of exports whose download link has expired. The rows
+ * stay, so the client can still say the latest export expired. Returns how
+ * many archives were deleted.
+ */
+export async function removeExpiredDataExports(prisma: PrismaClient, now = new Date(), exportDir = exportDirFromEnv()): Promise<number> {
+  const expired = await prisma.dataExport.findMany({
+    where: { expiresAt: { lte: now }, fileName: { not: null } },
+    select: { id: true, fileName: true }
+  });
+
+  for (const job of expired) {
+    await fs.promises.rm(path.join(exportDir, job.fileName!), { force: true });
+    await prisma.dataExport.update({ where: { id: job.id }, data: { fileName: null } });
+  }
+
+  return expired.length;
+}
+
+/**
+ * Clean up expired exports now and then every hour for as long as the process lives
+ */
+export function scheduleExpiredExportCleanup(prisma: PrismaClient, intervalMs = EXPIRED_CLEANUP_INTERVAL) {
+  const run = () => {
+    removeExpiredDataExports(prisma).catch(error => console.error('Expired data export cleanup error:', error));
+  };
+
+  run();
+  setInterval(run, intervalMs).unref();
+}
+
+/**
+ * Jobs only run in-process, so anything unfinished at startup was cut off by a restart
+ */
+export async function failInterruptedExports(prisma: PrismaClient) {
+  await prisma.dataExport.updateMany({
+    where: { status: { in: ['PENDING', 'RUNNING'] } },
+    data: { status: 'FAILED', error: 'Export was interrupted. Please try again.', completedAt: new Date() }
+  });
+}
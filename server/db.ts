@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// One client for the whole server; routers and services import it from here
+export const prisma = new PrismaClient();
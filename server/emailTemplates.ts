@@ -0,0 +1,312 @@
+// HTML and plain-text bodies for transactional emails
+
+const APP_NAME = 'Tumblr T3';
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Shared HTML shell: inline styles only, since most mail clients strip <style>
+ */
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#111827;">
+    <div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+      <h1 style="margin:0 0 24px;font-size:20px;">${escapeHtml(title)}</h1>
+      ${body}
+      <p style="margin:32px 0 0;font-size:12px;color:#6b7280;">${APP_NAME}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+const paragraph = (text: string) =>
+  `<p style="margin:0 0 16px;font-size:15px;line-height:1.5;">${text}</p>`;
+
+const button = (url: string, label: string) =>
+  `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;border-radius:8px;text-decoration:none;font-weight:600;">${escapeHtml(label)}</a></p>`;
+
+const fallbackLink = (url: string) =>
+  `<p style="margin:0 0 16px;font-size:12px;color:#6b7280;word-break:break-all;">Or paste this link into your browser:<br>${escapeHtml(url)}</p>`;
+
+// ==================== TEMPLATES ====================
+
+export function verificationEmail({ username, url }: { username: string; url: string }): EmailContent {
+  const title = 'Verify your email address';
+  return {
+    subject: `${title} for ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`Thanks for signing up. Confirm this is your email address to finish setting up your account.`),
+      button(url, 'Verify email'),
+      fallbackLink(url),
+      paragraph(`If you didn't create an account, you can ignore this email.`),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      'Thanks for signing up. Confirm this is your email address to finish setting up your account:',
+      '',
+      url,
+      '',
+      "If you didn't create an account, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function passwordResetEmail({ username, url, expiresInMinutes }: {
+  username: string;
+  url: string;
+  expiresInMinutes: number;
+}): EmailContent {
+  const title = 'Reset your password';
+  return {
+    subject: `${title} for ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`Someone asked to reset the password for your account. The link below works once and expires in ${expiresInMinutes} minutes.`),
+      button(url, 'Choose a new password'),
+      fallbackLink(url),
+      paragraph(`If you didn't ask for this, you can ignore this email. Your password won't change.`),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `Someone asked to reset the password for your account. This link works once and expires in ${expiresInMinutes} minutes:`,
+      '',
+      url,
+      '',
+      "If you didn't ask for this, you can ignore this email. Your password won't change.",
+    ].join('\n'),
+  };
+}
+
+// Sent to the new address; the email only changes once this link is followed
+export function emailChangeConfirmationEmail({ username, newEmail, url, expiresInHours }: {
+  username: string;
+  newEmail: string;
+  url: string;
+  expiresInHours: number;
+}): EmailContent {
+  const title = 'Confirm your new email address';
+  return {
+    subject: `${title} for ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`You asked to change the email address on your account to <strong>${escapeHtml(newEmail)}</strong>. Confirm it's yours to finish the change. The link expires in ${expiresInHours} hours.`),
+      button(url, 'Confirm new email'),
+      fallbackLink(url),
+      paragraph(`If you didn't ask for this, you can ignore this email. Nothing will change.`),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `You asked to change the email address on your account to ${newEmail}. Confirm it's yours to finish the change. This link expires in ${expiresInHours} hours:`,
+      '',
+      url,
+      '',
+      "If you didn't ask for this, you can ignore this email. Nothing will change.",
+    ].join('\n'),
+  };
+}
+
+// Sent to the current address, with a way back in case someone else made the change
+export function emailChangeNoticeEmail({ username, newEmail, revertUrl, expiresInDays }: {
+  username: string;
+  newEmail: string;
+  revertUrl: string;
+  expiresInDays: number;
+}): EmailContent {
+  const title = 'Your email address is being changed';
+  return {
+    subject: `${title} on ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`Someone asked to change the email address on your account to <strong>${escapeHtml(newEmail)}</strong>. It will switch once that address is confirmed.`),
+      paragraph(`If this wasn't you, use the button below within ${expiresInDays} days. It keeps this address on the account (or puts it back), signs out every session, and you should then reset your password.`),
+      button(revertUrl, 'Keep my current email'),
+      fallbackLink(revertUrl),
+      paragraph(`If you made this change, there's nothing else to do.`),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `Someone asked to change the email address on your account to ${newEmail}. It will switch once that address is confirmed.`,
+      '',
+      `If this wasn't you, open this link within ${expiresInDays} days. It keeps this address on the account (or puts it back), signs out every session, and you should then reset your password:`,
+      '',
+      revertUrl,
+      '',
+      "If you made this change, there's nothing else to do.",
+    ].join('\n'),
+  };
+}
+
+export function newDeviceLoginEmail({ username, ipAddress, userAgent, time = new Date(), notMeUrl, expiresInDays }: Omit<SecurityAlert, 'event'> & {
+  username: string;
+  notMeUrl: string;
+  expiresInDays: number;
+}): EmailContent {
+  const title = 'New sign-in to your account';
+  const details = [
+    ['When', time.toUTCString()],
+    ['IP address', ipAddress],
+    ['Device', userAgent],
+  ].filter((row): row is [string, string] => !!row[1]);
+
+  return {
+    subject: `${title} on ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`Your ${APP_NAME} account was just signed in to from a device it hasn't been used on before.`),
+      `<table style="margin:0 0 16px;font-size:14px;border-collapse:collapse;">${details
+        .map(([label, value]) => `<tr><td style="padding:4px 16px 4px 0;color:#6b7280;">${label}</td><td style="padding:4px 0;">${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>`,
+      paragraph(`If this was you, there's nothing else to do. If not, use the button below within ${expiresInDays} days: it signs out every session and asks you to choose a new password.`),
+      button(notMeUrl, 'This wasn\'t me'),
+      fallbackLink(notMeUrl),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `Your ${APP_NAME} account was just signed in to from a device it hasn't been used on before.`,
+      '',
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      '',
+      `If this was you, there's nothing else to do. If not, open this link within ${expiresInDays} days: it signs out every session and asks you to choose a new password.`,
+      '',
+      notMeUrl,
+    ].join('\n'),
+  };
+}
+
+export function accountDeletionScheduledEmail({ username, scheduledFor, signInUrl }: {
+  username: string;
+  scheduledFor: Date;
+  signInUrl: string;
+}): EmailContent {
+  const title = 'Your account is scheduled for deletion';
+  const when = scheduledFor.toUTCString();
+  return {
+    subject: `${title} on ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`We got your request to delete your account. It and everything in it will be permanently deleted on <strong>${escapeHtml(when)}</strong>.`),
+      paragraph(`Changed your mind? Sign in before then and you'll be offered the option to keep your account.`),
+      button(signInUrl, 'Sign in to cancel'),
+      paragraph(`If you didn't ask for this, sign in and cancel the deletion, then change your password.`),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `We got your request to delete your account. It and everything in it will be permanently deleted on ${when}.`,
+      '',
+      "Changed your mind? Sign in before then and you'll be offered the option to keep your account:",
+      '',
+      signInUrl,
+      '',
+      "If you didn't ask for this, sign in and cancel the deletion, then change your password.",
+    ].join('\n'),
+  };
+}
+
+export function accountDeletionCancelledEmail({ username, settingsUrl }: { username: string; settingsUrl: string }): EmailContent {
+  const title = 'Your account will not be deleted';
+  return {
+    subject: `${title} from ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`The pending deletion of your account was cancelled and everything is back to normal.`),
+      paragraph(`If you didn't do this, change your password right away.`),
+      button(settingsUrl, 'Review security settings'),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      'The pending deletion of your account was cancelled and everything is back to normal.',
+      '',
+      "If you didn't do this, change your password right away:",
+      '',
+      settingsUrl,
+    ].join('\n'),
+  };
+}
+
+export function accountDeletedEmail({ username }: { username: string }): EmailContent {
+  const title = 'Your account has been deleted';
+  return {
+    subject: `${title} from ${APP_NAME}`,
+    html: layout(title, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`As requested, your ${APP_NAME} account and all of its data have been permanently deleted. This can't be undone.`),
+      paragraph(`Thanks for being part of ${APP_NAME}.`),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `As requested, your ${APP_NAME} account and all of its data have been permanently deleted. This can't be undone.`,
+      '',
+      `Thanks for being part of ${APP_NAME}.`,
+    ].join('\n'),
+  };
+}
+
+export interface SecurityAlert {
+  // Short description, e.g. "Your password was changed"
+  event: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  time?: Date;
+}
+
+export function securityAlertEmail({ username, event, ipAddress, userAgent, time = new Date(), settingsUrl }: SecurityAlert & {
+  username: string;
+  settingsUrl: string;
+}): EmailContent {
+  const details = [
+    ['When', time.toUTCString()],
+    ['IP address', ipAddress],
+    ['Device', userAgent],
+  ].filter((row): row is [string, string] => !!row[1]);
+
+  return {
+    subject: `Security alert: ${event}`,
+    html: layout(event, [
+      paragraph(`Hi ${escapeHtml(username)},`),
+      paragraph(`${escapeHtml(event)} on your ${APP_NAME} account.`),
+      `<table style="margin:0 0 16px;font-size:14px;border-collapse:collapse;">${details
+        .map(([label, value]) => `<tr><td style="padding:4px 16px 4px 0;color:#6b7280;">${label}</td><td style="padding:4px 0;">${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>`,
+      paragraph(`If this was you, there's nothing else to do. If not, change your password right away and sign out any sessions you don't recognize.`),
+      button(settingsUrl, 'Review security settings'),
+    ].join('\n')),
+    text: [
+      `Hi ${username},`,
+      '',
+      `${event} on your ${APP_NAME} account.`,
+      '',
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      '',
+      "If this was you, there's nothing else to do. If not, change your password right away and sign out any sessions you don't recognize:",
+      '',
+      settingsUrl,
+    ].join('\n'),
+  };
+}
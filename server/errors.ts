@@ -0,0 +1,40 @@
+import type express from 'express';
+import { errorCodeForStatus, type ApiErrorCode } from '../shared/apiError';
+
+// Every error response goes through sendError so it has the shape described
+// in shared/apiError.ts: { error: CODE, message, status, ...extras }.
+
+export type ErrorExtras = { error?: ApiErrorCode } & Record<string, unknown>;
+
+/**
+ * Reply with the shared error envelope. The code defaults to the one for the
+ * status; extras (fields, retryAfter, accountStatus...) are merged in.
+ */
+export function sendError(res: express.Response, status: number, message: string, extras: ErrorExtras = {}) {
+  const { error = errorCodeForStatus(status), ...rest } = extras;
+  return res.status(status).json({ error, message, status, ...rest });
+}
+
+// Unknown /api paths get a JSON 404 instead of falling through to the SPA
+export const apiNotFound: express.RequestHandler = (req, res) => {
+  sendError(res, 404, `No route for ${req.method} ${req.baseUrl}${req.path}`);
+};
+
+/**
+ * Last middleware: body parser failures and anything a handler didn't catch
+ */
+export const errorHandler: express.ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  switch (error?.type) {
+    case 'entity.parse.failed':
+      return sendError(res, 400, 'Request body is not valid JSON');
+    case 'entity.too.large':
+      return sendError(res, 413, 'Request body is too large');
+  }
+
+  console.error('Unhandled error:', error);
+  sendError(res, 500, 'Something went wrong');
+};
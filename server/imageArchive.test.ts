@@ -0,0 +1,244 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { fetch, Response, type ResponseInit } from 'undici';
+import type { PrismaClient } from '@prisma/client';
+import { sha256Hex, type BlobStore } from './blobStore';
+import { archiveImage, MAX_ARCHIVED_IMAGE_BYTES, releaseBlobs } from './imageArchive';
+
+// Real fetch unless a test answers for the image host
+vi.mock('undici', async (importOriginal) => {
+  const undici = await importOriginal<typeof import('undici')>();
+  return { ...undici, fetch: vi.fn(undici.fetch) };
+});
+
+const PUBLIC_URL = 'http://93.184.216.34/photo.png';
+
+const blobStore = () => {
+  const put = vi.fn().mockResolvedValue(undefined);
+  const remove = vi.fn().mockResolvedValue(undefined);
+  return { put, remove, store: { put, delete: remove } as unknown as BlobStore };
+};
+
+// Transactions run straight through on tx
+const database = () => {
+  const tx = {
+    $executeRaw: vi.fn().mockResolvedValue(1),
+    storedImage: { findFirst: vi.fn().mockResolvedValue(null) },
+  };
+  const prisma = {
+    $transaction: vi.fn((run: (client: typeof tx) => unknown) => Promise.resolve().then(() => run(tx))),
+    storedImage: { findMany: vi.fn().mockResolvedValue([]) },
+  };
+  return { tx, prisma, client: prisma as unknown as PrismaClient };
+};
+
+// Archive without recording anything, for the tests about fetching
+const archive = (store: BlobStore, url: string) =>
+  archiveImage(database().client, store, url, async (_tx, file) => file);
+
+const reply = (body: ConstructorParameters<typeof Response>[0], init: ResponseInit = {}) =>
+  new Response(body, { headers: { 'content-type': 'image/png' }, ...init });
+
+// A server on this machine, standing in for anything private a URL could lead to
+const requests: string[] = [];
+const server = http.createServer((req, res) => {
+  requests.push(req.url!);
+  res.writeHead(200, { 'content-type': 'image/png' }).end('png');
+});
+let local: string;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  local = `localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  vi.mocked(fetch).mockClear();
+  requests.length = 0;
+});
+
+const PNG_HASH = sha256Hex(Buffer.from('png'));
+
+describe('archiveImage', () => {
+  it('stores the file under its hash and records it', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply('png', { headers: { 'content-type': 'image/PNG; charset=binary' } }));
+    const { put, store } = blobStore();
+    const { tx, client } = database();
+    const record = vi.fn().mockResolvedValue({ id: 'image-1' });
+
+    expect(await archiveImage(client, store, PUBLIC_URL, record)).toEqual({ id: 'image-1' });
+    expect(put).toHaveBeenCalledWith(PNG_HASH, Buffer.from('png'));
+    expect(record).toHaveBeenCalledWith(tx, { sha256: PNG_HASH, byteSize: 3, mimeType: 'image/png' });
+  });
+
+  it('records the file under its lock, putting it again in case it was released meanwhile', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply('png'));
+    const { put, store } = blobStore();
+    const { tx, client } = database();
+    const record = vi.fn().mockResolvedValue({ id: 'image-1' });
+
+    await archiveImage(client, store, PUBLIC_URL, record);
+
+    const [lock] = tx.$executeRaw.mock.invocationCallOrder;
+    expect(put.mock.invocationCallOrder).toEqual([expect.any(Number), expect.any(Number)]);
+    expect(put.mock.invocationCallOrder[0]).toBeLessThan(lock);
+    expect(put.mock.invocationCallOrder[1]).toBeGreaterThan(lock);
+    expect(record.mock.invocationCallOrder[0]).toBeGreaterThan(put.mock.invocationCallOrder[1]);
+  });
+
+  it('records nothing when the download fails', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply('gone', { status: 404 }));
+    const { prisma, client } = database();
+
+    await expect(archiveImage(client, blobStore().store, PUBLIC_URL, vi.fn())).rejects.toThrow('Image host answered HTTP 404');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses URLs that are not http or https', async () => {
+    await expect(archive(blobStore().store, 'file:///etc/passwd')).rejects.toThrow('Image URL must be http or https');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    'http://127.0.0.1/photo.png',
+    'http://10.0.0.5/photo.png',
+    'http://172.20.1.1/photo.png',
+    'http://192.168.1.1/photo.png',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://100.100.1.1/photo.png',
+    'http://192.0.0.170/photo.png',
+    'http://198.19.255.1/photo.png',
+    'http://0.0.0.0/photo.png',
+  ])('refuses the private IPv4 address in %s', async (url) => {
+    await expect(archive(blobStore().store, url)).rejects.toThrow('Image host is not allowed');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    'http://[::1]/photo.png',
+    'http://[::]/photo.png',
+    'http://[fd00::1]/photo.png',
+    'http://[fe80::1]/photo.png',
+    'http://[64:ff9b::a9fe:a9fe]/photo.png',
+  ])('refuses the private IPv6 address in %s', async (url) => {
+    await expect(archive(blobStore().store, url)).rejects.toThrow('Image host is not allowed');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    'http://[::ffff:127.0.0.1]/photo.png',
+    'http://[::ffff:a9fe:a9fe]/photo.png',
+  ])('refuses the IPv4-mapped private address in %s', async (url) => {
+    await expect(archive(blobStore().store, url)).rejects.toThrow('Image host is not allowed');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses host names that resolve to a private address, without connecting', async () => {
+    await expect(archive(blobStore().store, `http://${local}/photo.png`)).rejects.toThrow('Image host is not allowed');
+    expect(requests).toEqual([]);
+  });
+
+  it('refuses redirects to a private address', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data/' } }));
+
+    await expect(archive(blobStore().store, PUBLIC_URL)).rejects.toThrow('Image host is not allowed');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses redirects to a host name that resolves to a private address', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply(null, { status: 301, headers: { location: `//${local}/photo.png` } }));
+
+    await expect(archive(blobStore().store, PUBLIC_URL)).rejects.toThrow('Image host is not allowed');
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(requests).toEqual([]);
+  });
+
+  it('gives up after five redirects', async () => {
+    vi.mocked(fetch).mockImplementation(async () => reply(null, { status: 302, headers: { location: PUBLIC_URL } }));
+
+    try {
+      await expect(archive(blobStore().store, PUBLIC_URL)).rejects.toThrow('Image host redirected too many times');
+      expect(fetch).toHaveBeenCalledTimes(6);
+    } finally {
+      vi.mocked(fetch).mockRestore();
+    }
+  });
+
+  it('refuses files that are not images', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply('<html>', { headers: { 'content-type': 'text/html' } }));
+
+    await expect(archive(blobStore().store, PUBLIC_URL)).rejects.toThrow('Not an image (text/html)');
+  });
+
+  it('refuses files that say they are over the size cap before downloading them', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(reply('png', {
+      headers: { 'content-type': 'image/png', 'content-length': String(MAX_ARCHIVED_IMAGE_BYTES + 1) },
+    }));
+    const { put, store } = blobStore();
+
+    await expect(archive(store, PUBLIC_URL)).rejects.toThrow('Image is too large to archive');
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('stops downloading once the file passes the size cap, whatever it says its size is', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    vi.mocked(fetch).mockResolvedValueOnce(reply(body, { headers: { 'content-type': 'image/gif', 'content-length': '1024' } }));
+    const { put, store } = blobStore();
+
+    await expect(archive(store, PUBLIC_URL)).rejects.toThrow('Image is too large to archive');
+    expect(cancelled).toBe(true);
+    expect(sent).toBeLessThanOrEqual(MAX_ARCHIVED_IMAGE_BYTES + 2 * chunk.byteLength);
+    expect(put).not.toHaveBeenCalled();
+  });
+});
+
+describe('releaseBlobs', () => {
+  const [a, b, c] = ['a', 'b', 'c'].map(letter => letter.repeat(64));
+
+  it('deletes the blobs no stored image uses, checking each again under its lock', async () => {
+    const { remove, store } = blobStore();
+    const { tx, prisma, client } = database();
+    // b is still used; c gets used by an image stored after the first check
+    prisma.storedImage.findMany.mockResolvedValue([{ sha256: b }]);
+    tx.storedImage.findFirst.mockImplementation(async ({ where }) => (where.sha256 === c ? { id: 'image-2' } : null));
+
+    await releaseBlobs(client, store, [a, null, b, c, a]);
+
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(tx.storedImage.findFirst).toHaveBeenCalledTimes(2);
+    expect(tx.$executeRaw.mock.invocationCallOrder[1]).toBeLessThan(tx.storedImage.findFirst.mock.invocationCallOrder[1]);
+    expect(remove.mock.calls).toEqual([[a]]);
+  });
+
+  it('locks on the first 64 bits of the hash', async () => {
+    const { tx, client } = database();
+
+    await releaseBlobs(client, blobStore().store, ['f'.repeat(64), `00000000000000ff${'0'.repeat(48)}`]);
+
+    expect(tx.$executeRaw.mock.calls.map(([, key]) => key)).toEqual([-1n, 255n]);
+  });
+
+  it('does nothing without hashes', async () => {
+    const { prisma, client } = database();
+
+    await releaseBlobs(client, blobStore().store, [null]);
+
+    expect(prisma.storedImage.findMany).not.toHaveBeenCalled();
+  });
+});
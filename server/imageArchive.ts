@@ -0,0 +1,267 @@
+import { lookup } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent, fetch, type Response } from 'undici';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { hashStream, sha256Hex, type BlobStore } from './blobStore';
+
+// Stored images keep a copy of the file itself, not just the remote URL, so
+// the library survives the original host deleting or rotating it. Files go to
+// the blob store by content hash; StoredImage rows record the hash, size and
+// type and are served back from GET /api/stored-images/:id/file.
+
+export const MAX_ARCHIVED_IMAGE_BYTES = 50 * 1024 * 1024; // 50 MB, large GIFs included
+const FETCH_TIMEOUT = 30 * 1000;
+const MAX_REDIRECTS = 5;
+const HOST_NOT_ALLOWED = 'Image host is not allowed';
+// Putting a blob again under its lock is usually only a check, but can be a re-upload
+const BLOB_TRANSACTION_TIMEOUT = 60 * 1000;
+
+// Addresses an image URL must not lead to: the URL comes from the client, and
+// the server can reach things the client can't (its own ports, the LAN, cloud
+// metadata at 169.254.169.254)
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4'); // "this network"
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // carrier-grade NAT, Tailscale
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4'); // protocol assignments
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4'); // benchmarking
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4'); // multicast and reserved
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64, IPv4 addresses in disguise
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6'); // unique local
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6'); // link-local
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6'); // multicast
+
+export interface ArchivedFile {
+  sha256: string;
+  byteSize: number;
+  mimeType: string;
+}
+
+/**
+ * Whether an IP address is one the server may fetch from (IPv4-mapped IPv6
+ * addresses are checked as the IPv4 address they stand for)
+ */
+const isPublicAddress = (address: string) =>
+  !PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+/**
+ * Name resolution for image downloads. The check runs on the very addresses
+ * the socket connects to, so a DNS server can't answer a public address to a
+ * check and a private one to the download.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, []);
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new Error(HOST_NOT_ALLOWED), []);
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const imageHosts = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+/**
+ * Refuse URLs that aren't http(s) or name a private IP address. Host names
+ * are checked as they're resolved, by publicOnlyLookup.
+ */
+function checkImageUrl(url: URL) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Image URL must be http or https');
+  }
+
+  // [::1] -> ::1; sockets connect to IP addresses without looking them up
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new Error(HOST_NOT_ALLOWED);
+  }
+}
+
+/**
+ * Fetch an image URL, following redirects by hand so every hop is checked
+ */
+async function fetchImage(url: string, signal: AbortSignal): Promise<Response> {
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new Error('Invalid image URL');
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    checkImageUrl(current);
+    const response = await fetch(current, { redirect: 'manual', signal, dispatcher: imageHosts }).catch(error => {
+      // fetch reports connection errors as "fetch failed", with the reason as the cause
+      if (error?.cause?.message === HOST_NOT_ALLOWED) throw error.cause;
+      if (error?.cause?.code === 'ENOTFOUND') throw new Error('Image host could not be found');
+      throw error;
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error('Image host redirected too many times');
+    }
+    current = new URL(location, current);
+  }
+}
+
+/**
+ * Lock a blob's hash until the transaction ends. Recording a row for a blob
+ * and deleting a blob no row uses both happen under it, so a delete can't
+ * remove the file between a new row's put (skipped, the file being there)
+ * and its insert.
+ */
+function lockBlob(tx: Prisma.TransactionClient, sha256: string) {
+  // The hash's first 64 bits make the bigint key
+  return tx.$executeRaw`SELECT pg_advisory_xact_lock(${BigInt.asIntN(64, BigInt(`0x${sha256.slice(0, 16)}`))})`;
+}
+
+/**
+ * Download an image, put it in the blob store and record it with record,
+ * which gets the transaction and the file's hash, size and type. Throws with
+ * a message that is safe to show when the file can't be fetched or isn't an
+ * image.
+ */
+export async function archiveImage<T>(
+  prisma: PrismaClient,
+  store: BlobStore,
+  url: string,
+  record: (tx: Prisma.TransactionClient, file: ArchivedFile) => Promise<T>
+): Promise<T> {
+  const response = await fetchImage(url, AbortSignal.timeout(FETCH_TIMEOUT));
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`Image host answered HTTP ${response.status}`);
+  }
+
+  const mimeType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!mimeType.startsWith('image/')) {
+    await response.body.cancel();
+    throw new Error(`Not an image (${mimeType || 'unknown type'})`);
+  }
+
+  const declaredSize = Number(response.headers.get('content-length'));
+  if (declaredSize > MAX_ARCHIVED_IMAGE_BYTES) {
+    await response.body.cancel();
+    throw new Error('Image is too large to archive');
+  }
+
+  // Counted as it arrives, since Content-Length can be missing or wrong;
+  // leaving the loop early cancels the download
+  const chunks: Uint8Array[] = [];
+  let byteSize = 0;
+  for await (const chunk of response.body) {
+    byteSize += chunk.byteLength;
+    if (byteSize > MAX_ARCHIVED_IMAGE_BYTES) {
+      throw new Error('Image is too large to archive');
+    }
+    chunks.push(chunk);
+  }
+
+  const data = Buffer.concat(chunks);
+  const sha256 = sha256Hex(data);
+  // Uploaded before taking the lock, so slow uploads don't hold a connection
+  await store.put(sha256, data);
+
+  return prisma.$transaction(async (tx) => {
+    await lockBlob(tx, sha256);
+    // releaseBlobs may have deleted it since, if the last other row went
+    await store.put(sha256, data);
+    return record(tx, { sha256, byteSize, mimeType });
+  }, { timeout: BLOB_TRANSACTION_TIMEOUT });
+}
+
+/**
+ * Hashes of the archived files behind a user's stored images, collected
+ * before deleting the user since the cascade can't reach the blob store
+ */
+export async function storedImageBlobs(prisma: PrismaClient, userId: string): Promise<string[]> {
+  const images = await prisma.storedImage.findMany({
+    where: { userId, sha256: { not: null } },
+    select: { sha256: true },
+    distinct: ['sha256'],
+  });
+  return images.map(image => image.sha256!);
+}
+
+/**
+ * Delete the blobs that no stored image points at any more. Call after the
+ * rows are gone; blobs still shared with other rows (or users) are kept.
+ */
+export async function releaseBlobs(prisma: PrismaClient, store: BlobStore, hashes: (string | null)[]) {
+  const candidates = [...new Set(hashes.filter((hash): hash is string => !!hash))];
+  if (candidates.length === 0) return;
+
+  const stillUsed = await prisma.storedImage.findMany({
+    where: { sha256: { in: candidates } },
+    select: { sha256: true },
+    distinct: ['sha256'],
+  });
+  const keep = new Set(stillUsed.map(image => image.sha256));
+
+  for (const hash of candidates) {
+    if (keep.has(hash)) continue;
+    // Checked again under the lock, in case an image with the same file was just stored
+    await prisma.$transaction(async (tx) => {
+      await lockBlob(tx, hash);
+      const used = await tx.storedImage.findFirst({ where: { sha256: hash }, select: { id: true } });
+      if (!used) {
+        await store.delete(hash);
+      }
+    }, { timeout: BLOB_TRANSACTION_TIMEOUT }).catch(error => console.error(`Blob delete error for ${hash}:`, error));
+  }
+}
+
+export interface BlobProblem {
+  sha256: string;
+  problem: 'missing' | 'corrupt';
+}
+
+/**
+ * Check that every archived file stored images point at is in the store and
+ * still hashes to its name and recorded size
+ */
+export async function verifyArchivedImages(
+  prisma: PrismaClient,
+  store: BlobStore,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ checked: number; problems: BlobProblem[] }> {
+  const blobs = await prisma.storedImage.findMany({
+    where: { sha256: { not: null } },
+    select: { sha256: true, byteSize: true },
+    distinct: ['sha256'],
+  });
+
+  const problems: BlobProblem[] = [];
+  for (const [index, { sha256, byteSize }] of blobs.entries()) {
+    const stream = await store.get(sha256!);
+    if (!stream) {
+      problems.push({ sha256: sha256!, problem: 'missing' });
+    } else {
+      const actual = await hashStream(stream);
+      if (actual.sha256 !== sha256 || (byteSize !== null && actual.byteSize !== byteSize)) {
+        problems.push({ sha256: sha256!, problem: 'corrupt' });
+      }
+    }
+    onProgress?.(index + 1, blobs.length);
+  }
+
+  return { checked: blobs.length, problems };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Prisma } from '@prisma/client';
+import { generateInviteCode, hashInviteCode, redeemInviteCode, registrationModeFromEnv } from './invites';
+
+// Redeeming only goes through the transaction it's given
+vi.mock('./db', () => ({ prisma: {} }));
+
+describe('registrationModeFromEnv', () => {
+  it('defaults to open sign-up', () => {
+    expect(registrationModeFromEnv({})).toBe('open');
+    expect(registrationModeFromEnv({ REGISTRATION_MODE: '' })).toBe('open');
+  });
+
+  it('reads each mode', () => {
+    expect(registrationModeFromEnv({ REGISTRATION_MODE: 'open' })).toBe('open');
+    expect(registrationModeFromEnv({ REGISTRATION_MODE: 'invite' })).toBe('invite');
+    expect(registrationModeFromEnv({ REGISTRATION_MODE: 'closed' })).toBe('closed');
+  });
+
+  it('refuses anything else', () => {
+    expect(() => registrationModeFromEnv({ REGISTRATION_MODE: 'invite-only' })).toThrow('Unknown REGISTRATION_MODE: invite-only');
+  });
+});
+
+describe('generateInviteCode', () => {
+  it('makes distinct URL-safe codes and keeps their first characters as the prefix', () => {
+    const first = generateInviteCode();
+    const second = generateInviteCode();
+
+    expect(first.code).toMatch(/^[A-Za-z0-9_-]{16}$/);
+    expect(first.codePrefix).toBe(first.code.slice(0, 4));
+    expect(second.code).not.toBe(first.code);
+  });
+});
+
+describe('hashInviteCode', () => {
+  it('ignores surrounding spaces, so pasted codes still match', () => {
+    expect(hashInviteCode('  abc123 \n')).toBe(hashInviteCode('abc123'));
+    expect(hashInviteCode('abc123')).not.toBe(hashInviteCode('ABC123'));
+  });
+});
+
+describe('redeemInviteCode', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  const invite = (overrides: Record<string, unknown> = {}) => ({
+    id: 'invite-1',
+    codeHash: hashInviteCode('abc123'),
+    maxUses: 3,
+    uses: 1,
+    revokedAt: null,
+    expiresAt: null,
+    ...overrides,
+  });
+
+  const transaction = (found: ReturnType<typeof invite> | null, updated = 1) => {
+    const tx = {
+      inviteCode: {
+        findUnique: vi.fn().mockResolvedValue(found),
+        updateMany: vi.fn().mockResolvedValue({ count: updated }),
+      },
+    };
+    return { tx, client: tx as unknown as Prisma.TransactionClient };
+  };
+
+  it('uses up one redemption of a valid code', async () => {
+    const { tx, client } = transaction(invite({ expiresAt: new Date('2025-06-02T00:00:00Z') }));
+
+    expect(await redeemInviteCode(client, ' abc123 ', now)).toMatchObject({ id: 'invite-1' });
+    expect(tx.inviteCode.findUnique).toHaveBeenCalledWith({ where: { codeHash: hashInviteCode('abc123') } });
+    // Only counts while a use is left, so two sign-ups can't both take the last one
+    expect(tx.inviteCode.updateMany).toHaveBeenCalledWith({
+      where: { id: 'invite-1', uses: { lt: 3 } },
+      data: { uses: { increment: 1 } },
+    });
+  });
+
+  it('refuses unknown codes', async () => {
+    const { tx, client } = transaction(null);
+
+    expect(await redeemInviteCode(client, 'nope', now)).toBeNull();
+    expect(tx.inviteCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses revoked codes', async () => {
+    const { tx, client } = transaction(invite({ revokedAt: new Date('2025-05-01T00:00:00Z') }));
+
+    expect(await redeemInviteCode(client, 'abc123', now)).toBeNull();
+    expect(tx.inviteCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses codes from the moment they expire', async () => {
+    const { tx, client } = transaction(invite({ expiresAt: now }));
+
+    expect(await redeemInviteCode(client, 'abc123', now)).toBeNull();
+    expect(tx.inviteCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses codes whose last use was just taken', async () => {
+    const { client } = transaction(invite({ uses: 2 }), 0);
+
+    expect(await redeemInviteCode(client, 'abc123', now)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { REGISTRATION_MODES, type RegistrationMode } from '../shared/api';
+import { hashToken } from './services/auth.service';
+
+// Who may create an account. REGISTRATION_MODE picks open sign-up, sign-up
+// with an invite code an admin handed out, or no sign-up at all.
+
+export { REGISTRATION_MODES, type RegistrationMode };
+
+export const MAX_INVITE_USES = 100;
+export const MAX_INVITE_LIFETIME_DAYS = 90;
+
+const INVITE_CODE_PREFIX_LENGTH = 4;
+
+/**
+ * Read REGISTRATION_MODE ("open", "invite" or "closed"); defaults to open
+ */
+export function registrationModeFromEnv(env: NodeJS.ProcessEnv = process.env): RegistrationMode {
+  const mode = env.REGISTRATION_MODE || 'open';
+  if (!(REGISTRATION_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown REGISTRATION_MODE: ${mode}`);
+  }
+  return mode as RegistrationMode;
+}
+
+/**
+ * New invite code plus the prefix kept in plaintext for the admin console.
+ * Only a hash of the full code is stored.
+ */
+export function generateInviteCode(): { code: string; codePrefix: string } {
+  const code = crypto.randomBytes(12).toString('base64url');
+  return { code, codePrefix: code.slice(0, INVITE_CODE_PREFIX_LENGTH) };
+}
+
+export const hashInviteCode = (code: string) => hashToken(code.trim());
+
+/**
+ * Use up one redemption of an invite inside the registration transaction.
+ * Returns null when the code is unknown, revoked, expired or used up; the
+ * conditional update keeps two sign-ups from taking the last use.
+ */
+export async function redeemInviteCode(tx: Prisma.TransactionClient, code: string, now = new Date()) {
+  const invite = await tx.inviteCode.findUnique({
+    where: { codeHash: hashInviteCode(code) }
+  });
+
+  if (!invite || invite.revokedAt || (invite.expiresAt && invite.expiresAt <= now)) {
+    return null;
+  }
+
+  const { count } = await tx.inviteCode.updateMany({
+    where: { id: invite.id, uses: { lt: invite.maxUses } },
+    data: { uses: { increment: 1 } }
+  });
+
+  return count ? invite : null;
+}
@@ -0,0 +1,114 @@
+import type express from 'express';
+import type { PrismaClient, User } from '@prisma/client';
+import crypto from 'crypto';
+import { prisma } from './db';
+import { generateToken, hashToken } from './services/auth.service';
+import { mailer, deliver } from './services/mail.service';
+
+// Per-account record of sign-in attempts, shown in Settings. A successful
+// sign-in from a browser the account hasn't used before emails the owner, with
+// a "this wasn't me" link that signs every session out and forces a password
+// reset (see POST /api/auth/login-history/not-me).
+
+export type LoginMethod = 'password' | 'two_factor' | 'passkey';
+
+export type LoginFailureReason =
+  | 'invalid_password'
+  | 'invalid_code'
+  | 'invalid_passkey'
+  | 'locked_out'
+  | 'account_restricted'
+  | 'password_reset_required';
+
+export const LOGIN_HISTORY_RETENTION = 90 * 24 * 60 * 60 * 1000; // 90 days
+export const NOT_ME_LINK_EXPIRY = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PRUNE_INTERVAL = 24 * 60 * 60 * 1000; // 1 day
+
+/**
+ * Fingerprint of the browser and OS behind a user agent. Version numbers are
+ * dropped so routine browser updates don't look like a new device.
+ */
+export function deviceFingerprint(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+  const normalized = userAgent.toLowerCase().replace(/\d+([._]\d+)*/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+const requestDetails = (req: express.Request) => {
+  const userAgent = req.get('user-agent') || null;
+  return { ipAddress: req.ip || null, userAgent, deviceHash: deviceFingerprint(userAgent) };
+};
+
+/**
+ * Record a failed attempt on an existing account
+ */
+export async function recordLoginFailure(userId: string, method: LoginMethod, failureReason: LoginFailureReason, req: express.Request) {
+  await prisma.loginEvent.create({
+    data: { userId, method, success: false, failureReason, ...requestDetails(req) }
+  });
+}
+
+/**
+ * Record a successful sign-in and alert the owner if it came from a device the
+ * account hasn't signed in from before. The very first recorded sign-in sets
+ * the baseline rather than raising an alert.
+ */
+export async function recordLoginSuccess(user: Pick<User, 'id' | 'email' | 'username'>, method: LoginMethod, req: express.Request) {
+  const details = requestDetails(req);
+
+  const [knownDevice, previousSignIns] = await Promise.all([
+    details.deviceHash
+      ? prisma.loginEvent.findFirst({
+          where: { userId: user.id, success: true, deviceHash: details.deviceHash },
+          select: { id: true }
+        })
+      : null,
+    prisma.loginEvent.count({ where: { userId: user.id, success: true } }),
+  ]);
+
+  const newDevice = !knownDevice && previousSignIns > 0;
+  const notMeToken = newDevice ? generateToken() : null;
+
+  await prisma.loginEvent.create({
+    data: {
+      userId: user.id,
+      method,
+      success: true,
+      ...details,
+      newDevice,
+      ...(notMeToken && {
+        notMeToken: hashToken(notMeToken),
+        notMeExpiry: new Date(Date.now() + NOT_ME_LINK_EXPIRY),
+      }),
+    }
+  });
+
+  if (notMeToken) {
+    deliver('new device alert', mailer.sendNewDeviceAlert(user, {
+      ipAddress: details.ipAddress,
+      userAgent: details.userAgent,
+    }, notMeToken, NOT_ME_LINK_EXPIRY / (24 * 60 * 60 * 1000)));
+  }
+}
+
+/**
+ * Delete attempts older than the retention period. Returns how many were deleted.
+ */
+export async function pruneLoginHistory(db: PrismaClient, now = new Date()): Promise<number> {
+  const { count } = await db.loginEvent.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - LOGIN_HISTORY_RETENTION) } }
+  });
+  return count;
+}
+
+/**
+ * Prune now and then once a day for as long as the process lives
+ */
+export function scheduleLoginHistoryPrune(db: PrismaClient, intervalMs = PRUNE_INTERVAL) {
+  const run = () => {
+    pruneLoginHistory(db).catch(error => console.error('Login history prune error:', error));
+  };
+
+  run();
+  setInterval(run, intervalMs).unref();
+}
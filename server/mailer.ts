@@ -0,0 +1,237 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import {
+  verificationEmail,
+  passwordResetEmail,
+  emailChangeConfirmationEmail,
+  emailChangeNoticeEmail,
+  securityAlertEmail,
+  newDeviceLoginEmail,
+  accountDeletionScheduledEmail,
+  accountDeletionCancelledEmail,
+  accountDeletedEmail,
+  type EmailContent,
+  type SecurityAlert,
+} from './emailTemplates';
+
+// ==================== TRANSPORTS ====================
+
+export interface MailMessage extends EmailContent {
+  from: string;
+  to: string;
+}
+
+/**
+ * Delivers a fully rendered message. Swap implementations with MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Real delivery through an SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ */
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes each message as an .eml file so it can be opened in any mail client.
+ * The default in development.
+ */
+export class FileTransport implements MailTransport {
+  // Only builds the MIME message, never connects anywhere
+  private builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.builder.sendMail(message);
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, info.message as Buffer);
+    console.log(`📧 "${message.subject}" to ${message.to} written to ${file}`);
+  }
+}
+
+/**
+ * Keeps messages in an array for tests and scripts to inspect
+ */
+export class MemoryTransport implements MailTransport {
+  messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  // Most recent message, optionally for one recipient
+  last(to?: string): MailMessage | undefined {
+    const matching = to ? this.messages.filter(message => message.to === to) : this.messages;
+    return matching[matching.length - 1];
+  }
+
+  clear() {
+    this.messages = [];
+  }
+}
+
+/**
+ * Pick a transport from MAIL_TRANSPORT ("smtp", "file" or "memory").
+ * Defaults to SMTP when SMTP_HOST is set, otherwise .eml files in MAIL_DIR.
+ */
+export function createTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'file');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      const port = parseInt(env.SMTP_PORT || '587', 10);
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    }
+    case 'file':
+      return new FileTransport(path.resolve(env.MAIL_DIR || '.mail'));
+    case 'memory':
+      return new MemoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+// ==================== MAILER ====================
+
+export interface MailerOptions {
+  transport: MailTransport;
+  from: string;
+  // Public URL of the web app, used for links in emails
+  baseUrl: string;
+}
+
+interface Recipient {
+  email: string;
+  username: string;
+}
+
+/**
+ * Renders and sends the app's transactional emails
+ */
+export class Mailer {
+  readonly transport: MailTransport;
+  private from: string;
+  private baseUrl: string;
+
+  constructor(options: MailerOptions) {
+    this.transport = options.transport;
+    this.from = options.from;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  url(pathname: string, params: Record<string, string> = {}): string {
+    const query = new URLSearchParams(params).toString();
+    return `${this.baseUrl}${pathname}${query ? `?${query}` : ''}`;
+  }
+
+  async send(to: string, content: EmailContent): Promise<void> {
+    await this.transport.send({ from: this.from, to, ...content });
+  }
+
+  sendVerificationEmail(user: Recipient, token: string) {
+    return this.send(user.email, verificationEmail({
+      username: user.username,
+      url: this.url('/auth/verify-email', { token }),
+    }));
+  }
+
+  sendPasswordResetEmail(user: Recipient, token: string, expiresInMinutes: number) {
+    return this.send(user.email, passwordResetEmail({
+      username: user.username,
+      url: this.url('/auth/reset-password', { token }),
+      expiresInMinutes,
+    }));
+  }
+
+  sendEmailChangeConfirmation(user: Recipient, newEmail: string, token: string, expiresInHours: number) {
+    return this.send(newEmail, emailChangeConfirmationEmail({
+      username: user.username,
+      newEmail,
+      url: this.url('/auth/confirm-email', { token }),
+      expiresInHours,
+    }));
+  }
+
+  sendEmailChangeNotice(user: Recipient, newEmail: string, token: string, expiresInDays: number) {
+    return this.send(user.email, emailChangeNoticeEmail({
+      username: user.username,
+      newEmail,
+      revertUrl: this.url('/auth/revert-email', { token }),
+      expiresInDays,
+    }));
+  }
+
+  sendSecurityAlert(user: Recipient, alert: SecurityAlert) {
+    return this.send(user.email, securityAlertEmail({
+      username: user.username,
+      settingsUrl: this.url('/settings'),
+      ...alert,
+    }));
+  }
+
+  sendNewDeviceAlert(user: Recipient, alert: Omit<SecurityAlert, 'event'>, token: string, expiresInDays: number) {
+    return this.send(user.email, newDeviceLoginEmail({
+      username: user.username,
+      notMeUrl: this.url('/auth/not-me', { token }),
+      expiresInDays,
+      ...alert,
+    }));
+  }
+
+  sendAccountDeletionScheduled(user: Recipient, scheduledFor: Date) {
+    return this.send(user.email, accountDeletionScheduledEmail({
+      username: user.username,
+      scheduledFor,
+      signInUrl: this.url('/auth'),
+    }));
+  }
+
+  sendAccountDeletionCancelled(user: Recipient) {
+    return this.send(user.email, accountDeletionCancelledEmail({
+      username: user.username,
+      settingsUrl: this.url('/settings'),
+    }));
+  }
+
+  sendAccountDeleted(user: Recipient) {
+    return this.send(user.email, accountDeletedEmail({ username: user.username }));
+  }
+}
+
+export function createMailer(env: NodeJS.ProcessEnv = process.env): Mailer {
+  return new Mailer({
+    transport: createTransport(env),
+    from: env.EMAIL_FROM || 'Tumblr T3 <noreply@localhost>',
+    baseUrl: env.BASE_URL || 'http://localhost:5173',
+  });
+}
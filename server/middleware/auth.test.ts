@@ -0,0 +1,250 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashToken } from '../services/auth.service';
+import { authenticate, requireRole, requireScope } from './auth';
+
+const prisma = vi.hoisted(() => ({
+  session: { findUnique: vi.fn(), update: vi.fn() },
+  apiToken: { findUnique: vi.fn(), update: vi.fn() },
+}));
+vi.mock('../db', () => ({ prisma }));
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const LATER = new Date('2025-06-02T12:00:00Z');
+const EARLIER = new Date('2025-05-31T12:00:00Z');
+
+const owner = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'alice@example.com',
+  username: 'alice',
+  role: 'USER',
+  status: 'ACTIVE',
+  suspendedUntil: null,
+  statusReason: null,
+  deletionScheduledFor: null,
+  passwordResetRequired: false,
+  ...overrides,
+});
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  id: 'session-1',
+  expiresAt: LATER,
+  lastSeenAt: NOW,
+  ipAddress: null,
+  user: owner(),
+  ...overrides,
+});
+
+const apiToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 'token-1',
+  scopes: ['read:stored-images'],
+  expiresAt: LATER,
+  lastUsedAt: NOW,
+  lastUsedIp: null,
+  user: owner(),
+  ...overrides,
+});
+
+// Echoes what authenticate() attached to the request
+const app = express();
+const whoAmI: express.RequestHandler = (req, res) => {
+  res.json({ user: req.user ?? null, sessionId: req.sessionId ?? null, apiTokenId: req.apiTokenId ?? null });
+};
+app.get('/session-only', authenticate(), whoAmI);
+app.get('/optional', authenticate({ optional: true }), whoAmI);
+app.get('/admin', authenticate(), requireRole('ADMIN'), whoAmI);
+app.get('/images', requireScope('read:stored-images'), whoAmI);
+
+const server = app.listen(0);
+let baseUrl: string;
+
+const get = (path: string, token?: string) =>
+  fetch(`${baseUrl}${path}`, { headers: token ? { authorization: `Bearer ${token}` } : {} });
+
+beforeAll(() => {
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('authenticate() with a session', () => {
+  it('attaches the user and session', async () => {
+    prisma.session.findUnique.mockResolvedValue(session());
+
+    const response = await get('/session-only', 'session-token');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      user: { id: 'user-1', email: 'alice@example.com', username: 'alice', role: 'USER' },
+      sessionId: 'session-1',
+      apiTokenId: null,
+    });
+    expect(prisma.session.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { tokenHash: hashToken('session-token') },
+    }));
+  });
+
+  it('requires a bearer token unless optional', async () => {
+    expect((await get('/session-only')).status).toBe(401);
+    expect(await (await get('/optional')).json()).toEqual({ user: null, sessionId: null, apiTokenId: null });
+    expect(prisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('refuses unknown and expired sessions', async () => {
+    prisma.session.findUnique.mockResolvedValueOnce(null);
+    expect((await get('/session-only', 'session-token')).status).toBe(401);
+
+    prisma.session.findUnique.mockResolvedValueOnce(session({ expiresAt: NOW }));
+    const response = await get('/session-only', 'session-token');
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ message: 'Session expired or invalid' });
+  });
+
+  it('only records activity once a minute', async () => {
+    prisma.session.findUnique.mockResolvedValueOnce(session({ lastSeenAt: new Date(NOW.getTime() - 30 * 1000) }));
+    await get('/session-only', 'session-token');
+    expect(prisma.session.update).not.toHaveBeenCalled();
+
+    prisma.session.findUnique.mockResolvedValueOnce(session({ lastSeenAt: EARLIER }));
+    await get('/session-only', 'session-token');
+    expect(prisma.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { lastSeenAt: NOW, ipAddress: expect.any(String) },
+    });
+  });
+
+  it('refuses suspended, banned and deleting accounts', async () => {
+    prisma.session.findUnique.mockResolvedValueOnce(session({ user: owner({ status: 'SUSPENDED', suspendedUntil: LATER }) }));
+    expect((await get('/session-only', 'session-token')).status).toBe(403);
+
+    prisma.session.findUnique.mockResolvedValueOnce(session({ user: owner({ status: 'BANNED' }) }));
+    expect((await get('/session-only', 'session-token')).status).toBe(403);
+
+    prisma.session.findUnique.mockResolvedValueOnce(session({ user: owner({ deletionScheduledFor: LATER }) }));
+    expect((await get('/session-only', 'session-token')).status).toBe(401);
+  });
+
+  it('lets a lapsed suspension through', async () => {
+    prisma.session.findUnique.mockResolvedValue(session({ user: owner({ status: 'SUSPENDED', suspendedUntil: EARLIER }) }));
+
+    expect((await get('/session-only', 'session-token')).status).toBe(200);
+  });
+});
+
+describe('authenticate() with a personal access token', () => {
+  const PAT = 'tt_pat_abc123';
+
+  it('attaches the user and token on a route that names a scope the token has', async () => {
+    prisma.apiToken.findUnique.mockResolvedValue(apiToken());
+
+    const response = await get('/images', PAT);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      user: { id: 'user-1', email: 'alice@example.com', username: 'alice', role: 'USER' },
+      sessionId: null,
+      apiTokenId: 'token-1',
+    });
+    expect(prisma.apiToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { tokenHash: hashToken(PAT) },
+    }));
+    expect(prisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('refuses routes that name no scope', async () => {
+    prisma.apiToken.findUnique.mockResolvedValue(apiToken({ scopes: ['read:stored-images', 'write:stored-images', 'download', 'admin'] }));
+
+    const response = await get('/session-only', PAT);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: 'Personal access tokens cannot be used for this endpoint' });
+  });
+
+  it('refuses tokens without the scope', async () => {
+    prisma.apiToken.findUnique.mockResolvedValue(apiToken({ scopes: ['download'] }));
+
+    const response = await get('/images', PAT);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: 'Access token is missing the "read:stored-images" scope' });
+  });
+
+  it('refuses unknown and expired tokens', async () => {
+    prisma.apiToken.findUnique.mockResolvedValueOnce(null);
+    expect((await get('/images', PAT)).status).toBe(401);
+
+    prisma.apiToken.findUnique.mockResolvedValueOnce(apiToken({ expiresAt: NOW }));
+    const response = await get('/images', PAT);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ message: 'Access token expired or invalid' });
+  });
+
+  it('accepts tokens that never expire', async () => {
+    prisma.apiToken.findUnique.mockResolvedValue(apiToken({ expiresAt: null }));
+
+    expect((await get('/images', PAT)).status).toBe(200);
+  });
+
+  it('records use at most once a minute', async () => {
+    prisma.apiToken.findUnique.mockResolvedValueOnce(apiToken());
+    await get('/images', PAT);
+    expect(prisma.apiToken.update).not.toHaveBeenCalled();
+
+    prisma.apiToken.findUnique.mockResolvedValueOnce(apiToken({ lastUsedAt: null }));
+    await get('/images', PAT);
+    expect(prisma.apiToken.update).toHaveBeenCalledWith({
+      where: { id: 'token-1' },
+      data: { lastUsedAt: NOW, lastUsedIp: expect.any(String) },
+    });
+  });
+
+  it('refuses tokens of suspended accounts', async () => {
+    prisma.apiToken.findUnique.mockResolvedValue(apiToken({ user: owner({ status: 'SUSPENDED', suspendedUntil: LATER }) }));
+
+    expect((await get('/images', PAT)).status).toBe(403);
+  });
+});
+
+describe('authenticate() after "this wasn\'t me"', () => {
+  const locked = owner({ passwordResetRequired: true });
+
+  it('refuses sessions until the password is reset', async () => {
+    prisma.session.findUnique.mockResolvedValue(session({ user: locked }));
+
+    const response = await get('/session-only', 'session-token');
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: expect.stringContaining('choose a new password') });
+  });
+
+  it('refuses access tokens until the password is reset', async () => {
+    prisma.apiToken.findUnique.mockResolvedValue(apiToken({ user: locked }));
+
+    const response = await get('/images', 'tt_pat_abc123');
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: expect.stringContaining('choose a new password') });
+  });
+});
+
+describe('requireRole', () => {
+  it('refuses users without the role', async () => {
+    prisma.session.findUnique.mockResolvedValueOnce(session());
+    expect((await get('/admin', 'session-token')).status).toBe(403);
+
+    prisma.session.findUnique.mockResolvedValueOnce(session({ user: owner({ role: 'ADMIN' }) }));
+    expect((await get('/admin', 'session-token')).status).toBe(200);
+  });
+});
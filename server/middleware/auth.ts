@@ -0,0 +1,147 @@
+import type express from 'express';
+import type { Prisma, User, UserRole } from '@prisma/client';
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { describe } from '../openapi';
+import { getAccountRestriction, sendAccountRestricted, sendPasswordResetRequired } from '../accountStatus';
+import { isApiToken, type ApiTokenScope } from '../apiTokens';
+import { hashToken } from '../services/auth.service';
+
+const SESSION_TOUCH_INTERVAL = 60 * 1000; // Only bump lastSeenAt once a minute
+
+// Authenticated user attached to the request by requireAuth
+export type AuthUser = Pick<User, 'id' | 'email' | 'username' | 'role'>;
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      // Exactly one of these is set by authenticate()
+      sessionId?: string;
+      apiTokenId?: string;
+    }
+  }
+}
+
+const getBearerToken = (req: express.Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+const authUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  role: true,
+  status: true,
+  suspendedUntil: true,
+  statusReason: true,
+  deletionScheduledFor: true,
+  passwordResetRequired: true,
+} as const;
+
+/**
+ * Resolve the bearer token into req.user. Browser sessions work everywhere;
+ * personal access tokens only on routes that name a scope, and only if the
+ * token has it. With optional set, requests without a token pass through.
+ */
+export const authenticate = (options: { scope?: ApiTokenScope; optional?: boolean } = {}): express.RequestHandler =>
+  describe(async (req, res, next) => {
+    try {
+      const token = getBearerToken(req);
+      if (!token) {
+        return options.optional ? next() : sendError(res, 401, 'Authentication required');
+      }
+
+      const now = new Date();
+      let user: Prisma.UserGetPayload<{ select: typeof authUserSelect }>;
+
+      if (isApiToken(token)) {
+        const apiToken = await prisma.apiToken.findUnique({
+          where: { tokenHash: hashToken(token) },
+          include: { user: { select: authUserSelect } }
+        });
+
+        if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= now)) {
+          return sendError(res, 401, 'Access token expired or invalid');
+        }
+
+        if (!options.scope) {
+          return sendError(res, 403, 'Personal access tokens cannot be used for this endpoint');
+        }
+
+        if (!apiToken.scopes.includes(options.scope)) {
+          return sendError(res, 403, `Access token is missing the "${options.scope}" scope`);
+        }
+
+        if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL) {
+          await prisma.apiToken.update({
+            where: { id: apiToken.id },
+            data: { lastUsedAt: now, lastUsedIp: req.ip || apiToken.lastUsedIp }
+          });
+        }
+
+        user = apiToken.user;
+        req.apiTokenId = apiToken.id;
+      } else {
+        const session = await prisma.session.findUnique({
+          where: { tokenHash: hashToken(token) },
+          include: { user: { select: authUserSelect } }
+        });
+
+        if (!session || session.expiresAt <= now) {
+          return sendError(res, 401, 'Session expired or invalid');
+        }
+
+        if (now.getTime() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL) {
+          await prisma.session.update({
+            where: { id: session.id },
+            data: { lastSeenAt: now, ipAddress: req.ip || session.ipAddress }
+          });
+        }
+
+        user = session.user;
+        req.sessionId = session.id;
+      }
+
+      const restriction = getAccountRestriction(user);
+      if (restriction) {
+        return sendAccountRestricted(res, restriction);
+      }
+
+      // Sessions are revoked when deletion is requested, but tokens would keep working
+      if (user.deletionScheduledFor) {
+        return sendError(res, 401, 'This account is scheduled for deletion');
+      }
+
+      // Locked by "this wasn't me" until the password is reset, whatever was issued before
+      if (user.passwordResetRequired) {
+        return sendPasswordResetRequired(res);
+      }
+
+      const { id, email, username, role } = user;
+      req.user = { id, email, username, role };
+      next();
+    } catch (error) {
+      console.error('Auth middleware error:', error);
+      sendError(res, 500, 'Authentication failed');
+    }
+  }, { auth: options });
+
+// Browser sessions only
+export const requireAuth = authenticate();
+
+// Browser sessions, or personal access tokens that carry the scope
+export const requireScope = (scope: ApiTokenScope) => authenticate({ scope });
+
+// Gate a route on the authenticated user's role (use after requireAuth)
+export const requireRole = (...roles: UserRole[]): express.RequestHandler => describe((req, res, next) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return sendError(res, 403, 'Insufficient permissions');
+  }
+  next();
+}, { roles });
@@ -0,0 +1,62 @@
+import { prisma } from '../db';
+import { createRateLimitStore, createLoginThrottle, rateLimit, byIp, byBodyField } from '../rateLimit';
+
+// Brute-force protection (memory store by default, RATE_LIMIT_STORE=postgres to share across instances)
+
+const MINUTE = 60 * 1000;
+
+const rateLimitStore = createRateLimitStore(prisma);
+
+export const loginThrottle = createLoginThrottle(rateLimitStore, {
+  windowMs: 15 * MINUTE,
+  delayAfter: 3,         // 1s, 2s, 4s... after the 3rd failed password
+  maxDelayMs: 30 * 1000,
+  lockoutAfter: 10,      // then lock the account for 15 minutes
+  lockoutMs: 15 * MINUTE,
+});
+
+export const loginIpLimit = rateLimit(rateLimitStore, {
+  name: 'login-ip', windowMs: 15 * MINUTE, max: 50, key: byIp,
+  message: 'Too many login attempts from this network.',
+});
+
+export const passwordResetLimits = [
+  rateLimit(rateLimitStore, {
+    name: 'reset-ip', windowMs: 60 * MINUTE, max: 10, key: byIp,
+    message: 'Too many password reset requests.',
+  }),
+  rateLimit(rateLimitStore, {
+    name: 'reset-account', windowMs: 60 * MINUTE, max: 3, key: byBodyField('emailOrUsername'),
+    message: 'Too many password reset requests for this account.',
+  }),
+];
+
+export const findAccountLimits = [
+  rateLimit(rateLimitStore, {
+    name: 'find-account-ip', windowMs: 60 * MINUTE, max: 10, key: byIp,
+    message: 'Too many account lookups.',
+  }),
+  rateLimit(rateLimitStore, {
+    name: 'find-account-email', windowMs: 60 * MINUTE, max: 3, key: byBodyField('email'),
+    message: 'Too many lookups for this email address.',
+  }),
+];
+
+// Each request emails two addresses, so keep it to a handful an hour
+export const changeEmailLimits = [
+  rateLimit(rateLimitStore, {
+    name: 'change-email-account', windowMs: 60 * MINUTE, max: 5, key: req => req.user?.id,
+    message: 'Too many email change requests.',
+  }),
+];
+
+export const resendVerificationLimits = [
+  rateLimit(rateLimitStore, {
+    name: 'resend-verification-ip', windowMs: 60 * MINUTE, max: 10, key: byIp,
+    message: 'Too many verification emails requested.',
+  }),
+  rateLimit(rateLimitStore, {
+    name: 'resend-verification-account', windowMs: 60 * MINUTE, max: 3, key: req => req.user?.id,
+    message: 'Too many verification emails requested.',
+  }),
+];
@@ -0,0 +1,264 @@
+import express from 'express';
+import { z } from 'zod/v4';
+import { API_ERROR_CODES, type ApiErrorResponse } from '../shared/apiError';
+import type { ApiRoute, RouteParams, RouteResponse } from '../shared/api';
+import type { RequestSchemas } from './validation';
+import type { ApiTokenScope } from './apiTokens';
+
+// OpenAPI 3.1 document built from the routes themselves. Routers made with
+// createApiRouter() record every route they register; middleware describes
+// itself (validate() its schemas, authenticate() its scope, rateLimit() that
+// it may answer 429), so the document can't drift from what the server does.
+
+export interface OperationMeta {
+  schemas?: RequestSchemas;
+  auth?: { scope?: ApiTokenScope; optional?: boolean };
+  roles?: string[];
+  rateLimited?: boolean;
+}
+
+export interface RouteDoc {
+  summary: string;
+  description?: string;
+  // Success status when it isn't 200
+  status?: number;
+  // e.g. application/zip for downloads
+  produces?: string;
+  // Largest JSON body accepted, when the default isn't enough
+  bodyLimit?: string;
+}
+
+// Enough for a batch of stored images with their captions; only bulk downloads need more
+export const DEFAULT_BODY_LIMIT = '1mb';
+
+interface Operation {
+  method: Method;
+  path: string;
+  tag: string;
+  doc: RouteDoc;
+  meta: OperationMeta;
+}
+
+const operations: Operation[] = [];
+
+/**
+ * Attach OpenAPI metadata to a middleware so routes using it are documented
+ */
+export const describe = <H extends express.RequestHandler>(handler: H, meta: OperationMeta): H =>
+  Object.assign(handler, { openapi: meta });
+
+const collectMeta = (handlers: express.RequestHandler<any, any>[]): OperationMeta =>
+  Object.assign({}, ...handlers.map(handler => (handler as { openapi?: OperationMeta }).openapi));
+
+// /api/users/:id/ -> /api/users/{id}
+const toOpenApiPath = (path: string) =>
+  path.replace(/:(\w+)/g, '{$1}').replace(/(.)\/$/, '$1');
+
+// ==================== ROUTERS ====================
+
+// What res.json() may be given for a contract response: Dates are fine
+// wherever the contract has a string, since JSON turns them into one
+type Serializable<T> =
+  T extends string ? string | Date :
+  T extends Array<infer Item> ? Serializable<Item>[] :
+  T extends object ? { [K in keyof T]: Serializable<T[K]> } :
+  T;
+
+/**
+ * Handler for a route in the shared contract (shared/api.ts): typed params,
+ * and res.json() checked against the response clients are compiled against
+ */
+export type ContractHandler<R extends ApiRoute> = express.RequestHandler<
+  RouteParams<R>,
+  Serializable<RouteResponse<R>> | ApiErrorResponse
+>;
+
+type Method = 'get' | 'post' | 'put' | 'delete';
+
+type JoinPath<Base extends string, Path extends string> = Path extends '/' ? Base : `${Base}${Path}`;
+
+// The last handler of a route in the contract is typed from it; other routes are plain Express
+type RouteHandler<Key extends string> = Key extends ApiRoute ? ContractHandler<Key> : express.RequestHandler;
+
+type RouteMethod<M extends Method, Base extends string> = <Path extends string>(
+  path: Path,
+  doc: string | RouteDoc,
+  ...handlers: [...express.RequestHandler[], RouteHandler<`${Uppercase<M>} ${JoinPath<Base, Path>}`>]
+) => void;
+
+export interface ApiRouter<Base extends string = string> {
+  basePath: Base;
+  router: express.Router;
+  get: RouteMethod<'get', Base>;
+  post: RouteMethod<'post', Base>;
+  put: RouteMethod<'put', Base>;
+  delete: RouteMethod<'delete', Base>;
+}
+
+/**
+ * An express.Router for one area of the API, mounted at basePath, whose
+ * routes are listed under tag in the OpenAPI document
+ */
+export function createApiRouter<Base extends string>(basePath: Base, tag: string): ApiRouter<Base> {
+  const router = express.Router();
+
+  // Contract handlers narrow params and res.json(), so accept any handler here
+  const route = (method: Method) =>
+    (path: string, doc: string | RouteDoc, ...handlers: express.RequestHandler<any, any>[]) => {
+      const routeDoc = typeof doc === 'string' ? { summary: doc } : doc;
+      operations.push({
+        method,
+        path: toOpenApiPath(basePath + path),
+        tag,
+        doc: routeDoc,
+        meta: collectMeta(handlers),
+      });
+      // Bodies are parsed per route so only the routes that need it accept large ones
+      const bodyParser = express.json({ limit: routeDoc.bodyLimit ?? DEFAULT_BODY_LIMIT });
+      router[method](path, ...(method === 'get' ? handlers : [bodyParser, ...handlers]));
+    };
+
+  return { basePath, router, get: route('get'), post: route('post'), put: route('put'), delete: route('delete') };
+}
+
+// ==================== DOCUMENT ====================
+
+type JsonSchema = Record<string, unknown> & {
+  properties?: Record<string, unknown>;
+  required?: string[];
+};
+
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+  // Requests are documented as clients send them, before coercion and defaults
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+  return jsonSchema as JsonSchema;
+};
+
+const toParameters = (location: 'path' | 'query', schema?: z.ZodType) => {
+  if (!schema) return [];
+  const { properties = {}, required = [] } = toJsonSchema(schema);
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: property,
+  }));
+};
+
+const errorResponse = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+const describeAccess = ({ auth, roles }: OperationMeta): string | undefined => {
+  if (!auth) return undefined;
+
+  const lines = [
+    auth.optional ? 'Works without signing in.' : 'Requires a signed-in session.',
+    auth.scope
+      ? `Personal access tokens need the \`${auth.scope}\` scope.`
+      : 'Personal access tokens are not accepted.',
+  ];
+  if (roles) {
+    lines.push(`Only for ${roles.join(' and ')} accounts.`);
+  }
+  return lines.join(' ');
+};
+
+const toOperation = ({ tag, doc, meta }: Operation) => {
+  const responses: Record<string, unknown> = {
+    [doc.status ?? 200]: doc.produces
+      ? { description: 'Success', content: { [doc.produces]: { schema: { type: 'string', format: 'binary' } } } }
+      : { description: 'Success' },
+  };
+  if (meta.schemas) responses[400] = errorResponse('ValidationFailed');
+  if (meta.schemas?.body) responses[413] = errorResponse('PayloadTooLarge');
+  if (meta.auth && !meta.auth.optional) responses[401] = errorResponse('Unauthorized');
+  if (meta.auth) responses[403] = errorResponse('Forbidden');
+  if (meta.rateLimited) responses[429] = errorResponse('RateLimited');
+  responses[500] = errorResponse('InternalError');
+
+  const access = describeAccess(meta);
+  const bodyLimit = doc.bodyLimit && `Request bodies may be up to ${doc.bodyLimit}.`;
+  const description = [doc.description, bodyLimit, access].filter(Boolean).join('\n\n');
+
+  return {
+    tags: [tag],
+    summary: doc.summary,
+    ...(description && { description }),
+    security: meta.auth
+      ? meta.auth.optional ? [{}, { bearerAuth: [] }] : [{ bearerAuth: [] }]
+      : [],
+    parameters: [
+      ...toParameters('path', meta.schemas?.params),
+      ...toParameters('query', meta.schemas?.query),
+    ],
+    ...(meta.schemas?.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(meta.schemas.body) } },
+      },
+    }),
+    responses,
+  };
+};
+
+const apiErrorSchema = {
+  type: 'object',
+  required: ['error', 'message', 'status'],
+  properties: {
+    error: { type: 'string', enum: API_ERROR_CODES, description: 'Stable code for programs' },
+    message: { type: 'string', description: 'Explanation that is safe to show to users' },
+    status: { type: 'integer' },
+    fields: {
+      type: 'object',
+      description: 'Validation messages keyed by location and path, e.g. body.email',
+      additionalProperties: { type: 'array', items: { type: 'string' } },
+    },
+    retryAfter: { type: 'integer', description: 'Seconds to wait (RATE_LIMITED)' },
+    accountStatus: {
+      type: 'object',
+      description: 'Why the account is restricted (ACCOUNT_RESTRICTED)',
+      properties: {
+        status: { type: 'string', enum: ['SUSPENDED', 'BANNED'] },
+        reason: { type: ['string', 'null'] },
+        until: { type: ['string', 'null'], format: 'date-time' },
+      },
+    },
+  },
+};
+
+const errorResponses = {
+  ValidationFailed: 'The params, query or body failed validation',
+  Unauthorized: 'Missing, expired or invalid token',
+  Forbidden: 'Not allowed for this user, token or account status',
+  PayloadTooLarge: 'The request body is over the route\'s size limit',
+  RateLimited: 'Too many requests; see retryAfter and the Retry-After header',
+  InternalError: 'Unexpected server error',
+};
+
+export function buildOpenApiDocument(info: { title: string; version: string; description?: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of operations) {
+    (paths[operation.path] ??= {})[operation.method] = toOperation(operation);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A session token from signing in, or a personal access token (tt_pat_...) where the route allows it',
+        },
+      },
+      schemas: { ApiError: apiErrorSchema },
+      responses: Object.fromEntries(
+        Object.entries(errorResponses).map(([name, description]) => [name, {
+          description,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } },
+        }])
+      ),
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import type { PasskeyCredential } from '@prisma/client';
+import type { AuthenticatorTransportFuture, WebAuthnCredential } from '@simplewebauthn/server';
+
+// WebAuthn relying party settings. Credentials are bound to the RP ID, so it
+// must stay the same for the lifetime of the deployment.
+
+export interface RelyingParty {
+  name: string;
+  // Domain the credentials belong to, e.g. "example.com" (no scheme or port)
+  id: string;
+  // Full origins the browser may report, e.g. "https://example.com"
+  origins: string[];
+}
+
+/**
+ * Read the relying party from WEBAUTHN_RP_ID / WEBAUTHN_RP_NAME /
+ * WEBAUTHN_ORIGINS, falling back to the host of BASE_URL
+ */
+export function relyingPartyFromEnv(env: NodeJS.ProcessEnv = process.env): RelyingParty {
+  const baseUrl = new URL(env.BASE_URL || 'http://localhost:5173');
+  const origins = env.WEBAUTHN_ORIGINS
+    ? env.WEBAUTHN_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+    : [baseUrl.origin];
+
+  return {
+    name: env.WEBAUTHN_RP_NAME || 'Tumblr T3',
+    id: env.WEBAUTHN_RP_ID || baseUrl.hostname,
+    origins,
+  };
+}
+
+/**
+ * Stored row -> the shape @simplewebauthn/server verifies assertions against
+ */
+export const toWebAuthnCredential = (passkey: PasskeyCredential): WebAuthnCredential => ({
+  id: passkey.credentialId,
+  publicKey: new Uint8Array(passkey.publicKey),
+  counter: Number(passkey.counter),
+  transports: passkey.transports as AuthenticatorTransportFuture[],
+});
@@ -0,0 +1,205 @@
+import type express from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  byBodyField,
+  createLoginThrottle,
+  loginThrottleKey,
+  MemoryRateLimitStore,
+  rateLimit,
+  type RateLimitStore,
+} from './rateLimit';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('counts hits within a fixed window and starts over once it expires', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.hit('k', MINUTE)).count).toBe(1);
+    vi.advanceTimersByTime(59 * SECOND);
+    const second = await store.hit('k', MINUTE);
+    expect(second.count).toBe(2);
+    // A later hit doesn't push the window back
+    expect(second.expiresAt.getTime()).toBe(Date.now() + SECOND);
+
+    vi.advanceTimersByTime(SECOND);
+    expect((await store.hit('k', MINUTE)).count).toBe(1);
+  });
+
+  it('keeps separate counters per key', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('a', MINUTE);
+    await store.hit('a', MINUTE);
+    expect((await store.hit('b', MINUTE)).count).toBe(1);
+  });
+
+  it('keeps a block across a new window until reset', async () => {
+    const store = new MemoryRateLimitStore();
+    const until = new Date(Date.now() + 10 * MINUTE);
+
+    await store.hit('k', MINUTE);
+    await store.block('k', until);
+    vi.advanceTimersByTime(2 * MINUTE);
+    expect((await store.hit('k', MINUTE)).blockedUntil).toEqual(until);
+
+    await store.reset('k');
+    expect(await store.get('k')).toBeNull();
+  });
+
+  it('drops expired windows in the background', async () => {
+    const store = new MemoryRateLimitStore(MINUTE);
+
+    await store.hit('k', MINUTE);
+    vi.advanceTimersByTime(MINUTE);
+    expect(await store.get('k')).toBeNull();
+  });
+});
+
+describe('rateLimit', () => {
+  const mockResponse = () => {
+    const res = { set: vi.fn(), status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+
+  const run = async (handler: express.RequestHandler, body: Record<string, unknown> = {}) => {
+    const res = mockResponse();
+    const next = vi.fn();
+    await handler({ ip: '203.0.113.7', body } as express.Request, res as unknown as express.Response, next);
+    return { res, next };
+  };
+
+  it('lets max requests through per window, then replies 429 with Retry-After', async () => {
+    const limit = rateLimit(new MemoryRateLimitStore(), {
+      name: 'test', windowMs: MINUTE, max: 2, key: req => req.ip, message: 'Slow down.',
+    });
+
+    expect((await run(limit)).next).toHaveBeenCalled();
+    expect((await run(limit)).next).toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30 * SECOND);
+    const { res, next } = await run(limit);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '30');
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Slow down. Try again in 30 seconds.',
+      retryAfter: 30,
+    }));
+
+    vi.advanceTimersByTime(30 * SECOND);
+    expect((await run(limit)).next).toHaveBeenCalled();
+  });
+
+  it('skips requests without a key', async () => {
+    const limit = rateLimit(new MemoryRateLimitStore(), {
+      name: 'test', windowMs: MINUTE, max: 0, key: byBodyField('emailOrUsername'),
+    });
+
+    expect((await run(limit)).next).toHaveBeenCalled();
+    expect((await run(limit, { emailOrUsername: 'alice' })).next).not.toHaveBeenCalled();
+  });
+
+  it('lets requests through when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = { hit: () => Promise.reject(new Error('down')) } as unknown as RateLimitStore;
+    const limit = rateLimit(broken, { name: 'test', windowMs: MINUTE, max: 1, key: req => req.ip });
+
+    expect((await run(limit)).next).toHaveBeenCalled();
+  });
+});
+
+describe('byBodyField', () => {
+  it('keys on the trimmed, lowercased field, or nothing', () => {
+    const key = byBodyField('emailOrUsername');
+
+    expect(key({ body: { emailOrUsername: ' Alice ' } } as express.Request)).toBe('alice');
+    expect(key({ body: { emailOrUsername: '' } } as express.Request)).toBeNull();
+    expect(key({ body: { emailOrUsername: 42 } } as express.Request)).toBeNull();
+    expect(key({} as express.Request)).toBeNull();
+  });
+});
+
+describe('createLoginThrottle', () => {
+  const createThrottle = () => createLoginThrottle(new MemoryRateLimitStore(), {
+    windowMs: 15 * MINUTE,
+    delayAfter: 3,
+    maxDelayMs: 4 * SECOND,
+    lockoutAfter: 6,
+    lockoutMs: 15 * MINUTE,
+  });
+
+  it('delays after a few failures, doubling up to the maximum', async () => {
+    const throttle = createThrottle();
+
+    expect(await throttle.recordFailure('alice')).toEqual({ lockedOut: false, retryAfter: 0 });
+    expect(await throttle.recordFailure('alice')).toEqual({ lockedOut: false, retryAfter: 0 });
+    expect(await throttle.retryAfter('alice')).toBe(0);
+
+    expect(await throttle.recordFailure('alice')).toEqual({ lockedOut: false, retryAfter: 1 });
+    expect(await throttle.retryAfter('alice')).toBe(1);
+    vi.advanceTimersByTime(SECOND);
+    expect(await throttle.retryAfter('alice')).toBe(0);
+
+    expect((await throttle.recordFailure('alice')).retryAfter).toBe(2);
+    expect((await throttle.recordFailure('alice')).retryAfter).toBe(4);
+  });
+
+  it('locks the account out after too many failures', async () => {
+    const throttle = createThrottle();
+
+    for (let i = 0; i < 5; i++) {
+      await throttle.recordFailure('alice');
+    }
+    expect(await throttle.recordFailure('alice')).toEqual({ lockedOut: true, retryAfter: 15 * 60 });
+    expect(await throttle.retryAfter('alice')).toBe(15 * 60);
+
+    vi.advanceTimersByTime(15 * MINUTE);
+    expect(await throttle.retryAfter('alice')).toBe(0);
+  });
+
+  it('forgets failures after a successful sign-in', async () => {
+    const throttle = createThrottle();
+
+    for (let i = 0; i < 3; i++) {
+      await throttle.recordFailure('alice');
+    }
+    await throttle.recordSuccess('alice');
+
+    expect(await throttle.retryAfter('alice')).toBe(0);
+    expect(await throttle.recordFailure('alice')).toEqual({ lockedOut: false, retryAfter: 0 });
+  });
+
+  it('ignores case and surrounding spaces in the account', async () => {
+    const throttle = createThrottle();
+
+    for (let i = 0; i < 3; i++) {
+      await throttle.recordFailure(' Alice ');
+    }
+    expect(await throttle.retryAfter('alice')).toBe(1);
+  });
+
+  it('shares one counter between every way of naming a known account', async () => {
+    const throttle = createThrottle();
+
+    await throttle.recordFailure(loginThrottleKey('user-1', 'alice'));
+    await throttle.recordFailure(loginThrottleKey('user-1', 'alice@example.com'));
+    await throttle.recordFailure(loginThrottleKey('user-1', 'ALICE'));
+
+    expect(await throttle.retryAfter(loginThrottleKey('user-1', 'alice'))).toBe(1);
+    // An unknown account is counted by what was typed, apart from any user id
+    expect(await throttle.retryAfter(loginThrottleKey(null, 'alice'))).toBe(0);
+    expect(await throttle.retryAfter(loginThrottleKey(null, 'user-1'))).toBe(0);
+  });
+});
@@ -0,0 +1,282 @@
+import type express from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { sendError } from './errors';
+import { describe } from './openapi';
+
+// ==================== STORES ====================
+
+export interface RateLimitRecord {
+  count: number;
+  expiresAt: Date;
+  blockedUntil: Date | null;
+}
+
+/**
+ * Backing store for rate limit counters.
+ * Counters are fixed windows: the first hit starts a window of `windowMs`,
+ * later hits increment it until it expires.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitRecord>;
+  get(key: string): Promise<RateLimitRecord | null>;
+  block(key: string, until: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-process store. Fine for a single server; counters are lost on restart
+ * and not shared between instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, RateLimitRecord>();
+
+  constructor(cleanupIntervalMs = 60 * 1000) {
+    // Drop expired windows so the map doesn't grow forever
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, record] of this.records) {
+        if (record.expiresAt.getTime() <= now && (!record.blockedUntil || record.blockedUntil.getTime() <= now)) {
+          this.records.delete(key);
+        }
+      }
+    }, cleanupIntervalMs).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const now = Date.now();
+    const existing = this.records.get(key);
+
+    if (!existing || existing.expiresAt.getTime() <= now) {
+      const record = {
+        count: 1,
+        expiresAt: new Date(now + windowMs),
+        blockedUntil: existing?.blockedUntil ?? null,
+      };
+      this.records.set(key, record);
+      return { ...record };
+    }
+
+    existing.count++;
+    return { ...existing };
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    const record = this.records.get(key);
+    if (record) {
+      record.blockedUntil = until;
+    } else {
+      this.records.set(key, { count: 0, expiresAt: until, blockedUntil: until });
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Postgres-backed store (RateLimit table) so every instance behind a load
+ * balancer sees the same counters. Increments are a single upsert, so
+ * concurrent requests can't race past the limit.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + windowMs);
+    const rows = await this.prisma.$queryRaw<RateLimitRecord[]>`
+      INSERT INTO "RateLimit" ("key", "count", "expiresAt")
+      VALUES (${key}, 1, ${expiresAt})
+      ON CONFLICT ("key") DO UPDATE SET
+        "count" = CASE WHEN "RateLimit"."expiresAt" <= ${now} THEN 1 ELSE "RateLimit"."count" + 1 END,
+        "expiresAt" = CASE WHEN "RateLimit"."expiresAt" <= ${now} THEN EXCLUDED."expiresAt" ELSE "RateLimit"."expiresAt" END
+      RETURNING "count", "expiresAt", "blockedUntil"
+    `;
+    return rows[0];
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    return this.prisma.rateLimit.findUnique({
+      where: { key },
+      select: { count: true, expiresAt: true, blockedUntil: true }
+    });
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    await this.prisma.rateLimit.upsert({
+      where: { key },
+      update: { blockedUntil: until },
+      create: { key, count: 0, expiresAt: until, blockedUntil: until }
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.prisma.rateLimit.deleteMany({ where: { key } });
+  }
+
+  // Expired rows are harmless but accumulate; call periodically to prune them
+  async cleanup(): Promise<number> {
+    const now = new Date();
+    const { count } = await this.prisma.rateLimit.deleteMany({
+      where: {
+        expiresAt: { lte: now },
+        OR: [{ blockedUntil: null }, { blockedUntil: { lte: now } }]
+      }
+    });
+    return count;
+  }
+}
+
+/**
+ * Pick a store from RATE_LIMIT_STORE ("memory" by default, or "postgres"
+ * for multi-instance deployments)
+ */
+export function createRateLimitStore(prisma: PrismaClient): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'postgres') {
+    const store = new PostgresRateLimitStore(prisma);
+    setInterval(() => {
+      store.cleanup().catch(error => console.error('Rate limit cleanup error:', error));
+    }, 10 * 60 * 1000).unref();
+    return store;
+  }
+  return new MemoryRateLimitStore();
+}
+
+// ==================== RESPONSES ====================
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+/**
+ * Reply 429 with a Retry-After header and the wait in the body so the
+ * client can show a countdown
+ */
+export function sendTooManyRequests(res: express.Response, retryAfter: number, message: string) {
+  res.set('Retry-After', String(retryAfter));
+  return sendError(res, 429, `${message} Try again in ${formatWait(retryAfter)}.`, { retryAfter });
+}
+
+// ==================== REQUEST LIMITER ====================
+
+export interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  // Return null to skip limiting this request (e.g. no account in the body)
+  key: (req: express.Request) => string | null | undefined;
+  message?: string;
+}
+
+/**
+ * Fixed-window request limiter. Apply once per key dimension, e.g. one
+ * limiter keyed by IP and another keyed by account.
+ */
+export function rateLimit(store: RateLimitStore, options: RateLimitOptions): express.RequestHandler {
+  const message = options.message ?? 'Too many requests.';
+
+  return describe(async (req, res, next) => {
+    try {
+      const key = options.key(req);
+      if (!key) return next();
+
+      const record = await store.hit(`${options.name}:${key}`, options.windowMs);
+      if (record.count > options.max) {
+        return sendTooManyRequests(res, secondsUntil(record.expiresAt), message);
+      }
+      next();
+    } catch (error) {
+      // Never lock everyone out because the store is unavailable
+      console.error('Rate limit error:', error);
+      next();
+    }
+  }, { rateLimited: true });
+}
+
+export const byIp = (req: express.Request) => req.ip;
+
+export const byBodyField = (field: string) => (req: express.Request) => {
+  const value = req.body?.[field];
+  return typeof value === 'string' && value ? value.trim().toLowerCase() : null;
+};
+
+// ==================== LOGIN THROTTLE ====================
+
+export interface LoginThrottleOptions {
+  // Failures are counted over this window
+  windowMs: number;
+  // After this many failures each further failure adds a doubling delay
+  delayAfter: number;
+  maxDelayMs: number;
+  // After this many failures the account is locked
+  lockoutAfter: number;
+  lockoutMs: number;
+}
+
+/**
+ * Tracks failed password attempts per account: a progressive delay after a
+ * few failures, then a temporary lockout. Keyed with loginThrottleKey, so
+ * unknown accounts behave exactly like real ones.
+ */
+export function createLoginThrottle(store: RateLimitStore, options: LoginThrottleOptions) {
+  const keyFor = (account: string) => `login-failures:${String(account ?? '').trim().toLowerCase()}`;
+
+  return {
+    /**
+     * Seconds the caller must still wait before another attempt, or 0
+     */
+    async retryAfter(account: string): Promise<number> {
+      const record = await store.get(keyFor(account));
+      if (!record?.blockedUntil || record.blockedUntil.getTime() <= Date.now()) {
+        return 0;
+      }
+      return secondsUntil(record.blockedUntil);
+    },
+
+    /**
+     * Record a failed attempt; returns whether the account is now locked out
+     * and how long until the next attempt is allowed
+     */
+    async recordFailure(account: string): Promise<{ lockedOut: boolean; retryAfter: number }> {
+      const key = keyFor(account);
+      const record = await store.hit(key, options.windowMs);
+
+      if (record.count >= options.lockoutAfter) {
+        const until = new Date(Date.now() + options.lockoutMs);
+        await store.block(key, until);
+        return { lockedOut: true, retryAfter: secondsUntil(until) };
+      }
+
+      if (record.count >= options.delayAfter) {
+        const delayMs = Math.min(1000 * 2 ** (record.count - options.delayAfter), options.maxDelayMs);
+        const until = new Date(Date.now() + delayMs);
+        await store.block(key, until);
+        return { lockedOut: false, retryAfter: secondsUntil(until) };
+      }
+
+      return { lockedOut: false, retryAfter: 0 };
+    },
+
+    async recordSuccess(account: string): Promise<void> {
+      await store.reset(keyFor(account));
+    },
+  };
+}
+
+/**
+ * The login throttle key for a sign-in attempt: the account once it's found,
+ * so "alice" and "alice@example.com" share one counter, otherwise whatever
+ * was typed
+ */
+export const loginThrottleKey = (userId: string | null | undefined, identifier: string) =>
+  userId ? `user:${userId}` : `login:${identifier}`;
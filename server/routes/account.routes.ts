@@ -0,0 +1,108 @@
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate } from '../validation';
+import * as schemas from '../schemas';
+import { requireAuth } from '../middleware/auth';
+import { loginIpLimit } from '../middleware/rateLimits';
+import { DELETION_GRACE_PERIOD } from '../accountDeletion';
+import { AuditAction, auditLogData } from '../audit';
+import { mailer, deliver } from '../services/mail.service';
+import { hashToken, verifyPassword, completeLogin } from '../services/auth.service';
+
+// Self-service account deletion (see server/accountDeletion.ts for the purge)
+
+export const accountRouter = createApiRouter('/api/auth/account', 'Account');
+
+accountRouter.post('/delete', {
+  summary: 'Schedule deletion of your own account',
+  description: 'Requires the password and signs out everywhere. The account can be kept by signing in during the grace period.',
+}, requireAuth, validate(schemas.deleteAccount), async (req, res) => {
+  try {
+    const { password } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      return sendError(res, 401, 'Password is incorrect');
+    }
+
+    const deletionRequestedAt = new Date();
+    const deletionScheduledFor = new Date(deletionRequestedAt.getTime() + DELETION_GRACE_PERIOD);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { deletionRequestedAt, deletionScheduledFor }
+      }),
+      prisma.session.deleteMany({ where: { userId: user.id } }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: user,
+          action: AuditAction.USER_DELETION_SCHEDULED,
+          targetType: 'user',
+          targetId: user.id,
+          after: { deletionScheduledFor: deletionScheduledFor.toISOString() },
+        })
+      }),
+    ]);
+
+    deliver('deletion scheduled', mailer.sendAccountDeletionScheduled(user, deletionScheduledFor));
+
+    res.json({ message: 'Account scheduled for deletion', deletionScheduledFor });
+  } catch (error) {
+    console.error('Schedule account deletion error:', error);
+    sendError(res, 500, 'Failed to schedule account deletion');
+  }
+});
+
+accountRouter.post('/cancel-deletion', 'Keep an account pending deletion, using the token offered at sign-in', loginIpLimit, validate(schemas.cancelAccountDeletion), async (req, res) => {
+  try {
+    const { cancelToken } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        deletionCancelToken: hashToken(cancelToken),
+        deletionCancelExpiry: { gt: new Date() }
+      }
+    });
+
+    if (!user || !user.deletionScheduledFor) {
+      return sendError(res, 401, 'Sign-in expired, please sign in again');
+    }
+
+    const [restored] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          deletionRequestedAt: null,
+          deletionScheduledFor: null,
+          deletionCancelToken: null,
+          deletionCancelExpiry: null,
+        }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: user,
+          action: AuditAction.USER_DELETION_CANCELLED,
+          targetType: 'user',
+          targetId: user.id,
+          before: { deletionScheduledFor: user.deletionScheduledFor.toISOString() },
+        })
+      }),
+    ]);
+
+    deliver('deletion cancelled', mailer.sendAccountDeletionCancelled(user));
+
+    res.json(await completeLogin(restored, req));
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    sendError(res, 500, 'Failed to cancel account deletion');
+  }
+});
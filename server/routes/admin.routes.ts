@@ -0,0 +1,414 @@
+import type express from 'express';
+import { UserRole, AccountStatus, type User } from '@prisma/client';
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate, validatedQuery } from '../validation';
+import * as schemas from '../schemas';
+import { requireScope, requireRole, type AuthUser } from '../middleware/auth';
+import { AuditAction, auditLogData, parseAuditQuery } from '../audit';
+import { generateInviteCode, hashInviteCode } from '../invites';
+import { releaseBlobs, storedImageBlobs } from '../imageArchive';
+import { removeDataExports } from '../dataExport';
+import { blobStore } from '../services/storage.service';
+
+// User management, moderation, invite codes and the audit log
+
+export const adminRouter = createApiRouter('/api/admin', 'Admin');
+
+adminRouter.get('/users', 'List users', requireScope('admin'), requireRole(UserRole.ADMIN, UserRole.MODERATOR), async (req, res) => {
+  try {
+    const users = await prisma.user.findMany({
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        avatar: true,
+        role: true,
+        status: true,
+        suspendedUntil: true,
+        statusReason: true,
+        emailVerified: true,
+        createdAt: true,
+        lastLoginAt: true,
+        _count: {
+          select: {
+            posts: true,
+            followers: true,
+            following: true,
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(users);
+  } catch (error) {
+    console.error('Admin get users error:', error);
+    sendError(res, 500, 'Failed to get users');
+  }
+});
+
+adminRouter.put('/users/:id/role', 'Change a user\'s role', requireScope('admin'), requireRole(UserRole.ADMIN), validate(schemas.updateUserRole), async (req, res) => {
+  try {
+    const { role } = req.body;
+
+    const target = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, role: true }
+    });
+
+    if (!target) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    const [updatedUser] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: target.id },
+        data: { role },
+        select: {
+          id: true,
+          username: true,
+          email: true,
+          role: true,
+        }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: req.user!,
+          action: AuditAction.USER_ROLE_CHANGED,
+          targetType: 'user',
+          targetId: target.id,
+          before: { role: target.role },
+          after: { role },
+        })
+      }),
+    ]);
+
+    res.json(updatedUser);
+  } catch (error) {
+    console.error('Admin update role error:', error);
+    sendError(res, 500, 'Failed to update user role');
+  }
+});
+
+adminRouter.delete('/users/:id', 'Delete a user', requireScope('admin'), requireRole(UserRole.ADMIN), validate(schemas.deleteUser), async (req, res) => {
+  try {
+    // Prevent self-deletion
+    if (req.params.id === req.user!.id) {
+      return sendError(res, 400, 'Cannot delete your own account');
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, email: true, username: true, role: true, createdAt: true }
+    });
+
+    if (!target) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    // Archives and image files live outside the database, so the cascade can't remove them
+    await removeDataExports(prisma, target.id);
+    const blobs = await storedImageBlobs(prisma, target.id);
+
+    await prisma.$transaction([
+      prisma.user.delete({
+        where: { id: target.id }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: req.user!,
+          action: AuditAction.USER_DELETED,
+          targetType: 'user',
+          targetId: target.id,
+          before: { ...target, createdAt: target.createdAt.toISOString() },
+        })
+      }),
+    ]);
+
+    await releaseBlobs(prisma, blobStore, blobs);
+
+    res.json({ message: 'User deleted successfully' });
+  } catch (error) {
+    console.error('Admin delete user error:', error);
+    sendError(res, 500, 'Failed to delete user');
+  }
+});
+
+
+const accountStatusSelect = {
+  id: true,
+  username: true,
+  role: true,
+  status: true,
+  suspendedUntil: true,
+  statusReason: true,
+} as const;
+
+// Moderators can only act on regular users; admins on anyone but themselves
+const canModerate = (actor: AuthUser, target: Pick<User, 'id' | 'role'>) =>
+  actor.id !== target.id && (actor.role === UserRole.ADMIN || target.role === UserRole.USER);
+
+/**
+ * Shared body of the suspend/ban/unsuspend routes: checks permissions, updates
+ * the status, signs the user out everywhere and records it in the audit log
+ */
+const changeAccountStatus = async (
+  req: express.Request,
+  res: express.Response,
+  change: { status: AccountStatus; suspendedUntil: Date | null; statusReason: string | null },
+  action: AuditAction
+) => {
+  const actor = req.user!;
+
+  const target = await prisma.user.findUnique({
+    where: { id: req.params.id },
+    select: accountStatusSelect
+  });
+
+  if (!target) {
+    return sendError(res, 404, 'User not found');
+  }
+
+  if (!canModerate(actor, target)) {
+    return sendError(res, 403, 'You cannot change the status of this account');
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.update({
+      where: { id: target.id },
+      data: { ...change, statusChangedAt: new Date(), statusChangedById: actor.id },
+      select: accountStatusSelect
+    });
+
+    // Existing sessions would otherwise keep working until they expire
+    if (change.status !== AccountStatus.ACTIVE) {
+      await tx.session.deleteMany({ where: { userId: target.id } });
+    }
+
+    await tx.auditLog.create({
+      data: auditLogData(req, {
+        actor,
+        action,
+        targetType: 'user',
+        targetId: target.id,
+        before: {
+          status: target.status,
+          suspendedUntil: target.suspendedUntil?.toISOString() ?? null,
+          statusReason: target.statusReason,
+        },
+        after: {
+          status: change.status,
+          suspendedUntil: change.suspendedUntil?.toISOString() ?? null,
+          statusReason: change.statusReason,
+        },
+      })
+    });
+
+    return user;
+  });
+
+  res.json(updated);
+};
+
+adminRouter.post('/users/:id/suspend', 'Suspend a user until a given date', requireScope('admin'), requireRole(UserRole.ADMIN, UserRole.MODERATOR), validate(schemas.suspendUser), async (req, res) => {
+  try {
+    const { reason, until } = req.body;
+
+    await changeAccountStatus(req, res, {
+      status: AccountStatus.SUSPENDED,
+      suspendedUntil: until,
+      statusReason: reason,
+    }, AuditAction.USER_SUSPENDED);
+  } catch (error) {
+    console.error('Suspend user error:', error);
+    sendError(res, 500, 'Failed to suspend user');
+  }
+});
+
+adminRouter.post('/users/:id/ban', 'Ban a user indefinitely', requireScope('admin'), requireRole(UserRole.ADMIN, UserRole.MODERATOR), validate(schemas.banUser), async (req, res) => {
+  try {
+    const { reason } = req.body;
+
+    await changeAccountStatus(req, res, {
+      status: AccountStatus.BANNED,
+      suspendedUntil: null,
+      statusReason: reason,
+    }, AuditAction.USER_BANNED);
+  } catch (error) {
+    console.error('Ban user error:', error);
+    sendError(res, 500, 'Failed to ban user');
+  }
+});
+
+adminRouter.post('/users/:id/unsuspend', 'Lift a suspension or ban', requireScope('admin'), requireRole(UserRole.ADMIN, UserRole.MODERATOR), validate(schemas.unsuspendUser), async (req, res) => {
+  try {
+    await changeAccountStatus(req, res, {
+      status: AccountStatus.ACTIVE,
+      suspendedUntil: null,
+      statusReason: null,
+    }, AuditAction.USER_UNSUSPENDED);
+  } catch (error) {
+    console.error('Unsuspend user error:', error);
+    sendError(res, 500, 'Failed to lift suspension');
+  }
+});
+
+adminRouter.get('/stats', 'System stats', requireScope('admin'), requireRole(UserRole.ADMIN, UserRole.MODERATOR), async (req, res) => {
+  try {
+    const [userCount, postCount, blogCount, followCount] = await Promise.all([
+      prisma.user.count(),
+      prisma.post.count(),
+      prisma.blog.count(),
+      prisma.follow.count(),
+    ]);
+
+    res.json({
+      users: userCount,
+      posts: postCount,
+      blogs: blogCount,
+      follows: followCount,
+    });
+  } catch (error) {
+    console.error('Admin get stats error:', error);
+    sendError(res, 500, 'Failed to get system stats');
+  }
+});
+
+// ==================== INVITES ====================
+
+const inviteCodeSelect = {
+  id: true,
+  codePrefix: true,
+  note: true,
+  maxUses: true,
+  uses: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, username: true } },
+} as const;
+
+adminRouter.get('/invites', 'List invite codes', requireScope('admin'), requireRole(UserRole.ADMIN), async (req, res) => {
+  try {
+    const invites = await prisma.inviteCode.findMany({
+      select: inviteCodeSelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(invites);
+  } catch (error) {
+    console.error('Admin get invites error:', error);
+    sendError(res, 500, 'Failed to get invite codes');
+  }
+});
+
+adminRouter.post('/invites', {
+  summary: 'Create an invite code',
+  description: 'The code is only returned in this response; it is stored hashed.',
+  status: 201,
+}, requireScope('admin'), requireRole(UserRole.ADMIN), validate(schemas.createInviteCode), async (req, res) => {
+  try {
+    const { note, maxUses, expiresInDays } = req.body;
+    const { code, codePrefix } = generateInviteCode();
+    const expiresAt = expiresInDays === null
+      ? null
+      : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+
+    const invite = await prisma.$transaction(async (tx) => {
+      const created = await tx.inviteCode.create({
+        data: {
+          codeHash: hashInviteCode(code),
+          codePrefix,
+          note: note || null,
+          maxUses,
+          expiresAt,
+          createdById: req.user!.id,
+        },
+        select: inviteCodeSelect
+      });
+
+      await tx.auditLog.create({
+        data: auditLogData(req, {
+          actor: req.user!,
+          action: AuditAction.INVITE_CREATED,
+          targetType: 'invite',
+          targetId: created.id,
+          after: { codePrefix, note: created.note, maxUses, expiresAt: expiresAt?.toISOString() ?? null },
+        })
+      });
+
+      return created;
+    });
+
+    res.status(201).json({ code, invite });
+  } catch (error) {
+    console.error('Admin create invite error:', error);
+    sendError(res, 500, 'Failed to create invite code');
+  }
+});
+
+// Revoked rather than deleted, so accounts keep a record of the invite they used
+adminRouter.delete('/invites/:id', 'Revoke an invite code', requireScope('admin'), requireRole(UserRole.ADMIN), validate(schemas.revokeInviteCode), async (req, res) => {
+  try {
+    const invite = await prisma.inviteCode.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, codePrefix: true, uses: true, revokedAt: true }
+    });
+
+    if (!invite) {
+      return sendError(res, 404, 'Invite code not found');
+    }
+
+    if (invite.revokedAt) {
+      return res.json({ message: 'Invite code already revoked' });
+    }
+
+    await prisma.$transaction([
+      prisma.inviteCode.update({
+        where: { id: invite.id },
+        data: { revokedAt: new Date() }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: req.user!,
+          action: AuditAction.INVITE_REVOKED,
+          targetType: 'invite',
+          targetId: invite.id,
+          before: { codePrefix: invite.codePrefix, uses: invite.uses },
+        })
+      }),
+    ]);
+
+    res.json({ message: 'Invite code revoked' });
+  } catch (error) {
+    console.error('Admin revoke invite error:', error);
+    sendError(res, 500, 'Failed to revoke invite code');
+  }
+});
+
+adminRouter.get('/audit', {
+  summary: 'Query the audit log, newest first',
+  description: 'Filter by action, actor, target and date range (ISO dates).',
+}, requireScope('admin'), requireRole(UserRole.ADMIN), validate(schemas.auditLog), async (req, res) => {
+  try {
+    const { where, limit, offset } = parseAuditQuery(validatedQuery(req, schemas.auditLog.query));
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    res.json({ entries, total, limit, offset });
+  } catch (error) {
+    console.error('Admin get audit log error:', error);
+    sendError(res, 500, 'Failed to get audit log');
+  }
+});
@@ -0,0 +1,89 @@
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate } from '../validation';
+import * as schemas from '../schemas';
+import { requireAuth } from '../middleware/auth';
+import { generateApiToken, parseApiTokenRequest } from '../apiTokens';
+import { sendSecurityAlert } from '../services/mail.service';
+import { hashToken } from '../services/auth.service';
+
+// Personal access tokens for scripts (see server/apiTokens.ts for scopes)
+
+export const apiTokensRouter = createApiRouter('/api/auth/tokens', 'Personal access tokens');
+
+const apiTokenSelect = {
+  id: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdAt: true,
+} as const;
+
+apiTokensRouter.get('/', 'List personal access tokens (never the tokens themselves)', requireAuth, async (req, res) => {
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: req.user!.id },
+      select: apiTokenSelect,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(tokens);
+  } catch (error) {
+    console.error('List access tokens error:', error);
+    sendError(res, 500, 'Failed to load access tokens');
+  }
+});
+
+apiTokensRouter.post('/', {
+  summary: 'Create a personal access token',
+  description: 'The plaintext token is only ever returned in this response.',
+  status: 201,
+}, requireAuth, validate(schemas.createApiToken), async (req, res) => {
+  try {
+    const parsed = parseApiTokenRequest(req.body, req.user!.role);
+    if ('error' in parsed) {
+      return sendError(res, 400, parsed.error);
+    }
+
+    const { token, tokenPrefix } = generateApiToken();
+    const apiToken = await prisma.apiToken.create({
+      data: {
+        userId: req.user!.id,
+        name: parsed.name,
+        tokenHash: hashToken(token),
+        tokenPrefix,
+        scopes: parsed.scopes,
+        expiresAt: parsed.expiresAt,
+      },
+      select: apiTokenSelect
+    });
+
+    sendSecurityAlert(req.user!, `A personal access token "${parsed.name}" was created`, req);
+
+    res.status(201).json({ token, apiToken });
+  } catch (error) {
+    console.error('Create access token error:', error);
+    sendError(res, 500, 'Failed to create access token');
+  }
+});
+
+apiTokensRouter.delete('/:id', 'Revoke a personal access token', requireAuth, validate(schemas.revokeApiToken), async (req, res) => {
+  try {
+    const { count } = await prisma.apiToken.deleteMany({
+      where: { id: req.params.id, userId: req.user!.id }
+    });
+
+    if (count === 0) {
+      return sendError(res, 404, 'Access token not found');
+    }
+
+    res.json({ message: 'Access token revoked' });
+  } catch (error) {
+    console.error('Revoke access token error:', error);
+    sendError(res, 500, 'Failed to revoke access token');
+  }
+});
@@ -0,0 +1,344 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { base32Encode, currentStep, generateCode } from '../totp';
+import { hashPassword, hashToken } from '../services/auth.service';
+import { authRouter } from './auth.routes';
+
+// Every prisma.<model>.<method> is a mock, resolving to undefined unless a
+// test says otherwise; transactions run their operations as they are
+const prisma = vi.hoisted(() => {
+  process.env.MAIL_TRANSPORT = 'memory';
+
+  const models = new Map<string, Record<string, ReturnType<typeof vi.fn>>>();
+  const model = (name: string) => {
+    if (!models.has(name)) {
+      models.set(name, new Proxy({}, {
+        get: (methods: Record<string, ReturnType<typeof vi.fn>>, method: string) => (methods[method] ??= vi.fn()),
+      }));
+    }
+    return models.get(name)!;
+  };
+
+  const client: Record<string, unknown> = {
+    $transaction: vi.fn((operations: unknown) =>
+      typeof operations === 'function' ? operations(client) : Promise.all(operations as unknown[])),
+  };
+  return new Proxy(client, {
+    get: (target, name: string) => (name in target ? target[name] : model(name)),
+  }) as Record<string, Record<string, ReturnType<typeof vi.fn>>>;
+});
+vi.mock('../db', () => ({ prisma }));
+
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const CHALLENGE = 'challenge-token';
+
+const user = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'alice@example.com',
+  username: 'alice',
+  displayName: 'Alice',
+  avatar: null,
+  role: 'USER',
+  emailVerified: true,
+  status: 'ACTIVE',
+  suspendedUntil: null,
+  statusReason: null,
+  deletionScheduledFor: null,
+  passwordResetRequired: false,
+  twoFactorEnabled: true,
+  twoFactorSecret: SECRET,
+  twoFactorLastStep: null,
+  ...overrides,
+});
+
+const app = express().use(authRouter.basePath, authRouter.router);
+const server = app.listen(0);
+let baseUrl: string;
+
+const post = (path: string, body: unknown, token?: string) =>
+  fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(token && { authorization: `Bearer ${token}` }) },
+    body: JSON.stringify(body),
+  });
+
+// Authenticate requests made with SESSION as the user
+const SESSION = 'session-token';
+const signIn = (overrides: Record<string, unknown> = {}) => {
+  prisma.session.findUnique.mockResolvedValue({
+    id: 'session-1',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastSeenAt: new Date(),
+    user: user(overrides),
+  });
+};
+
+beforeAll(() => {
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/auth`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('POST /login/2fa', () => {
+  const secondStep = () => post('/login/2fa', { challengeToken: CHALLENGE, code: generateCode(SECRET, currentStep()) });
+
+  it('signs in with a valid code', async () => {
+    prisma.user.findFirst.mockResolvedValue(user());
+
+    const response = await secondStep();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ token: expect.any(String), user: { id: 'user-1' } });
+    expect(prisma.user.findFirst).toHaveBeenCalledWith({
+      where: { twoFactorChallengeToken: hashToken(CHALLENGE), twoFactorChallengeExpiry: { gt: expect.any(Date) } },
+    });
+    expect(prisma.session.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a challenge issued before the owner said "this wasn\'t me"', async () => {
+    prisma.user.findFirst.mockResolvedValue(user({ passwordResetRequired: true }));
+
+    const response = await secondStep();
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: expect.stringContaining('choose a new password') });
+    expect(prisma.session.create).not.toHaveBeenCalled();
+    expect(prisma.loginEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', method: 'two_factor', success: false, failureReason: 'password_reset_required' }),
+    });
+  });
+});
+
+describe('POST /change-password', () => {
+  let passwordHash: string;
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword('old horse battery staple');
+  });
+
+  beforeEach(() => {
+    signIn();
+    prisma.user.findUnique.mockResolvedValue(user({ passwordHash }));
+  });
+
+  it('signs out every other session and revokes every access token', async () => {
+    const response = await post('/change-password', {
+      currentPassword: 'old horse battery staple',
+      newPassword: 'zebra quantum mitten 42',
+    }, SESSION);
+
+    expect(response.status).toBe(200);
+    expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { passwordHash: expect.any(String) } });
+    expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1', id: { not: 'session-1' } } });
+    expect(prisma.apiToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps everything when the current password is wrong', async () => {
+    const response = await post('/change-password', {
+      currentPassword: 'not my password',
+      newPassword: 'zebra quantum mitten 42',
+    }, SESSION);
+
+    expect(response.status).toBe(401);
+    expect(prisma.session.deleteMany).not.toHaveBeenCalled();
+    expect(prisma.apiToken.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /reset-password', () => {
+  it('signs out every session, revokes every access token and lifts the "this wasn\'t me" lock', async () => {
+    prisma.user.findFirst.mockResolvedValue(user({ passwordResetRequired: true }));
+
+    const response = await post('/reset-password', { token: 'reset-token', newPassword: 'zebra quantum mitten 42' });
+
+    expect(response.status).toBe(200);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { passwordHash: expect.any(String), passwordResetToken: null, passwordResetExpiry: null, passwordResetRequired: false },
+    });
+    expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(prisma.apiToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses unknown or expired tokens', async () => {
+    prisma.user.findFirst.mockResolvedValue(null);
+
+    const response = await post('/reset-password', { token: 'reset-token', newPassword: 'zebra quantum mitten 42' });
+
+    expect(response.status).toBe(400);
+    expect(prisma.session.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /login-history/not-me', () => {
+  it('signs out every session, revokes every access token and locks sign-in, open challenges included', async () => {
+    prisma.loginEvent.findFirst.mockResolvedValue({
+      id: 'event-1',
+      userId: 'user-1',
+      ipAddress: '203.0.113.9',
+      userAgent: 'Firefox',
+      user: user(),
+    });
+
+    const response = await post('/login-history/not-me', { token: 'not-me-token' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ resetToken: expect.any(String) });
+    expect(prisma.loginEvent.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { notMeToken: hashToken('not-me-token'), notMeExpiry: { gt: expect.any(Date) } },
+    }));
+    expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(prisma.apiToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { passwordResetRequired: true, twoFactorChallengeToken: null, twoFactorChallengeExpiry: null },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses unknown or expired links', async () => {
+    prisma.loginEvent.findFirst.mockResolvedValue(null);
+
+    const response = await post('/login-history/not-me', { token: 'not-me-token' });
+
+    expect(response.status).toBe(400);
+    expect(prisma.session.deleteMany).not.toHaveBeenCalled();
+    expect(prisma.apiToken.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('email change', () => {
+  const HOUR = 60 * 60 * 1000;
+  let passwordHash: string;
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword('old horse battery staple');
+  });
+
+  describe('POST /change-email', () => {
+    const changeEmail = (password = 'old horse battery staple') =>
+      post('/change-email', { newEmail: 'alice@new.example', password }, SESSION);
+
+    beforeEach(() => {
+      signIn();
+    });
+
+    it('keeps the address until the new one is confirmed, storing only hashes of the links', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce(user({ passwordHash })).mockResolvedValueOnce(null);
+
+      const response = await changeEmail();
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ pendingEmail: 'alice@new.example' });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: {
+          pendingEmail: 'alice@new.example',
+          emailChangeToken: expect.stringMatching(/^[0-9a-f]{64}$/),
+          emailChangeExpiry: expect.any(Date),
+          previousEmail: 'alice@example.com',
+          emailRevertToken: expect.stringMatching(/^[0-9a-f]{64}$/),
+          emailRevertExpiry: expect.any(Date),
+        },
+      });
+      expect(prisma.user.update.mock.calls[0][0].data).not.toHaveProperty('email');
+    });
+
+    it('requires the password', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce(user({ passwordHash }));
+
+      expect((await changeEmail('not my password')).status).toBe(401);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses addresses already in use', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce(user({ passwordHash })).mockResolvedValueOnce({ id: 'user-2' });
+
+      expect((await changeEmail()).status).toBe(409);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses another change while the previous address can still undo the last one', async () => {
+      prisma.user.findUnique.mockResolvedValueOnce(user({
+        passwordHash,
+        previousEmail: 'alice@old.example',
+        emailRevertExpiry: new Date(Date.now() + 24 * HOUR),
+      }));
+
+      expect((await changeEmail()).status).toBe(409);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /confirm-email-change', () => {
+    it('switches to the new address, verified', async () => {
+      prisma.user.findFirst
+        .mockResolvedValueOnce(user({ pendingEmail: 'alice@new.example', emailVerified: false }))
+        .mockResolvedValueOnce(null);
+
+      const response = await post('/confirm-email-change', { token: 'confirm-token' });
+
+      expect(response.status).toBe(200);
+      expect(prisma.user.findFirst).toHaveBeenNthCalledWith(1, {
+        where: { emailChangeToken: hashToken('confirm-token'), emailChangeExpiry: { gt: expect.any(Date) } },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({ email: 'alice@new.example', emailVerified: true, pendingEmail: null, emailChangeToken: null }),
+      });
+    });
+
+    it('refuses unknown or expired links', async () => {
+      prisma.user.findFirst.mockResolvedValueOnce(null);
+
+      expect((await post('/confirm-email-change', { token: 'confirm-token' })).status).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses an address someone registered with meanwhile', async () => {
+      prisma.user.findFirst
+        .mockResolvedValueOnce(user({ pendingEmail: 'alice@new.example' }))
+        .mockResolvedValueOnce({ id: 'user-2' });
+
+      expect((await post('/confirm-email-change', { token: 'confirm-token' })).status).toBe(409);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /revert-email-change', () => {
+    it('restores the previous address and signs everyone out', async () => {
+      prisma.user.findFirst
+        .mockResolvedValueOnce(user({ email: 'mallory@evil.example', previousEmail: 'alice@example.com' }))
+        .mockResolvedValueOnce(null);
+
+      const response = await post('/revert-email-change', { token: 'revert-token' });
+
+      expect(response.status).toBe(200);
+      expect(prisma.user.findFirst).toHaveBeenNthCalledWith(1, {
+        where: { emailRevertToken: hashToken('revert-token'), emailRevertExpiry: { gt: expect.any(Date) } },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: expect.objectContaining({ email: 'alice@example.com', emailVerified: true, previousEmail: null, emailRevertToken: null }),
+      });
+      expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(prisma.apiToken.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    });
+
+    it('refuses unknown or expired links', async () => {
+      prisma.user.findFirst.mockResolvedValueOnce(null);
+
+      expect((await post('/revert-email-change', { token: 'revert-token' })).status).toBe(400);
+      expect(prisma.session.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,872 @@
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate, validatedQuery, sendFieldError } from '../validation';
+import * as schemas from '../schemas';
+import { requireAuth } from '../middleware/auth';
+import {
+  loginThrottle,
+  loginIpLimit,
+  passwordResetLimits,
+  findAccountLimits,
+  resendVerificationLimits,
+  changeEmailLimits,
+} from '../middleware/rateLimits';
+import { loginThrottleKey, sendTooManyRequests } from '../rateLimit';
+import { getAccountRestriction, sendAccountRestricted, sendPasswordResetRequired } from '../accountStatus';
+import { verifyCode, normalizeRecoveryCode } from '../totp';
+import { AuditAction, auditLogData } from '../audit';
+import { registrationModeFromEnv, redeemInviteCode } from '../invites';
+import { recordLoginFailure } from '../loginHistory';
+import { weakPasswordMessage } from '../../shared/passwordStrength';
+import { mailer, deliver, sendSecurityAlert } from '../services/mail.service';
+import { DEFAULT_PREFERENCES } from '../services/preferences.service';
+import {
+  PASSWORD_RESET_EXPIRY,
+  EMAIL_CHANGE_EXPIRY,
+  EMAIL_REVERT_EXPIRY,
+  generateToken,
+  hashToken,
+  issuePasswordResetToken,
+  hashPassword,
+  verifyPassword,
+  findUserByLogin,
+  maskUsername,
+  createSession,
+  finishLogin,
+} from '../services/auth.service';
+
+// Registration, sign-in, sessions and password/email recovery
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const TWO_FACTOR_CHALLENGE_EXPIRY = 5 * MINUTE; // Time allowed between password and code steps
+
+const registrationMode = registrationModeFromEnv();
+
+export const authRouter = createApiRouter('/api/auth', 'Auth');
+
+authRouter.get('/registration', 'Whether sign-up is open, invite-only or closed', (req, res) => {
+  res.json({ mode: registrationMode });
+});
+
+authRouter.post('/register', {
+  summary: 'Create an account',
+  description: 'Needs an `inviteCode` while registration is invite-only; refused while it is closed.',
+}, validate(schemas.register), async (req, res) => {
+  try {
+    const { email, username, password, displayName, inviteCode } = req.body;
+
+    if (registrationMode === 'closed') {
+      return sendError(res, 403, 'Registration is closed');
+    }
+
+    if (registrationMode === 'invite' && !inviteCode) {
+      return sendError(res, 403, 'An invite code is required to register');
+    }
+
+    // Check if user exists
+    const existing = await prisma.user.findFirst({
+      where: {
+        OR: [{ email }, { username }]
+      }
+    });
+
+    if (existing) {
+      if (existing.email === email) {
+        return sendError(res, 400, 'Email already registered');
+      }
+      return sendError(res, 400, 'Username already taken');
+    }
+
+    // Hash password
+    const passwordHash = await hashPassword(password);
+
+    // Generate email verification token
+    const emailVerificationToken = generateToken();
+
+    // Create user with preferences, using up the invite in the same transaction
+    const user = await prisma.$transaction(async (tx) => {
+      const invite = registrationMode === 'invite' ? await redeemInviteCode(tx, inviteCode!) : null;
+      if (registrationMode === 'invite' && !invite) {
+        return null;
+      }
+
+      return tx.user.create({
+        data: {
+          email,
+          username,
+          passwordHash,
+          displayName: displayName || username,
+          avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${username}`,
+          emailVerified: false,
+          emailVerificationToken,
+          inviteCodeId: invite?.id,
+          preferences: { create: DEFAULT_PREFERENCES }
+        },
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          displayName: true,
+          avatar: true,
+          emailVerified: true,
+          role: true,
+        }
+      });
+    });
+
+    if (!user) {
+      return sendError(res, 403, 'This invite code is invalid, expired or already used up');
+    }
+
+    deliver('verification', mailer.sendVerificationEmail(user, emailVerificationToken));
+
+    const token = await createSession(user.id, req);
+
+    res.json({ token, user });
+  } catch (error) {
+    console.error('Registration error:', error);
+    sendError(res, 500, 'Registration failed');
+  }
+});
+
+authRouter.post('/login', {
+  summary: 'Sign in with a password',
+  description: 'Returns a session, or a challenge token when two-factor authentication is on.',
+}, loginIpLimit, validate(schemas.login), async (req, res) => {
+  try {
+    const { emailOrUsername, password } = req.body;
+
+    // Find user
+    const user = await findUserByLogin(emailOrUsername);
+    const throttleKey = loginThrottleKey(user?.id, emailOrUsername);
+
+    // Refuse while the account is delayed or locked out after failed attempts
+    const retryAfter = await loginThrottle.retryAfter(throttleKey);
+    if (retryAfter > 0) {
+      return sendTooManyRequests(res, retryAfter, 'Too many failed login attempts.');
+    }
+
+    // Verify password
+    const isValid = user ? await verifyPassword(password, user.passwordHash) : false;
+    if (!user || !isValid) {
+      const failure = await loginThrottle.recordFailure(throttleKey);
+      if (user) {
+        await recordLoginFailure(user.id, 'password', failure.lockedOut ? 'locked_out' : 'invalid_password', req);
+      }
+      if (failure.lockedOut) {
+        if (user) {
+          sendSecurityAlert(user, 'Sign-in was locked after repeated failed attempts', req);
+        }
+        return sendTooManyRequests(res, failure.retryAfter, 'Too many failed login attempts. This account is temporarily locked.');
+      }
+      return sendError(res, 401, 'Invalid credentials');
+    }
+
+    await loginThrottle.recordSuccess(throttleKey);
+
+    // Only tell suspended users why once they've proven who they are
+    const restriction = getAccountRestriction(user);
+    if (restriction) {
+      await recordLoginFailure(user.id, 'password', 'account_restricted', req);
+      return sendAccountRestricted(res, restriction);
+    }
+
+    if (user.passwordResetRequired) {
+      await recordLoginFailure(user.id, 'password', 'password_reset_required', req);
+      return sendPasswordResetRequired(res);
+    }
+
+    // Password is right but a second factor is still needed
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateToken();
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorChallengeToken: hashToken(challengeToken),
+          twoFactorChallengeExpiry: new Date(Date.now() + TWO_FACTOR_CHALLENGE_EXPIRY)
+        }
+      });
+
+      return res.json({ twoFactorRequired: true, challengeToken });
+    }
+
+    res.json(await finishLogin(user, req, 'password'));
+  } catch (error) {
+    console.error('Login error:', error);
+    sendError(res, 500, 'Login failed');
+  }
+});
+
+authRouter.post('/login/2fa', 'Second sign-in step: authenticator or recovery code', loginIpLimit, validate(schemas.loginTwoFactor), async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        twoFactorChallengeToken: hashToken(challengeToken),
+        twoFactorChallengeExpiry: { gt: new Date() }
+      }
+    });
+
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      return sendError(res, 401, 'Login expired, please sign in again');
+    }
+
+    const throttleKey = `2fa:${user.id}`;
+    const retryAfter = await loginThrottle.retryAfter(throttleKey);
+    if (retryAfter > 0) {
+      return sendTooManyRequests(res, retryAfter, 'Too many invalid codes.');
+    }
+
+    let verified = false;
+    if (code) {
+      const step = verifyCode(user.twoFactorSecret, code);
+      // Each code only works once, even within its 30-second window
+      if (step !== null && (user.twoFactorLastStep === null || step > user.twoFactorLastStep)) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { twoFactorLastStep: step }
+        });
+        verified = true;
+      }
+    } else {
+      const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+        where: {
+          userId: user.id,
+          codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+          usedAt: null
+        },
+        data: { usedAt: new Date() }
+      });
+      verified = count > 0;
+    }
+
+    if (!verified) {
+      const failure = await loginThrottle.recordFailure(throttleKey);
+      await recordLoginFailure(user.id, 'two_factor', failure.lockedOut ? 'locked_out' : 'invalid_code', req);
+      if (failure.lockedOut) {
+        return sendTooManyRequests(res, failure.retryAfter, 'Too many invalid codes. This account is temporarily locked.');
+      }
+      return sendError(res, 401, code ? 'Invalid authentication code' : 'Invalid or already used recovery code');
+    }
+
+    await loginThrottle.recordSuccess(throttleKey);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorChallengeToken: null, twoFactorChallengeExpiry: null }
+    });
+
+    // Could have been suspended between the password and code steps
+    const restriction = getAccountRestriction(user);
+    if (restriction) {
+      await recordLoginFailure(user.id, 'two_factor', 'account_restricted', req);
+      return sendAccountRestricted(res, restriction);
+    }
+
+    // Or reported "this wasn't me" with a challenge still open
+    if (user.passwordResetRequired) {
+      await recordLoginFailure(user.id, 'two_factor', 'password_reset_required', req);
+      return sendPasswordResetRequired(res);
+    }
+
+    res.json(await finishLogin(user, req, 'two_factor'));
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    sendError(res, 500, 'Login failed');
+  }
+});
+
+authRouter.post('/logout', 'Sign out (revokes the current session)', requireAuth, async (req, res) => {
+  try {
+    await prisma.session.delete({
+      where: { id: req.sessionId }
+    });
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    sendError(res, 500, 'Logout failed');
+  }
+});
+
+authRouter.get('/me', 'The user behind the current session', requireAuth, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        avatar: true,
+        bio: true,
+        emailVerified: true,
+        pendingEmail: true,
+        twoFactorEnabled: true,
+        lastLoginAt: true,
+        role: true,
+      }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    res.json(user);
+  } catch (error) {
+    console.error('Get current user error:', error);
+    sendError(res, 500, 'Failed to get current user');
+  }
+});
+
+authRouter.post('/change-password', {
+  summary: 'Change password',
+  description: 'Signs out every other session and revokes every access token.',
+}, requireAuth, validate(schemas.changePassword), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    // Verify current password
+    const isValid = await verifyPassword(currentPassword, user.passwordHash);
+    if (!isValid) {
+      return sendError(res, 401, 'Current password is incorrect');
+    }
+
+    // Check if new password is same as current
+    const isSamePassword = await verifyPassword(newPassword, user.passwordHash);
+    if (isSamePassword) {
+      return sendError(res, 400, 'New password must be different from current password');
+    }
+
+    const weakness = weakPasswordMessage(newPassword, [user.username, user.email, user.displayName], 'New password');
+    if (weakness) {
+      return sendFieldError(res, 'body.newPassword', weakness);
+    }
+
+    // Update password, sign out every other device and revoke access tokens
+    const passwordHash = await hashPassword(newPassword);
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { passwordHash }
+      }),
+      prisma.session.deleteMany({
+        where: { userId, id: { not: req.sessionId } }
+      }),
+      prisma.apiToken.deleteMany({ where: { userId } }),
+    ]);
+
+    sendSecurityAlert(user, 'Your password was changed', req);
+
+    res.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    console.error('Change password error:', error);
+    sendError(res, 500, 'Failed to change password');
+  }
+});
+
+// ==================== EMAIL CHANGE ====================
+// The address only changes once the new one is confirmed. The old address is
+// told straight away and gets a link that cancels the change, or undoes it
+// for EMAIL_REVERT_EXPIRY after it went through.
+
+authRouter.post('/change-email', {
+  summary: 'Start changing the email address',
+  description: 'Requires the password. Emails a confirmation link to the new address and a revert link to the current one.',
+}, requireAuth, ...changeEmailLimits, validate(schemas.changeEmail), async (req, res) => {
+  try {
+    const { newEmail, password } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      return sendError(res, 401, 'Password is incorrect');
+    }
+
+    if (newEmail === user.email) {
+      return sendError(res, 400, 'That is already your email address');
+    }
+
+    // While the previous address can still undo a change, don't let a new one replace its revert link
+    const now = new Date();
+    if (user.previousEmail && user.previousEmail !== user.email && user.emailRevertExpiry && user.emailRevertExpiry > now) {
+      return sendError(res, 409, `Your email address was changed recently. You can change it again after ${user.emailRevertExpiry.toUTCString()}.`);
+    }
+
+    const taken = await prisma.user.findUnique({
+      where: { email: newEmail },
+      select: { id: true }
+    });
+    if (taken) {
+      return sendError(res, 409, 'That email address is already in use');
+    }
+
+    const confirmToken = generateToken();
+    const revertToken = generateToken();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        pendingEmail: newEmail,
+        emailChangeToken: hashToken(confirmToken),
+        emailChangeExpiry: new Date(now.getTime() + EMAIL_CHANGE_EXPIRY),
+        previousEmail: user.email,
+        emailRevertToken: hashToken(revertToken),
+        emailRevertExpiry: new Date(now.getTime() + EMAIL_REVERT_EXPIRY),
+      }
+    });
+
+    deliver('email change confirmation', mailer.sendEmailChangeConfirmation(user, newEmail, confirmToken, EMAIL_CHANGE_EXPIRY / HOUR));
+    deliver('email change notice', mailer.sendEmailChangeNotice(user, newEmail, revertToken, EMAIL_REVERT_EXPIRY / (24 * HOUR)));
+
+    res.json({ message: `We sent a confirmation link to ${newEmail}`, pendingEmail: newEmail });
+  } catch (error) {
+    console.error('Change email error:', error);
+    sendError(res, 500, 'Failed to change email address');
+  }
+});
+
+authRouter.post('/confirm-email-change', 'Confirm a new email address', validate(schemas.confirmEmailChange), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        emailChangeToken: hashToken(token),
+        emailChangeExpiry: { gt: new Date() }
+      }
+    });
+
+    if (!user || !user.pendingEmail) {
+      return sendError(res, 400, 'Invalid or expired confirmation link');
+    }
+
+    // Someone may have registered with the address since the change was requested
+    const taken = await prisma.user.findFirst({
+      where: { email: user.pendingEmail, id: { not: user.id } },
+      select: { id: true }
+    });
+    if (taken) {
+      return sendError(res, 409, 'That email address is already in use');
+    }
+
+    // The link proves the new address is theirs, so it is verified as of now;
+    // the revert token stays valid so the old address can still undo this
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          email: user.pendingEmail,
+          emailVerified: true,
+          emailVerificationToken: null,
+          pendingEmail: null,
+          emailChangeToken: null,
+          emailChangeExpiry: null,
+        }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: user,
+          action: AuditAction.EMAIL_CHANGED,
+          targetType: 'user',
+          targetId: user.id,
+          before: { email: user.email },
+          after: { email: user.pendingEmail },
+        })
+      }),
+    ]);
+
+    res.json({ message: 'Your email address has been changed', email: user.pendingEmail });
+  } catch (error) {
+    console.error('Confirm email change error:', error);
+    sendError(res, 500, 'Failed to confirm email address');
+  }
+});
+
+authRouter.post('/revert-email-change', {
+  summary: 'Cancel or undo an email change from the old address',
+  description: 'Restores the previous address (verified), signs out every session and revokes every access token.',
+}, validate(schemas.revertEmailChange), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        emailRevertToken: hashToken(token),
+        emailRevertExpiry: { gt: new Date() }
+      }
+    });
+
+    if (!user || !user.previousEmail) {
+      return sendError(res, 400, 'Invalid or expired link');
+    }
+
+    const restoredEmail = user.previousEmail;
+    if (restoredEmail !== user.email) {
+      const taken = await prisma.user.findFirst({
+        where: { email: restoredEmail, id: { not: user.id } },
+        select: { id: true }
+      });
+      if (taken) {
+        return sendError(res, 409, 'That email address is now used by another account');
+      }
+    }
+
+    // Whoever made the change may still be signed in or hold a token, so sign everyone out
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          email: restoredEmail,
+          emailVerified: restoredEmail === user.email ? user.emailVerified : true,
+          pendingEmail: null,
+          emailChangeToken: null,
+          emailChangeExpiry: null,
+          previousEmail: null,
+          emailRevertToken: null,
+          emailRevertExpiry: null,
+        }
+      }),
+      prisma.session.deleteMany({ where: { userId: user.id } }),
+      prisma.apiToken.deleteMany({ where: { userId: user.id } }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: null,
+          action: AuditAction.EMAIL_CHANGE_REVERTED,
+          targetType: 'user',
+          targetId: user.id,
+          before: { email: user.email, pendingEmail: user.pendingEmail },
+          after: { email: restoredEmail },
+        })
+      }),
+    ]);
+
+    sendSecurityAlert({ email: restoredEmail, username: user.username }, 'A change to your email address was undone', req);
+
+    res.json({ message: 'Your email address has been kept and every session was signed out. If you didn\'t ask for the change, reset your password.' });
+  } catch (error) {
+    console.error('Revert email change error:', error);
+    sendError(res, 500, 'Failed to undo the email change');
+  }
+});
+
+authRouter.get('/sessions', 'List active sessions', requireAuth, async (req, res) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: req.user!.id,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' }
+    });
+
+    res.json(sessions.map(session => ({
+      ...session,
+      current: session.id === req.sessionId,
+    })));
+  } catch (error) {
+    console.error('List sessions error:', error);
+    sendError(res, 500, 'Failed to list sessions');
+  }
+});
+
+authRouter.post('/sessions/revoke-others', 'Revoke every session except the current one', requireAuth, async (req, res) => {
+  try {
+    const { count } = await prisma.session.deleteMany({
+      where: { userId: req.user!.id, id: { not: req.sessionId } }
+    });
+
+    res.json({ message: `Signed out of ${count} other session(s)`, revoked: count });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    sendError(res, 500, 'Failed to revoke sessions');
+  }
+});
+
+authRouter.delete('/sessions/:id', 'Revoke a session', requireAuth, validate(schemas.revokeSession), async (req, res) => {
+  try {
+    // Scoped to the current user so one account can't revoke another's sessions
+    const { count } = await prisma.session.deleteMany({
+      where: { id: req.params.id, userId: req.user!.id }
+    });
+
+    if (count === 0) {
+      return sendError(res, 404, 'Session not found');
+    }
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    sendError(res, 500, 'Failed to revoke session');
+  }
+});
+
+// ==================== LOGIN HISTORY ====================
+
+authRouter.get('/login-history', 'List recent sign-in attempts, newest first', requireAuth, validate(schemas.loginHistory), async (req, res) => {
+  try {
+    const { limit } = validatedQuery(req, schemas.loginHistory.query);
+
+    const events = await prisma.loginEvent.findMany({
+      where: { userId: req.user!.id },
+      select: {
+        id: true,
+        method: true,
+        success: true,
+        failureReason: true,
+        ipAddress: true,
+        userAgent: true,
+        newDevice: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    res.json(events);
+  } catch (error) {
+    console.error('Login history error:', error);
+    sendError(res, 500, 'Failed to load login history');
+  }
+});
+
+authRouter.post('/login-history/not-me', {
+  summary: 'Report a new-device sign-in as not yours',
+  description: 'Uses the token from a new-device alert. Signs out every session, revokes every access token and refuses sign-in until the password is reset; returns a reset token for that.',
+}, validate(schemas.notMe), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    const event = await prisma.loginEvent.findFirst({
+      where: {
+        notMeToken: hashToken(token),
+        notMeExpiry: { gt: new Date() }
+      },
+      include: { user: true }
+    });
+
+    if (!event) {
+      return sendError(res, 400, 'Invalid or expired link');
+    }
+
+    await prisma.$transaction([
+      prisma.loginEvent.update({
+        where: { id: event.id },
+        data: { notMeToken: null, notMeExpiry: null }
+      }),
+      prisma.session.deleteMany({ where: { userId: event.userId } }),
+      prisma.apiToken.deleteMany({ where: { userId: event.userId } }),
+      prisma.user.update({
+        where: { id: event.userId },
+        // An open second-factor challenge can't be finished either
+        data: { passwordResetRequired: true, twoFactorChallengeToken: null, twoFactorChallengeExpiry: null }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: event.user,
+          action: AuditAction.LOGIN_DISAVOWED,
+          targetType: 'user',
+          targetId: event.userId,
+          before: { loginEventId: event.id, ipAddress: event.ipAddress, userAgent: event.userAgent },
+        })
+      }),
+    ]);
+
+    // Same token the forgot-password email carries, so the reset page handles the rest
+    const resetToken = await issuePasswordResetToken(event.userId);
+
+    res.json({ message: 'Every session has been signed out. Choose a new password to sign in again.', resetToken });
+  } catch (error) {
+    console.error('Not me error:', error);
+    sendError(res, 500, 'Failed to secure the account');
+  }
+});
+
+authRouter.post('/request-password-reset', 'Email a password reset link', ...passwordResetLimits, validate(schemas.requestPasswordReset), async (req, res) => {
+  try {
+    const { emailOrUsername } = req.body;
+
+    const user = await findUserByLogin(emailOrUsername);
+
+    // Always return success to prevent account enumeration
+    if (!user) {
+      return res.json({ message: 'If that account exists, a password reset link has been sent' });
+    }
+
+    const passwordResetToken = await issuePasswordResetToken(user.id);
+
+    deliver('password reset', mailer.sendPasswordResetEmail(user, passwordResetToken, PASSWORD_RESET_EXPIRY / MINUTE));
+
+    res.json({ message: 'If that account exists, a password reset link has been sent' });
+  } catch (error) {
+    console.error('Request password reset error:', error);
+    sendError(res, 500, 'Failed to request password reset');
+  }
+});
+
+authRouter.post('/reset-password', {
+  summary: 'Set a new password with a reset token',
+  description: 'Signs out every session and revokes every access token.',
+}, validate(schemas.resetPassword), async (req, res) => {
+  try {
+    const { token, newPassword } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        passwordResetToken: token,
+        passwordResetExpiry: {
+          gt: new Date()
+        }
+      }
+    });
+
+    if (!user) {
+      return sendError(res, 400, 'Invalid or expired reset token');
+    }
+
+    const weakness = weakPasswordMessage(newPassword, [user.username, user.email, user.displayName], 'New password');
+    if (weakness) {
+      return sendFieldError(res, 'body.newPassword', weakness);
+    }
+
+    // Update password, clear reset token, sign out every device and revoke
+    // access tokens, since whoever knew the old password may still hold them
+    const passwordHash = await hashPassword(newPassword);
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          passwordHash,
+          passwordResetToken: null,
+          passwordResetExpiry: null,
+          passwordResetRequired: false
+        }
+      }),
+      prisma.session.deleteMany({ where: { userId: user.id } }),
+      prisma.apiToken.deleteMany({ where: { userId: user.id } }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: user,
+          action: AuditAction.PASSWORD_RESET,
+          targetType: 'user',
+          targetId: user.id,
+        })
+      }),
+    ]);
+
+    sendSecurityAlert(user, 'Your password was reset', req);
+
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    sendError(res, 500, 'Failed to reset password');
+  }
+});
+
+authRouter.post('/verify-email', 'Verify an email address', validate(schemas.verifyEmail), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    const user = await prisma.user.findFirst({
+      where: { emailVerificationToken: token }
+    });
+
+    if (!user) {
+      return sendError(res, 400, 'Invalid verification token');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        emailVerified: true,
+        emailVerificationToken: null
+      }
+    });
+
+    res.json({ message: 'Email verified successfully' });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    sendError(res, 500, 'Failed to verify email');
+  }
+});
+
+authRouter.post('/resend-verification', 'Resend the verification email', requireAuth, ...resendVerificationLimits, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (user.emailVerified) {
+      return sendError(res, 400, 'Email already verified');
+    }
+
+    // Generate new verification token
+    const emailVerificationToken = generateToken();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerificationToken }
+    });
+
+    deliver('verification', mailer.sendVerificationEmail(user, emailVerificationToken));
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    sendError(res, 500, 'Failed to resend verification email');
+  }
+});
+
+authRouter.post('/find-account', 'Find a (masked) username by email', ...findAccountLimits, validate(schemas.findAccount), async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { email }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'No account found with that email address');
+    }
+
+    // Return masked username for security
+    const maskedUsername = maskUsername(user.username);
+
+    res.json({
+      username: maskedUsername,
+      message: `We found an account associated with ${email}. Your username is ${maskedUsername}`
+    });
+  } catch (error) {
+    console.error('Find account error:', error);
+    sendError(res, 500, 'Failed to find account');
+  }
+});
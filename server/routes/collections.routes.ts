@@ -0,0 +1,293 @@
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate, validatedQuery } from '../validation';
+import * as schemas from '../schemas';
+import { requireScope } from '../middleware/auth';
+import {
+  addToCollection,
+  collectionInclude,
+  collectionRules,
+  itemOrder,
+  reorderCollection,
+  smartCollectionWhere,
+  smartOrder,
+  toCollection,
+} from '../collections';
+
+// Collections (albums) of a user's stored images, and smart collections
+// that hold whatever matches their rules
+
+export const collectionsRouter = createApiRouter('/api/collections', 'Collections');
+
+// Images in a smart collection come from its rules, not from being added
+const SMART_COLLECTION_ERROR = 'A smart collection fills itself from its rules; edit the rules instead';
+
+// How many matching images a rules preview shows
+const PREVIEW_IMAGES = 12;
+
+// The caller's collection with this id, or null when there isn't one
+const findOwnCollection = (id: string, userId: string) =>
+  prisma.collection.findFirst({ where: { id, userId }, select: { id: true, coverImageId: true, rules: true } });
+
+const loadCollection = async (id: string) =>
+  toCollection(prisma, await prisma.collection.findUniqueOrThrow({ where: { id }, include: collectionInclude }));
+
+collectionsRouter.get('/', 'List your collections', requireScope('read:stored-images'), async (req, res) => {
+  try {
+    const collections = await prisma.collection.findMany({
+      where: { userId: req.user!.id },
+      include: collectionInclude,
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    res.json(await Promise.all(collections.map(collection => toCollection(prisma, collection))));
+  } catch (error) {
+    console.error('List collections error:', error);
+    sendError(res, 500, 'Failed to list collections');
+  }
+});
+
+collectionsRouter.post('/', {
+  summary: 'Create a collection',
+  description: 'imageIds, if given, are added in that order; ids that aren\'t your stored images are ignored. With rules it is a smart collection instead, holding every stored image that matches them.',
+  status: 201,
+}, requireScope('write:stored-images'), validate(schemas.createCollection), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { name, description, imageIds, rules } = req.body;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const collection = await tx.collection.create({ data: { userId, name, description, rules: rules ?? undefined } });
+      const added = await addToCollection(tx, collection.id, userId, imageIds);
+      return 'error' in added ? added : collection;
+    });
+    if ('error' in result) {
+      return sendError(res, 400, result.error);
+    }
+
+    res.status(201).json(await loadCollection(result.id));
+  } catch (error) {
+    console.error('Create collection error:', error);
+    sendError(res, 500, 'Failed to create collection');
+  }
+});
+
+collectionsRouter.post('/preview', {
+  summary: 'Preview a smart collection',
+  description: 'How many of your stored images the rules match, and the newest few, without saving anything.',
+}, requireScope('read:stored-images'), validate(schemas.previewSmartCollection), async (req, res) => {
+  try {
+    const where = smartCollectionWhere(req.user!.id, req.body.rules);
+    const [total, images] = await Promise.all([
+      prisma.storedImage.count({ where }),
+      prisma.storedImage.findMany({ where, orderBy: smartOrder, take: PREVIEW_IMAGES }),
+    ]);
+
+    res.json({ total, images });
+  } catch (error) {
+    console.error('Preview smart collection error:', error);
+    sendError(res, 500, 'Failed to preview smart collection');
+  }
+});
+
+collectionsRouter.get('/:id', {
+  summary: 'Get a collection and a page of its images, in order',
+  description: 'A smart collection\'s images are whichever of your stored images match its rules right now, newest first.',
+}, requireScope('read:stored-images'), validate(schemas.getCollection), async (req, res) => {
+  try {
+    const { limit, offset } = validatedQuery(req, schemas.getCollection.query);
+    const collection = await prisma.collection.findFirst({
+      where: { id: req.params.id, userId: req.user!.id },
+      include: collectionInclude,
+    });
+
+    if (!collection) {
+      return sendError(res, 404, 'Collection not found');
+    }
+
+    const rules = collectionRules(collection);
+    const images = rules
+      ? await prisma.storedImage.findMany({
+        where: smartCollectionWhere(collection.userId, rules),
+        orderBy: smartOrder,
+        take: limit,
+        skip: offset,
+      })
+      : (await prisma.collectionItem.findMany({
+        where: { collectionId: collection.id },
+        orderBy: itemOrder,
+        take: limit,
+        skip: offset,
+        select: { storedImage: true },
+      })).map(item => item.storedImage);
+
+    res.json({ ...(await toCollection(prisma, collection)), images, limit, offset });
+  } catch (error) {
+    console.error('Get collection error:', error);
+    sendError(res, 500, 'Failed to get collection');
+  }
+});
+
+collectionsRouter.put('/:id', {
+  summary: 'Rename a collection, change its description or pick its cover',
+  description: 'The cover must be an image in the collection; null goes back to using the first image. rules can only be changed on a smart collection; a cover that no longer matches them is dropped.',
+}, requireScope('write:stored-images'), validate(schemas.updateCollection), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { name, description, rules } = req.body;
+    let { coverImageId } = req.body;
+
+    const collection = await findOwnCollection(id, userId);
+    if (!collection) {
+      return sendError(res, 404, 'Collection not found');
+    }
+
+    const currentRules = collectionRules(collection);
+    if (rules && !currentRules) {
+      return sendError(res, 400, 'Only a smart collection has rules');
+    }
+
+    // In a smart collection, an image is in it if it matches the (new) rules
+    const newRules = rules ?? currentRules;
+    const inCollection = async (storedImageId: string) => !!(newRules
+      ? await prisma.storedImage.findFirst({
+        where: { AND: [{ id: storedImageId }, smartCollectionWhere(userId, newRules)] },
+        select: { id: true }
+      })
+      : await prisma.collectionItem.findUnique({
+        where: { collectionId_storedImageId: { collectionId: id, storedImageId } }
+      }));
+
+    if (coverImageId && !(await inCollection(coverImageId))) {
+      return sendError(res, 400, 'The cover must be an image in the collection');
+    }
+    if (rules && coverImageId === undefined && collection.coverImageId && !(await inCollection(collection.coverImageId))) {
+      coverImageId = null;
+    }
+
+    await prisma.collection.update({ where: { id }, data: { name, description, coverImageId, rules } });
+
+    res.json(await loadCollection(id));
+  } catch (error) {
+    console.error('Update collection error:', error);
+    sendError(res, 500, 'Failed to update collection');
+  }
+});
+
+collectionsRouter.delete('/:id', {
+  summary: 'Delete a collection',
+  description: 'The images stay in your stored images.',
+}, requireScope('write:stored-images'), validate(schemas.deleteCollection), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await findOwnCollection(id, req.user!.id))) {
+      return sendError(res, 404, 'Collection not found');
+    }
+
+    await prisma.collection.delete({ where: { id } });
+
+    res.json({ message: 'Collection deleted' });
+  } catch (error) {
+    console.error('Delete collection error:', error);
+    sendError(res, 500, 'Failed to delete collection');
+  }
+});
+
+collectionsRouter.post('/:id/images', {
+  summary: 'Add images to a collection',
+  description: 'Appended in the order given. Images already in the collection, and ids that aren\'t your stored images, are skipped. Not for smart collections.',
+}, requireScope('write:stored-images'), validate(schemas.collectionImages), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const collection = await findOwnCollection(id, userId);
+    if (!collection) {
+      return sendError(res, 404, 'Collection not found');
+    }
+    if (collection.rules) {
+      return sendError(res, 400, SMART_COLLECTION_ERROR);
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const added = await addToCollection(tx, id, userId, req.body.imageIds);
+      // Most recently changed collections list first
+      if ('added' in added && added.added > 0) {
+        await tx.collection.update({ where: { id }, data: { updatedAt: new Date() } });
+      }
+      return added;
+    });
+    if ('error' in result) {
+      return sendError(res, 400, result.error);
+    }
+
+    res.json({ ...(await loadCollection(id)), added: result.added });
+  } catch (error) {
+    console.error('Add collection images error:', error);
+    sendError(res, 500, 'Failed to add images to collection');
+  }
+});
+
+collectionsRouter.post('/:id/images/remove', {
+  summary: 'Remove images from a collection',
+  description: 'The images stay in your stored images. Removing the cover image goes back to using the first image. Not for smart collections.',
+}, requireScope('write:stored-images'), validate(schemas.collectionImages), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { imageIds } = req.body;
+
+    const collection = await findOwnCollection(id, req.user!.id);
+    if (!collection) {
+      return sendError(res, 404, 'Collection not found');
+    }
+    if (collection.rules) {
+      return sendError(res, 400, SMART_COLLECTION_ERROR);
+    }
+
+    const [{ count }] = await prisma.$transaction([
+      prisma.collectionItem.deleteMany({ where: { collectionId: id, storedImageId: { in: imageIds } } }),
+      prisma.collection.update({
+        where: { id },
+        data: {
+          updatedAt: new Date(),
+          ...(collection.coverImageId && imageIds.includes(collection.coverImageId) && { coverImageId: null }),
+        },
+      }),
+    ]);
+
+    res.json({ ...(await loadCollection(id)), removed: count });
+  } catch (error) {
+    console.error('Remove collection images error:', error);
+    sendError(res, 500, 'Failed to remove images from collection');
+  }
+});
+
+collectionsRouter.put('/:id/order', {
+  summary: 'Reorder a collection',
+  description: 'imageIds must list every image in the collection exactly once, in the new order. Not for smart collections, which are newest first.',
+}, requireScope('write:stored-images'), validate(schemas.reorderCollection), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const collection = await findOwnCollection(id, req.user!.id);
+    if (!collection) {
+      return sendError(res, 404, 'Collection not found');
+    }
+    if (collection.rules) {
+      return sendError(res, 400, SMART_COLLECTION_ERROR);
+    }
+
+    const error = await prisma.$transaction(tx => reorderCollection(tx, id, req.body.imageIds));
+    if (error) {
+      return sendError(res, 400, error);
+    }
+
+    res.json({ message: 'Collection reordered' });
+  } catch (error) {
+    console.error('Reorder collection error:', error);
+    sendError(res, 500, 'Failed to reorder collection');
+  }
+});
@@ -0,0 +1,90 @@
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate } from '../validation';
+import * as schemas from '../schemas';
+import { authenticate } from '../middleware/auth';
+
+// Server-side image fetching for bulk downloads
+
+export const downloadsRouter = createApiRouter('/api/download', 'Downloads');
+
+// Helper function for batched parallel fetching with concurrency control
+// Like Python's asyncio.Semaphore - limits concurrent operations
+async function fetchInBatches(items: any[], batchSize: number, fetchFn: (item: any, index: number) => Promise<any>) {
+  const results: any[] = [];
+  
+  for (let i = 0; i < items.length; i += batchSize) {
+    const batch = items.slice(i, i + batchSize);
+    const batchResults = await Promise.all(
+      batch.map((item, batchIndex) => fetchFn(item, i + batchIndex))
+    );
+    results.push(...batchResults);
+    
+    // Small delay between batches to prevent overwhelming the system
+    if (i + batchSize < items.length) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  
+  return results;
+}
+
+downloadsRouter.post('/bulk', {
+  summary: 'Fetch images in batches as base64 for client-side downloads',
+  description: 'Open to the web app without signing in; scripts need a token with the download scope.',
+  // Up to 1000 images, each with its post metadata for the sidecar files
+  bodyLimit: '10mb',
+}, authenticate({ scope: 'download', optional: true }), validate(schemas.bulkDownload), async (req, res) => {
+  try {
+    const { images } = req.body; // Array of { url, filename, metadata }
+
+    const BATCH_SIZE = 20; // Fetch 20 images at a time (like Python's asyncio.Semaphore(20))
+    const startTime = Date.now();
+    console.log(`[Parallel Download] Starting batched fetch of ${images.length} images (${BATCH_SIZE} concurrent)...`);
+
+    // Fetch images in controlled batches
+    const results = await fetchInBatches(images, BATCH_SIZE, async (image: any, index: number) => {
+      try {
+        const fetchStart = Date.now();
+        const response = await fetch(image.url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const buffer = await response.arrayBuffer();
+        const fetchTime = Date.now() - fetchStart;
+        console.log(`[Parallel Download] ✓ ${index + 1}/${images.length}: ${image.filename} (${(buffer.byteLength / 1024).toFixed(1)}KB, ${fetchTime}ms)`);
+        
+        // Convert to base64 for JSON transport
+        return {
+          filename: image.filename,
+          data: Buffer.from(buffer).toString('base64'),
+          size: buffer.byteLength,
+          metadata: image.metadata,
+        };
+      } catch (error) {
+        console.error(`[Parallel Download] ✗ ${index + 1}/${images.length}: ${image.filename} - ${error}`);
+        return null;
+      }
+    });
+
+    const successfulDownloads = results.filter(r => r !== null);
+    
+    const totalTime = Date.now() - startTime;
+    const totalSize = successfulDownloads.reduce((sum, r) => sum + (r?.size || 0), 0);
+    
+    console.log(`[Parallel Download] Completed ${successfulDownloads.length}/${images.length} images in ${(totalTime / 1000).toFixed(2)}s (${(totalSize / 1024 / 1024).toFixed(2)}MB total)`);
+
+    res.json({
+      success: true,
+      total: images.length,
+      downloaded: successfulDownloads.length,
+      failed: images.length - successfulDownloads.length,
+      totalTimeMs: totalTime,
+      totalSizeBytes: totalSize,
+      images: successfulDownloads,
+    });
+  } catch (error) {
+    console.error('[Parallel Download] Error:', error);
+    sendError(res, 500, 'Bulk download failed');
+  }
+});
@@ -0,0 +1,264 @@
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticatorTransportFuture,
+} from '@simplewebauthn/server';
+import { isoUint8Array } from '@simplewebauthn/server/helpers';
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate } from '../validation';
+import * as schemas from '../schemas';
+import { requireAuth } from '../middleware/auth';
+import { loginIpLimit } from '../middleware/rateLimits';
+import { relyingPartyFromEnv, toWebAuthnCredential } from '../passkeys';
+import { getAccountRestriction, sendAccountRestricted, sendPasswordResetRequired } from '../accountStatus';
+import { recordLoginFailure } from '../loginHistory';
+import { sendSecurityAlert } from '../services/mail.service';
+import { finishLogin } from '../services/auth.service';
+
+// WebAuthn passkeys: registration for signed-in users and passwordless sign-in
+
+const PASSKEY_CHALLENGE_EXPIRY = 5 * 60 * 1000; // Time allowed to complete a WebAuthn ceremony
+const relyingParty = relyingPartyFromEnv();
+
+export const passkeysRouter = createApiRouter('/api/auth/passkeys', 'Passkeys');
+
+// Store a WebAuthn challenge; the client echoes the id back with the authenticator's response
+const savePasskeyChallenge = async (challenge: string, userId?: string): Promise<string> => {
+  const now = new Date();
+  await prisma.passkeyChallenge.deleteMany({ where: { expiresAt: { lte: now } } });
+  const { id } = await prisma.passkeyChallenge.create({
+    data: { challenge, userId, expiresAt: new Date(now.getTime() + PASSKEY_CHALLENGE_EXPIRY) }
+  });
+  return id;
+};
+
+// Each challenge can be answered once, only by the user it was issued to (null for sign-in)
+const consumePasskeyChallenge = async (challengeId: unknown, userId: string | null): Promise<string | null> => {
+  if (typeof challengeId !== 'string') return null;
+
+  const pending = await prisma.passkeyChallenge.findUnique({ where: { id: challengeId } });
+  if (!pending) return null;
+
+  const { count } = await prisma.passkeyChallenge.deleteMany({ where: { id: challengeId } });
+  if (count === 0 || pending.expiresAt <= new Date() || pending.userId !== userId) {
+    return null;
+  }
+  return pending.challenge;
+};
+
+const passkeySelect = {
+  id: true,
+  name: true,
+  deviceType: true,
+  backedUp: true,
+  createdAt: true,
+  lastUsedAt: true,
+} as const;
+
+passkeysRouter.get('/', 'List passkeys', requireAuth, async (req, res) => {
+  try {
+    const passkeys = await prisma.passkeyCredential.findMany({
+      where: { userId: req.user!.id },
+      select: passkeySelect,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json(passkeys);
+  } catch (error) {
+    console.error('List passkeys error:', error);
+    sendError(res, 500, 'Failed to list passkeys');
+  }
+});
+
+passkeysRouter.post('/register/options', 'Start registering a passkey', requireAuth, async (req, res) => {
+  try {
+    const user = req.user!;
+
+    const existing = await prisma.passkeyCredential.findMany({
+      where: { userId: user.id },
+      select: { credentialId: true, transports: true }
+    });
+
+    const options = await generateRegistrationOptions({
+      rpName: relyingParty.name,
+      rpID: relyingParty.id,
+      userName: user.username,
+      userID: isoUint8Array.fromUTF8String(user.id),
+      attestationType: 'none',
+      // Stop the same authenticator being registered twice
+      excludeCredentials: existing.map(passkey => ({
+        id: passkey.credentialId,
+        transports: passkey.transports as AuthenticatorTransportFuture[],
+      })),
+      // Discoverable credentials, so sign-in works without typing a username
+      authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+    });
+
+    const challengeId = await savePasskeyChallenge(options.challenge, user.id);
+
+    res.json({ challengeId, options });
+  } catch (error) {
+    console.error('Passkey registration options error:', error);
+    sendError(res, 500, 'Failed to start passkey registration');
+  }
+});
+
+passkeysRouter.post('/register/verify', 'Finish registering a passkey with the authenticator\'s attestation', requireAuth, validate(schemas.verifyPasskeyRegistration), async (req, res) => {
+  try {
+    const user = req.user!;
+    const { challengeId, response, name } = req.body;
+
+    const expectedChallenge = await consumePasskeyChallenge(challengeId, user.id);
+    if (!expectedChallenge) {
+      return sendError(res, 400, 'Passkey registration expired, please try again');
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: relyingParty.origins,
+        expectedRPID: relyingParty.id,
+      });
+    } catch (error) {
+      console.error('Passkey registration verification error:', error);
+      return sendError(res, 400, 'Passkey could not be verified');
+    }
+
+    if (!verification.verified || !verification.registrationInfo) {
+      return sendError(res, 400, 'Passkey could not be verified');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    const passkey = await prisma.passkeyCredential.create({
+      data: {
+        userId: user.id,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports ?? [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        name: name || 'Passkey',
+      },
+      select: passkeySelect
+    });
+
+    sendSecurityAlert(user, 'A passkey was added', req);
+
+    res.json(passkey);
+  } catch (error) {
+    console.error('Passkey registration error:', error);
+    sendError(res, 500, 'Failed to register passkey');
+  }
+});
+
+passkeysRouter.delete('/:id', 'Remove a passkey', requireAuth, validate(schemas.deletePasskey), async (req, res) => {
+  try {
+    const { count } = await prisma.passkeyCredential.deleteMany({
+      where: { id: req.params.id, userId: req.user!.id }
+    });
+
+    if (count === 0) {
+      return sendError(res, 404, 'Passkey not found');
+    }
+
+    sendSecurityAlert(req.user!, 'A passkey was removed', req);
+
+    res.json({ message: 'Passkey removed' });
+  } catch (error) {
+    console.error('Delete passkey error:', error);
+    sendError(res, 500, 'Failed to remove passkey');
+  }
+});
+
+passkeysRouter.post('/login/options', {
+  summary: 'Start passwordless sign-in',
+  description: 'The browser offers whichever passkey it holds for this site.',
+}, loginIpLimit, async (req, res) => {
+  try {
+    const options = await generateAuthenticationOptions({
+      rpID: relyingParty.id,
+      userVerification: 'required',
+    });
+
+    const challengeId = await savePasskeyChallenge(options.challenge);
+
+    res.json({ challengeId, options });
+  } catch (error) {
+    console.error('Passkey login options error:', error);
+    sendError(res, 500, 'Failed to start passkey sign-in');
+  }
+});
+
+passkeysRouter.post('/login/verify', 'Finish passwordless sign-in', loginIpLimit, validate(schemas.verifyPasskeyLogin), async (req, res) => {
+  try {
+    const { challengeId, response } = req.body;
+
+    const expectedChallenge = await consumePasskeyChallenge(challengeId, null);
+    if (!expectedChallenge) {
+      return sendError(res, 401, 'Sign-in expired, please try again');
+    }
+
+    const passkey = await prisma.passkeyCredential.findUnique({
+      where: { credentialId: response.id },
+      include: { user: true }
+    });
+
+    if (!passkey) {
+      return sendError(res, 401, 'This passkey is not registered');
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: relyingParty.origins,
+        expectedRPID: relyingParty.id,
+        credential: toWebAuthnCredential(passkey),
+      });
+    } catch (error) {
+      console.error('Passkey login verification error:', error);
+      await recordLoginFailure(passkey.userId, 'passkey', 'invalid_passkey', req);
+      return sendError(res, 401, 'Passkey could not be verified');
+    }
+
+    if (!verification.verified) {
+      await recordLoginFailure(passkey.userId, 'passkey', 'invalid_passkey', req);
+      return sendError(res, 401, 'Passkey could not be verified');
+    }
+
+    await prisma.passkeyCredential.update({
+      where: { id: passkey.id },
+      data: {
+        counter: verification.authenticationInfo.newCounter,
+        backedUp: verification.authenticationInfo.credentialBackedUp,
+        lastUsedAt: new Date()
+      }
+    });
+
+    const restriction = getAccountRestriction(passkey.user);
+    if (restriction) {
+      await recordLoginFailure(passkey.userId, 'passkey', 'account_restricted', req);
+      return sendAccountRestricted(res, restriction);
+    }
+
+    // A passkey could have been added during a session the owner disowned
+    if (passkey.user.passwordResetRequired) {
+      await recordLoginFailure(passkey.userId, 'passkey', 'password_reset_required', req);
+      return sendPasswordResetRequired(res);
+    }
+
+    // A user-verified passkey already proves possession and identity, so no TOTP step
+    res.json(await finishLogin(passkey.user, req, 'passkey'));
+  } catch (error) {
+    console.error('Passkey login error:', error);
+    sendError(res, 500, 'Login failed');
+  }
+});
@@ -0,0 +1,306 @@
+import { pipeline } from 'stream/promises';
+import type { StoredImage } from '@prisma/client';
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate, validatedQuery } from '../validation';
+import * as schemas from '../schemas';
+import { requireScope } from '../middleware/auth';
+import { AuditAction, auditLogData } from '../audit';
+import { archiveImage, releaseBlobs } from '../imageArchive';
+import { blobStore } from '../services/storage.service';
+
+// Images saved from blogs into a user's library, with a copy of each file
+// kept in the blob store
+
+// Images are fetched from their hosts a few at a time
+const ARCHIVE_CONCURRENCY = 6;
+
+export const storedImagesRouter = createApiRouter('/api/stored-images', 'Stored images');
+
+storedImagesRouter.post('/', 'Store images', requireScope('write:stored-images'), validate(schemas.storeImages), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { images } = req.body;
+
+    console.log('📥 Store request - userId:', userId, 'images count:', images.length);
+
+    const storedImages: StoredImage[] = [];
+    let successCount = 0;
+    let skippedCount = 0;
+    const errors: { postId: string; photoIndex: number; error: string }[] = [];
+
+    // The same photo twice in one request would otherwise race itself below
+    const seen = new Set<string>();
+    const storedAt = new Date();
+
+    const storeImage = async (image: typeof images[number]) => {
+      const key = `${image.postId}:${image.photoIndex}`;
+      if (seen.has(key)) {
+        skippedCount++;
+        return;
+      }
+      seen.add(key);
+
+      try {
+        console.log('Processing image:', { postId: image.postId, photoIndex: image.photoIndex, blogName: image.blogName, url: image.url?.substring(0, 50) });
+        
+        // Check if already stored
+        const existing = await prisma.storedImage.findUnique({
+          where: {
+            userId_postId_photoIndex: {
+              userId,
+              postId: image.postId,
+              photoIndex: image.photoIndex
+            }
+          }
+        });
+
+        if (existing) {
+          console.log('⏭️  Already stored, skipping:', key);
+          skippedCount++;
+          return;
+        }
+
+        // Keep our own copy, recorded together with the row, so a stored image always has its file
+        const stored: StoredImage = await archiveImage(prisma, blobStore, image.url, (tx, file) => tx.storedImage.create({
+          data: {
+            userId,
+            postId: image.postId,
+            photoIndex: image.photoIndex,
+            blogName: image.blogName,
+            url: image.url,
+            ...file,
+            width: image.width,
+            height: image.height,
+            tags: JSON.stringify(image.tags),
+            description: image.description,
+            notes: image.notes,
+            timestamp: image.timestamp,
+            storedAt,
+          }
+        }));
+
+        console.log('✅ Stored image:', stored.id);
+        storedImages.push(stored);
+        successCount++;
+      } catch (err) {
+        console.error('❌ Error storing single image:', err);
+        errors.push({ postId: image.postId, photoIndex: image.photoIndex, error: err instanceof Error ? err.message : 'Failed to store image' });
+      }
+    };
+
+    for (let i = 0; i < images.length; i += ARCHIVE_CONCURRENCY) {
+      await Promise.all(images.slice(i, i + ARCHIVE_CONCURRENCY).map(storeImage));
+    }
+
+    console.log(`📊 Results - Success: ${successCount}, Skipped: ${skippedCount}, Errors: ${errors.length}`);
+    
+    if (errors.length > 0) {
+      console.log('❌ Errors:', errors);
+    }
+
+    res.json({
+      success: true,
+      stored: successCount,
+      skipped: skippedCount,
+      failed: errors.length,
+      total: images.length,
+      images: storedImages,
+      errors: errors.length > 0 ? errors : undefined
+    });
+  } catch (error) {
+    console.error('Store images error:', error);
+    sendError(res, 500, 'Failed to store images');
+  }
+});
+
+storedImagesRouter.get('/:userId', 'List a user\'s stored images', requireScope('read:stored-images'), validate(schemas.listStoredImages), async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { limit, offset, blogName } = validatedQuery(req, schemas.listStoredImages.query);
+
+    if (userId !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    const where: any = { userId };
+    if (blogName) {
+      where.blogName = blogName;
+    }
+
+    const images = await prisma.storedImage.findMany({
+      where,
+      // A request's images share storedAt, so the tiebreakers keep a photoset together and in order
+      orderBy: [{ storedAt: 'desc' }, { postId: 'asc' }, { photoIndex: 'asc' }],
+      take: limit,
+      skip: offset,
+    });
+
+    const total = await prisma.storedImage.count({ where });
+
+    res.json({
+      images,
+      total,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Get stored images error:', error);
+    sendError(res, 500, 'Failed to get stored images');
+  }
+});
+
+storedImagesRouter.get('/:id/file', {
+  summary: 'Download the archived copy of a stored image',
+  description: 'Served with a long-lived private cache and an ETag of the content hash. Images stored before archiving have no copy and answer 404. When the blob store hands out presigned URLs (S3_PRESIGN_EXPIRY), answers 302 to a short-lived download URL on the bucket instead.',
+  produces: 'image/*',
+}, requireScope('read:stored-images'), validate(schemas.storedImageFile), async (req, res) => {
+  try {
+    const image = await prisma.storedImage.findUnique({
+      where: { id: req.params.id },
+      select: { userId: true, sha256: true, byteSize: true, mimeType: true }
+    });
+
+    if (!image) {
+      return sendError(res, 404, 'Image not found');
+    }
+
+    if (image.userId !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    if (!image.sha256) {
+      return sendError(res, 404, 'This image has no archived copy');
+    }
+
+    // The bytes behind a hash never change, so the browser can keep them
+    const etag = `"${image.sha256}"`;
+    res.set({
+      'ETag': etag,
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    });
+    if (req.get('If-None-Match') === etag) {
+      return res.status(304).end();
+    }
+
+    const presigned = await blobStore.presignedUrl(image.sha256, image.mimeType);
+    if (presigned) {
+      // Only as long-lived as the URL it points at
+      res.set('Cache-Control', 'private, no-store');
+      return res.redirect(302, presigned);
+    }
+
+    const file = await blobStore.get(image.sha256);
+    if (!file) {
+      return sendError(res, 404, 'Archived file is missing');
+    }
+
+    res.set({
+      'Content-Type': image.mimeType ?? 'application/octet-stream',
+      // An SVG opened straight from our origin must not be able to run scripts
+      'Content-Security-Policy': "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'; sandbox",
+      ...(image.byteSize !== null && { 'Content-Length': String(image.byteSize) }),
+    });
+    await pipeline(file, res);
+  } catch (error) {
+    console.error('Get stored image file error:', error);
+    if (!res.headersSent) {
+      sendError(res, 500, 'Failed to get image file');
+    }
+  }
+});
+
+storedImagesRouter.delete('/:id', 'Delete a stored image', requireScope('write:stored-images'), validate(schemas.deleteStoredImage), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    // Verify ownership
+    const image = await prisma.storedImage.findUnique({
+      where: { id }
+    });
+
+    if (!image) {
+      return sendError(res, 404, 'Image not found');
+    }
+
+    if (image.userId !== userId) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    await prisma.storedImage.delete({
+      where: { id }
+    });
+    await releaseBlobs(prisma, blobStore, [image.sha256]);
+
+    res.json({ message: 'Image deleted successfully' });
+  } catch (error) {
+    console.error('Delete stored image error:', error);
+    sendError(res, 500, 'Failed to delete image');
+  }
+});
+
+storedImagesRouter.post('/bulk-delete', 'Delete several stored images at once (recorded in the audit log)', requireScope('write:stored-images'), validate(schemas.bulkDeleteStoredImages), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const { ids } = req.body;
+
+    // Only the caller's own images; anything else is silently left alone
+    const images = await prisma.storedImage.findMany({
+      where: { id: { in: ids }, userId },
+      select: { id: true, postId: true, blogName: true, sha256: true }
+    });
+
+    if (images.length === 0) {
+      return res.json({ message: 'No images deleted', deleted: 0 });
+    }
+
+    const [{ count }] = await prisma.$transaction([
+      prisma.storedImage.deleteMany({
+        where: { id: { in: images.map(image => image.id) }, userId }
+      }),
+      prisma.auditLog.create({
+        data: auditLogData(req, {
+          actor: req.user!,
+          action: AuditAction.STORED_IMAGES_BULK_DELETED,
+          targetType: 'user',
+          targetId: userId,
+          before: { count: images.length, images: images.map(({ sha256: _, ...image }) => image) },
+        })
+      }),
+    ]);
+    await releaseBlobs(prisma, blobStore, images.map(image => image.sha256));
+
+    res.json({ message: `Deleted ${count} image(s)`, deleted: count });
+  } catch (error) {
+    console.error('Bulk delete stored images error:', error);
+    sendError(res, 500, 'Failed to delete images');
+  }
+});
+
+storedImagesRouter.get('/:userId/stats', 'Stored image stats', requireScope('read:stored-images'), validate(schemas.storedImageStats), async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    if (userId !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    const total = await prisma.storedImage.count({ where: { userId } });
+    
+    const byBlog = await prisma.storedImage.groupBy({
+      by: ['blogName'],
+      where: { userId },
+      _count: true,
+    });
+
+    res.json({
+      total,
+      byBlog: byBlog.map(b => ({ blogName: b.blogName, count: b._count })),
+    });
+  } catch (error) {
+    console.error('Get stored images stats error:', error);
+    sendError(res, 500, 'Failed to get stats');
+  }
+});
@@ -0,0 +1,190 @@
+import QRCode from 'qrcode';
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate } from '../validation';
+import * as schemas from '../schemas';
+import { requireAuth } from '../middleware/auth';
+import { generateSecret, verifyCode, buildOtpauthUrl } from '../totp';
+import { sendSecurityAlert } from '../services/mail.service';
+import { verifyPassword, issueRecoveryCodes } from '../services/auth.service';
+
+// TOTP two-factor enrollment and recovery codes
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Tumblr T3';
+
+export const twoFactorRouter = createApiRouter('/api/auth/2fa', 'Two-factor authentication');
+
+twoFactorRouter.get('/', 'Two-factor status', requireAuth, async (req, res) => {
+  try {
+    const [user, recoveryCodesRemaining] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { twoFactorEnabled: true }
+      }),
+      prisma.twoFactorRecoveryCode.count({
+        where: { userId: req.user!.id, usedAt: null }
+      }),
+    ]);
+
+    res.json({
+      enabled: user?.twoFactorEnabled ?? false,
+      recoveryCodesRemaining,
+    });
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    sendError(res, 500, 'Failed to get two-factor status');
+  }
+});
+
+twoFactorRouter.post('/setup', 'Start enrollment: secret and QR code for the authenticator app', requireAuth, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      return sendError(res, 400, 'Two-factor authentication is already enabled');
+    }
+
+    // Not active until confirmed with a valid code via /enable
+    const secret = generateSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: secret, twoFactorLastStep: null }
+    });
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER);
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    res.json({ secret, otpauthUrl, qrCode });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    sendError(res, 500, 'Failed to start two-factor setup');
+  }
+});
+
+twoFactorRouter.post('/enable', 'Finish enrollment by confirming a code; returns the recovery codes once', requireAuth, validate(schemas.enableTwoFactor), async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      return sendError(res, 400, 'Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      return sendError(res, 400, 'Start two-factor setup first');
+    }
+
+    const step = verifyCode(user.twoFactorSecret, code);
+    if (step === null) {
+      return sendError(res, 400, 'Invalid authentication code');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true, twoFactorLastStep: step }
+    });
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+
+    sendSecurityAlert(user, 'Two-factor authentication was turned on', req);
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    sendError(res, 500, 'Failed to enable two-factor authentication');
+  }
+});
+
+twoFactorRouter.post('/disable', 'Turn two-factor off (password and a current code)', requireAuth, validate(schemas.disableTwoFactor), async (req, res) => {
+  try {
+    const { password, code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return sendError(res, 400, 'Two-factor authentication is not enabled');
+    }
+
+    const isValid = await verifyPassword(password, user.passwordHash);
+    if (!isValid) {
+      return sendError(res, 401, 'Password is incorrect');
+    }
+
+    if (verifyCode(user.twoFactorSecret, code) === null) {
+      return sendError(res, 400, 'Invalid authentication code');
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastStep: null,
+          twoFactorChallengeToken: null,
+          twoFactorChallengeExpiry: null
+        }
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+    ]);
+
+    sendSecurityAlert(user, 'Two-factor authentication was turned off', req);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    sendError(res, 500, 'Failed to disable two-factor authentication');
+  }
+});
+
+twoFactorRouter.post('/recovery-codes', 'Replace all recovery codes (password required)', requireAuth, validate(schemas.regenerateRecoveryCodes), async (req, res) => {
+  try {
+    const { password } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    if (!user.twoFactorEnabled) {
+      return sendError(res, 400, 'Two-factor authentication is not enabled');
+    }
+
+    const isValid = await verifyPassword(password, user.passwordHash);
+    if (!isValid) {
+      return sendError(res, 401, 'Password is incorrect');
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(user.id);
+
+    sendSecurityAlert(user, 'New two-factor recovery codes were generated', req);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    sendError(res, 500, 'Failed to regenerate recovery codes');
+  }
+});
@@ -0,0 +1,175 @@
+import path from 'path';
+import { prisma } from '../db';
+import { sendError } from '../errors';
+import { createApiRouter } from '../openapi';
+import { validate } from '../validation';
+import * as schemas from '../schemas';
+import { requireAuth } from '../middleware/auth';
+import { exportDirFromEnv, runDataExport, removeDataExports } from '../dataExport';
+import { getPreferences, updatePreferences } from '../services/preferences.service';
+
+// Profiles, display preferences and personal data exports
+
+// Personal data exports are written here (EXPORT_DIR, default .exports)
+const exportDir = exportDirFromEnv();
+
+export const usersRouter = createApiRouter('/api/users', 'Users');
+
+usersRouter.get('/:id', 'Public profile of a user', validate(schemas.getUser), async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        avatar: true,
+        bio: true,
+        emailVerified: true,
+        lastLoginAt: true,
+        role: true,
+      }
+    });
+
+    if (!user) {
+      return sendError(res, 404, 'User not found');
+    }
+
+    res.json(user);
+  } catch (error) {
+    console.error('Get user error:', error);
+    sendError(res, 500, 'Failed to get user');
+  }
+});
+
+usersRouter.get('/:id/preferences', 'Display preferences', requireAuth, validate(schemas.getPreferences), async (req, res) => {
+  try {
+    if (req.params.id !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    res.json(await getPreferences(req.params.id));
+  } catch (error) {
+    console.error('Get preferences error:', error);
+    sendError(res, 500, 'Failed to get preferences');
+  }
+});
+
+usersRouter.put('/:id/preferences', 'Update display preferences', requireAuth, validate(schemas.updatePreferences), async (req, res) => {
+  try {
+    if (req.params.id !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    // Only the fields in schemas.updatePreferences survive validation
+    res.json(await updatePreferences(req.params.id, req.body));
+  } catch (error) {
+    console.error('Update preferences error:', error);
+    sendError(res, 500, 'Failed to update preferences');
+  }
+});
+
+const dataExportSelect = {
+  id: true,
+  status: true,
+  progress: true,
+  size: true,
+  error: true,
+  createdAt: true,
+  completedAt: true,
+  expiresAt: true,
+} as const;
+
+usersRouter.post('/:id/export', {
+  summary: 'Start a personal data export',
+  description: 'Returns the export already running, if there is one.',
+  status: 202,
+}, requireAuth, validate(schemas.dataExport), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    if (req.params.id !== userId) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    const running = await prisma.dataExport.findFirst({
+      where: { userId, status: { in: ['PENDING', 'RUNNING'] } },
+      select: dataExportSelect
+    });
+
+    if (running) {
+      return res.status(202).json(running);
+    }
+
+    // Only the latest archive is kept
+    await removeDataExports(prisma, userId, exportDir);
+
+    const job = await prisma.dataExport.create({
+      data: { userId },
+      select: dataExportSelect
+    });
+
+    // Runs in the background; the client polls for progress
+    runDataExport(prisma, job.id, exportDir);
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Start data export error:', error);
+    sendError(res, 500, 'Failed to start data export');
+  }
+});
+
+usersRouter.get('/:id/export', 'Latest data export and its progress (null if there isn\'t one)', requireAuth, validate(schemas.dataExport), async (req, res) => {
+  try {
+    if (req.params.id !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    const job = await prisma.dataExport.findFirst({
+      where: { userId: req.params.id },
+      orderBy: { createdAt: 'desc' },
+      select: dataExportSelect
+    });
+
+    res.json(job);
+  } catch (error) {
+    console.error('Get data export error:', error);
+    sendError(res, 500, 'Failed to get data export');
+  }
+});
+
+usersRouter.get('/:id/export/:exportId/download', { summary: 'Download a finished data export', produces: 'application/zip' }, requireAuth, validate(schemas.downloadDataExport), async (req, res) => {
+  try {
+    if (req.params.id !== req.user!.id) {
+      return sendError(res, 403, 'Not authorized');
+    }
+
+    const job = await prisma.dataExport.findFirst({
+      where: { id: req.params.exportId, userId: req.params.id }
+    });
+
+    if (!job || job.status !== 'READY') {
+      return sendError(res, 404, 'Export not found');
+    }
+
+    // Checked before the file, which is deleted once the export expires
+    if (job.expiresAt && job.expiresAt <= new Date()) {
+      return sendError(res, 410, 'This export has expired. Please start a new one.');
+    }
+
+    if (!job.fileName) {
+      return sendError(res, 404, 'Export not found');
+    }
+
+    const date = job.createdAt.toISOString().slice(0, 10);
+    res.download(path.join(exportDir, job.fileName), `${req.user!.username}-data-${date}.zip`, (error) => {
+      if (error && !res.headersSent) {
+        console.error('Download data export error:', error);
+        sendError(res, 404, 'Export file is missing. Please start a new one.');
+      }
+    });
+  } catch (error) {
+    console.error('Download data export error:', error);
+    sendError(res, 500, 'Failed to download data export');
+  }
+});
@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+
+// Just enough of the S3 API for the blob store: put, get, head, delete, list
+// and presigned GETs, signed with AWS Signature Version 4. Works with AWS and
+// S3-compatible services (MinIO, Cloudflare R2, Backblaze B2, DigitalOcean
+// Spaces) by pointing S3_ENDPOINT at them.
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  // e.g. http://localhost:9000 for MinIO; AWS itself when unset
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Bucket in the path (endpoint/bucket/key) instead of the host name; what MinIO and most others expect
+  forcePathStyle: boolean;
+}
+
+/**
+ * Read the bucket and credentials for BLOB_STORE=s3. The standard AWS_*
+ * variables work too.
+ */
+export function s3ConfigFromEnv(env: NodeJS.ProcessEnv = process.env): S3Config {
+  const bucket = env.S3_BUCKET;
+  const accessKeyId = env.S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = env.S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('BLOB_STORE=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  return {
+    bucket,
+    region: env.S3_REGION || env.AWS_REGION || 'us-east-1',
+    endpoint: env.S3_ENDPOINT || undefined,
+    accessKeyId,
+    secretAccessKey,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : !!env.S3_ENDPOINT,
+  };
+}
+
+// ==================== SIGNING ====================
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+const EMPTY_PAYLOAD = sha256Hex('');
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// RFC 3986, as SigV4 wants it: encodeURIComponent leaves !'()* alone
+const uriEncode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Object keys keep their slashes
+const encodeKey = (key: string) => key.split('/').map(uriEncode).join('/');
+
+// 20130524T000000Z
+const amzDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const canonicalQuery = (params: URLSearchParams) =>
+  [...params.entries()]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+interface SigningInput {
+  method: string;
+  url: URL;
+  // Lowercase names; host is added from the URL
+  headers: Record<string, string>;
+  payloadHash: string;
+  date: Date;
+}
+
+export class S3Client {
+  constructor(private config: S3Config) {}
+
+  private get endpoint() {
+    return new URL(this.config.endpoint ?? `https://s3.${this.config.region}.amazonaws.com`);
+  }
+
+  /**
+   * URL of an object, or of the bucket itself when key is empty
+   */
+  private url(key = '', query: Record<string, string> = {}): URL {
+    const url = this.endpoint;
+    const path = key ? `/${encodeKey(key)}` : '/';
+    if (this.config.forcePathStyle) {
+      url.pathname = `/${uriEncode(this.config.bucket)}${key ? path : ''}`;
+    } else {
+      url.host = `${this.config.bucket}.${url.host}`;
+      url.pathname = path;
+    }
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    return url;
+  }
+
+  private scope(date: Date) {
+    return `${amzDate(date).slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+  }
+
+  private signature({ method, url, headers, payloadHash, date }: SigningInput) {
+    const allHeaders: Record<string, string> = { host: url.host, ...headers };
+    const names = Object.keys(allHeaders).sort();
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery(url.searchParams),
+      names.map(name => `${name}:${allHeaders[name].trim()}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate(date),
+      this.scope(date),
+      sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, amzDate(date).slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, this.config.region), 's3'), 'aws4_request');
+
+    return {
+      signedHeaders,
+      signature: crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex'),
+    };
+  }
+
+  private async request(method: string, url: URL, options: { body?: Buffer; headers?: Record<string, string> } = {}) {
+    const date = new Date();
+    const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_PAYLOAD;
+    const headers: Record<string, string> = {
+      ...options.headers,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate(date),
+    };
+    const { signedHeaders, signature } = this.signature({ method, url, headers, payloadHash, date });
+
+    return fetch(url, {
+      method,
+      // fetch's body types don't take a Buffer
+      body: options.body && new Uint8Array(options.body),
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${this.scope(date)}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+    });
+  }
+
+  private async fail(operation: string, response: Response): Promise<never> {
+    const body = await response.text().catch(() => '');
+    const code = /<Code>([^<]+)<\/Code>/.exec(body)?.[1];
+    throw new Error(`S3 ${operation} failed: HTTP ${response.status}${code ? ` ${code}` : ''}`);
+  }
+
+  // ==================== OBJECTS ====================
+
+  async putObject(key: string, body: Buffer, contentType = 'application/octet-stream') {
+    const response = await this.request('PUT', this.url(key), { body, headers: { 'content-type': contentType } });
+    if (!response.ok) await this.fail(`PUT ${key}`, response);
+  }
+
+  /**
+   * The object's bytes, or null if there is no such object
+   */
+  async getObject(key: string): Promise<Readable | null> {
+    const response = await this.request('GET', this.url(key));
+    if (response.status === 404) return null;
+    if (!response.ok || !response.body) await this.fail(`GET ${key}`, response);
+    return Readable.fromWeb(response.body as WebReadableStream);
+  }
+
+  async headObject(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', this.url(key));
+    if (response.status === 404) return false;
+    if (!response.ok) await this.fail(`HEAD ${key}`, response);
+    return true;
+  }
+
+  async deleteObject(key: string) {
+    const response = await this.request('DELETE', this.url(key));
+    // Deleting something that isn't there is a success in S3 too
+    if (!response.ok && response.status !== 404) await this.fail(`DELETE ${key}`, response);
+  }
+
+  /**
+   * Every key under a prefix, a page (up to 1000 keys) at a time
+   */
+  async *listObjects(prefix: string): AsyncGenerator<string> {
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.request('GET', this.url('', {
+        'list-type': '2',
+        prefix,
+        ...(continuationToken && { 'continuation-token': continuationToken }),
+      }));
+      if (!response.ok) await this.fail(`LIST ${prefix}`, response);
+
+      const xml = await response.text();
+      for (const [, key] of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        yield unescapeXml(key);
+      }
+      const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+      const next = /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(xml)?.[1];
+      continuationToken = truncated && next ? unescapeXml(next) : undefined;
+    } while (continuationToken);
+  }
+
+  /**
+   * A GET URL anyone holding it can use until it expires, so the browser can
+   * load the object straight from the bucket
+   */
+  presignGetUrl(key: string, options: { expiresIn: number; contentType?: string; date?: Date }): string {
+    const date = options.date ?? new Date();
+    const url = this.url(key, {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${this.scope(date)}`,
+      'X-Amz-Date': amzDate(date),
+      'X-Amz-Expires': String(options.expiresIn),
+      'X-Amz-SignedHeaders': 'host',
+      ...(options.contentType && { 'response-content-type': options.contentType }),
+    });
+    const { signature } = this.signature({ method: 'GET', url, headers: {}, payloadHash: UNSIGNED_PAYLOAD, date });
+    url.searchParams.set('X-Amz-Signature', signature);
+    return url.toString();
+  }
+}
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
@@ -0,0 +1,469 @@
+import { z } from 'zod/v4';
+import { UserRole } from '@prisma/client';
+import { weakPasswordMessage } from '../shared/passwordStrength';
+import {
+  DATE_RULE_FIELDS,
+  MAX_SMART_RULE_CONDITIONS,
+  MAX_SMART_RULE_VALUES,
+  NUMBER_RULE_FIELDS,
+  TEXT_RULE_FIELDS,
+} from '../shared/smartRules';
+import { API_TOKEN_SCOPES, MAX_API_TOKEN_LIFETIME_DAYS } from './apiTokens';
+import { MAX_AUDIT_PAGE } from './audit';
+import { MAX_COLLECTION_DESCRIPTION_LENGTH, MAX_COLLECTION_IMAGES, MAX_COLLECTION_NAME_LENGTH } from './collections';
+import { MAX_INVITE_LIFETIME_DAYS, MAX_INVITE_USES } from './invites';
+import { requiredString, id, idParams, queryInt, dateInput, type RequestSchemas } from './validation';
+
+// Request schemas for every route that reads params, query or body, passed to
+// validate() in index.ts. Grouped in the same order as the routes.
+
+const email = z.string({ error: 'Email is required' })
+  .trim()
+  .pipe(z.email({ error: 'Enter a valid email address' }));
+
+// bcrypt only looks at the first 72 bytes, so anything much longer is a mistake
+const password = (label = 'Password') => requiredString(label).max(128, { error: `${label} is too long` });
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Policy for passwords being set (registration, reset, change). The strength
+// check needs the account's username and email, so it runs where those are
+// known: on the register body below, and in the reset and change handlers.
+const newPassword = (label = 'Password') => password(label)
+  .min(MIN_PASSWORD_LENGTH, { error: `${label} must be at least ${MIN_PASSWORD_LENGTH} characters` })
+  .regex(/[a-zA-Z]/, { error: `${label} must contain at least one letter` })
+  .regex(/\d/, { error: `${label} must contain at least one number` });
+
+// Authenticator apps show six digits; some clients send them as a number
+const authCode = z.union([z.string(), z.number()], { error: 'Authentication code is required' })
+  .transform(String);
+
+// Credential JSON from navigator.credentials; @simplewebauthn checks the contents
+const webAuthnResponse = z.looseObject({
+  id: z.string(),
+  rawId: z.string(),
+  type: z.string(),
+  response: z.looseObject({}),
+}, { error: 'Passkey response is missing or malformed' });
+
+// ==================== AUTH ====================
+
+export const register = {
+  body: z.object({
+    email,
+    username: z.string({ error: 'Username is required' })
+      .trim()
+      .regex(/^[a-zA-Z0-9_-]{3,32}$/, {
+        error: 'Username must be 3-32 letters, numbers, underscores or hyphens',
+      }),
+    password: newPassword(),
+    displayName: z.string().trim().max(100, { error: 'Display name is too long' }).optional(),
+    // Only checked while REGISTRATION_MODE=invite
+    inviteCode: z.string().trim().max(100, { error: 'Invite code is too long' }).optional(),
+  }).superRefine((body, ctx) => {
+    const message = weakPasswordMessage(body.password, [body.username, body.email, body.displayName]);
+    if (message) ctx.addIssue({ code: 'custom', path: ['password'], message });
+  }),
+} satisfies RequestSchemas;
+
+export const login = {
+  body: z.object({
+    emailOrUsername: requiredString('Email or username').trim(),
+    password: password(),
+  }),
+} satisfies RequestSchemas;
+
+export const loginTwoFactor = {
+  body: z.object({
+    challengeToken: requiredString('Challenge token'),
+    code: authCode.optional(),
+    recoveryCode: z.string().optional(),
+  }).refine(body => body.code || body.recoveryCode, {
+    error: 'Enter an authentication code or a recovery code',
+    path: ['code'],
+  }),
+} satisfies RequestSchemas;
+
+export const changePassword = {
+  body: z.object({
+    currentPassword: requiredString('Current password'),
+    newPassword: newPassword('New password'),
+  }),
+} satisfies RequestSchemas;
+
+export const changeEmail = {
+  body: z.object({
+    newEmail: email,
+    password: password(),
+  }),
+} satisfies RequestSchemas;
+
+export const confirmEmailChange = {
+  body: z.object({ token: requiredString('Confirmation token') }),
+} satisfies RequestSchemas;
+
+export const revertEmailChange = {
+  body: z.object({ token: requiredString('Revert token') }),
+} satisfies RequestSchemas;
+
+export const revokeSession = { params: idParams } satisfies RequestSchemas;
+
+export const MAX_LOGIN_HISTORY_PAGE = 100;
+
+export const loginHistory = {
+  query: z.object({
+    limit: queryInt('limit', 50, MAX_LOGIN_HISTORY_PAGE),
+  }),
+} satisfies RequestSchemas;
+
+export const notMe = {
+  body: z.object({ token: requiredString('Token') }),
+} satisfies RequestSchemas;
+
+export const requestPasswordReset = {
+  body: z.object({ emailOrUsername: requiredString('Email or username').trim() }),
+} satisfies RequestSchemas;
+
+export const resetPassword = {
+  body: z.object({
+    token: requiredString('Reset token'),
+    newPassword: newPassword('New password'),
+  }),
+} satisfies RequestSchemas;
+
+export const verifyEmail = {
+  body: z.object({ token: requiredString('Verification token') }),
+} satisfies RequestSchemas;
+
+export const findAccount = {
+  body: z.object({ email }),
+} satisfies RequestSchemas;
+
+// ==================== PERSONAL ACCESS TOKENS ====================
+
+export const createApiToken = {
+  body: z.object({
+    name: z.string({ error: 'Token name is required' })
+      .trim()
+      .min(1, { error: 'Token name is required' })
+      .max(100, { error: 'Token name must be at most 100 characters' }),
+    scopes: z.array(z.enum(API_TOKEN_SCOPES, { error: 'Unknown scope' }), { error: 'Choose at least one scope' })
+      .min(1, { error: 'Choose at least one scope' }),
+    // null for a token that never expires
+    expiresInDays: z.number({ error: 'Expiry must be a number of days' })
+      .int({ error: 'Expiry must be a whole number of days' })
+      .min(1, { error: `Expiry must be between 1 and ${MAX_API_TOKEN_LIFETIME_DAYS} days` })
+      .max(MAX_API_TOKEN_LIFETIME_DAYS, { error: `Expiry must be between 1 and ${MAX_API_TOKEN_LIFETIME_DAYS} days` })
+      .nullable()
+      .default(null),
+  }),
+} satisfies RequestSchemas;
+
+export const revokeApiToken = { params: idParams } satisfies RequestSchemas;
+
+// ==================== TWO-FACTOR AUTHENTICATION ====================
+
+export const enableTwoFactor = {
+  body: z.object({ code: authCode }),
+} satisfies RequestSchemas;
+
+export const disableTwoFactor = {
+  body: z.object({ password: password(), code: authCode }),
+} satisfies RequestSchemas;
+
+export const regenerateRecoveryCodes = {
+  body: z.object({ password: password() }),
+} satisfies RequestSchemas;
+
+// ==================== PASSKEYS ====================
+
+export const verifyPasskeyRegistration = {
+  body: z.object({
+    challengeId: requiredString('Challenge ID'),
+    response: webAuthnResponse,
+    name: z.string().trim().max(64, { error: 'Passkey name must be at most 64 characters' }).optional(),
+  }),
+} satisfies RequestSchemas;
+
+export const deletePasskey = { params: idParams } satisfies RequestSchemas;
+
+export const verifyPasskeyLogin = {
+  body: z.object({
+    challengeId: requiredString('Challenge ID'),
+    response: webAuthnResponse,
+  }),
+} satisfies RequestSchemas;
+
+// ==================== USERS ====================
+
+export const getUser = { params: idParams } satisfies RequestSchemas;
+
+export const getPreferences = { params: idParams } satisfies RequestSchemas;
+
+// Only the preference columns; anything else in the body is dropped
+export const updatePreferences = {
+  params: idParams,
+  body: z.object({
+    theme: z.enum(['light', 'dark', 'system'], { error: 'Theme must be light, dark or system' }).optional(),
+    fontSize: z.number().int().min(10).max(32).optional(),
+    reducedMotion: z.boolean().optional(),
+    enableHaptics: z.boolean().optional(),
+    enableGestures: z.boolean().optional(),
+  }),
+} satisfies RequestSchemas;
+
+// ==================== ACCOUNT DELETION ====================
+
+export const deleteAccount = {
+  body: z.object({ password: password() }),
+} satisfies RequestSchemas;
+
+export const cancelAccountDeletion = {
+  body: z.object({ cancelToken: requiredString('Cancel token') }),
+} satisfies RequestSchemas;
+
+// ==================== DATA EXPORT ====================
+
+export const dataExport = { params: idParams } satisfies RequestSchemas;
+
+export const downloadDataExport = {
+  params: z.object({ id: id(), exportId: id('Export ID') }),
+} satisfies RequestSchemas;
+
+// ==================== STORED IMAGES ====================
+
+const MAX_IMAGES_PER_REQUEST = 1000;
+// Tumblr allows up to 30 images in one post
+const MAX_PHOTOS_PER_POST = 30;
+
+const storedImage = z.object({
+  postId: requiredString('Post ID'),
+  photoIndex: z.number().int().min(0).max(MAX_PHOTOS_PER_POST - 1, {
+    error: `photoIndex must be below ${MAX_PHOTOS_PER_POST}`,
+  }).default(0),
+  blogName: requiredString('Blog name'),
+  url: z.url({ error: 'Image URL must be a valid URL' }),
+  width: z.number().int().positive().nullish(),
+  height: z.number().int().positive().nullish(),
+  tags: z.array(z.string()).default([]),
+  description: z.string().nullish(),
+  notes: z.number().int().min(0).default(0),
+  timestamp: dateInput('Timestamp'),
+});
+
+export const storeImages = {
+  body: z.object({
+    images: z.array(storedImage, { error: 'images must be an array' })
+      .min(1, { error: 'No images provided' })
+      .max(MAX_IMAGES_PER_REQUEST, { error: `At most ${MAX_IMAGES_PER_REQUEST} images per request` }),
+  }),
+} satisfies RequestSchemas;
+
+const userIdParams = z.object({ userId: id('User ID') });
+
+export const listStoredImages = {
+  params: userIdParams,
+  query: z.object({
+    limit: queryInt('limit', 50, 500),
+    offset: queryInt('offset', 0, Number.MAX_SAFE_INTEGER),
+    blogName: z.string().optional(),
+  }),
+} satisfies RequestSchemas;
+
+export const storedImageFile = { params: idParams } satisfies RequestSchemas;
+
+export const deleteStoredImage = { params: idParams } satisfies RequestSchemas;
+
+export const bulkDeleteStoredImages = {
+  body: z.object({
+    ids: z.array(id('Image ID'), { error: 'ids must be a non-empty array of image ids' })
+      .min(1, { error: 'ids must be a non-empty array of image ids' })
+      .max(MAX_IMAGES_PER_REQUEST, { error: `At most ${MAX_IMAGES_PER_REQUEST} images per request` }),
+  }),
+} satisfies RequestSchemas;
+
+export const storedImageStats = { params: userIdParams } satisfies RequestSchemas;
+
+// ==================== COLLECTIONS ====================
+
+const collectionName = z.string({ error: 'Name is required' })
+  .trim()
+  .min(1, { error: 'Name is required' })
+  .max(MAX_COLLECTION_NAME_LENGTH, { error: `Name must be at most ${MAX_COLLECTION_NAME_LENGTH} characters` });
+
+// Blank clears it
+const collectionDescription = z.string()
+  .trim()
+  .max(MAX_COLLECTION_DESCRIPTION_LENGTH, { error: `Description must be at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters` })
+  .transform(description => description || null)
+  .nullish();
+
+const ruleText = z.string({ error: 'Rule value must be text' })
+  .trim()
+  .min(1, { error: 'Rule value is required' })
+  .max(200, { error: 'Rule value must be at most 200 characters' });
+
+const ruleDay = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { error: 'Rule date must be YYYY-MM-DD' })
+  // Date.parse would roll 2023-02-31 over into March
+  .refine(day => {
+    const date = new Date(`${day}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(day);
+  }, { error: 'Rule date is not a valid date' });
+
+const textField = z.enum(TEXT_RULE_FIELDS);
+const numberField = z.enum(NUMBER_RULE_FIELDS);
+const dateField = z.enum(DATE_RULE_FIELDS);
+
+// See shared/smartRules.ts
+const smartRule = z.union([
+  z.object({
+    field: textField,
+    op: z.enum(['in', 'notIn']),
+    value: z.array(ruleText)
+      .min(1, { error: 'Rule needs at least one value' })
+      .max(MAX_SMART_RULE_VALUES, { error: `At most ${MAX_SMART_RULE_VALUES} values per rule` }),
+  }),
+  z.object({ field: textField, op: z.literal('contains'), value: ruleText }),
+  z.object({ field: z.literal('tags'), op: z.enum(['includes', 'excludes']), value: ruleText }),
+  z.object({ field: numberField, op: z.enum(['gte', 'lte', 'equals']), value: z.number().int().min(0) }),
+  z.object({ field: dateField, op: z.enum(['after', 'before']), value: ruleDay }),
+  z.object({ field: dateField, op: z.literal('year'), value: z.number().int().min(1970).max(9999) }),
+  z.object({ field: dateField, op: z.literal('lastDays'), value: z.number().int().min(1).max(36500) }),
+], { error: 'Not a valid rule' });
+
+const smartRules = z.object({
+  match: z.enum(['all', 'any'], { error: 'match must be "all" or "any"' }),
+  conditions: z.array(smartRule)
+    .max(MAX_SMART_RULE_CONDITIONS, { error: `At most ${MAX_SMART_RULE_CONDITIONS} rules` }),
+});
+
+const collectionImageIds = (max: number) =>
+  z.array(id('Image ID'), { error: 'imageIds must be an array of image ids' })
+    .max(max, { error: `At most ${max} images per request` });
+
+export const createCollection = {
+  body: z.object({
+    name: collectionName,
+    description: collectionDescription,
+    imageIds: collectionImageIds(MAX_IMAGES_PER_REQUEST).default([]),
+    rules: smartRules.nullish(),
+  }).refine(({ imageIds, rules }) => !rules || imageIds.length === 0, {
+    error: 'A smart collection fills itself from its rules; leave out imageIds',
+    path: ['imageIds'],
+  }),
+} satisfies RequestSchemas;
+
+export const previewSmartCollection = {
+  body: z.object({ rules: smartRules }),
+} satisfies RequestSchemas;
+
+export const getCollection = {
+  params: idParams,
+  query: z.object({
+    limit: queryInt('limit', 200, MAX_COLLECTION_IMAGES),
+    offset: queryInt('offset', 0, Number.MAX_SAFE_INTEGER),
+  }),
+} satisfies RequestSchemas;
+
+export const updateCollection = {
+  params: idParams,
+  body: z.object({
+    name: collectionName.optional(),
+    description: collectionDescription,
+    coverImageId: id('Cover image ID').nullish(),
+    rules: smartRules.optional(),
+  }),
+} satisfies RequestSchemas;
+
+export const deleteCollection = { params: idParams } satisfies RequestSchemas;
+
+export const collectionImages = {
+  params: idParams,
+  body: z.object({
+    imageIds: collectionImageIds(MAX_IMAGES_PER_REQUEST)
+      .min(1, { error: 'imageIds must be a non-empty array of image ids' }),
+  }),
+} satisfies RequestSchemas;
+
+export const reorderCollection = {
+  params: idParams,
+  body: z.object({ imageIds: collectionImageIds(MAX_COLLECTION_IMAGES) }),
+} satisfies RequestSchemas;
+
+// ==================== ADMIN ====================
+
+export const updateUserRole = {
+  params: idParams,
+  body: z.object({ role: z.enum(UserRole, { error: 'Invalid role' }) }),
+} satisfies RequestSchemas;
+
+export const deleteUser = { params: idParams } satisfies RequestSchemas;
+
+const moderationReason = z.string({ error: 'A reason is required' })
+  .trim()
+  .min(1, { error: 'A reason is required' })
+  .max(500, { error: 'Reason must be at most 500 characters' });
+
+export const suspendUser = {
+  params: idParams,
+  body: z.object({
+    reason: moderationReason,
+    until: dateInput('Suspension end date')
+      .refine(until => until > new Date(), { error: 'Suspension end date must be in the future' }),
+  }),
+} satisfies RequestSchemas;
+
+export const banUser = {
+  params: idParams,
+  body: z.object({ reason: moderationReason }),
+} satisfies RequestSchemas;
+
+export const unsuspendUser = { params: idParams } satisfies RequestSchemas;
+
+export const createInviteCode = {
+  body: z.object({
+    note: z.string().trim().max(200, { error: 'Note must be at most 200 characters' }).optional(),
+    maxUses: z.number({ error: 'Uses must be a number' })
+      .int({ error: 'Uses must be a whole number' })
+      .min(1, { error: `Uses must be between 1 and ${MAX_INVITE_USES}` })
+      .max(MAX_INVITE_USES, { error: `Uses must be between 1 and ${MAX_INVITE_USES}` })
+      .default(1),
+    // null for a code that never expires
+    expiresInDays: z.number({ error: 'Expiry must be a number of days' })
+      .int({ error: 'Expiry must be a whole number of days' })
+      .min(1, { error: `Expiry must be between 1 and ${MAX_INVITE_LIFETIME_DAYS} days` })
+      .max(MAX_INVITE_LIFETIME_DAYS, { error: `Expiry must be between 1 and ${MAX_INVITE_LIFETIME_DAYS} days` })
+      .nullable()
+      .default(null),
+  }),
+} satisfies RequestSchemas;
+
+export const revokeInviteCode = { params: idParams } satisfies RequestSchemas;
+
+export const auditLog = {
+  query: z.object({
+    action: z.string().optional(),
+    actorId: z.string().optional(),
+    targetType: z.string().optional(),
+    targetId: z.string().optional(),
+    from: dateInput('from').optional(),
+    to: dateInput('to').optional(),
+    limit: queryInt('limit', 50, MAX_AUDIT_PAGE),
+    offset: queryInt('offset', 0, Number.MAX_SAFE_INTEGER),
+  }),
+} satisfies RequestSchemas;
+
+// ==================== DOWNLOADS ====================
+
+export const bulkDownload = {
+  body: z.object({
+    images: z.array(z.object({
+      url: z.url({ error: 'Image URL must be a valid URL' }),
+      filename: requiredString('Filename'),
+      metadata: z.unknown().optional(),
+    }), { error: 'images must be an array' })
+      .min(1, { error: 'No images provided' })
+      .max(MAX_IMAGES_PER_REQUEST, { error: `At most ${MAX_IMAGES_PER_REQUEST} images per request` }),
+  }),
+} satisfies RequestSchemas;
@@ -0,0 +1,96 @@
+import { parseArgs } from 'util';
+import { prisma } from '../db';
+import { copyBlobs, createBlobStore } from '../blobStore';
+import { verifyArchivedImages } from '../imageArchive';
+
+// Blob store maintenance, run with the same environment as the server:
+//
+//   npm run blobs:migrate -- --from local --to s3 [--delete-source]
+//     Copy every blob from one store to another, e.g. off an ephemeral disk
+//     before switching BLOB_STORE. Safe to re-run; blobs already copied are
+//     skipped. --delete-source turns the copy into a move.
+//
+//   npm run blobs:verify [-- --store s3]
+//     Check that every archived stored image is present and matches its
+//     checksum. Exits 1 if anything is missing or corrupt.
+
+const usage = `Usage:
+  npm run blobs:migrate -- --from <local|s3> --to <local|s3> [--delete-source]
+  npm run blobs:verify [-- --store <local|s3>]`;
+
+const PROGRESS_EVERY = 100;
+
+async function migrate(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'delete-source': { type: 'boolean', default: false },
+    },
+  });
+  if (!values.from || !values.to || values.from === values.to) {
+    throw new Error(`--from and --to must name two different stores\n\n${usage}`);
+  }
+
+  const source = createBlobStore(process.env, values.from);
+  const target = createBlobStore(process.env, values.to);
+
+  console.log(`Copying blobs from ${values.from} to ${values.to}${values['delete-source'] ? ' (deleting the source copies)' : ''}...`);
+  const result = await copyBlobs(source, target, {
+    deleteSource: values['delete-source'],
+    onProgress: done => {
+      if (done % PROGRESS_EVERY === 0) console.log(`   ${done} done`);
+    },
+  });
+
+  console.log(`Copied ${result.copied}, already there ${result.skipped}`);
+  if (result.corrupt.length > 0) {
+    console.error(`${result.corrupt.length} blobs don't match their hash and were left in ${values.from}:`);
+    result.corrupt.forEach(hash => console.error(`   ${hash}`));
+    return false;
+  }
+  return true;
+}
+
+async function verify(args: string[]) {
+  const { values } = parseArgs({ args, options: { store: { type: 'string' } } });
+  const store = createBlobStore(process.env, values.store);
+
+  console.log(`Verifying archived images in ${values.store ?? process.env.BLOB_STORE ?? 'local'}...`);
+  const { checked, problems } = await verifyArchivedImages(prisma, store, (done, total) => {
+    if (done % PROGRESS_EVERY === 0) console.log(`   ${done} of ${total}`);
+  });
+
+  console.log(`Checked ${checked} blobs`);
+  if (problems.length > 0) {
+    console.error(`${problems.length} problems:`);
+    problems.forEach(({ sha256, problem }) => console.error(`   ${sha256} ${problem}`));
+    return false;
+  }
+  return true;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  switch (command) {
+    case 'migrate':
+      return migrate(args);
+    case 'verify':
+      return verify(args);
+    default:
+      console.error(usage);
+      return false;
+  }
+}
+
+main()
+  .then(async ok => {
+    await prisma.$disconnect();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (e) => {
+    console.error('❌ Blob command failed:', e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  corsOptions,
+  createOriginCheck,
+  csrfProtection,
+  inlineScriptHashes,
+  securityConfigFromEnv,
+  securityHeaders,
+  type SecurityConfig,
+} from './security';
+
+const CONFIG: SecurityConfig = { origins: ['https://tumblr.example', 'http://*:5173'], production: true };
+
+describe('securityConfigFromEnv', () => {
+  it('reads a comma-separated allowlist as given', () => {
+    expect(securityConfigFromEnv({ CORS_ORIGINS: ' https://a.example, ,http://b.example:8080 ', NODE_ENV: 'development' }))
+      .toEqual({ origins: ['https://a.example', 'http://b.example:8080'], production: false });
+  });
+
+  it('falls back to the origin of BASE_URL, plus the local Vite servers outside production', () => {
+    expect(securityConfigFromEnv({ BASE_URL: 'https://tumblr.example/app/', NODE_ENV: 'production' }))
+      .toEqual({ origins: ['https://tumblr.example'], production: true });
+    expect(securityConfigFromEnv({ BASE_URL: 'https://tumblr.example/app/' }).origins).toEqual([
+      'https://tumblr.example',
+      'http://localhost:5173',
+      'http://127.0.0.1:5173',
+      'http://localhost:4173',
+      'http://127.0.0.1:4173',
+    ]);
+  });
+});
+
+describe('createOriginCheck', () => {
+  const isAllowed = createOriginCheck(CONFIG);
+
+  it('allows listed origins, ignoring case', () => {
+    expect(isAllowed('https://tumblr.example')).toBe(true);
+    expect(isAllowed('HTTPS://Tumblr.Example')).toBe(true);
+  });
+
+  it('lets * stand for exactly one host', () => {
+    expect(isAllowed('http://192.168.1.20:5173')).toBe(true);
+    expect(isAllowed('http://phone.tailnet.ts.net:5173')).toBe(true);
+    expect(isAllowed('http://evil.example:5173/x')).toBe(false);
+    expect(isAllowed('http://evil.example:51730')).toBe(false);
+  });
+
+  it('refuses lookalikes of listed origins', () => {
+    expect(isAllowed('http://tumblr.example')).toBe(false);
+    expect(isAllowed('https://tumblr.example.evil.example')).toBe(false);
+    expect(isAllowed('https://tumblrXexample')).toBe(false);
+    expect(isAllowed('https://tumblr.example:8443')).toBe(false);
+  });
+});
+
+describe('corsOptions', () => {
+  const allows = (origin: string | undefined) => new Promise((resolve) => {
+    const check = corsOptions(CONFIG).origin as (origin: string | undefined, callback: (error: Error | null, allow?: boolean) => void) => void;
+    check(origin, (_, allow) => resolve(allow));
+  });
+
+  it('answers listed origins and requests without one', async () => {
+    expect(await allows('https://tumblr.example')).toBe(true);
+    expect(await allows(undefined)).toBe(true);
+    expect(await allows('https://evil.example')).toBe(false);
+  });
+});
+
+describe('inlineScriptHashes', () => {
+  it('hashes inline scripts only', () => {
+    const theme = 'document.documentElement.dataset.theme = "dark";';
+    const html = `<script type="module" src="/assets/index.js"></script><script>${theme}</script>`;
+
+    expect(inlineScriptHashes(html)).toEqual([`'sha256-${createHash('sha256').update(theme).digest('base64')}'`]);
+  });
+});
+
+describe('securityHeaders and csrfProtection', () => {
+  const serve = (config: SecurityConfig) => {
+    const app = express();
+    app.use(securityHeaders(config), csrfProtection(config));
+    app.all('/api/thing', (req, res) => {
+      res.json({ ok: true });
+    });
+    return app.listen(0);
+  };
+
+  const production = serve(CONFIG);
+  const development = serve({ ...CONFIG, production: false });
+  let url: string;
+
+  const request = (method: string, headers: Record<string, string> = {}) => fetch(url, { method, headers });
+
+  beforeAll(() => {
+    url = `http://127.0.0.1:${(production.address() as AddressInfo).port}/api/thing`;
+  });
+
+  afterAll(async () => {
+    await Promise.all([production, development].map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  it('sends the hardening headers, and HSTS only in production', async () => {
+    const response = await request('GET');
+    expect(response.headers.get('x-frame-options')).toBe('DENY');
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(response.headers.get('content-security-policy')).toContain("frame-ancestors 'none'");
+    expect(response.headers.get('strict-transport-security')).toBe('max-age=15552000; includeSubDomains');
+
+    const port = (development.address() as AddressInfo).port;
+    const local = await fetch(`http://127.0.0.1:${port}/api/thing`);
+    expect(local.headers.get('strict-transport-security')).toBeNull();
+  });
+
+  it('lets reads through from anywhere', async () => {
+    expect((await request('GET', { origin: 'https://evil.example' })).status).toBe(200);
+  });
+
+  it('lets writes through from listed origins, the server itself and non-browser clients', async () => {
+    expect((await request('POST', { origin: 'https://tumblr.example' })).status).toBe(200);
+    expect((await request('POST', { origin: 'http://192.168.1.20:5173' })).status).toBe(200);
+    expect((await request('POST', { origin: new URL(url).origin })).status).toBe(200);
+    expect((await request('POST')).status).toBe(200);
+  });
+
+  it('blocks writes from other sites', async () => {
+    const response = await request('DELETE', { origin: 'https://evil.example' });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: 'Cross-site request blocked' });
+  });
+
+  it('falls back to the Referer when the Origin is missing or opaque', async () => {
+    expect((await request('POST', { referer: 'https://evil.example/page' })).status).toBe(403);
+    expect((await request('POST', { origin: 'null', referer: 'https://tumblr.example/settings' })).status).toBe(200);
+  });
+
+  it('blocks opaque and malformed origins', async () => {
+    expect((await request('POST', { origin: 'null' })).status).toBe(403);
+    expect((await request('POST', { origin: 'not a url' })).status).toBe(403);
+    expect((await request('POST', { referer: '//' })).status).toBe(403);
+  });
+});
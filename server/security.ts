@@ -0,0 +1,154 @@
+import type express from 'express';
+import type { CorsOptions } from 'cors';
+import { createHash } from 'crypto';
+import { sendError } from './errors';
+
+// Browser-facing hardening: which origins may call the API, the headers every
+// response carries (including the Content-Security-Policy for the built app)
+// and a cross-site request check on state-changing routes.
+
+export interface SecurityConfig {
+  // Origins (scheme://host[:port]) allowed to call the API from a browser;
+  // "*" stands for any one host, e.g. "http://*:5173"
+  origins: string[];
+  production: boolean;
+}
+
+// The Vite dev server and `vite preview` on this machine; other devices (a phone
+// on the LAN) have to be listed in CORS_ORIGINS
+const DEV_ORIGINS = [
+  'http://localhost:5173',
+  'http://127.0.0.1:5173',
+  'http://localhost:4173',
+  'http://127.0.0.1:4173',
+];
+
+/**
+ * Read the allowlist from CORS_ORIGINS (comma-separated), falling back to the
+ * origin of BASE_URL, plus the Vite servers outside production
+ */
+export function securityConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SecurityConfig {
+  const production = env.NODE_ENV === 'production';
+  const origins = env.CORS_ORIGINS
+    ? env.CORS_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+    : [new URL(env.BASE_URL || 'http://localhost:5173').origin, ...(production ? [] : DEV_ORIGINS)];
+
+  return { origins, production };
+}
+
+const toPattern = (origin: string) =>
+  new RegExp(`^${origin.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/:]+')}$`, 'i');
+
+/**
+ * Whether a browser Origin header is on the allowlist
+ */
+export function createOriginCheck(config: SecurityConfig): (origin: string) => boolean {
+  const patterns = config.origins.map(toPattern);
+  return origin => patterns.some(pattern => pattern.test(origin));
+}
+
+// ==================== CORS ====================
+
+export const corsOptions = (config: SecurityConfig): CorsOptions => {
+  const isAllowed = createOriginCheck(config);
+  return {
+    // Requests without an Origin (curl, scripts with a personal access token) aren't CORS
+    origin: (origin, callback) => callback(null, !origin || isAllowed(origin)),
+    credentials: true,
+    // Read by the client: export file names and how long to wait after a 429
+    exposedHeaders: ['Content-Disposition', 'Retry-After'],
+    maxAge: 600,
+  };
+};
+
+// ==================== HEADERS ====================
+
+/**
+ * CSP hashes for the inline <script> blocks in the built index.html (the
+ * theme script that runs before React), so they can run without 'unsafe-inline'
+ */
+export function inlineScriptHashes(html: string): string[] {
+  const scripts = html.matchAll(/<script(?![^>]*\bsrc=)[^>]*>([\s\S]*?)<\/script>/gi);
+  return [...scripts].map(([, body]) => `'sha256-${createHash('sha256').update(body).digest('base64')}'`);
+}
+
+const contentSecurityPolicy = (scriptHashes: string[]) => [
+  "default-src 'self'",
+  `script-src 'self' ${scriptHashes.join(' ')}`.trim(),
+  // Tailwind is a stylesheet, but Swagger UI and framer-motion set inline styles
+  "style-src 'self' 'unsafe-inline'",
+  // Post images come from Tumblr's CDNs; QR codes are data: URLs, downloads blob: URLs
+  "img-src 'self' data: blob: https:",
+  "media-src 'self' blob: https:",
+  // The service worker fetches and caches external images itself
+  "connect-src 'self' https:",
+  "font-src 'self' data:",
+  "worker-src 'self'",
+  "manifest-src 'self'",
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'self'",
+  "frame-ancestors 'none'",
+].join('; ');
+
+export const securityHeaders = (config: SecurityConfig, options: { scriptHashes?: string[] } = {}): express.RequestHandler => {
+  const headers: Record<string, string> = {
+    'Content-Security-Policy': contentSecurityPolicy(options.scriptHashes ?? []),
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=(), payment=()',
+  };
+  if (config.production) {
+    // Ignored by browsers over plain HTTP, so LAN and Tailscale access keep working
+    headers['Strict-Transport-Security'] = 'max-age=15552000; includeSubDomains';
+  }
+
+  return (req, res, next) => {
+    res.set(headers);
+    next();
+  };
+};
+
+// ==================== CSRF ====================
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// The page a request came from as scheme://host[:port], null when the client
+// didn't say, or 'null' when it's opaque or can't be parsed (always refused)
+const requestOrigin = (req: express.Request): string | null => {
+  const origin = req.get('Origin');
+  const source = origin && origin !== 'null' ? origin : req.get('Referer');
+  if (!source) return origin ?? null;
+  try {
+    return new URL(source).origin;
+  } catch {
+    return 'null';
+  }
+};
+
+/**
+ * Reject state-changing requests a browser sent from a page that isn't on the
+ * allowlist. Bearer tokens aren't attached by the browser, so today this is a
+ * second line of defense; with cookie sessions it is what stops cross-site
+ * forms and fetches from acting as the user. Requests without Origin or
+ * Referer come from scripts and other non-browser clients and are let through.
+ */
+export const csrfProtection = (config: SecurityConfig): express.RequestHandler => {
+  const isAllowed = createOriginCheck(config);
+
+  return (req, res, next) => {
+    if (SAFE_METHODS.has(req.method)) return next();
+
+    const origin = requestOrigin(req);
+    if (!origin) return next();
+
+    // Same origin as the server itself (the production build is served from here);
+    // compare hosts only, since TLS usually ends at a proxy in front of us
+    const sameOrigin = origin !== 'null' && new URL(origin).host === req.get('host');
+    if (sameOrigin || isAllowed(origin)) return next();
+
+    sendError(res, 403, 'Cross-site request blocked');
+  };
+};
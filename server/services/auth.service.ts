@@ -0,0 +1,135 @@
+import type express from 'express';
+import type { User } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { prisma } from '../db';
+import { generateRecoveryCodes, normalizeRecoveryCode } from '../totp';
+import { recordLoginSuccess, type LoginMethod } from '../loginHistory';
+
+// Password, token and session handling shared by the auth, two-factor,
+// passkey and account routers.
+
+const SALT_ROUNDS = 12;
+const MINUTE = 60 * 1000;
+export const PASSWORD_RESET_EXPIRY = 60 * MINUTE; // 1 hour
+export const EMAIL_CHANGE_EXPIRY = 24 * 60 * MINUTE; // Time to confirm a new address
+export const EMAIL_REVERT_EXPIRY = 7 * 24 * 60 * MINUTE; // Time the old address can undo a change
+const SESSION_EXPIRY = 30 * 24 * 60 * MINUTE; // 30 days
+const DELETION_CANCEL_EXPIRY = 15 * MINUTE; // Time allowed to choose to keep an account after signing in
+
+export const generateToken = () => crypto.randomBytes(32).toString('hex');
+
+// Session tokens are only ever stored hashed, so a database leak doesn't leak live sessions
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const hashPassword = (password: string) => bcrypt.hash(password, SALT_ROUNDS);
+
+export const verifyPassword = (password: string, passwordHash: string) => bcrypt.compare(password, passwordHash);
+
+export const findUserByLogin = (emailOrUsername: string) =>
+  prisma.user.findFirst({
+    where: {
+      OR: [
+        { email: emailOrUsername },
+        { username: emailOrUsername }
+      ]
+    }
+  });
+
+/**
+ * Start a password reset: store a new reset token and return it for the
+ * emailed link (or, after "this wasn't me", straight to the reset page)
+ */
+export const issuePasswordResetToken = async (userId: string): Promise<string> => {
+  const passwordResetToken = generateToken();
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordResetToken,
+      passwordResetExpiry: new Date(Date.now() + PASSWORD_RESET_EXPIRY)
+    }
+  });
+  return passwordResetToken;
+};
+
+// Show enough of a username to jog someone's memory without giving it away
+export const maskUsername = (username: string) =>
+  username.length > 3
+    ? username.substring(0, 2) + '*'.repeat(username.length - 3) + username.substring(username.length - 1)
+    : '*'.repeat(username.length);
+
+export const createSession = async (userId: string, req: express.Request): Promise<string> => {
+  const token = generateToken();
+  await prisma.session.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      userAgent: req.get('user-agent') || null,
+      ipAddress: req.ip || null,
+      expiresAt: new Date(Date.now() + SESSION_EXPIRY),
+    }
+  });
+  return token;
+};
+
+// Finish a successful login: stamp lastLoginAt and issue a session token
+export const completeLogin = async (user: User, req: express.Request) => {
+  const lastLoginAt = new Date();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt }
+  });
+
+  const token = await createSession(user.id, req);
+
+  return {
+    token,
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      displayName: user.displayName,
+      avatar: user.avatar,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      lastLoginAt,
+      role: user.role,
+    }
+  };
+};
+
+/**
+ * Last step of every sign-in method: records it in the login history (which
+ * alerts the user about new devices). An account waiting to be deleted gets no
+ * session; instead the user is offered a short-lived token to cancel the deletion.
+ */
+export const finishLogin = async (user: User, req: express.Request, method: LoginMethod) => {
+  await recordLoginSuccess(user, method, req);
+
+  if (user.deletionScheduledFor) {
+    const cancelToken = generateToken();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        deletionCancelToken: hashToken(cancelToken),
+        deletionCancelExpiry: new Date(Date.now() + DELETION_CANCEL_EXPIRY)
+      }
+    });
+
+    return { deletionPending: true as const, deletionScheduledFor: user.deletionScheduledFor, cancelToken };
+  }
+
+  return completeLogin(user, req);
+};
+
+// Replace a user's recovery codes; returns the plaintext codes (shown to the user once)
+export const issueRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) }))
+    }),
+  ]);
+  return codes;
+};
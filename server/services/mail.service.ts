@@ -0,0 +1,20 @@
+import type express from 'express';
+import type { User } from '@prisma/client';
+import { createMailer } from '../mailer';
+
+// Outbound email (SMTP, .eml files or in-memory, see server/mailer.ts)
+export const mailer = createMailer();
+
+// Send without holding up the response; a failed send is logged, never surfaced
+// (and response timing doesn't reveal whether an account exists)
+export const deliver = (description: string, sending: Promise<void>) => {
+  sending.catch(error => console.error(`Send ${description} email error:`, error));
+};
+
+export const sendSecurityAlert = (user: Pick<User, 'email' | 'username'>, event: string, req: express.Request) => {
+  deliver('security alert', mailer.sendSecurityAlert(user, {
+    event,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  }));
+};
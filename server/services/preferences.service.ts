@@ -0,0 +1,31 @@
+import { prisma } from '../db';
+
+// Display preferences. Every account gets a row at registration; older
+// accounts get one the first time it's read.
+
+export const DEFAULT_PREFERENCES = {
+  theme: 'system',
+  fontSize: 16,
+  reducedMotion: false,
+  enableHaptics: true,
+  enableGestures: true,
+};
+
+export interface PreferencesData {
+  theme?: string;
+  fontSize?: number;
+  reducedMotion?: boolean;
+  enableHaptics?: boolean;
+  enableGestures?: boolean;
+}
+
+export const getPreferences = async (userId: string) =>
+  await prisma.userPreferences.findUnique({ where: { userId } }) ??
+  await prisma.userPreferences.create({ data: { userId, ...DEFAULT_PREFERENCES } });
+
+export const updatePreferences = (userId: string, data: PreferencesData) =>
+  prisma.userPreferences.upsert({
+    where: { userId },
+    update: data,
+    create: { userId, ...DEFAULT_PREFERENCES, ...data }
+  });
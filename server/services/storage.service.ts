@@ -0,0 +1,4 @@
+import { createBlobStore } from '../blobStore';
+
+// Archived stored-image files (local disk by default, see server/blobStore.ts)
+export const blobStore = createBlobStore();
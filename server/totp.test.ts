@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  currentStep,
+  generateCode,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+  verifyCode,
+} from './totp';
+
+// The RFC 6238 appendix B SHA-1 secret, "12345678901234567890" in ASCII
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('base32', () => {
+  it('encodes the RFC 4648 test vectors (without padding)', () => {
+    expect(base32Encode(Buffer.from(''))).toBe('');
+    expect(base32Encode(Buffer.from('f'))).toBe('MY');
+    expect(base32Encode(Buffer.from('fo'))).toBe('MZXQ');
+    expect(base32Encode(Buffer.from('foo'))).toBe('MZXW6');
+    expect(base32Encode(Buffer.from('foob'))).toBe('MZXW6YQ');
+    expect(base32Encode(Buffer.from('fooba'))).toBe('MZXW6YTB');
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('decodes what it encodes, ignoring case, spaces and padding', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character: 1');
+  });
+});
+
+// RFC 6238 appendix B, SHA-1, keeping the last six of its eight digits
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+describe('generateCode', () => {
+  it.each(RFC_VECTORS)('matches the RFC 6238 vector at %i seconds', (seconds, code) => {
+    expect(generateCode(RFC_SECRET, currentStep(seconds * 1000))).toBe(code);
+  });
+});
+
+describe('verifyCode', () => {
+  const now = 1111111111 * 1000;
+  const step = currentStep(now);
+
+  it.each(RFC_VECTORS)('accepts the RFC 6238 code at %i seconds', (seconds, code) => {
+    vi.useFakeTimers({ now: seconds * 1000 });
+    expect(verifyCode(RFC_SECRET, code)).toBe(currentStep(seconds * 1000));
+  });
+
+  it('accepts the current code and returns its step', () => {
+    vi.useFakeTimers({ now });
+    expect(verifyCode(RFC_SECRET, '050471')).toBe(step);
+    expect(verifyCode(RFC_SECRET, '050 471')).toBe(step);
+  });
+
+  it('allows one step of clock drift either side by default', () => {
+    vi.useFakeTimers({ now });
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 1))).toBe(step - 1);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 1))).toBe(step + 1);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 2))).toBeNull();
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 2))).toBeNull();
+  });
+
+  it('widens or narrows the window on request', () => {
+    vi.useFakeTimers({ now });
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 2), 2)).toBe(step - 2);
+    expect(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 1), 0)).toBeNull();
+  });
+
+  it('returns the same step for a replayed code, so callers can refuse it', () => {
+    vi.useFakeTimers({ now });
+    const code = generateCode(RFC_SECRET, step);
+    const first = verifyCode(RFC_SECRET, code);
+
+    // Still inside the drift window thirty seconds later
+    vi.setSystemTime(now + 30 * 1000);
+    const replayed = verifyCode(RFC_SECRET, code);
+
+    expect(replayed).toBe(first);
+    // The check sign-in makes against twoFactorLastStep
+    expect(replayed! > first!).toBe(false);
+  });
+
+  it('rejects malformed and wrong codes', () => {
+    vi.useFakeTimers({ now });
+    expect(verifyCode(RFC_SECRET, '')).toBeNull();
+    expect(verifyCode(RFC_SECRET, '05047')).toBeNull();
+    expect(verifyCode(RFC_SECRET, '0504711')).toBeNull();
+    expect(verifyCode(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyCode(RFC_SECRET, '050472')).toBeNull();
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  it('labels the account with the issuer and lists the code parameters', () => {
+    const [label, query] = buildOtpauthUrl(RFC_SECRET, 'alice@example.com', 'NewTumblr').split('?');
+
+    expect(label).toBe('otpauth://totp/NewTumblr%3Aalice%40example.com');
+    expect(Object.fromEntries(new URLSearchParams(query))).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'NewTumblr',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
+
+describe('recovery codes', () => {
+  it('generates distinct codes shaped like a1b2c-3d4e5', () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    }
+  });
+
+  it('normalizes what users type before comparing', () => {
+    expect(normalizeRecoveryCode(' A1B2C-3D4E5 ')).toBe('a1b2c3d4e5');
+    expect(normalizeRecoveryCode('a1b2c 3d4e5')).toBe('a1b2c3d4e5');
+  });
+});
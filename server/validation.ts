@@ -0,0 +1,105 @@
+import type express from 'express';
+import { z } from 'zod/v4';
+import { sendError } from './errors';
+import { describe } from './openapi';
+
+// Declarative request validation. Each route lists zod schemas for the parts
+// of the request it reads; validate() parses them before the handler runs and
+// replaces req.params / req.query / req.body with the parsed (trimmed,
+// coerced, stripped) values.
+
+export interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+const locations = ['params', 'query', 'body'] as const;
+
+/**
+ * Validation failures as field errors keyed by location and path,
+ * e.g. { "body.images.0.timestamp": ["Invalid timestamp"] }
+ */
+export function collectFieldErrors(location: string, error: z.ZodError): Record<string, string[]> {
+  const fields: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const key = [location, ...issue.path.map(String)].join('.');
+    (fields[key] ??= []).push(issue.message);
+  }
+  return fields;
+}
+
+export const validate = (schemas: RequestSchemas): express.RequestHandler => describe((req, res, next) => {
+  let fields: Record<string, string[]> = {};
+  const parsed: Partial<Record<typeof locations[number], unknown>> = {};
+
+  for (const location of locations) {
+    const schema = schemas[location];
+    if (!schema) continue;
+
+    // express.json() leaves the body undefined when nothing was sent
+    const result = schema.safeParse(req[location] ?? {});
+    if (result.success) {
+      parsed[location] = result.data;
+    } else {
+      fields = { ...fields, ...collectFieldErrors(location, result.error) };
+    }
+  }
+
+  const messages = Object.values(fields);
+  if (messages.length > 0) {
+    return sendError(res, 400, messages[0][0], { error: 'VALIDATION_FAILED', fields });
+  }
+
+  if ('params' in parsed) req.params = parsed.params as typeof req.params;
+  if ('body' in parsed) req.body = parsed.body;
+  // req.query is a getter in Express 5, so shadow it on the request itself
+  if ('query' in parsed) {
+    Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true });
+  }
+
+  next();
+}, { schemas });
+
+/**
+ * Reply like validate() does, for a field that can only be checked in the
+ * handler (e.g. a new password against the account it's for)
+ */
+export const sendFieldError = (res: express.Response, field: string, message: string) =>
+  sendError(res, 400, message, { error: 'VALIDATION_FAILED', fields: { [field]: [message] } });
+
+/**
+ * The query as parsed by validate(), typed from the same schema. req.query
+ * itself stays typed as raw query-string values.
+ */
+export const validatedQuery = <S extends z.ZodType>(req: express.Request, _schema: S) =>
+  req.query as unknown as z.output<S>;
+
+// ==================== COMMON FIELDS ====================
+
+/**
+ * Non-empty string; the message names the field so it can be shown as is
+ */
+export const requiredString = (label: string) =>
+  z.string({ error: `${label} is required` }).min(1, { error: `${label} is required` });
+
+export const id = (label = 'ID') => requiredString(label).max(100, { error: `${label} is too long` });
+
+export const idParams = z.object({ id: id() });
+
+/**
+ * Non-negative integer from a query string, with a default and an upper bound
+ */
+export const queryInt = (label: string, fallback: number, max: number) =>
+  z.coerce.number({ error: `${label} must be a number` })
+    .int({ error: `${label} must be a whole number` })
+    .min(0, { error: `${label} must not be negative` })
+    .max(max, { error: `${label} must be at most ${max}` })
+    .default(fallback);
+
+/**
+ * A date given as an ISO string or epoch milliseconds
+ */
+export const dateInput = (label: string) =>
+  z.union([z.string(), z.number()], { error: `${label} must be a date` })
+    .pipe(z.coerce.date({ error: `${label} is not a valid date` }));
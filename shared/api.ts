@@ -0,0 +1,517 @@
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/browser';
+import type { SmartRules } from './smartRules';
+
+// The API contract: what each route takes and returns, shared by the Express
+// routers (server/routes, which are checked against it) and the typed client
+// (src/services/api/client.ts). Dates are ISO strings, as they arrive over JSON.
+//
+// Routes are keyed "METHOD /path" exactly as the routers register them:
+//
+//   'GET /api/stored-images/:userId': { params, query?, response }
+
+// ==================== USERS & SESSIONS ====================
+
+export type UserRole = 'USER' | 'ADMIN' | 'MODERATOR';
+
+export type AccountStatus = 'ACTIVE' | 'SUSPENDED' | 'BANNED';
+
+export interface UserSession {
+  id: string;
+  email: string;
+  username: string;
+  displayName: string | null;
+  avatar: string | null;
+  bio?: string | null;
+  emailVerified?: boolean;
+  // New address waiting to be confirmed from its own inbox
+  pendingEmail?: string | null;
+  twoFactorEnabled?: boolean;
+  lastLoginAt?: string | null;
+  role?: UserRole;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: UserSession;
+}
+
+// Returned by login instead of a session when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+// Returned by sign-in instead of a session while the account is waiting to be deleted
+export interface DeletionPending {
+  deletionPending: true;
+  deletionScheduledFor: string;
+  // Exchanged for a session by cancelAccountDeletion
+  cancelToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge | DeletionPending;
+
+export interface RegisterData {
+  email: string;
+  username: string;
+  password: string;
+  displayName?: string;
+  // Required while registration is invite-only
+  inviteCode?: string;
+}
+
+// open: anyone can sign up; invite: only with an invite code; closed: nobody
+export const REGISTRATION_MODES = ['open', 'invite', 'closed'] as const;
+
+export type RegistrationMode = typeof REGISTRATION_MODES[number];
+
+export interface LoginData {
+  emailOrUsername: string;
+  password: string;
+}
+
+export interface TwoFactorVerifyData {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface DeviceSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+// One sign-in attempt, as listed in Settings
+export interface LoginEvent {
+  id: string;
+  method: 'password' | 'two_factor' | 'passkey';
+  success: boolean;
+  // e.g. invalid_password, invalid_code, locked_out, account_restricted
+  failureReason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  // First successful sign-in from this browser and OS; an alert email was sent
+  newDevice: boolean;
+  createdAt: string;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+// ==================== TWO-FACTOR & PASSKEYS ====================
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data: URL of the QR image
+}
+
+export interface Passkey {
+  id: string;
+  name: string;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// WebAuthn options from the server, with the id to send back alongside the response
+export interface PasskeyRegistrationOptions {
+  challengeId: string;
+  options: PublicKeyCredentialCreationOptionsJSON;
+}
+
+export interface PasskeyLoginOptions {
+  challengeId: string;
+  options: PublicKeyCredentialRequestOptionsJSON;
+}
+
+// ==================== PERSONAL ACCESS TOKENS ====================
+
+export const API_TOKEN_SCOPES = ['read:stored-images', 'write:stored-images', 'download', 'admin'] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Personal access token as listed in Settings; the token itself is only returned on creation
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+export interface CreateApiTokenData {
+  name: string;
+  scopes: ApiTokenScope[];
+  // null for a token that never expires
+  expiresInDays: number | null;
+}
+
+// ==================== PREFERENCES & DATA EXPORT ====================
+
+export interface UserPreferences {
+  id: string;
+  userId: string;
+  theme: string;
+  fontSize: number;
+  reducedMotion: boolean;
+  enableHaptics: boolean;
+  enableGestures: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PreferencesUpdate = Partial<Pick<UserPreferences, 'fontSize' | 'reducedMotion' | 'enableHaptics' | 'enableGestures'>> & {
+  theme?: 'light' | 'dark' | 'system';
+};
+
+export type DataExportStatus = 'PENDING' | 'RUNNING' | 'READY' | 'FAILED';
+
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  // Percent complete
+  progress: number;
+  size: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+// ==================== STORED IMAGES ====================
+
+export interface StoredImage {
+  id: string;
+  userId: string;
+  postId: string;
+  // Position in the post, from 0; a photoset has one stored image per photo
+  photoIndex: number;
+  blogName: string;
+  // Where the image came from; the archived copy is at GET /api/stored-images/:id/file
+  url: string;
+  // Archived copy: content hash, size and type (null for images stored before archiving)
+  sha256: string | null;
+  byteSize: number | null;
+  mimeType: string | null;
+  width: number | null;
+  height: number | null;
+  // JSON array of tags
+  tags: string;
+  description: string | null;
+  notes: number;
+  timestamp: string;
+  storedAt: string;
+}
+
+export interface NewStoredImage {
+  postId: string;
+  // Which photo of a photoset (default 0, the first)
+  photoIndex?: number;
+  blogName: string;
+  url: string;
+  width?: number | null;
+  height?: number | null;
+  tags?: string[];
+  description?: string | null;
+  notes?: number;
+  // ISO string or epoch milliseconds
+  timestamp: string | number;
+}
+
+export interface StoreImagesResult {
+  success: true;
+  stored: number;
+  skipped: number;
+  failed: number;
+  total: number;
+  images: StoredImage[];
+  errors?: Array<{ postId: string; photoIndex: number; error: string }>;
+}
+
+export interface StoredImagesQuery {
+  limit?: number;
+  offset?: number;
+  blogName?: string;
+}
+
+export interface StoredImagesPage {
+  images: StoredImage[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface StoredImageStats {
+  total: number;
+  byBlog: Array<{ blogName: string; count: number }>;
+}
+
+// ==================== COLLECTIONS ====================
+
+// Smart collections' rules; see shared/smartRules.ts
+export type { SmartRule, SmartRules } from './smartRules';
+
+// Enough of a stored image to draw a collection's cover
+export type CollectionCover = Pick<StoredImage, 'id' | 'sha256' | 'url' | 'description'>;
+
+export interface Collection {
+  id: string;
+  name: string;
+  description: string | null;
+  // The cover the owner picked, or null to use the first image
+  coverImageId: string | null;
+  // Set for a smart collection, which holds every image matching them; null for an album
+  rules: SmartRules | null;
+  imageCount: number;
+  // What to show: the picked cover, else the first image; null while empty
+  cover: CollectionCover | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface CollectionDetail extends Collection {
+  // A page of images in collection order (newest first for a smart collection)
+  images: StoredImage[];
+  limit: number;
+  offset: number;
+}
+
+export interface NewCollection {
+  name: string;
+  description?: string | null;
+  // Stored images to start an album with, in this order
+  imageIds?: string[];
+  // Makes it a smart collection; it can't have imageIds then
+  rules?: SmartRules | null;
+}
+
+export interface CollectionUpdate {
+  name?: string;
+  description?: string | null;
+  // Must be an image in the collection; null goes back to the first image
+  coverImageId?: string | null;
+  // Smart collections only
+  rules?: SmartRules;
+}
+
+// What a smart collection with these rules would hold, while they're being edited
+export interface SmartCollectionPreview {
+  total: number;
+  // The first few, newest first
+  images: StoredImage[];
+}
+
+// ==================== ADMIN ====================
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  username: string;
+  displayName: string | null;
+  avatar: string | null;
+  role: UserRole;
+  status: AccountStatus;
+  suspendedUntil: string | null;
+  statusReason: string | null;
+  emailVerified: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+  _count: {
+    posts: number;
+    followers: number;
+    following: number;
+  };
+}
+
+export interface AdminStats {
+  users: number;
+  posts: number;
+  blogs: number;
+  follows: number;
+}
+
+export type AccountStatusUpdate = Pick<AdminUser, 'id' | 'username' | 'role' | 'status' | 'suspendedUntil' | 'statusReason'>;
+
+// Invite code as listed in the admin console; the code itself is only returned on creation
+export interface InviteCode {
+  id: string;
+  codePrefix: string;
+  note: string | null;
+  maxUses: number;
+  uses: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  createdBy: { id: string; username: string } | null;
+}
+
+export interface CreateInviteCodeData {
+  note?: string;
+  maxUses: number;
+  // null for a code that never expires
+  expiresInDays: number | null;
+}
+
+// ==================== DOWNLOADS ====================
+
+export interface BulkDownloadRequest {
+  images: Array<{ url: string; filename: string; metadata?: unknown }>;
+}
+
+export interface BulkDownloadResult {
+  success: true;
+  total: number;
+  downloaded: number;
+  failed: number;
+  totalTimeMs: number;
+  totalSizeBytes: number;
+  // Only the images that could be fetched; data is base64
+  images: Array<{ filename: string; data: string; size: number; metadata?: unknown }>;
+}
+
+// ==================== ROUTES ====================
+
+type Id = { id: string };
+
+export interface ApiRoutes {
+  'GET /api/auth/registration': { response: { mode: RegistrationMode } };
+  'POST /api/auth/register': { body: RegisterData; response: AuthResponse };
+  'POST /api/auth/login': { body: LoginData; response: LoginResponse };
+  'POST /api/auth/login/2fa': { body: TwoFactorVerifyData; response: AuthResponse | DeletionPending };
+  'POST /api/auth/logout': { response: MessageResponse };
+  'GET /api/auth/me': { response: UserSession };
+  'POST /api/auth/change-password': { body: { currentPassword: string; newPassword: string }; response: MessageResponse };
+  'POST /api/auth/change-email': { body: { newEmail: string; password: string }; response: MessageResponse & { pendingEmail: string } };
+  'POST /api/auth/confirm-email-change': { body: { token: string }; response: MessageResponse & { email: string } };
+  'POST /api/auth/revert-email-change': { body: { token: string }; response: MessageResponse };
+  'GET /api/auth/sessions': { response: DeviceSession[] };
+  'GET /api/auth/login-history': { query?: { limit?: number }; response: LoginEvent[] };
+  'POST /api/auth/login-history/not-me': { body: { token: string }; response: MessageResponse & { resetToken: string } };
+  'POST /api/auth/sessions/revoke-others': { response: MessageResponse & { revoked: number } };
+  'DELETE /api/auth/sessions/:id': { params: Id; response: MessageResponse };
+  'POST /api/auth/request-password-reset': { body: { emailOrUsername: string }; response: MessageResponse };
+  'POST /api/auth/reset-password': { body: { token: string; newPassword: string }; response: MessageResponse };
+  'POST /api/auth/verify-email': { body: { token: string }; response: MessageResponse };
+  'POST /api/auth/resend-verification': { response: MessageResponse };
+  'POST /api/auth/find-account': { body: { email: string }; response: MessageResponse & { username: string } };
+
+  'GET /api/auth/tokens': { response: ApiToken[] };
+  'POST /api/auth/tokens': { body: CreateApiTokenData; response: { token: string; apiToken: ApiToken } };
+  'DELETE /api/auth/tokens/:id': { params: Id; response: MessageResponse };
+
+  'GET /api/auth/2fa': { response: TwoFactorStatus };
+  'POST /api/auth/2fa/setup': { response: TwoFactorSetup };
+  'POST /api/auth/2fa/enable': { body: { code: string }; response: MessageResponse & { recoveryCodes: string[] } };
+  'POST /api/auth/2fa/disable': { body: { password: string; code: string }; response: MessageResponse };
+  'POST /api/auth/2fa/recovery-codes': { body: { password: string }; response: { recoveryCodes: string[] } };
+
+  'GET /api/auth/passkeys': { response: Passkey[] };
+  'POST /api/auth/passkeys/register/options': { response: PasskeyRegistrationOptions };
+  'POST /api/auth/passkeys/register/verify': {
+    body: { challengeId: string; response: RegistrationResponseJSON; name?: string };
+    response: Passkey;
+  };
+  'DELETE /api/auth/passkeys/:id': { params: Id; response: MessageResponse };
+  'POST /api/auth/passkeys/login/options': { response: PasskeyLoginOptions };
+  'POST /api/auth/passkeys/login/verify': {
+    body: { challengeId: string; response: AuthenticationResponseJSON };
+    response: AuthResponse | DeletionPending;
+  };
+
+  'POST /api/auth/account/delete': { body: { password: string }; response: MessageResponse & { deletionScheduledFor: string } };
+  'POST /api/auth/account/cancel-deletion': { body: { cancelToken: string }; response: AuthResponse };
+
+  'GET /api/users/:id': { params: Id; response: UserSession };
+  'GET /api/users/:id/preferences': { params: Id; response: UserPreferences };
+  'PUT /api/users/:id/preferences': { params: Id; body: PreferencesUpdate; response: UserPreferences };
+  'POST /api/users/:id/export': { params: Id; response: DataExport };
+  'GET /api/users/:id/export': { params: Id; response: DataExport | null };
+  // A ZIP file, not JSON
+  'GET /api/users/:id/export/:exportId/download': { params: Id & { exportId: string }; response: Blob };
+
+  'POST /api/stored-images': { body: { images: NewStoredImage[] }; response: StoreImagesResult };
+  'GET /api/stored-images/:userId': { params: { userId: string }; query?: StoredImagesQuery; response: StoredImagesPage };
+  'GET /api/stored-images/:id/file': { params: Id; response: Blob };
+  'DELETE /api/stored-images/:id': { params: Id; response: MessageResponse };
+  'POST /api/stored-images/bulk-delete': { body: { ids: string[] }; response: MessageResponse & { deleted: number } };
+  'GET /api/stored-images/:userId/stats': { params: { userId: string }; response: StoredImageStats };
+
+  'GET /api/collections': { response: Collection[] };
+  'POST /api/collections': { body: NewCollection; response: Collection };
+  'POST /api/collections/preview': { body: { rules: SmartRules }; response: SmartCollectionPreview };
+  'GET /api/collections/:id': { params: Id; query?: CollectionQuery; response: CollectionDetail };
+  'PUT /api/collections/:id': { params: Id; body: CollectionUpdate; response: Collection };
+  'DELETE /api/collections/:id': { params: Id; response: MessageResponse };
+  'POST /api/collections/:id/images': { params: Id; body: { imageIds: string[] }; response: Collection & { added: number } };
+  'POST /api/collections/:id/images/remove': { params: Id; body: { imageIds: string[] }; response: Collection & { removed: number } };
+  // imageIds is every image in the collection, in the new order
+  'PUT /api/collections/:id/order': { params: Id; body: { imageIds: string[] }; response: MessageResponse };
+
+  'GET /api/admin/users': { response: AdminUser[] };
+  'PUT /api/admin/users/:id/role': { params: Id; body: { role: UserRole }; response: Pick<AdminUser, 'id' | 'username' | 'email' | 'role'> };
+  'DELETE /api/admin/users/:id': { params: Id; response: MessageResponse };
+  'POST /api/admin/users/:id/suspend': { params: Id; body: { reason: string; until: string }; response: AccountStatusUpdate };
+  'POST /api/admin/users/:id/ban': { params: Id; body: { reason: string }; response: AccountStatusUpdate };
+  'POST /api/admin/users/:id/unsuspend': { params: Id; response: AccountStatusUpdate };
+  'GET /api/admin/stats': { response: AdminStats };
+  'GET /api/admin/invites': { response: InviteCode[] };
+  'POST /api/admin/invites': { body: CreateInviteCodeData; response: { code: string; invite: InviteCode } };
+  'DELETE /api/admin/invites/:id': { params: Id; response: MessageResponse };
+
+  'POST /api/download/bulk': { body: BulkDownloadRequest; response: BulkDownloadResult };
+}
+
+export type ApiRoute = keyof ApiRoutes;
+
+export type RouteParams<R extends ApiRoute> = ApiRoutes[R] extends { params: infer P } ? P : Record<string, never>;
+
+export type RouteResponse<R extends ApiRoute> = ApiRoutes[R]['response'];
+
+// Everything but the response: params, query and body, each only where the route has them
+export type RouteInput<R extends ApiRoute> = Omit<ApiRoutes[R], 'response'>;
+
+/**
+ * "GET /api/users/:id" -> ['GET', '/api/users/:id']
+ */
+export const splitRoute = (route: ApiRoute) => {
+  const [method, path] = route.split(' ') as ['GET' | 'POST' | 'PUT' | 'DELETE', string];
+  return { method, path };
+};
+
+/**
+ * Fill in :params (URL-encoded) and append the query string
+ */
+export function buildPath(path: string, params: Record<string, string> = {}, query: object = {}): string {
+  const filled = path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name]));
+  const search = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]): [string, string] => [key, String(value)])
+  ).toString();
+  return search ? `${filled}?${search}` : filled;
+}
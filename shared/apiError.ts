@@ -0,0 +1,68 @@
+// Error body returned by every API route, imported by both the Express server
+// and the web client so the two can't drift apart.
+//
+//   { "error": "VALIDATION_FAILED", "message": "Enter a valid email address", "status": 400,
+//     "fields": { "body.email": ["Enter a valid email address"] } }
+//
+// `error` is a stable code for programs, `message` is safe to show to users.
+
+export const API_ERROR_CODES = [
+  'BAD_REQUEST',
+  'VALIDATION_FAILED',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'ACCOUNT_RESTRICTED',
+  'NOT_FOUND',
+  'CONFLICT',
+  'GONE',
+  'PAYLOAD_TOO_LARGE',
+  'RATE_LIMITED',
+  'INTERNAL_ERROR',
+  // Raised by the client itself, never sent by the server
+  'TIMEOUT',
+  'NETWORK_ERROR',
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export interface ApiAccountRestriction {
+  status: 'SUSPENDED' | 'BANNED';
+  reason: string | null;
+  until: string | null;
+}
+
+export interface ApiErrorResponse {
+  error: ApiErrorCode;
+  message: string;
+  status: number;
+  // Validation failures, keyed by where the value came from, e.g. "body.email" or "query.limit"
+  fields?: Record<string, string[]>;
+  // Seconds to wait (RATE_LIMITED)
+  retryAfter?: number;
+  // Why the account can't be used (ACCOUNT_RESTRICTED)
+  accountStatus?: ApiAccountRestriction;
+}
+
+const codesByStatus: Record<number, ApiErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  410: 'GONE',
+  413: 'PAYLOAD_TOO_LARGE',
+  429: 'RATE_LIMITED',
+};
+
+/**
+ * Default code for an HTTP status; routes only pick one explicitly when the
+ * status alone is ambiguous (VALIDATION_FAILED, ACCOUNT_RESTRICTED)
+ */
+export const errorCodeForStatus = (status: number): ApiErrorCode =>
+  codesByStatus[status] ?? (status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+
+export function isApiErrorResponse(body: unknown): body is ApiErrorResponse {
+  if (!body || typeof body !== 'object') return false;
+  const { error, message, status } = body as Record<string, unknown>;
+  return typeof error === 'string' && typeof message === 'string' && typeof status === 'number';
+}
@@ -0,0 +1,90 @@
+// Bundled so strength checks never need the network. COMMON_PASSWORDS is the
+// head of the public breach corpora (RockYou, the HIBP top lists, vendor
+// "worst passwords" reports), lowercased; PASSWORD_WORDS are the words and
+// names most often found inside longer passwords. Both are matched after
+// undoing common substitutions (p@ssw0rd -> password).
+
+export const COMMON_PASSWORDS: readonly string[] = [
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567',
+  'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow',
+  'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321',
+  'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer', 'trustno1',
+  'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster', 'soccer', 'harley', 'batman',
+  'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert', 'thomas', 'hockey',
+  'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777', 'pass',
+  'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer',
+  'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321',
+  'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'mobilemail', 'mom', 'monitor', 'monitoring',
+  'montana', 'moon', 'moscow', 'william', 'corvette', 'hello', 'martin', 'heather', 'secret',
+  'merlin', 'diamond', '1234qwer', 'gfhjkm', 'hammer', 'silver', '222222', '88888888', 'anthony',
+  'justin', 'test', 'bailey', 'q1w2e3r4t5', 'patrick', 'internet', 'scooter', 'orange', '11111',
+  'golfer', 'cookie', 'richard', 'samantha', 'bigdog', 'guitar', 'jackson', 'whatever', 'mickey',
+  'chicken', 'sparky', 'snoopy', 'maverick', 'phoenix', 'camaro', 'peanut', 'morgan', 'welcome',
+  'falcon', 'cowboy', 'ferrari', 'samsung', 'andrea', 'smokey', 'steelers', 'joseph', 'mercedes',
+  'dakota', 'arsenal', 'eagles', 'melissa', 'boomer', 'booboo', 'spider', 'nascar', 'monster',
+  'tigers', 'yellow', 'xxxxxx', '123123123', 'gateway', 'marina', 'diablo', 'bulldog', 'qwer1234',
+  'compaq', 'purple', 'hardcore', 'banana', 'junior', 'hannah', '123654', 'porsche', 'lakers',
+  'iceman', 'money', 'cowboys', '987654', 'london', 'tennis', '999999', 'ncc1701', 'coffee',
+  'scooby', '0000', 'miller', 'boston', 'q1w2e3r4', 'brandon', 'yamaha', 'chester', 'mother',
+  'forever', 'johnny', 'edward', '333333', 'oliver', 'redsox', 'player', 'nikita', 'knight',
+  'fender', 'barney', 'midnight', 'please', 'brandy', 'chicago', 'badboy', 'slayer', 'rangers',
+  'charles', 'angel', 'flower', 'bigdaddy', 'rabbit', 'wizard', 'jasper', 'enter', 'rachel',
+  'chris', 'steven', 'winner', 'adidas', 'victoria', 'natasha', '1q2w3e4r', 'jasmine', 'winter',
+  'prince', 'panties', 'marine', 'ghbdtn', 'fishing', 'cocacola', 'casper', 'james', '232323',
+  'raiders', '888888', 'marlboro', 'gandalf', 'asdfasdf', 'crystal', '87654321', '12344321',
+  'golden', '8675309', 'painter', 'stupid', 'golf', 'eagle1', 'music', 'liverpool', 'hottie',
+  'abcdef', 'abcd1234', 'letmein1', 'password1', 'password12', 'password123', 'password1234',
+  'passw0rd', 'p@ssw0rd', 'p@ssword', 'pa$$word', 'admin', 'admin123', 'administrator', 'root',
+  'toor', 'changeme', 'default', 'guest', 'login', 'qwerty123', 'qwerty1', 'qwertyui', '1q2w3e',
+  '1q2w3e4r5t', '1qazxsw2', 'zaq12wsx', 'zaq1zaq1', 'asdf1234', 'asdfghjkl', 'asd123', 'qweasd',
+  'qweasdzxc', '147258369', '123abc', 'abc12345', 'a1b2c3', 'a1b2c3d4', 'aa123456', 'iloveyou1',
+  'iloveu', 'loveyou', 'lovely', 'love123', 'princess1', 'sunshine1', 'football1', 'baseball1',
+  'monkey1', 'dragon1', 'shadow1', 'master1', 'superman1', 'michael1', 'charlie1', 'jordan23',
+  'welcome1', 'welcome123', 'hello123', 'hello1', 'test123', 'test1234', 'testing', 'secret1',
+  'letmein123', 'trustno1!', 'starwars1', 'pokemon', 'minecraft', 'fortnite', 'roblox', 'naruto',
+  'blink182', 'myspace1', 'tumblr', 'instagram', 'facebook', 'google', 'linkedin', 'twitter',
+  'youtube', 'yahoo', 'hotmail', 'gmail', 'microsoft', 'apple', 'iphone', 'android', 'windows',
+  'linux', 'whatever1', 'nothing', 'unknown', 'blahblah', 'asdasd', 'qwe123', 'zxc123', 'zxcvbnm1',
+  'azerty', 'qwertz', '1234abcd', '12qwaszx', '123456a', '123456q', 'a123456', 'q123456', '123456789a',
+  '1234561', '1234512345', '0987654321', '102030', '142536', '123457', '1234569', '12341234',
+  '11223344', '1122334455', '5201314', '123654789', '789456123', '741852963', '159357', '147258',
+  '1111111', '11111111111', '123456123', '00000000', '99999999', '12121212', 'superstar',
+  'babygirl', 'lovers', 'angels', 'friends', 'butterfly', 'purple1', 'jesus', 'jesus1', 'christ',
+  'blessed', 'mylove', 'family', 'forever1', 'sweety', 'sweetie', 'sexy', 'spiderman', 'batman1',
+  'chocolate', 'cheese1', 'cookie1', 'pepper1', 'ginger1', 'tigger1', 'bandit', 'buster1',
+  'harley1', 'hunter1', 'hunter2', 'ranger1', 'soccer1', 'hockey1', 'nirvana', 'metallica',
+  'qwerty12', 'qwerty1234', 'qwertyuiop1', 'q1w2e3', 'zaq!2wsx', '!qaz2wsx', '1qaz@wsx', 'passport',
+  'letmeinnow', 'access14', 'mustang1', 'shadow123', 'password!', 'password1!', 'welcome!',
+  'summer2020', 'summer2021', 'summer2022', 'summer2023', 'summer2024', 'winter2023', 'spring2024',
+  'autumn2024', 'fall2024', 'january', 'february', 'september', 'december', 'monday', 'friday',
+  'sunday', 'qwerty!', 'abc123!', 'baseball!', 'soccer!', 'football!', 'iloveyou!', 'asdfg', 'zxcvb',
+  'qwert', 'qazwsxedc', '1qaz2wsx3edc', 'poiuytrewq', 'mnbvcxz', 'lkjhgfdsa', 'ytrewq',
+];
+
+export const PASSWORD_WORDS: readonly string[] = [
+  'password', 'passwd', 'pass', 'secret', 'letmein', 'welcome', 'admin', 'login', 'master', 'access',
+  'love', 'lover', 'loves', 'baby', 'angel', 'princess', 'prince', 'queen', 'king', 'star', 'super',
+  'sunshine', 'shadow', 'dragon', 'monkey', 'tiger', 'eagle', 'falcon', 'wolf', 'bear', 'lion',
+  'horse', 'rabbit', 'kitty', 'kitten', 'puppy', 'doggy', 'dog', 'cat', 'fish', 'bird', 'snake',
+  'football', 'baseball', 'soccer', 'hockey', 'basketball', 'tennis', 'golf', 'golfer', 'ranger',
+  'hunter', 'killer', 'player', 'winner', 'champion', 'fighter', 'soldier', 'warrior', 'ninja',
+  'pirate', 'cowboy', 'wizard', 'magic', 'matrix', 'batman', 'superman', 'spiderman', 'pokemon',
+  'starwars', 'jedi', 'hello', 'freedom', 'forever', 'summer', 'winter', 'spring', 'autumn',
+  'monday', 'friday', 'sunday', 'january', 'june', 'july', 'august', 'october', 'december',
+  'orange', 'purple', 'yellow', 'silver', 'golden', 'black', 'white', 'green', 'blue', 'red',
+  'diamond', 'crystal', 'flower', 'butterfly', 'rainbow', 'cherry', 'banana', 'apple', 'lemon',
+  'cookie', 'cheese', 'pepper', 'coffee', 'chocolate', 'candy', 'sugar', 'honey', 'money', 'music',
+  'guitar', 'rock', 'metal', 'dance', 'party', 'happy', 'lucky', 'crazy', 'funny', 'sweet', 'sexy',
+  'hot', 'cool', 'computer', 'internet', 'google', 'yahoo', 'facebook', 'tumblr', 'iphone',
+  'samsung', 'windows', 'mustang', 'ferrari', 'porsche', 'mercedes', 'corvette', 'harley', 'yamaha',
+  'jesus', 'christ', 'god', 'blessed', 'heaven', 'family', 'mother', 'father', 'sister', 'brother',
+  'friend', 'friends', 'michael', 'jennifer', 'jessica', 'ashley', 'amanda', 'daniel', 'david',
+  'james', 'john', 'robert', 'thomas', 'william', 'joseph', 'charles', 'charlie', 'andrew',
+  'matthew', 'joshua', 'jordan', 'taylor', 'nicole', 'michelle', 'melissa', 'samantha', 'hannah',
+  'maggie', 'bailey', 'buster', 'tigger', 'ginger', 'max', 'sam', 'jack', 'alex',
+  'london', 'paris', 'chicago', 'dallas', 'boston', 'texas', 'america', 'arsenal',
+  'liverpool', 'chelsea', 'yankees', 'lakers', 'cowboys', 'steelers', 'eagles', 'raiders', 'trust',
+  'nothing', 'whatever', 'secure', 'security', 'change', 'default', 'test', 'testing', 'guest',
+  'user', 'qwerty', 'azerty', 'qwertz', 'abc', 'abcd', 'abcdef',
+];
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { estimatePasswordStrength, MIN_PASSWORD_SCORE, weakPasswordMessage } from './passwordStrength';
+
+const ALICE = ['alice', 'Alice Smith', 'alice@example.com'];
+
+describe('estimatePasswordStrength', () => {
+  it.each(['password', 'P@ssw0rd', 'password123!', 'qwertyuiop'])(
+    'scores %s as 0 because it is on the common list',
+    (password) => {
+      expect(estimatePasswordStrength(password)).toEqual({
+        score: 0,
+        warning: "It's one of the most commonly used passwords",
+        suggestions: ['Use a few unrelated words, or let a password manager make one up'],
+      });
+    }
+  );
+
+  it.each([
+    ['asdf1234zxcv', 'Keyboard patterns like qwerty are easy to guess'],
+    ['abcdefgh', 'Sequences like abc or 1234 are easy to guess'],
+    ['aaaaaaaaaaaa', 'Repeated characters like aaa are easy to guess'],
+    ['1990summer', 'Common words and names are easy to guess'],
+  ])('names the most guessable pattern in %s', (password, warning) => {
+    const strength = estimatePasswordStrength(password);
+
+    expect(strength.score).toBeLessThan(MIN_PASSWORD_SCORE);
+    expect(strength.warning).toBe(warning);
+  });
+
+  it('counts the username, name and email against the password', () => {
+    expect(estimatePasswordStrength('ilovealice2024').score).toBeGreaterThan(
+      estimatePasswordStrength('ilovealice2024', ALICE).score
+    );
+    expect(estimatePasswordStrength('alicealice99', ALICE)).toMatchObject({
+      score: 0,
+      warning: 'Avoid your username, name or email address',
+    });
+  });
+
+  it.each(['correct horse battery staple', 'zebra quantum mitten', 'xK9#mQ2$vL7p', 'kT4v-9qWz-Lm2x-Rb8s'])(
+    'scores %s as very strong, with nothing to suggest',
+    (password) => {
+      expect(estimatePasswordStrength(password, ALICE)).toEqual({ score: 4, warning: null, suggestions: [] });
+    }
+  );
+
+  it('suggests more length for short passwords and another word for long ones', () => {
+    expect(estimatePasswordStrength('q8F!x2').suggestions).toEqual([
+      'Make it longer; a few unrelated words beat symbols and substitutions',
+    ]);
+    expect(estimatePasswordStrength('correcthorse').suggestions).toEqual([
+      'Add another word that has nothing to do with the rest',
+    ]);
+  });
+
+  it('scores the empty password as 0', () => {
+    expect(estimatePasswordStrength('').score).toBe(0);
+  });
+});
+
+describe('weakPasswordMessage', () => {
+  it('is null once the password reaches the minimum score', () => {
+    expect(weakPasswordMessage('correcthorse')).toBeNull();
+    expect(weakPasswordMessage('zebra quantum mitten', ALICE)).toBeNull();
+  });
+
+  it('explains a refusal with the warning, under the given label', () => {
+    expect(weakPasswordMessage('alicealice99', ALICE)).toBe(
+      'Password is too easy to guess. Avoid your username, name or email address'
+    );
+    expect(weakPasswordMessage('qwertyuiop', [], 'New password')).toBe(
+      "New password is too easy to guess. It's one of the most commonly used passwords"
+    );
+  });
+});
@@ -0,0 +1,218 @@
+import { COMMON_PASSWORDS, PASSWORD_WORDS } from './commonPasswords';
+
+// Password strength estimate shared by the server, which refuses weak new
+// passwords, and the client, which shows it as a meter while typing.
+//
+// The password is split into the cheapest-to-guess pieces: words and names,
+// keyboard runs (qwerty, 1234), sequences (abcd), repeats (aaaa), years and
+// the account's own username, name or email. Whatever isn't covered by a
+// pattern counts as random characters. The total guessing cost in bits maps to
+// a score from 0 to 4. Passwords on the common/breached list are always 0.
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  // The most guessable part, e.g. "Keyboard patterns like qwerty are easy to guess"
+  warning: string | null;
+  suggestions: string[];
+}
+
+// New passwords must reach this score
+export const MIN_PASSWORD_SCORE: PasswordScore = 2;
+
+export const PASSWORD_SCORE_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'] as const;
+
+// Upper bounds (in bits) for scores 0 to 3
+const SCORE_THRESHOLDS = [25, 35, 50, 65];
+
+const COMMON = new Set(COMMON_PASSWORDS);
+const WORDS = [...new Set(PASSWORD_WORDS)].filter(word => word.length >= 4);
+
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm', 'qazwsxedcrfvtgbyhnujmikolp'];
+
+const SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '@': 'a', '$': 's', '!': 'i', '+': 't',
+};
+
+// p@ssw0rd -> password; keeps the length so positions line up with the original
+const undoSubstitutions = (text: string) => text.replace(/[0134578@$!+]/g, char => SUBSTITUTIONS[char]);
+
+interface Match {
+  start: number;
+  end: number;
+  bits: number;
+  warning: string;
+}
+
+const WARNINGS = {
+  common: "It's one of the most commonly used passwords",
+  personal: "Avoid your username, name or email address",
+  word: 'Common words and names are easy to guess',
+  keyboard: 'Keyboard patterns like qwerty are easy to guess',
+  sequence: 'Sequences like abc or 1234 are easy to guess',
+  repeat: 'Repeated characters like aaa are easy to guess',
+  year: 'Years are easy to guess',
+};
+
+function findAll(haystack: string, needle: string, bits: number, warning: string, matches: Match[]) {
+  for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + 1)) {
+    matches.push({ start, end: start + needle.length, bits, warning });
+  }
+}
+
+function findKeyboardRuns(lower: string, matches: Match[]) {
+  for (const row of KEYBOARD_ROWS) {
+    for (const line of [row, [...row].reverse().join('')]) {
+      for (let length = 4; length <= line.length; length++) {
+        for (let offset = 0; offset + length <= line.length; offset++) {
+          findAll(lower, line.slice(offset, offset + length), 6, WARNINGS.keyboard, matches);
+        }
+      }
+    }
+  }
+}
+
+// abcd, 9876, aceg: characters a constant step apart
+function findSequences(lower: string, matches: Match[]) {
+  let start = 0;
+  for (let i = 2; i <= lower.length; i++) {
+    const step = lower.charCodeAt(start + 1) - lower.charCodeAt(start);
+    const continues = i < lower.length && step !== 0 && Math.abs(step) <= 2
+      && lower.charCodeAt(i) - lower.charCodeAt(i - 1) === step;
+    if (continues) continue;
+
+    if (i - start >= 4) matches.push({ start, end: i, bits: 6, warning: WARNINGS.sequence });
+    start = i - 1;
+  }
+}
+
+function findRepeats(password: string, matches: Match[]) {
+  for (const match of password.matchAll(/(.+?)\1+/g)) {
+    if (match[0].length < 3) continue;
+    const unit = match[1];
+    const repeats = match[0].length / unit.length;
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      // Roughly what it takes to guess one copy, plus how many copies there are
+      bits: unit.length * 4 + Math.log2(repeats + 1),
+      warning: WARNINGS.repeat,
+    });
+  }
+}
+
+// Pieces of the username, name and email that are long enough to matter
+const personalTokens = (userInputs: (string | null | undefined)[]) =>
+  userInputs
+    .flatMap(input => (input ?? '').toLowerCase().split(/[^a-z0-9]+/))
+    .filter(token => token.length >= 3);
+
+// Brute-force cost of one character, from the kinds of characters used
+function characterBits(password: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/\d/.test(password)) pool += 10;
+  if (/[^a-zA-Z\d]/.test(password)) pool += 33;
+  return Math.log2(Math.max(pool, 10));
+}
+
+const isCommonPassword = (lower: string) => {
+  const withoutSuffix = lower.replace(/[\d\W_]+$/, '');
+  return COMMON.has(lower)
+    || COMMON.has(undoSubstitutions(lower))
+    || (withoutSuffix.length >= 4 && COMMON.has(withoutSuffix));
+};
+
+/**
+ * Estimate how hard a password is to guess. userInputs are the username,
+ * display name and email, which make any password containing them weaker.
+ */
+export function estimatePasswordStrength(
+  password: string,
+  userInputs: (string | null | undefined)[] = []
+): PasswordStrength {
+  const lower = password.toLowerCase();
+
+  if (isCommonPassword(lower)) {
+    return {
+      score: 0,
+      warning: WARNINGS.common,
+      suggestions: ['Use a few unrelated words, or let a password manager make one up'],
+    };
+  }
+
+  const unsubstituted = undoSubstitutions(lower);
+  const matches: Match[] = [];
+
+  for (const token of personalTokens(userInputs)) {
+    findAll(lower, token, 4, WARNINGS.personal, matches);
+    findAll(unsubstituted, token, 5, WARNINGS.personal, matches);
+  }
+  for (const word of WORDS) {
+    findAll(lower, word, 11, WARNINGS.word, matches);
+    // Substitutions add barely anything; every cracking tool tries them
+    findAll(unsubstituted, word, 12, WARNINGS.word, matches);
+  }
+  findKeyboardRuns(lower, matches);
+  findSequences(lower, matches);
+  findRepeats(lower, matches);
+  for (const year of lower.matchAll(/(19|20)\d\d/g)) {
+    matches.push({ start: year.index, end: year.index + 4, bits: 7, warning: WARNINGS.year });
+  }
+
+  // Cheapest way to cover the whole password with patterns and random characters
+  const perCharacter = characterBits(password);
+  const cost: number[] = [0];
+  const via: (Match | null)[] = [null];
+  for (let end = 1; end <= password.length; end++) {
+    cost[end] = cost[end - 1] + perCharacter;
+    via[end] = null;
+    for (const match of matches) {
+      if (match.end === end && cost[match.start] + match.bits < cost[end]) {
+        cost[end] = cost[match.start] + match.bits;
+        via[end] = match;
+      }
+    }
+  }
+
+  const used: Match[] = [];
+  for (let end = password.length; end > 0;) {
+    const match = via[end];
+    if (match) {
+      used.push(match);
+      end = match.start;
+    } else {
+      end--;
+    }
+  }
+
+  const bits = cost[password.length];
+  const index = SCORE_THRESHOLDS.findIndex(threshold => bits < threshold);
+  const score = (index === -1 ? 4 : index) as PasswordScore;
+
+  // The longest guessable piece is the one worth mentioning
+  const worst = used.sort((a, b) => (b.end - b.start) - (a.end - a.start))[0];
+  const suggestions: string[] = [];
+  if (score < 3) {
+    suggestions.push(password.length < 12
+      ? 'Make it longer; a few unrelated words beat symbols and substitutions'
+      : 'Add another word that has nothing to do with the rest');
+  }
+
+  return { score, warning: score < 3 && worst ? worst.warning : null, suggestions };
+}
+
+/**
+ * Why a new password is refused, or null when it is strong enough
+ */
+export function weakPasswordMessage(
+  password: string,
+  userInputs: (string | null | undefined)[] = [],
+  label = 'Password'
+): string | null {
+  const { score, warning } = estimatePasswordStrength(password, userInputs);
+  if (score >= MIN_PASSWORD_SCORE) return null;
+  return warning ? `${label} is too easy to guess. ${warning}` : `${label} is too easy to guess`;
+}
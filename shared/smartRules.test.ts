@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  completeRules,
+  defaultRule,
+  describeRule,
+  describeRules,
+  EMPTY_SMART_RULES,
+  RULE_OPERATORS,
+  ruleFieldKind,
+  SMART_RULE_FIELD_LABELS,
+  type SmartRule,
+  type SmartRuleField,
+  type SmartRules,
+} from './smartRules';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ruleFieldKind', () => {
+  it.each([
+    ['blogName', 'text'],
+    ['mimeType', 'text'],
+    ['tags', 'tags'],
+    ['notes', 'number'],
+    ['byteSize', 'number'],
+    ['timestamp', 'date'],
+    ['storedAt', 'date'],
+  ] as const)('treats %s as %s', (field, kind) => {
+    expect(ruleFieldKind(field)).toBe(kind);
+  });
+});
+
+describe('defaultRule', () => {
+  it('starts each field on its first operator', () => {
+    expect(defaultRule('blogName')).toEqual({ field: 'blogName', op: 'in', value: [] });
+    expect(defaultRule('tags')).toEqual({ field: 'tags', op: 'includes', value: '' });
+    expect(defaultRule('width')).toEqual({ field: 'width', op: 'gte', value: 0 });
+  });
+
+  it('keeps the operator when the new field has it', () => {
+    expect(defaultRule('description', 'notIn')).toEqual({ field: 'description', op: 'notIn', value: [] });
+    expect(defaultRule('height', 'equals')).toEqual({ field: 'height', op: 'equals', value: 0 });
+  });
+
+  it("falls back to the field's first operator when it doesn't", () => {
+    expect(defaultRule('notes', 'contains')).toEqual({ field: 'notes', op: 'gte', value: 0 });
+  });
+
+  it('fills in dates from today, in UTC', () => {
+    vi.useFakeTimers({ now: new Date('2024-12-31T23:30:00Z') });
+
+    expect(defaultRule('storedAt')).toEqual({ field: 'storedAt', op: 'year', value: 2024 });
+    expect(defaultRule('timestamp', 'after')).toEqual({ field: 'timestamp', op: 'after', value: '2024-12-31' });
+    expect(defaultRule('timestamp', 'lastDays')).toEqual({ field: 'timestamp', op: 'lastDays', value: 30 });
+  });
+
+  it('makes a valid rule for every field and operator the builder offers', () => {
+    for (const field of Object.keys(SMART_RULE_FIELD_LABELS) as SmartRuleField[]) {
+      for (const op of RULE_OPERATORS[ruleFieldKind(field)]) {
+        expect(defaultRule(field, op)).toMatchObject({ field, op });
+      }
+    }
+  });
+});
+
+describe('completeRules', () => {
+  it('passes rules through once every condition has a value', () => {
+    const rules: SmartRules = {
+      match: 'any',
+      conditions: [
+        { field: 'blogName', op: 'in', value: ['kodakportra'] },
+        { field: 'tags', op: 'includes', value: 'film' },
+        { field: 'notes', op: 'gte', value: 0 },
+      ],
+    };
+
+    expect(completeRules(rules)).toBe(rules);
+    expect(completeRules(EMPTY_SMART_RULES)).toBe(EMPTY_SMART_RULES);
+  });
+
+  it.each<SmartRule>([
+    { field: 'blogName', op: 'in', value: [] },
+    { field: 'description', op: 'contains', value: '  ' },
+    { field: 'width', op: 'gte', value: NaN },
+  ])('is null while a condition is still empty (%o)', (condition) => {
+    expect(completeRules({ match: 'all', conditions: [condition] })).toBeNull();
+  });
+});
+
+describe('describeRules', () => {
+  it('puts a condition into words', () => {
+    expect(describeRule({ field: 'tags', op: 'includes', value: 'film photography' })).toBe('Tags include film photography');
+    expect(describeRule({ field: 'blogName', op: 'notIn', value: ['a', 'b'] })).toBe('Blog is none of a, b');
+    expect(describeRule({ field: 'timestamp', op: 'year', value: 2023 })).toBe('Posted in year 2023');
+  });
+
+  it('joins conditions with and or or', () => {
+    const conditions: SmartRule[] = [
+      { field: 'width', op: 'gte', value: 2000 },
+      { field: 'mimeType', op: 'in', value: ['image/gif'] },
+    ];
+
+    expect(describeRules({ match: 'all', conditions }))
+      .toBe('Width (px) at least 2000 and File type is one of image/gif');
+    expect(describeRules({ match: 'any', conditions }))
+      .toBe('Width (px) at least 2000 or File type is one of image/gif');
+  });
+
+  it('says when there are no conditions', () => {
+    expect(describeRules(EMPTY_SMART_RULES)).toBe('Every stored image');
+  });
+});
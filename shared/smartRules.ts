@@ -0,0 +1,151 @@
+// Rules for smart collections, shared by the server, which validates them and
+// turns them into a database query, and the client's rule builder.
+//
+// A smart collection is every stored image matching its rules, found when it
+// is viewed, so newly stored images show up in it without anyone adding them.
+// Rules are kept as JSON:
+//
+//   {
+//     "match": "all",
+//     "conditions": [
+//       { "field": "blogName", "op": "in", "value": ["kodakportra", "filmdaily"] },
+//       { "field": "tags", "op": "includes", "value": "film photography" },
+//       { "field": "width", "op": "gte", "value": 2000 },
+//       { "field": "timestamp", "op": "year", "value": 2023 },
+//       { "field": "notes", "op": "gte", "value": 1000 }
+//     ]
+//   }
+
+export const TEXT_RULE_FIELDS = ['blogName', 'description', 'mimeType'] as const;
+export const NUMBER_RULE_FIELDS = ['width', 'height', 'notes', 'byteSize'] as const;
+export const DATE_RULE_FIELDS = ['timestamp', 'storedAt'] as const;
+
+export type TextRuleField = typeof TEXT_RULE_FIELDS[number];
+export type NumberRuleField = typeof NUMBER_RULE_FIELDS[number];
+export type DateRuleField = typeof DATE_RULE_FIELDS[number];
+export type SmartRuleField = TextRuleField | 'tags' | NumberRuleField | DateRuleField;
+
+export type SmartRule =
+  | { field: TextRuleField; op: 'in' | 'notIn'; value: string[] }
+  | { field: TextRuleField; op: 'contains'; value: string }
+  // One tag, matched whole and ignoring case
+  | { field: 'tags'; op: 'includes' | 'excludes'; value: string }
+  | { field: NumberRuleField; op: 'gte' | 'lte' | 'equals'; value: number }
+  // A YYYY-MM-DD day, in UTC; after includes the day itself, before doesn't
+  | { field: DateRuleField; op: 'after' | 'before'; value: string }
+  // A calendar year (UTC), or the last so many days counting back from now
+  | { field: DateRuleField; op: 'year' | 'lastDays'; value: number };
+
+export type SmartRuleOperator = SmartRule['op'];
+
+export interface SmartRules {
+  // Whether an image has to meet every condition or just one
+  match: 'all' | 'any';
+  conditions: SmartRule[];
+}
+
+export const EMPTY_SMART_RULES: SmartRules = { match: 'all', conditions: [] };
+
+export const MAX_SMART_RULE_CONDITIONS = 20;
+export const MAX_SMART_RULE_VALUES = 100;
+
+export const SMART_RULE_FIELD_LABELS: Record<SmartRuleField, string> = {
+  blogName: 'Blog',
+  description: 'Description',
+  mimeType: 'File type',
+  tags: 'Tags',
+  width: 'Width (px)',
+  height: 'Height (px)',
+  notes: 'Notes',
+  byteSize: 'File size (bytes)',
+  timestamp: 'Posted',
+  storedAt: 'Stored',
+};
+
+export const SMART_RULE_OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+  in: 'is one of',
+  notIn: 'is none of',
+  contains: 'contains',
+  includes: 'include',
+  excludes: "don't include",
+  gte: 'at least',
+  lte: 'at most',
+  equals: 'exactly',
+  after: 'on or after',
+  before: 'before',
+  year: 'in year',
+  lastDays: 'in the last (days)',
+};
+
+type RuleKind = 'text' | 'tags' | 'number' | 'date';
+
+export const ruleFieldKind = (field: SmartRuleField): RuleKind =>
+  (TEXT_RULE_FIELDS as readonly string[]).includes(field) ? 'text'
+    : field === 'tags' ? 'tags'
+      : (NUMBER_RULE_FIELDS as readonly string[]).includes(field) ? 'number'
+        : 'date';
+
+// What each kind of field can be compared with, in menu order
+export const RULE_OPERATORS: Record<RuleKind, SmartRuleOperator[]> = {
+  text: ['in', 'notIn', 'contains'],
+  tags: ['includes', 'excludes'],
+  number: ['gte', 'lte', 'equals'],
+  date: ['year', 'after', 'before', 'lastDays'],
+};
+
+/**
+ * A condition with sensible defaults for a field and operator, for when the
+ * rule builder switches either of them
+ */
+export function defaultRule(field: SmartRuleField, op?: SmartRuleOperator): SmartRule {
+  const kind = ruleFieldKind(field);
+  const chosen = op && RULE_OPERATORS[kind].includes(op) ? op : RULE_OPERATORS[kind][0];
+  switch (chosen) {
+    case 'in':
+    case 'notIn':
+      return { field: field as TextRuleField, op: chosen, value: [] };
+    case 'contains':
+      return { field: field as TextRuleField, op: chosen, value: '' };
+    case 'includes':
+    case 'excludes':
+      return { field: 'tags', op: chosen, value: '' };
+    case 'gte':
+    case 'lte':
+    case 'equals':
+      return { field: field as NumberRuleField, op: chosen, value: 0 };
+    case 'after':
+    case 'before':
+      return { field: field as DateRuleField, op: chosen, value: new Date().toISOString().slice(0, 10) };
+    case 'year':
+      return { field: field as DateRuleField, op: chosen, value: new Date().getUTCFullYear() };
+    case 'lastDays':
+      return { field: field as DateRuleField, op: chosen, value: 30 };
+  }
+}
+
+const isComplete = (rule: SmartRule) =>
+  Array.isArray(rule.value) ? rule.value.length > 0
+    : typeof rule.value === 'string' ? rule.value.trim() !== ''
+      : Number.isFinite(rule.value);
+
+/**
+ * The rules if every condition has a value, otherwise null; the builder
+ * neither saves nor previews half-written rules
+ */
+export const completeRules = (rules: SmartRules) => (rules.conditions.every(isComplete) ? rules : null);
+
+/**
+ * One condition in words, e.g. "Tags include film photography"
+ */
+export function describeRule(rule: SmartRule): string {
+  const value = Array.isArray(rule.value) ? rule.value.join(', ') : String(rule.value);
+  return `${SMART_RULE_FIELD_LABELS[rule.field]} ${SMART_RULE_OPERATOR_LABELS[rule.op]} ${value}`;
+}
+
+/**
+ * The whole rule set in words, for a collection's header
+ */
+export function describeRules(rules: SmartRules): string {
+  if (rules.conditions.length === 0) return 'Every stored image';
+  return rules.conditions.map(describeRule).join(rules.match === 'all' ? ' and ' : ' or ');
+}
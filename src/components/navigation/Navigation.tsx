@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/Button';
 import { useAuth } from '@/hooks/queries/useAuth';
 import { preferencesAtom } from '@/store/preferences';
+import { canViewAdmin } from '@/services/api/admin.api';
 
 export function Navigation() {
   const navigate = useNavigate();
@@ -123,6 +124,14 @@ export function Navigation() {
                   >
                     Settings
                   </Link>
+                  {canViewAdmin(currentUser.role) && (
+                    <Link
+                      to="/admin"
+                      className="rounded-lg px-3 py-2 text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900 dark:text-gray-300 dark:hover:bg-gray-800 dark:hover:text-white"
+                    >
+                      Admin
+                    </Link>
+                  )}
                   <Button
                     variant="ghost"
                     onClick={() => {
@@ -222,6 +231,15 @@ export function Navigation() {
               >
                 Settings
               </Link>
+              {canViewAdmin(currentUser?.role) && (
+                <Link
+                  to="/admin"
+                  onClick={closeMobileMenu}
+                  className="block rounded-lg px-4 py-3 text-base font-medium text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
+                >
+                  Admin
+                </Link>
+              )}
               <button
                 onClick={() => {
                   logout();
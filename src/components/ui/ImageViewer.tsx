@@ -19,6 +19,13 @@ interface ImageViewerProps {
   notesList?: Note[];
   isSelected?: boolean;
   onToggleSelect?: () => void;
+  // Position in a photoset; shown when the post has more than one photo
+  photoIndex?: number;
+  photoCount?: number;
+  // Store just the photo on screen, or every photo in its post
+  onStorePhoto?: () => void;
+  onStorePhotoset?: () => void;
+  isStoring?: boolean;
 }
 
 export function ImageViewer({
@@ -37,6 +44,11 @@ export function ImageViewer({
   notesList = [],
   isSelected = false,
   onToggleSelect,
+  photoIndex = 0,
+  photoCount = 1,
+  onStorePhoto,
+  onStorePhotoset,
+  isStoring = false,
 }: ImageViewerProps) {
   const [isZoomed, setIsZoomed] = useState(false);
   const [showNotes, setShowNotes] = useState(false);
@@ -107,6 +119,13 @@ export function ImageViewer({
                   </div>
                 )}
 
+                {/* Photoset position */}
+                {photoCount > 1 && (
+                  <div className="rounded-lg bg-white/10 px-3 py-1 text-sm text-white/80 backdrop-blur-sm">
+                    Photo {photoIndex + 1} of {photoCount}
+                  </div>
+                )}
+
                 {/* Navigation hint */}
                 {(onPrevious || onNext) && (
                   <div className="flex items-center space-x-2 text-sm text-white/60">
@@ -121,6 +140,30 @@ export function ImageViewer({
                 )}
                 
                 <div className="ml-auto flex items-center gap-2">
+                  {/* Store buttons */}
+                  {onStorePhoto && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={onStorePhoto}
+                      disabled={isStoring}
+                      className="text-white hover:bg-white/10"
+                    >
+                      {photoCount > 1 ? 'Store photo' : 'Store'}
+                    </Button>
+                  )}
+                  {onStorePhotoset && photoCount > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={onStorePhotoset}
+                      disabled={isStoring}
+                      className="text-white hover:bg-white/10"
+                    >
+                      Store photoset ({photoCount})
+                    </Button>
+                  )}
+
                   {/* Select button */}
                   {onToggleSelect && (
                     <Button
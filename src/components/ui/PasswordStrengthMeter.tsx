@@ -0,0 +1,43 @@
+import { estimatePasswordStrength, PASSWORD_SCORE_LABELS } from '@shared/passwordStrength';
+import { cn } from '@/utils/cn';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  // Username, name and email: passwords built from them are rated weaker
+  userInputs?: (string | null | undefined)[];
+  className?: string;
+}
+
+const barColors = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+
+// Same estimate the server uses to refuse weak passwords
+export function PasswordStrengthMeter({ password, userInputs = [], className }: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const strength = estimatePasswordStrength(password, userInputs);
+  // Even a very weak password lights one segment, in red
+  const filled = Math.max(strength.score, 1);
+
+  return (
+    <div className={cn('space-y-1', className)} aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map(segment => (
+          <div
+            key={segment}
+            className={cn(
+              'h-1.5 flex-1 rounded-full transition-colors',
+              filled >= segment ? barColors[strength.score] : 'bg-gray-200 dark:bg-gray-700'
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        <span className="font-medium">{PASSWORD_SCORE_LABELS[strength.score]}</span>
+        {strength.warning && ` · ${strength.warning}`}
+      </p>
+      {strength.suggestions[0] && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{strength.suggestions[0]}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+interface PhotosetBadgeProps {
+  count: number;
+}
+
+// Marks a grid tile that stands for several photos from one post
+export function PhotosetBadge({ count }: PhotosetBadgeProps) {
+  return (
+    <div
+      className="absolute right-2 top-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs font-medium text-white backdrop-blur-sm"
+      title={`Photoset of ${count} photos`}
+    >
+      <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+      </svg>
+      {count}
+    </div>
+  );
+}
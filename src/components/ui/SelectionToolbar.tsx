@@ -1,5 +1,8 @@
 import { Button } from './Button';
 
+// Option value for "New collection…"; collection ids are uuids, so it can't clash
+const NEW_COLLECTION = 'new';
+
 interface SelectionToolbarProps {
   selectedCount: number;
   totalCount: number;
@@ -10,6 +13,10 @@ interface SelectionToolbarProps {
   onShare?: () => void;
   onStore?: () => void;
   onDelete?: () => void;
+  // Shown as an "Add to collection" menu; null asks for a new collection
+  collections?: { id: string; name: string }[];
+  onAddToCollection?: (collectionId: string | null) => void;
+  isAddingToCollection?: boolean;
   isDownloading?: boolean;
   downloadProgress?: { current: number; total: number } | null;
   canShare?: boolean;
@@ -29,6 +36,9 @@ export function SelectionToolbar({
   onShare,
   onStore,
   onDelete,
+  collections = [],
+  onAddToCollection,
+  isAddingToCollection,
   isDownloading,
   downloadProgress,
   canShare,
@@ -177,6 +187,27 @@ export function SelectionToolbar({
                 </button>
               )}
 
+              {/* Add to collection menu */}
+              {onAddToCollection && (
+                <select
+                  value=""
+                  onChange={(e) => onAddToCollection(e.target.value === NEW_COLLECTION ? null : e.target.value)}
+                  disabled={isAddingToCollection}
+                  className="rounded-md border border-indigo-300 bg-indigo-50 px-2 py-1.5 text-sm font-medium text-indigo-700 transition-colors hover:bg-indigo-100 disabled:opacity-50 dark:border-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300 dark:hover:bg-indigo-900/50"
+                  aria-label="Add to collection"
+                >
+                  <option value="" disabled>
+                    {isAddingToCollection ? 'Adding...' : 'Add to collection'}
+                  </option>
+                  {collections.map(collection => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </option>
+                  ))}
+                  <option value={NEW_COLLECTION}>New collection…</option>
+                </select>
+              )}
+
               {/* Delete button */}
               {onDelete && (
                 <button
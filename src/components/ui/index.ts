@@ -2,6 +2,7 @@ export * from './Button';
 export * from './Card';
 export * from './Input';
 export * from './LoadingSpinner';
+export * from './PasswordStrengthMeter';
 export * from './SegmentedControl';
 export * from './Sheet';
 export * from './Toast';
@@ -10,4 +11,5 @@ export * from './NotesPanel';
 export * from './VersionBadge';
 export * from './SelectionToolbar';
 export * from './ImageFilters';
+export * from './PhotosetBadge';
 
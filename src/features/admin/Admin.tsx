@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useAtom } from 'jotai';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Container } from '@/components/layouts';
+import { userAtom } from '@/store/auth';
+import { useAdmin } from '@/hooks/queries/useAdmin';
+import { canManageUsers, canModerateUser, canViewAdmin, type AdminUser } from '@/services/api/admin.api';
+import type { UserRole } from '@/services/api/auth.api';
+import { InviteCodes } from './InviteCodes';
+import { ModerationForm } from './ModerationForm';
+import { StatsOverview } from './StatsOverview';
+import { UserTable } from './UserTable';
+
+function Notice({ children }: { children: React.ReactNode }) {
+  return (
+    <Container>
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <Card>
+          <CardContent className="p-8">
+            <p className="text-center text-gray-600 dark:text-gray-400">{children}</p>
+          </CardContent>
+        </Card>
+      </div>
+    </Container>
+  );
+}
+
+export default function Admin() {
+  const [user] = useAtom(userAtom);
+  const {
+    users,
+    isLoadingUsers,
+    usersError,
+    stats,
+    isLoadingStats,
+    updateRole,
+    deleteUser,
+    isUpdatingRole,
+    isDeletingUser,
+    suspendUser,
+    banUser,
+    unsuspendUser,
+    isChangingStatus,
+    invites,
+    isLoadingInvites,
+    invitesError,
+    createInvite,
+    revokeInvite,
+    isCreatingInvite,
+    isRevokingInvite,
+  } = useAdmin();
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [moderating, setModerating] = useState<AdminUser | null>(null);
+
+  if (!user) {
+    return <Notice>Please log in to view the admin console.</Notice>;
+  }
+
+  if (!canViewAdmin(user.role)) {
+    return <Notice>You don't have access to the admin console.</Notice>;
+  }
+
+  const canManage = canManageUsers(user.role);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      setMessage(success);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    }
+  };
+
+  const handleChangeRole = (target: AdminUser, role: UserRole) => {
+    if (role === target.role) return;
+    if (!confirm(`Change ${target.username}'s role from ${target.role} to ${role}?`)) return;
+    run(() => updateRole({ userId: target.id, role }), `${target.username} is now ${role}`);
+  };
+
+  const handleDelete = (target: AdminUser) => {
+    if (!confirm(`Permanently delete ${target.username} (${target.email}) and all of their data? This cannot be undone.`)) return;
+    run(() => deleteUser(target.id), `${target.username} was deleted`);
+  };
+
+  const handleSuspend = (target: AdminUser, reason: string, until: Date) => {
+    run(
+      () => suspendUser({ userId: target.id, reason, until }),
+      `${target.username} is suspended until ${until.toLocaleDateString()}`
+    ).then(ok => ok && setModerating(null));
+  };
+
+  const handleBan = (target: AdminUser, reason: string) => {
+    if (!confirm(`Ban ${target.username}? They won't be able to sign in until the ban is lifted.`)) return;
+    run(() => banUser({ userId: target.id, reason }), `${target.username} was banned`).then(ok => ok && setModerating(null));
+  };
+
+  const handleUnsuspend = (target: AdminUser) => {
+    const verb = target.status === 'BANNED' ? 'Lift the ban on' : 'Lift the suspension of';
+    if (!confirm(`${verb} ${target.username}?`)) return;
+    run(() => unsuspendUser(target.id), `${target.username} can sign in again`);
+  };
+
+  return (
+    <Container>
+      <div className="space-y-6 py-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Admin</h1>
+          {!canManage && (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Moderators can suspend and ban regular users; only admins can change roles or delete accounts.
+            </p>
+          )}
+        </div>
+
+        <StatsOverview stats={stats} isLoading={isLoadingStats} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Users</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(error || usersError) && (
+              <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+                {error || usersError?.message}
+              </div>
+            )}
+            {message && (
+              <div className="rounded-lg bg-green-50 p-3 text-sm text-green-600 dark:bg-green-900/50 dark:text-green-400">
+                {message}
+              </div>
+            )}
+
+            {moderating && (
+              <ModerationForm
+                key={moderating.id}
+                user={moderating}
+                onSuspend={(reason, until) => handleSuspend(moderating, reason, until)}
+                onBan={reason => handleBan(moderating, reason)}
+                onCancel={() => setModerating(null)}
+                isBusy={isChangingStatus}
+              />
+            )}
+
+            {isLoadingUsers ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading users...</p>
+            ) : (
+              <UserTable
+                users={users}
+                currentUserId={user.id}
+                canManage={canManage}
+                onChangeRole={handleChangeRole}
+                onDelete={handleDelete}
+                canModerate={target => canModerateUser(user.role, target)}
+                onModerate={setModerating}
+                onUnsuspend={handleUnsuspend}
+                isBusy={isUpdatingRole || isDeletingUser || isChangingStatus}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {canManage && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invite codes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InviteCodes
+                invites={invites}
+                isLoading={isLoadingInvites}
+                loadError={invitesError}
+                onCreate={createInvite}
+                onRevoke={revokeInvite}
+                isBusy={isCreatingInvite || isRevokingInvite}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Container>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import type { CreateInviteCodeData, InviteCode } from '@/services/api/admin.api';
+
+const expiryOptions: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'No expiry', days: null },
+];
+
+const inviteLink = (code: string) =>
+  `${window.location.origin}/auth?mode=register&invite=${encodeURIComponent(code)}`;
+
+const inviteState = (invite: InviteCode) => {
+  if (invite.revokedAt) return 'Revoked';
+  if (invite.expiresAt && new Date(invite.expiresAt) <= new Date()) return 'Expired';
+  if (invite.uses >= invite.maxUses) return 'Used up';
+  return null;
+};
+
+// Shown once after creation; the server only keeps a hash
+function NewInvite({ code, onDone }: { code: string; onDone: () => void }) {
+  const link = inviteLink(code);
+  return (
+    <div className="space-y-3 rounded-lg bg-amber-50 p-4 dark:bg-amber-950">
+      <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">
+        Copy the invite link
+      </h3>
+      <p className="text-xs text-amber-700 dark:text-amber-300">
+        It opens the sign-up form with the code filled in. It won't be shown again.
+      </p>
+      <p className="break-all font-mono text-sm text-gray-900 dark:text-white">{link}</p>
+      <div className="flex space-x-2">
+        <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(link)}>
+          Copy link
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(code)}>
+          Copy code
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface InviteCodesProps {
+  invites: InviteCode[];
+  isLoading: boolean;
+  loadError: Error | null;
+  onCreate: (data: CreateInviteCodeData) => Promise<{ code: string }>;
+  onRevoke: (inviteId: string) => Promise<unknown>;
+  isBusy: boolean;
+}
+
+export function InviteCodes({ invites, isLoading, loadError, onCreate, onRevoke, isBusy }: InviteCodesProps) {
+  const [note, setNote] = useState('');
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [newCode, setNewCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const result = await onCreate({
+        note: note.trim() || undefined,
+        maxUses,
+        expiresInDays: expiryOptions[expiryIndex].days,
+      });
+      setNewCode(result.code);
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite code');
+    }
+  };
+
+  const handleRevoke = async (invite: InviteCode) => {
+    if (!confirm(`Revoke the invite ${invite.codePrefix}…? Nobody else will be able to sign up with it.`)) return;
+
+    setError(null);
+    try {
+      await onRevoke(invite.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite code');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Invite codes are only needed when the server runs with <code>REGISTRATION_MODE=invite</code>.
+      </p>
+
+      {(error || loadError) && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+          {error || loadError?.message}
+        </div>
+      )}
+
+      {newCode && <NewInvite code={newCode} onDone={() => setNewCode(null)} />}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading invite codes...</p>
+      ) : invites.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {invites.map(invite => {
+            const state = inviteState(invite);
+            return (
+              <li key={invite.id} className="flex items-center justify-between py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    <span className="font-mono">{invite.codePrefix}…</span>
+                    {invite.note && <span className="ml-2">{invite.note}</span>}
+                    {state && (
+                      <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                        {state}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Used {invite.uses} of {invite.maxUses}
+                    {' · '}
+                    {invite.expiresAt
+                      ? `${new Date(invite.expiresAt) <= new Date() ? 'Expired' : 'Expires'} ${new Date(invite.expiresAt).toLocaleDateString()}`
+                      : 'No expiry'}
+                    {' · '}
+                    Created {formatDistanceToNow(new Date(invite.createdAt), { addSuffix: true })}
+                    {invite.createdBy && ` by ${invite.createdBy.username}`}
+                  </p>
+                </div>
+                {!invite.revokedAt && (
+                  <Button size="sm" variant="outline" onClick={() => handleRevoke(invite)} disabled={isBusy}>
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <Input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Note, e.g. who it's for (optional)"
+          maxLength={200}
+        />
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <span>Uses</span>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={maxUses}
+              onChange={e => setMaxUses(Number(e.target.value))}
+              className="w-20"
+            />
+          </label>
+
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <span>Expires after</span>
+            <select
+              value={expiryIndex}
+              onChange={e => setExpiryIndex(Number(e.target.value))}
+              className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-800"
+            >
+              {expiryOptions.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <Button type="submit" isLoading={isBusy} disabled={maxUses < 1}>
+          Create invite
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { addDays } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import type { AdminUser } from '@/services/api/admin.api';
+
+// Length in days; null bans the account until someone lifts it
+const durations: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '3 days', days: 3 },
+  { label: '1 week', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Permanently (ban)', days: null },
+];
+
+interface ModerationFormProps {
+  user: AdminUser;
+  onSuspend: (reason: string, until: Date) => void;
+  onBan: (reason: string) => void;
+  onCancel: () => void;
+  isBusy: boolean;
+}
+
+export function ModerationForm({ user, onSuspend, onBan, onCancel, isBusy }: ModerationFormProps) {
+  const [reason, setReason] = useState('');
+  const [durationIndex, setDurationIndex] = useState(2);
+  const { days } = durations[durationIndex];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (days === null) {
+      onBan(reason.trim());
+    } else {
+      onSuspend(reason.trim(), addDays(new Date(), days));
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20"
+    >
+      <p className="text-sm font-medium text-gray-900 dark:text-white">
+        Suspend {user.username}
+      </p>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        They will be signed out everywhere and shown the reason below when they try to sign in.
+      </p>
+
+      <div>
+        <label htmlFor="moderation-reason" className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Reason
+        </label>
+        <textarea
+          id="moderation-reason"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          rows={2}
+          maxLength={500}
+          required
+          className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="moderation-duration" className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Duration
+        </label>
+        <select
+          id="moderation-duration"
+          value={durationIndex}
+          onChange={e => setDurationIndex(Number(e.target.value))}
+          className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-800"
+        >
+          {durations.map((duration, index) => (
+            <option key={duration.label} value={index}>{duration.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button type="submit" size="sm" variant="danger" disabled={isBusy || !reason.trim()}>
+          {days === null ? 'Ban' : 'Suspend'}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isBusy}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
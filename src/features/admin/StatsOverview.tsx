@@ -0,0 +1,28 @@
+import { Card } from '@/components/ui/Card';
+import type { AdminStats } from '@/services/api/admin.api';
+
+const statLabels: { key: keyof AdminStats; label: string }[] = [
+  { key: 'users', label: 'Users' },
+  { key: 'posts', label: 'Posts' },
+  { key: 'blogs', label: 'Blogs' },
+  { key: 'follows', label: 'Follows' },
+];
+
+export function StatsOverview({ stats, isLoading }: { stats?: AdminStats; isLoading: boolean }) {
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      {statLabels.map(({ key, label }) => (
+        <Card key={key} padding="sm">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+          {isLoading ? (
+            <div className="mt-1 h-8 w-16 animate-pulse rounded bg-gray-200 dark:bg-gray-700" />
+          ) : (
+            <p className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+              {stats?.[key].toLocaleString() ?? '—'}
+            </p>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { isRestricted, type AdminUser } from '@/services/api/admin.api';
+import type { UserRole } from '@/services/api/auth.api';
+import { cn } from '@/utils/cn';
+
+type SortKey = 'username' | 'email' | 'role' | 'status' | 'posts' | 'createdAt' | 'lastLoginAt';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'username', label: 'User' },
+  { key: 'email', label: 'Email' },
+  { key: 'role', label: 'Role' },
+  { key: 'status', label: 'Status' },
+  { key: 'posts', label: 'Posts' },
+  { key: 'createdAt', label: 'Joined' },
+  { key: 'lastLoginAt', label: 'Last login' },
+];
+
+const roles: UserRole[] = ['USER', 'MODERATOR', 'ADMIN'];
+
+const sortValue = (user: AdminUser, key: SortKey): string | number => {
+  switch (key) {
+    case 'posts':
+      return user._count.posts;
+    case 'createdAt':
+      return new Date(user.createdAt).getTime();
+    case 'lastLoginAt':
+      return user.lastLoginAt ? new Date(user.lastLoginAt).getTime() : 0;
+    case 'status':
+      return isRestricted(user) ? user.status : 'ACTIVE';
+    default:
+      return user[key].toLowerCase();
+  }
+};
+
+function StatusBadge({ user }: { user: AdminUser }) {
+  if (!isRestricted(user)) {
+    return <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-700 dark:bg-green-900/50 dark:text-green-300">Active</span>;
+  }
+
+  return (
+    <div title={user.statusReason ?? undefined}>
+      <span
+        className={cn(
+          'rounded-full px-2 py-0.5 text-xs',
+          user.status === 'BANNED'
+            ? 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300'
+            : 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300'
+        )}
+      >
+        {user.status === 'BANNED' ? 'Banned' : 'Suspended'}
+      </span>
+      {user.status === 'SUSPENDED' && user.suspendedUntil && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          until {new Date(user.suspendedUntil).toLocaleDateString()}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface UserTableProps {
+  users: AdminUser[];
+  currentUserId: string;
+  // Moderators get a read-only table
+  canManage: boolean;
+  onChangeRole: (user: AdminUser, role: UserRole) => void;
+  onDelete: (user: AdminUser) => void;
+  // Suspending and banning is open to moderators as well, for regular users
+  canModerate: (user: AdminUser) => boolean;
+  onModerate: (user: AdminUser) => void;
+  onUnsuspend: (user: AdminUser) => void;
+  isBusy: boolean;
+}
+
+export function UserTable({
+  users,
+  currentUserId,
+  canManage,
+  onChangeRole,
+  onDelete,
+  canModerate,
+  onModerate,
+  onUnsuspend,
+  isBusy,
+}: UserTableProps) {
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('createdAt');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const visibleUsers = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = query
+      ? users.filter(user =>
+          user.username.toLowerCase().includes(query) ||
+          user.email.toLowerCase().includes(query) ||
+          user.displayName?.toLowerCase().includes(query)
+        )
+      : users;
+
+    return [...filtered].sort((a, b) => {
+      const left = sortValue(a, sortKey);
+      const right = sortValue(b, sortKey);
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return sortDirection === 'asc' ? order : -order;
+    });
+  }, [users, search, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'username' || key === 'email' || key === 'role' || key === 'status' ? 'asc' : 'desc');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Input
+        type="search"
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        placeholder="Search by username, email or name"
+      />
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-xs uppercase text-gray-500 dark:border-gray-700 dark:text-gray-400">
+            <tr>
+              {columns.map(column => (
+                <th key={column.key} className="px-3 py-2 font-medium">
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column.key)}
+                    className="inline-flex items-center space-x-1 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    <span>{column.label}</span>
+                    {sortKey === column.key && <span>{sortDirection === 'asc' ? '▲' : '▼'}</span>}
+                  </button>
+                </th>
+              ))}
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {visibleUsers.map(user => {
+              const isSelf = user.id === currentUserId;
+              return (
+                <tr key={user.id} className="text-gray-900 dark:text-white">
+                  <td className="px-3 py-2">
+                    <div className="flex items-center space-x-2">
+                      {user.avatar && <img src={user.avatar} alt="" className="h-7 w-7 rounded-full" />}
+                      <div>
+                        <p className="font-medium">{user.username}</p>
+                        {user.displayName && user.displayName !== user.username && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{user.displayName}</p>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {user.email}
+                    {!user.emailVerified && (
+                      <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">unverified</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    {canManage && !isSelf ? (
+                      <select
+                        value={user.role}
+                        onChange={e => onChangeRole(user, e.target.value as UserRole)}
+                        disabled={isBusy}
+                        className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-800"
+                      >
+                        {roles.map(role => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span
+                        className={cn(
+                          'rounded-full px-2 py-0.5 text-xs',
+                          user.role === 'ADMIN' && 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+                          user.role === 'MODERATOR' && 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300',
+                          user.role === 'USER' && 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                        )}
+                      >
+                        {user.role}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <StatusBadge user={user} />
+                  </td>
+                  <td className="px-3 py-2">{user._count.posts}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">{new Date(user.createdAt).toLocaleDateString()}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {user.lastLoginAt
+                      ? formatDistanceToNow(new Date(user.lastLoginAt), { addSuffix: true })
+                      : 'Never'}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {!isSelf && (
+                      <div className="flex justify-end space-x-2">
+                        {canModerate(user) && (
+                          isRestricted(user) ? (
+                            <Button size="sm" variant="outline" onClick={() => onUnsuspend(user)} disabled={isBusy}>
+                              {user.status === 'BANNED' ? 'Unban' : 'Unsuspend'}
+                            </Button>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => onModerate(user)} disabled={isBusy}>
+                              Suspend
+                            </Button>
+                          )
+                        )}
+                        {canManage && (
+                          <Button size="sm" variant="danger" onClick={() => onDelete(user)} disabled={isBusy}>
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {visibleUsers.length === 0 && (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            {search ? 'No users match your search.' : 'No users yet.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
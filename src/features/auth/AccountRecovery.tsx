@@ -5,9 +5,148 @@ import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Container } from '@/components/layouts';
+import { useAuth } from '@/hooks/queries/useAuth';
+import { ApiError } from '@/services/api/client';
+
+// For users who lost their authenticator: password plus a one-time recovery code
+function RecoveryCodeSignIn({ onBack }: { onBack: () => void }) {
+  const navigate = useNavigate();
+  const { login, verifyTwoFactor, cancelAccountDeletion, isLoggingIn, isVerifyingTwoFactor } = useAuth();
+  const [emailOrUsername, setEmailOrUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const result = await login({ emailOrUsername, password });
+      const session = 'twoFactorRequired' in result
+        ? await verifyTwoFactor({ challengeToken: result.challengeToken, recoveryCode })
+        : result;
+
+      if ('deletionPending' in session) {
+        const date = new Date(session.deletionScheduledFor).toLocaleDateString();
+        if (!confirm(`This account is scheduled for deletion on ${date}. Keep your account?`)) {
+          setError(`Your account will be deleted on ${date}.`);
+          return;
+        }
+        await cancelAccountDeletion(session.cancelToken);
+      }
+      navigate({ to: '/' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign in with a recovery code</CardTitle>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Lost your authenticator app? Use one of the recovery codes you saved when you turned on two-factor authentication.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <AnimatePresence mode="wait">
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                className="rounded-lg bg-red-50 p-4 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400"
+              >
+                {error}
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="emailOrUsername"
+              className="text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Email or Username
+            </label>
+            <Input
+              id="emailOrUsername"
+              name="emailOrUsername"
+              type="text"
+              required
+              value={emailOrUsername}
+              onChange={(e) => setEmailOrUsername(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="password"
+              className="text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Password
+            </label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="recoveryCode"
+              className="text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Recovery code
+            </label>
+            <Input
+              id="recoveryCode"
+              name="recoveryCode"
+              type="text"
+              autoComplete="off"
+              required
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              placeholder="xxxxx-xxxxx"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Each recovery code can only be used once. Set up your authenticator again from Settings afterwards.
+            </p>
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            isLoading={isLoggingIn || isVerifyingTwoFactor}
+          >
+            Sign in
+          </Button>
+
+          <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+            <button
+              type="button"
+              onClick={onBack}
+              className="text-primary-600 hover:underline dark:text-primary-500"
+            >
+              Find your username instead
+            </button>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function AccountRecovery() {
   const navigate = useNavigate();
+  const { findAccount } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<{ found: boolean; username?: string } | null>(null);
@@ -20,20 +159,14 @@ export default function AccountRecovery() {
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/auth/find-account', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to search for account');
-      }
-
-      setResult(data);
+      const { username } = await findAccount(email);
+      setResult({ found: true, username });
     } catch (err) {
+      // Not finding an account is an answer, not an error
+      if (err instanceof ApiError && err.status === 404) {
+        setResult({ found: false });
+        return;
+      }
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setIsLoading(false);
@@ -43,159 +176,172 @@ export default function AccountRecovery() {
   return (
     <Container size="sm">
       <div className="flex min-h-[80vh] items-center justify-center py-12">
-        <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle>Find your account</CardTitle>
-            <p className="text-sm text-gray-600 dark:text-gray-400">
-              Enter your email address to find your username
-            </p>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <AnimatePresence mode="wait">
-                {error && (
-                  <motion.div
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    className="rounded-lg bg-red-50 p-4 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400"
-                  >
-                    {error}
-                  </motion.div>
-                )}
-
-                {result && result.found && (
-                  <motion.div
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    className="rounded-lg bg-green-50 p-4 dark:bg-green-950"
-                  >
-                    <div className="flex">
-                      <svg
-                        className="h-5 w-5 text-green-600 dark:text-green-400"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-                        />
-                      </svg>
-                      <div className="ml-3">
-                        <h3 className="text-sm font-medium text-green-800 dark:text-green-200">
-                          Account found
-                        </h3>
-                        <p className="mt-1 text-sm text-green-700 dark:text-green-300">
-                          Your username is: <span className="font-semibold">{result.username}</span>
-                        </p>
-                        <p className="mt-2 text-xs text-green-600 dark:text-green-400">
-                          You can now use this username to log in
-                        </p>
+        {useRecoveryCode ? (
+          <RecoveryCodeSignIn onBack={() => setUseRecoveryCode(false)} />
+        ) : (
+          <Card className="w-full max-w-md">
+            <CardHeader>
+              <CardTitle>Find your account</CardTitle>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Enter your email address to find your username
+              </p>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <AnimatePresence mode="wait">
+                  {error && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="rounded-lg bg-red-50 p-4 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400"
+                    >
+                      {error}
+                    </motion.div>
+                  )}
+
+                  {result && result.found && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="rounded-lg bg-green-50 p-4 dark:bg-green-950"
+                    >
+                      <div className="flex">
+                        <svg
+                          className="h-5 w-5 text-green-600 dark:text-green-400"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                          />
+                        </svg>
+                        <div className="ml-3">
+                          <h3 className="text-sm font-medium text-green-800 dark:text-green-200">
+                            Account found
+                          </h3>
+                          <p className="mt-1 text-sm text-green-700 dark:text-green-300">
+                            Your username is: <span className="font-semibold">{result.username}</span>
+                          </p>
+                          <p className="mt-2 text-xs text-green-600 dark:text-green-400">
+                            You can now use this username to log in
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  </motion.div>
-                )}
-
-                {result && !result.found && (
-                  <motion.div
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    className="rounded-lg bg-amber-50 p-4 dark:bg-amber-950"
-                  >
-                    <div className="flex">
-                      <svg
-                        className="h-5 w-5 text-amber-600 dark:text-amber-400"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                        />
-                      </svg>
-                      <div className="ml-3">
-                        <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">
-                          No account found
-                        </h3>
-                        <p className="mt-1 text-sm text-amber-700 dark:text-amber-300">
-                          We couldn't find an account associated with that email address.
-                        </p>
-                        <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
-                          Make sure you entered the correct email, or create a new account.
-                        </p>
+                    </motion.div>
+                  )}
+
+                  {result && !result.found && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="rounded-lg bg-amber-50 p-4 dark:bg-amber-950"
+                    >
+                      <div className="flex">
+                        <svg
+                          className="h-5 w-5 text-amber-600 dark:text-amber-400"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                          />
+                        </svg>
+                        <div className="ml-3">
+                          <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                            No account found
+                          </h3>
+                          <p className="mt-1 text-sm text-amber-700 dark:text-amber-300">
+                            We couldn't find an account associated with that email address.
+                          </p>
+                          <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                            Make sure you entered the correct email, or create a new account.
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-
-              <div className="space-y-2">
-                <label
-                  htmlFor="email"
-                  className="text-sm font-medium text-gray-700 dark:text-gray-300"
-                >
-                  Email Address
-                </label>
-                <Input
-                  id="email"
-                  name="email"
-                  type="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="Enter your email address"
-                />
-              </div>
-
-              <Button
-                type="submit"
-                className="w-full"
-                isLoading={isLoading}
-              >
-                Find my username
-              </Button>
-
-              <div className="space-y-2 text-center text-sm">
-                {result && result.found && (
-                  <Button
-                    type="button"
-                    onClick={() => navigate({ to: '/auth' })}
-                    variant="outline"
-                    className="w-full"
-                  >
-                    Go to login
-                  </Button>
-                )}
-                <p className="text-gray-600 dark:text-gray-400">
-                  <button
-                    type="button"
-                    onClick={() => navigate({ to: '/auth' })}
-                    className="text-primary-600 hover:underline dark:text-primary-500"
-                  >
-                    Back to login
-                  </button>
-                </p>
-                <p className="text-gray-600 dark:text-gray-400">
-                  <button
-                    type="button"
-                    onClick={() => navigate({ to: '/auth/forgot-password' })}
-                    className="text-primary-600 hover:underline dark:text-primary-500"
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+
+                <div className="space-y-2">
+                  <label
+                    htmlFor="email"
+                    className="text-sm font-medium text-gray-700 dark:text-gray-300"
                   >
-                    Forgot your password?
-                  </button>
-                </p>
-              </div>
-            </form>
-          </CardContent>
-        </Card>
+                    Email Address
+                  </label>
+                  <Input
+                    id="email"
+                    name="email"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Enter your email address"
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  isLoading={isLoading}
+                >
+                  Find my username
+                </Button>
+
+                <div className="space-y-2 text-center text-sm">
+                  {result && result.found && (
+                    <Button
+                      type="button"
+                      onClick={() => navigate({ to: '/auth' })}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      Go to login
+                    </Button>
+                  )}
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <button
+                      type="button"
+                      onClick={() => navigate({ to: '/auth' })}
+                      className="text-primary-600 hover:underline dark:text-primary-500"
+                    >
+                      Back to login
+                    </button>
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <button
+                      type="button"
+                      onClick={() => navigate({ to: '/auth/forgot-password' })}
+                      className="text-primary-600 hover:underline dark:text-primary-500"
+                    >
+                      Forgot your password?
+                    </button>
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <button
+                      type="button"
+                      onClick={() => setUseRecoveryCode(true)}
+                      className="text-primary-600 hover:underline dark:text-primary-500"
+                    >
+                      Lost your authenticator? Use a recovery code
+                    </button>
+                  </p>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </Container>
   );
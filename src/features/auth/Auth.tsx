@@ -1,29 +1,76 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearch } from '@tanstack/react-router';
 import { motion, AnimatePresence } from 'framer-motion';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
 import { Container } from '@/components/layouts';
-import { useAuth } from '@/hooks/queries/useAuth';
+import { useAuth, useRegistrationMode } from '@/hooks/queries/useAuth';
+import { weakPasswordMessage } from '@shared/passwordStrength';
+import { AccountRestrictedError, RateLimitError, type DeletionPending } from '@/services/api/auth.api';
 
 interface FormData {
   email: string;
   password: string;
   username?: string;
+  inviteCode: string;
 }
 
 export default function Auth() {
   const navigate = useNavigate();
-  const searchParams = useSearch({ from: '/auth' }) as { mode?: string };
+  const searchParams = useSearch({ from: '/auth' }) as { mode?: string; invite?: string };
   const [mode, setMode] = useState<'login' | 'register'>('login');
-  const { login, register, isLoggingIn, isRegistering, loginError, registerError } = useAuth();
+  const {
+    login,
+    verifyTwoFactor,
+    loginWithPasskey,
+    cancelAccountDeletion,
+    register,
+    isLoggingIn,
+    isVerifyingTwoFactor,
+    isLoggingInWithPasskey,
+    isCancellingDeletion,
+    isRegistering,
+    loginError,
+    registerError,
+  } = useAuth();
+  const { registrationMode } = useRegistrationMode();
   const [formData, setFormData] = useState<FormData>({
     email: '',
     password: '',
     username: '',
+    // Invite links look like /auth?mode=register&invite=...
+    inviteCode: searchParams?.invite ?? '',
   });
   const [error, setError] = useState<string | null>(null);
+  // Second login step, once the password has been accepted for a 2FA account
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Set when the server rate-limits us; the form stays disabled until then
+  const [retryUntil, setRetryUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Set when the account is suspended or banned, shown instead of the usual error
+  const [restriction, setRestriction] = useState<AccountRestrictedError | null>(null);
+  // Signed in to an account that is waiting to be deleted; offer to keep it
+  const [pendingDeletion, setPendingDeletion] = useState<DeletionPending | null>(null);
+
+  const retrySeconds = retryUntil ? Math.max(0, Math.ceil((retryUntil - now) / 1000)) : 0;
+
+  // Tick the countdown while rate-limited
+  useEffect(() => {
+    if (!retryUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryUntil) {
+        setRetryUntil(null);
+        setError(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryUntil]);
 
   // Update mode based on URL search params
   useEffect(() => {
@@ -32,11 +79,16 @@ export default function Auth() {
     } else {
       setMode('login');
     }
+    if (searchParams?.invite) {
+      setFormData(prev => ({ ...prev, inviteCode: searchParams.invite! }));
+    }
   }, [searchParams]);
 
   // Show errors from mutations
   useEffect(() => {
-    if (loginError) {
+    if (loginError instanceof AccountRestrictedError) {
+      return;
+    } else if (loginError) {
       setError(loginError.message);
     } else if (registerError) {
       setError(registerError.message);
@@ -46,13 +98,34 @@ export default function Auth() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setRestriction(null);
 
     try {
-      if (mode === 'login') {
-        await login({
+      if (challengeToken) {
+        const result = await verifyTwoFactor({
+          challengeToken,
+          ...(useRecoveryCode ? { recoveryCode: twoFactorCode } : { code: twoFactorCode }),
+        });
+        if ('deletionPending' in result) {
+          cancelTwoFactor();
+          setPendingDeletion(result);
+          return;
+        }
+        navigate({ to: '/' });
+      } else if (mode === 'login') {
+        const result = await login({
           emailOrUsername: formData.email,
           password: formData.password,
         });
+        if ('twoFactorRequired' in result) {
+          setChallengeToken(result.challengeToken);
+          setTwoFactorCode('');
+          return;
+        }
+        if ('deletionPending' in result) {
+          setPendingDeletion(result);
+          return;
+        }
         navigate({ to: '/' });
       } else {
         // Handle registration
@@ -60,20 +133,61 @@ export default function Auth() {
           setError('Username is required');
           return;
         }
+        const weakness = weakPasswordMessage(formData.password, [formData.username, formData.email]);
+        if (weakness) {
+          setError(weakness);
+          return;
+        }
         await register({
           email: formData.email,
           username: formData.username,
           password: formData.password,
+          ...(formData.inviteCode && { inviteCode: formData.inviteCode.trim() }),
         });
         navigate({ to: '/' });
       }
     } catch (err) {
+      if (err instanceof AccountRestrictedError) {
+        cancelTwoFactor();
+        setRestriction(err);
+        return;
+      }
+      if (err instanceof RateLimitError) {
+        setNow(Date.now());
+        setRetryUntil(Date.now() + err.retryAfter * 1000);
+      }
       setError(
         err instanceof Error ? err.message : 'An error occurred. Please try again.'
       );
     }
   };
 
+  const handlePasskeyLogin = async () => {
+    setError(null);
+    setRestriction(null);
+    try {
+      const result = await loginWithPasskey();
+      if ('deletionPending' in result) {
+        setPendingDeletion(result);
+        return;
+      }
+      navigate({ to: '/' });
+    } catch (err) {
+      if (err instanceof AccountRestrictedError) {
+        setRestriction(err);
+        return;
+      }
+      if (err instanceof RateLimitError) {
+        setNow(Date.now());
+        setRetryUntil(Date.now() + err.retryAfter * 1000);
+      }
+      // NotAllowedError means the user dismissed the browser prompt
+      if (err instanceof Error && err.name !== 'NotAllowedError') {
+        setError(err.message);
+      }
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -81,7 +195,29 @@ export default function Auth() {
 
   const switchMode = (newMode: 'login' | 'register') => {
     setMode(newMode);
-    navigate({ to: '/auth', search: { mode: newMode } });
+    navigate({ to: '/auth', search: { mode: newMode, invite: searchParams?.invite } });
+  };
+
+  const registrationClosed = mode === 'register' && registrationMode === 'closed';
+  // Also shown for an invite link while the mode is still loading
+  const showInviteCode = mode === 'register' && (registrationMode === 'invite' || !!searchParams?.invite);
+
+  const handleKeepAccount = async () => {
+    if (!pendingDeletion) return;
+    setError(null);
+    try {
+      await cancelAccountDeletion(pendingDeletion.cancelToken);
+      navigate({ to: '/' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel account deletion');
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+    setError(null);
   };
 
   return (
@@ -90,7 +226,11 @@ export default function Auth() {
         <Card className="w-full max-w-md">
           <CardHeader>
             <CardTitle>
-              {mode === 'login' ? 'Welcome back' : 'Create an account'}
+              {pendingDeletion
+                ? 'Account scheduled for deletion'
+                : challengeToken
+                ? 'Two-factor authentication'
+                : mode === 'login' ? 'Welcome back' : 'Create an account'}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -98,133 +238,298 @@ export default function Auth() {
               <AnimatePresence mode="wait">
                 {error && (
                   <motion.div
+                    key="error"
                     initial={{ opacity: 0, y: -10 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, y: -10 }}
                     className="rounded-lg bg-red-50 p-4 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400"
                   >
                     {error}
+                    {retrySeconds > 0 && (
+                      <p className="mt-1 font-medium">
+                        You can try again in {Math.floor(retrySeconds / 60)}:{String(retrySeconds % 60).padStart(2, '0')}
+                      </p>
+                    )}
+                  </motion.div>
+                )}
+                {restriction && (
+                  <motion.div
+                    key="restriction"
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    className="rounded-lg bg-amber-50 p-4 text-sm text-amber-800 dark:bg-amber-900/50 dark:text-amber-300"
+                  >
+                    <p className="font-medium">
+                      {restriction.accountStatus === 'BANNED'
+                        ? 'Your account has been banned.'
+                        : restriction.until
+                          ? `Your account is suspended until ${restriction.until.toLocaleString()}.`
+                          : 'Your account is suspended.'}
+                    </p>
+                    {restriction.reason && <p className="mt-1">Reason: {restriction.reason}</p>}
+                    <p className="mt-1">
+                      {restriction.accountStatus === 'BANNED'
+                        ? 'If you think this is a mistake, contact the site administrators.'
+                        : 'You can sign in again once the suspension ends.'}
+                    </p>
                   </motion.div>
                 )}
               </AnimatePresence>
 
-              {mode === 'register' && (
-                <div className="space-y-2">
-                  <label
-                    htmlFor="username"
-                    className="text-sm font-medium text-gray-700 dark:text-gray-300"
-                  >
-                    Username
-                  </label>
-                  <Input
-                    id="username"
-                    name="username"
-                    type="text"
-                    required
-                    value={formData.username}
-                    onChange={handleInputChange}
-                    placeholder="Choose a username"
-                  />
-                </div>
-              )}
+              {pendingDeletion ? (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    You asked for this account to be deleted. It will be permanently deleted on{' '}
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {new Date(pendingDeletion.deletionScheduledFor).toLocaleString()}
+                    </span>
+                    . Do you want to keep it instead?
+                  </p>
+
+                  <Button type="button" className="w-full" onClick={handleKeepAccount} isLoading={isCancellingDeletion}>
+                    Keep my account
+                  </Button>
+
+                  <div className="text-center text-sm">
+                    <button
+                      type="button"
+                      onClick={() => setPendingDeletion(null)}
+                      className="text-gray-600 hover:underline dark:text-gray-400"
+                    >
+                      No, continue with the deletion
+                    </button>
+                  </div>
+                </>
+              ) : challengeToken ? (
+                <>
+                  <div className="space-y-2">
+                    <label
+                      htmlFor="twoFactorCode"
+                      className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                    </label>
+                    <Input
+                      id="twoFactorCode"
+                      name="twoFactorCode"
+                      type="text"
+                      required
+                      autoFocus
+                      autoComplete="one-time-code"
+                      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                      value={twoFactorCode}
+                      onChange={e => setTwoFactorCode(e.target.value)}
+                      placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '6-digit code'}
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {useRecoveryCode
+                        ? 'Each recovery code can only be used once.'
+                        : 'Enter the code from your authenticator app.'}
+                    </p>
+                  </div>
 
-              <div className="space-y-2">
-                <label
-                  htmlFor="email"
-                  className="text-sm font-medium text-gray-700 dark:text-gray-300"
-                >
-                  {mode === 'login' ? 'Email or Username' : 'Email'}
-                </label>
-                <Input
-                  id="email"
-                  name="email"
-                  type={mode === 'login' ? 'text' : 'email'}
-                  required
-                  value={formData.email}
-                  onChange={handleInputChange}
-                  placeholder={mode === 'login' ? 'Enter your email or username' : 'Enter your email'}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <label
-                    htmlFor="password"
-                    className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    isLoading={isVerifyingTwoFactor}
+                    disabled={retrySeconds > 0}
                   >
-                    Password
-                  </label>
-                  {mode === 'login' && (
+                    Verify
+                  </Button>
+
+                  <div className="space-y-3 text-center text-sm">
                     <button
                       type="button"
-                      onClick={() => navigate({ to: '/auth/forgot-password' })}
-                      className="text-xs text-primary-600 hover:underline dark:text-primary-500"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setTwoFactorCode('');
+                      }}
+                      className="text-primary-600 hover:underline dark:text-primary-500"
                     >
-                      Forgot password?
+                      {useRecoveryCode ? 'Use your authenticator app instead' : 'Use a recovery code instead'}
                     </button>
-                  )}
-                </div>
-                <Input
-                  id="password"
-                  name="password"
-                  type="password"
-                  required
-                  value={formData.password}
-                  onChange={handleInputChange}
-                  placeholder="Enter your password"
-                  minLength={mode === 'register' ? 8 : undefined}
-                />
-                {mode === 'register' && (
-                  <p className="text-xs text-gray-500 dark:text-gray-400">
-                    Must be at least 8 characters with letters and numbers
-                  </p>
-                )}
-              </div>
-
-              <Button
-                type="submit"
-                className="w-full"
-                isLoading={isLoggingIn || isRegistering}
-              >
-                {mode === 'login' ? 'Log in' : 'Sign up'}
-              </Button>
-
-              <div className="space-y-3 text-center text-sm">
-                {mode === 'login' ? (
-                  <>
-                    <p className="text-gray-600 dark:text-gray-400">
-                      Don't have an account?{' '}
+                    <p>
                       <button
                         type="button"
-                        onClick={() => switchMode('register')}
-                        className="text-primary-600 hover:underline dark:text-primary-500"
+                        onClick={cancelTwoFactor}
+                        className="text-gray-600 hover:underline dark:text-gray-400"
                       >
-                        Sign up
+                        Back to sign in
                       </button>
                     </p>
-                    <p className="text-gray-600 dark:text-gray-400">
-                      <button
-                        type="button"
-                        onClick={() => navigate({ to: '/auth/account-recovery' })}
-                        className="text-primary-600 hover:underline dark:text-primary-500"
+                  </div>
+                </>
+              ) : (
+                <>
+                  {registrationClosed && (
+                    <div className="rounded-lg bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-950 dark:text-amber-200">
+                      Sign-ups are closed on this server. Ask an admin if you need an account.
+                    </div>
+                  )}
+
+                  {showInviteCode && (
+                    <div className="space-y-2">
+                      <label
+                        htmlFor="inviteCode"
+                        className="text-sm font-medium text-gray-700 dark:text-gray-300"
                       >
-                        Can't find your login?
-                      </button>
-                    </p>
-                  </>
-                ) : (
-                  <p className="text-gray-600 dark:text-gray-400">
-                    Already have an account?{' '}
-                    <button
+                        Invite code
+                      </label>
+                      <Input
+                        id="inviteCode"
+                        name="inviteCode"
+                        type="text"
+                        required={registrationMode === 'invite'}
+                        autoComplete="off"
+                        value={formData.inviteCode}
+                        onChange={handleInputChange}
+                        placeholder="Enter your invite code"
+                      />
+                    </div>
+                  )}
+
+                  {mode === 'register' && (
+                    <div className="space-y-2">
+                      <label
+                        htmlFor="username"
+                        className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                      >
+                        Username
+                      </label>
+                      <Input
+                        id="username"
+                        name="username"
+                        type="text"
+                        required
+                        value={formData.username}
+                        onChange={handleInputChange}
+                        placeholder="Choose a username"
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <label
+                      htmlFor="email"
+                      className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      {mode === 'login' ? 'Email or Username' : 'Email'}
+                    </label>
+                    <Input
+                      id="email"
+                      name="email"
+                      type={mode === 'login' ? 'text' : 'email'}
+                      required
+                      value={formData.email}
+                      onChange={handleInputChange}
+                      placeholder={mode === 'login' ? 'Enter your email or username' : 'Enter your email'}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label
+                        htmlFor="password"
+                        className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                      >
+                        Password
+                      </label>
+                      {mode === 'login' && (
+                        <button
+                          type="button"
+                          onClick={() => navigate({ to: '/auth/forgot-password' })}
+                          className="text-xs text-primary-600 hover:underline dark:text-primary-500"
+                        >
+                          Forgot password?
+                        </button>
+                      )}
+                    </div>
+                    <Input
+                      id="password"
+                      name="password"
+                      type="password"
+                      required
+                      value={formData.password}
+                      onChange={handleInputChange}
+                      placeholder="Enter your password"
+                      minLength={mode === 'register' ? 8 : undefined}
+                    />
+                    {mode === 'register' && (
+                      <>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Must be at least 8 characters with letters and numbers
+                        </p>
+                        <PasswordStrengthMeter
+                          password={formData.password}
+                          userInputs={[formData.username, formData.email]}
+                        />
+                      </>
+                    )}
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    isLoading={isLoggingIn || isRegistering}
+                    disabled={retrySeconds > 0 || registrationClosed}
+                  >
+                    {mode === 'login' ? 'Log in' : 'Sign up'}
+                  </Button>
+
+                  {mode === 'login' && browserSupportsWebAuthn() && (
+                    <Button
                       type="button"
-                      onClick={() => switchMode('login')}
-                      className="text-primary-600 hover:underline dark:text-primary-500"
+                      variant="outline"
+                      className="w-full"
+                      onClick={handlePasskeyLogin}
+                      isLoading={isLoggingInWithPasskey}
+                      disabled={retrySeconds > 0}
                     >
-                      Log in
-                    </button>
-                  </p>
-                )}
-              </div>
+                      Sign in with a passkey
+                    </Button>
+                  )}
+
+                  <div className="space-y-3 text-center text-sm">
+                    {mode === 'login' ? (
+                      <>
+                        {registrationMode !== 'closed' && (
+                          <p className="text-gray-600 dark:text-gray-400">
+                            Don't have an account?{' '}
+                            <button
+                              type="button"
+                              onClick={() => switchMode('register')}
+                              className="text-primary-600 hover:underline dark:text-primary-500"
+                            >
+                              Sign up
+                            </button>
+                          </p>
+                        )}
+                        <p className="text-gray-600 dark:text-gray-400">
+                          <button
+                            type="button"
+                            onClick={() => navigate({ to: '/auth/account-recovery' })}
+                            className="text-primary-600 hover:underline dark:text-primary-500"
+                          >
+                            Can't find your login?
+                          </button>
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-gray-600 dark:text-gray-400">
+                        Already have an account?{' '}
+                        <button
+                          type="button"
+                          onClick={() => switchMode('login')}
+                          className="text-primary-600 hover:underline dark:text-primary-500"
+                        >
+                          Log in
+                        </button>
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
             </form>
           </CardContent>
         </Card>
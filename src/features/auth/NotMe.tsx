@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Container } from '@/components/layouts';
+import { useAuth } from '@/hooks/queries/useAuth';
+
+// Asks before acting rather than running on load, since mail scanners open links too
+export default function NotMe() {
+  const navigate = useNavigate();
+  const searchParams = useSearch({ from: '/auth/not-me' }) as { token?: string };
+  const { reportNotMe, isReportingNotMe } = useAuth();
+  const [error, setError] = useState<string | null>(
+    searchParams?.token ? null : 'Invalid or missing link token'
+  );
+
+  const handleSecure = async () => {
+    if (!searchParams?.token) return;
+    setError(null);
+
+    try {
+      const { resetToken } = await reportNotMe(searchParams.token);
+      navigate({ to: '/auth/reset-password', search: { token: resetToken } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Container size="sm">
+      <div className="flex min-h-[80vh] items-center justify-center py-12">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Secure Your Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="space-y-4"
+            >
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                If you didn't sign in from the device in the alert, someone else may know your password.
+                Securing your account signs out every session, including theirs, and asks you to choose a
+                new password before anyone can sign in again.
+              </p>
+
+              {error && (
+                <div className="rounded-lg bg-red-50 p-4 text-sm text-red-700 dark:bg-red-900/50 dark:text-red-300">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  onClick={() => navigate({ to: '/' })}
+                  className="flex-1"
+                  variant="outline"
+                  disabled={isReportingNotMe}
+                >
+                  It was me
+                </Button>
+                <Button
+                  onClick={handleSecure}
+                  className="flex-1"
+                  variant="danger"
+                  isLoading={isReportingNotMe}
+                  disabled={!searchParams?.token}
+                >
+                  Secure my account
+                </Button>
+              </div>
+            </motion.div>
+          </CardContent>
+        </Card>
+      </div>
+    </Container>
+  );
+}
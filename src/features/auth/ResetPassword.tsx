@@ -4,10 +4,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
 import { Container } from '@/components/layouts';
+import { useAuth } from '@/hooks/queries/useAuth';
+import { weakPasswordMessage } from '@shared/passwordStrength';
 
 export default function ResetPassword() {
   const navigate = useNavigate();
+  const { resetPassword } = useAuth();
   const searchParams = useSearch({ from: '/auth/reset-password' }) as { token?: string };
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -40,24 +44,22 @@ export default function ResetPassword() {
       return;
     }
 
-    setIsLoading(true);
-
-    try {
-      const response = await fetch('/api/auth/reset-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          token: searchParams?.token,
-          newPassword: password,
-        }),
-      });
+    // The server also checks it against your username and email
+    const weakness = weakPasswordMessage(password);
+    if (weakness) {
+      setError(weakness);
+      return;
+    }
 
-      const data = await response.json();
+    if (!searchParams?.token) {
+      setError('Invalid or missing reset token');
+      return;
+    }
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to reset password');
-      }
+    setIsLoading(true);
 
+    try {
+      await resetPassword({ token: searchParams.token, newPassword: password });
       setSuccess(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -151,6 +153,7 @@ export default function ResetPassword() {
                   <p className="text-xs text-gray-500 dark:text-gray-400">
                     Must be at least 8 characters with letters and numbers
                   </p>
+                  <PasswordStrengthMeter password={password} />
                 </div>
 
                 <div className="space-y-2">
@@ -5,15 +5,17 @@ import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Container } from '@/components/layouts';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { useAuth } from '@/hooks/queries/useAuth';
 
 export default function VerifyEmail() {
   const navigate = useNavigate();
   const searchParams = useSearch({ from: '/auth/verify-email' }) as { token?: string };
+  const { verifyEmail } = useAuth();
   const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const verifyEmail = async () => {
+    const verify = async () => {
       if (!searchParams?.token) {
         setStatus('error');
         setError('Invalid or missing verification token');
@@ -21,18 +23,7 @@ export default function VerifyEmail() {
       }
 
       try {
-        const response = await fetch('/api/auth/verify-email', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ token: searchParams.token }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to verify email');
-        }
-
+        await verifyEmail(searchParams.token);
         setStatus('success');
       } catch (err) {
         setStatus('error');
@@ -40,7 +31,7 @@ export default function VerifyEmail() {
       }
     };
 
-    verifyEmail();
+    verify();
   }, [searchParams]);
 
   return (
@@ -2,21 +2,13 @@ import { useParams, useNavigate } from '@tanstack/react-router';
 import { useMemo, useState, useEffect, useRef } from 'react';
 import { useAtom } from 'jotai';
 import { motion } from 'framer-motion';
-import { Card, Button, ImageViewer, NotesPanel, VersionBadge, SelectionToolbar, ImageFilters, type ImageFiltersState } from '@/components/ui';
+import { Card, Button, ImageViewer, NotesPanel, VersionBadge, SelectionToolbar, ImageFilters, PhotosetBadge, type ImageFiltersState } from '@/components/ui';
 import type { Note } from '@/components/ui/NotesPanel';
 import { shareImages, downloadImages, downloadImagesServerSide, canShareFiles, getImageFilename, type ImageMetadata } from '@/utils/imageDownload';
 import { filenamePatternAtom, includeIndexInFilenameAtom, includeSidecarMetadataAtom, downloadMethodAtom, gridColumnsAtom, gridImageSizeAtom, updatePreferencesAtom } from '@/store/preferences';
-import { userAtom } from '@/store/auth';
-
-// Dynamic API URL based on current host
-const getApiUrl = () => {
-  if (import.meta.env.VITE_API_URL) return import.meta.env.VITE_API_URL;
-  if (typeof window !== 'undefined') {
-    return `${window.location.protocol}//${window.location.hostname}:3001`;
-  }
-  return 'http://localhost:3001';
-};
-const API_URL = getApiUrl();
+import { userAtom, tokenAtom } from '@/store/auth';
+import { useStoredImages } from '@/hooks/queries/useStoredImages';
+import type { NewStoredImage, StoreImagesResult } from '@/services/api/storedImages.api';
 
 interface BlogPost {
   id: string;
@@ -34,6 +26,7 @@ export function Blog() {
   const { username } = useParams({ from: '/blog/$username' });
   const navigate = useNavigate();
   const [user] = useAtom(userAtom);
+  const [token] = useAtom(tokenAtom);
   const [viewMode, setViewMode] = useState<'all' | 'images-only'>('all');
   const [filenamePattern] = useAtom(filenamePatternAtom);
   const [includeIndex] = useAtom(includeIndexInFilenameAtom);
@@ -43,6 +36,8 @@ export function Blog() {
   const [gridImageSize] = useAtom(gridImageSizeAtom);
   const [, updatePreferences] = useAtom(updatePreferencesAtom);
   const [selectedImage, setSelectedImage] = useState<BlogPost | null>(null);
+  // Which photo of selectedImage's photoset is showing
+  const [selectedPhoto, setSelectedPhoto] = useState(0);
   const [selectedPostForNotes, setSelectedPostForNotes] = useState<BlogPost | null>(null);
   const [notesFilter, setNotesFilter] = useState<'all' | 'comments' | 'likes' | 'reblogs'>('all');
   const [likedPosts, setLikedPosts] = useState<Set<string>>(new Set());
@@ -60,7 +55,8 @@ export function Blog() {
   });
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState<{ current: number; total: number } | null>(null);
-  const [isStoring, setIsStoring] = useState(false);
+  // Only storing from here; the list itself is on the Stored page
+  const { storeImages, isStoring } = useStoredImages({}, { enabled: false });
   
   // Range selection mode for mobile
   const [rangeMode, setRangeMode] = useState(false);
@@ -106,6 +102,9 @@ export function Blog() {
         // Use varied image sizes for photoarchive
         const imageWidth = isPhotoArchive ? [800, 1000, 1200][i % 3] : 800;
         const imageHeight = isPhotoArchive ? [600, 800, 900][i % 3] : 600;
+
+        // Every fifth post is a photoset of 2-4 photos
+        const photoCount = i % 5 === 2 ? 2 + (i % 3) : 1;
         
         return {
           id: `post-${username}-${i}`,
@@ -116,7 +115,10 @@ export function Blog() {
           timestamp: Date.now() - i * 86400000,
           notes: isPhotoArchive ? Math.floor(Math.random() * 5000) : Math.floor(Math.random() * 1000),
           tags: selectedTags,
-          images: isPhoto ? [`https://picsum.photos/seed/${username}-${i}/${imageWidth}/${imageHeight}`] : undefined,
+          images: isPhoto
+            ? Array.from({ length: photoCount }, (_, photo) =>
+                `https://picsum.photos/seed/${username}-${i}${photo > 0 ? `-${photo}` : ''}/${imageWidth}/${imageHeight}`)
+            : undefined,
           imageWidth: isPhoto ? imageWidth : undefined,
           imageHeight: isPhoto ? imageHeight : undefined,
         };
@@ -137,34 +139,70 @@ export function Blog() {
     return blogData.posts.filter(post => post.type === 'photo' && post.images);
   }, [blogData.posts]);
 
+  // Photosets expanded, so the viewer steps through each photo of a post before moving on
+  const allPhotos = useMemo(() => {
+    return allPhotoPosts.flatMap(post => post.images!.map((url, photoIndex) => ({ post, photoIndex, url })));
+  }, [allPhotoPosts]);
+
   const currentImageIndex = selectedImage
-    ? allPhotoPosts.findIndex(post => post.id === selectedImage.id)
+    ? allPhotos.findIndex(photo => photo.post.id === selectedImage.id && photo.photoIndex === selectedPhoto)
     : -1;
 
+  const openPost = (post: BlogPost, photoIndex = 0) => {
+    setSelectedImage(post);
+    setSelectedPhoto(photoIndex);
+  };
+
+  const openPhoto = (index: number) => {
+    const photo = allPhotos[index];
+    if (photo) {
+      openPost(photo.post, photo.photoIndex);
+    }
+  };
+
   const handleNextImage = () => {
-    if (currentImageIndex < allPhotoPosts.length - 1) {
-      setSelectedImage(allPhotoPosts[currentImageIndex + 1]);
+    if (currentImageIndex < allPhotos.length - 1) {
+      openPhoto(currentImageIndex + 1);
     }
   };
 
   const handlePreviousImage = () => {
     if (currentImageIndex > 0) {
-      setSelectedImage(allPhotoPosts[currentImageIndex - 1]);
+      openPhoto(currentImageIndex - 1);
     }
   };
 
   const handleJumpToEnd = () => {
-    if (allPhotoPosts.length > 0) {
-      setSelectedImage(allPhotoPosts[allPhotoPosts.length - 1]);
-    }
+    openPhoto(allPhotos.length - 1);
   };
 
   const handleJumpToStart = () => {
-    if (allPhotoPosts.length > 0) {
-      setSelectedImage(allPhotoPosts[0]);
-    }
+    openPhoto(0);
   };
 
+  const selectedPhotos = (posts: BlogPost[]) =>
+    posts.flatMap(post => post.images!.map((url, photoIndex) => ({ post, photoIndex, url })));
+
+  const toNewStoredImage = (post: BlogPost, photoIndex: number): NewStoredImage => ({
+    postId: post.id,
+    photoIndex,
+    blogName: username || 'unknown',
+    url: post.images![photoIndex],
+    width: post.imageWidth || null,
+    height: post.imageHeight || null,
+    tags: post.tags,
+    timestamp: post.timestamp,
+    description: post.content,
+    notes: post.notes,
+  });
+
+  const storeResultMessage = (result: StoreImagesResult, total: number) => [
+    `✅ Stored: ${result.stored}`,
+    result.skipped > 0 ? `⏭️  Skipped (already stored): ${result.skipped}` : '',
+    result.failed > 0 ? `❌ Failed: ${result.failed}` : '',
+    `📊 Total selected: ${total}`
+  ].filter(Boolean).join('\n');
+
   const toggleSelectImage = (postId: string) => {
     setSelectedImages(prev => {
       const newSet = new Set(prev);
@@ -226,7 +264,7 @@ export function Blog() {
       setLastSelectedIndex(index);
     } else {
       // Normal click - open image
-      setSelectedImage(post);
+      openPost(post);
     }
   };
 
@@ -260,8 +298,8 @@ export function Blog() {
       // Get the selected posts
       const selectedPosts = allPhotoPosts.filter(post => gridSelection.has(post.id));
       
-      // Prepare image data with full metadata and filename options
-      const imagesToShare = selectedPosts.map((post, index) => {
+      // Prepare image data with full metadata and filename options, every photo of a photoset included
+      const imagesToShare = selectedPhotos(selectedPosts).map(({ post, url }, index) => {
         const metadata: ImageMetadata = {
           blogName: username,
           blogUrl: `https://tumblr.com/${username}`,
@@ -273,8 +311,8 @@ export function Blog() {
         };
 
         return {
-          url: post.images![0],
-          filename: getImageFilename(post.images![0], index, username),
+          url,
+          filename: getImageFilename(url, index, username),
           metadata,
           options: {
             pattern: filenamePattern,
@@ -324,8 +362,8 @@ export function Blog() {
       // Get the selected posts - use allPhotoPosts to include ALL selected images
       const selectedPosts = allPhotoPosts.filter(post => gridSelection.has(post.id));
       
-      // Prepare image data with full metadata and filename options
-      const imagesToDownload = selectedPosts.map((post, index) => {
+      // Prepare image data with full metadata and filename options, every photo of a photoset included
+      const imagesToDownload = selectedPhotos(selectedPosts).map(({ post, url }, index) => {
         const metadata: ImageMetadata = {
           blogName: username,
           blogUrl: `https://tumblr.com/${username}`,
@@ -337,8 +375,8 @@ export function Blog() {
         };
 
         return {
-          url: post.images![0],
-          filename: getImageFilename(post.images![0], index, username),
+          url,
+          filename: getImageFilename(url, index, username),
           metadata,
           options: {
             pattern: filenamePattern,
@@ -385,13 +423,11 @@ export function Blog() {
   };
 
   const handleStore = async () => {
-    if (gridSelection.size === 0 || !user?.id) {
+    if (gridSelection.size === 0 || !user?.id || !token) {
       console.log('Store blocked - gridSelection:', gridSelection.size, 'user:', user?.id);
       return;
     }
 
-    setIsStoring(true);
-
     try {
       console.log('=== STORE DEBUG START ===');
       console.log('All photo posts count:', allPhotoPosts.length);
@@ -403,18 +439,9 @@ export function Blog() {
       console.log('Selected posts after filter:', selectedPosts.length);
       console.log('Selected post IDs:', selectedPosts.map(p => p.id));
       
-      // Prepare data for storing
-      const imagesToStore = selectedPosts.map(post => ({
-        postId: post.id,
-        blogName: username || 'unknown',
-        url: post.images![0],
-        width: post.imageWidth || null,
-        height: post.imageHeight || null,
-        tags: post.tags,
-        timestamp: post.timestamp,
-        description: post.content,
-        notes: post.notes,
-      }));
+      // Prepare data for storing - whole photosets, one stored image per photo
+      const imagesToStore = selectedPhotos(selectedPosts)
+        .map(({ post, photoIndex }) => toNewStoredImage(post, photoIndex));
 
       console.log('Storing images:', imagesToStore);
       console.log('User ID:', user.id);
@@ -422,45 +449,37 @@ export function Blog() {
       console.log('Images to store count:', imagesToStore.length);
       
       // Call API to store images in database
-      const response = await fetch(`${API_URL}/api/stored-images`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: user.id,
-          images: imagesToStore,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to store images');
-      }
-
-      const result = await response.json();
+      const result = await storeImages(imagesToStore);
       
       console.log('Store result:', result);
       
-      const message = [
-        `✅ Stored: ${result.stored}`,
-        result.skipped > 0 ? `⏭️  Skipped (already stored): ${result.skipped}` : '',
-        result.failed > 0 ? `❌ Failed: ${result.failed}` : '',
-        `📊 Total selected: ${imagesToStore.length}`
-      ].filter(Boolean).join('\n');
-      
       if (result.errors && result.errors.length > 0) {
         console.error('Storage errors:', result.errors);
       }
       
-      alert(message);
+      alert(storeResultMessage(result, imagesToStore.length));
       
       // Clear selection after storing
       setGridSelection(new Set());
     } catch (error) {
       console.error('Store error:', error);
       alert(`❌ Failed to store images: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsStoring(false);
+    }
+  };
+
+  // From the image viewer: the photo on screen, or every photo of its post
+  const handleStoreFromViewer = async (post: BlogPost, photoIndexes: number[]) => {
+    if (!user?.id || !token) return;
+
+    try {
+      const result = await storeImages(photoIndexes.map(photoIndex => toNewStoredImage(post, photoIndex)));
+      if (result.errors && result.errors.length > 0) {
+        console.error('Storage errors:', result.errors);
+      }
+      alert(storeResultMessage(result, photoIndexes.length));
+    } catch (error) {
+      console.error('Store error:', error);
+      alert(`❌ Failed to store images: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -639,7 +658,7 @@ export function Blog() {
         case 'Enter':
           e.preventDefault();
           if (photoPosts[focusedIndex]) {
-            setSelectedImage(photoPosts[focusedIndex]);
+            openPost(photoPosts[focusedIndex]);
           }
           break;
         case ' ':
@@ -1032,6 +1051,11 @@ export function Blog() {
                             START
                           </div>
                         )}
+
+                        {/* Photoset badge - selecting the tile selects every photo */}
+                        {!isRangeStart && post.images!.length > 1 && (
+                          <PhotosetBadge count={post.images!.length} />
+                        )}
                         
                         {/* Info on hover */}
                         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/60 to-transparent p-2 opacity-0 transition-opacity group-hover:opacity-100">
@@ -1087,15 +1111,41 @@ export function Blog() {
                     </div>
                   </div>
 
-                  {post.images && post.images.length > 0 && (
+                  {post.images && post.images.length === 1 && (
                     <img
                       src={post.images[0]}
                       alt="Post content"
                       className="mb-2 w-full cursor-pointer rounded-lg transition-transform active:scale-[0.98] sm:mb-4 sm:hover:scale-[1.02]"
-                      onClick={() => setSelectedImage(post)}
+                      onClick={() => openPost(post)}
                     />
                   )}
 
+                  {/* Photoset - the first photo full width, the rest in a row below */}
+                  {post.images && post.images.length > 1 && (
+                    <div className="mb-2 space-y-1 sm:mb-4">
+                      <img
+                        src={post.images[0]}
+                        alt="Photo 1"
+                        className="w-full cursor-pointer rounded-lg"
+                        onClick={() => openPost(post, 0)}
+                      />
+                      <div
+                        className="grid gap-1"
+                        style={{ gridTemplateColumns: `repeat(${post.images.length - 1}, minmax(0, 1fr))` }}
+                      >
+                        {post.images.slice(1).map((url, index) => (
+                          <img
+                            key={url}
+                            src={url}
+                            alt={`Photo ${index + 2}`}
+                            className="aspect-square w-full cursor-pointer rounded-lg object-cover"
+                            onClick={() => openPost(post, index + 1)}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3 sm:text-base sm:line-clamp-none">{post.content}</p>
 
                   {post.tags.length > 0 && (
@@ -1216,15 +1266,20 @@ export function Blog() {
         {/* Image Viewer */}
         {selectedImage && selectedImage.images && (
           <ImageViewer
-            imageUrl={selectedImage.images[0]}
+            imageUrl={selectedImage.images[selectedPhoto]}
             isOpen={!!selectedImage}
             onClose={() => setSelectedImage(null)}
-            onNext={currentImageIndex < allPhotoPosts.length - 1 ? handleNextImage : undefined}
+            onNext={currentImageIndex < allPhotos.length - 1 ? handleNextImage : undefined}
             onPrevious={currentImageIndex > 0 ? handlePreviousImage : undefined}
             onJumpToEnd={handleJumpToEnd}
             onJumpToStart={handleJumpToStart}
             currentIndex={currentImageIndex}
-            totalImages={allPhotoPosts.length}
+            totalImages={allPhotos.length}
+            photoIndex={selectedPhoto}
+            photoCount={selectedImage.images.length}
+            onStorePhoto={user ? () => handleStoreFromViewer(selectedImage, [selectedPhoto]) : undefined}
+            onStorePhotoset={user ? () => handleStoreFromViewer(selectedImage, selectedImage.images!.map((_, index) => index)) : undefined}
+            isStoring={isStoring}
             blogId={username}
             totalNotes={selectedImage.notes}
             notesList={mockNotesForImage}
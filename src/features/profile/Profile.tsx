@@ -151,7 +151,7 @@ export default function Profile() {
               </label>
               <Input
                 id="avatar"
-                defaultValue={user.avatar}
+                defaultValue={user.avatar ?? undefined}
                 placeholder="Enter avatar URL"
               />
             </div>
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useSessions } from '@/hooks/queries/useSessions';
+import { describeUserAgent } from '@/utils/userAgent';
+
+export function ActiveSessions() {
+  const { sessions, isLoadingSessions, sessionsError, revokeSession, revokeOtherSessions, isRevoking } = useSessions();
+  const [error, setError] = useState<string | null>(null);
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  const handleRevoke = async (sessionId: string) => {
+    setError(null);
+    try {
+      await revokeSession(sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm(`Sign out of ${otherSessions.length} other session(s)?`)) return;
+
+    setError(null);
+    try {
+      await revokeOtherSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke sessions');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Where you're signed in</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || sessionsError) && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error || sessionsError?.message}
+          </div>
+        )}
+
+        {isLoadingSessions ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading sessions...</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-700 dark:bg-green-900/50 dark:text-green-300">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {session.ipAddress || 'Unknown IP'}
+                    {' · '}Signed in {new Date(session.createdAt).toLocaleString()}
+                    {' · '}Last active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={isRevoking}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {otherSessions.length > 0 && (
+          <Button
+            variant="danger"
+            onClick={handleRevokeOthers}
+            isLoading={isRevoking}
+            disabled={isRevoking}
+          >
+            Sign out of all other sessions
+          </Button>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Changing your password signs out every other session automatically.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
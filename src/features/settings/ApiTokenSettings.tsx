@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useAtom } from 'jotai';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useApiTokens } from '@/hooks/queries/useApiTokens';
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '@/services/api/auth.api';
+import { canViewAdmin } from '@/services/api/admin.api';
+import { userAtom } from '@/store/auth';
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  'read:stored-images': 'List stored images and their stats',
+  'write:stored-images': 'Store and delete images',
+  download: 'Use the bulk download endpoint',
+  admin: 'Admin endpoints (limited by your role)',
+};
+
+const expiryOptions: { label: string; days: number | null }[] = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'No expiry', days: null },
+];
+
+// Shown once after creation; the server only keeps a hash
+function NewToken({ token, onDone }: { token: string; onDone: () => void }) {
+  return (
+    <div className="space-y-3 rounded-lg bg-amber-50 p-4 dark:bg-amber-950">
+      <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">
+        Copy your new token
+      </h3>
+      <p className="text-xs text-amber-700 dark:text-amber-300">
+        Send it as <code>Authorization: Bearer &lt;token&gt;</code>. It won't be shown again.
+      </p>
+      <p className="break-all font-mono text-sm text-gray-900 dark:text-white">{token}</p>
+      <div className="flex space-x-2">
+        <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(token)}>
+          Copy
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ApiTokenSettings() {
+  const [user] = useAtom(userAtom);
+  const {
+    apiTokens,
+    isLoadingApiTokens,
+    apiTokensError,
+    createApiToken,
+    revokeApiToken,
+    isCreatingApiToken,
+    isRevokingApiToken,
+  } = useApiTokens();
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read:stored-images']);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The server refuses the admin scope to regular users anyway
+  const availableScopes = API_TOKEN_SCOPES.filter(scope => scope !== 'admin' || canViewAdmin(user?.role));
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const result = await createApiToken({ name, scopes, expiresInDays: expiryOptions[expiryIndex].days });
+      setNewToken(result.token);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create access token');
+    }
+  };
+
+  const handleRevoke = async (apiTokenId: string, tokenName: string) => {
+    if (!confirm(`Revoke the token "${tokenName}"? Scripts using it will stop working.`)) return;
+
+    setError(null);
+    try {
+      await revokeApiToken(apiTokenId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke access token');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal access tokens</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Tokens let scripts use the API as you, limited to the scopes you pick. They can't change your
+          account settings.
+        </p>
+
+        {(error || apiTokensError) && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error || apiTokensError?.message}
+          </div>
+        )}
+
+        {newToken && <NewToken token={newToken} onDone={() => setNewToken(null)} />}
+
+        {isLoadingApiTokens ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading tokens...</p>
+        ) : apiTokens.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {apiTokens.map(apiToken => {
+              const isExpired = !!apiToken.expiresAt && new Date(apiToken.expiresAt) <= new Date();
+              return (
+                <li key={apiToken.id} className="flex items-center justify-between py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {apiToken.name}
+                      <span className="ml-2 font-mono text-xs text-gray-500 dark:text-gray-400">{apiToken.tokenPrefix}…</span>
+                      {isExpired && (
+                        <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700 dark:bg-red-900/50 dark:text-red-300">
+                          Expired
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{apiToken.scopes.join(', ')}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {apiToken.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(apiToken.lastUsedAt), { addSuffix: true })}${apiToken.lastUsedIp ? ` from ${apiToken.lastUsedIp}` : ''}`
+                        : 'Never used'}
+                      {' · '}
+                      {apiToken.expiresAt
+                        ? `${isExpired ? 'Expired' : 'Expires'} ${new Date(apiToken.expiresAt).toLocaleDateString()}`
+                        : 'No expiry'}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRevoke(apiToken.id, apiToken.name)}
+                    disabled={isRevokingApiToken}
+                  >
+                    Revoke
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Token name, e.g. Archive script"
+            maxLength={100}
+            required
+          />
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">Scopes</legend>
+            {availableScopes.map(scope => (
+              <label key={scope} className="flex items-start space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-mono text-gray-900 dark:text-white">{scope}</span>
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">{scopeDescriptions[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex items-center space-x-2">
+            <label htmlFor="tokenExpiry" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Expires after
+            </label>
+            <select
+              id="tokenExpiry"
+              value={expiryIndex}
+              onChange={e => setExpiryIndex(Number(e.target.value))}
+              className="rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-800"
+            >
+              {expiryOptions.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <Button type="submit" isLoading={isCreatingApiToken} disabled={!name.trim() || scopes.length === 0}>
+            Create token
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
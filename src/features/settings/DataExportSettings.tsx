@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useDataExport } from '@/hooks/queries/useDataExport';
+import { isExportInProgress } from '@/services/api/dataExport.api';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function DataExportSettings() {
+  const {
+    latestExport,
+    isLoadingExport,
+    exportError,
+    startExport,
+    downloadExport,
+    isStartingExport,
+    isDownloadingExport,
+  } = useDataExport();
+  const [error, setError] = useState<string | null>(null);
+
+  const inProgress = isExportInProgress(latestExport);
+  const isExpired = !!latestExport?.expiresAt && new Date(latestExport.expiresAt) <= new Date();
+  const isReady = latestExport?.status === 'READY' && !isExpired;
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      await startExport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start data export');
+    }
+  };
+
+  const handleDownload = async (exportId: string) => {
+    setError(null);
+    try {
+      await downloadExport(exportId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download data export');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your data</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Download a ZIP of everything we hold about you: profile, preferences, blogs, posts, drafts,
+          likes, saves, follows, stored images and search history. It includes JSON files and a
+          readable index.html.
+        </p>
+
+        {(error || exportError || latestExport?.status === 'FAILED') && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error || exportError?.message || latestExport?.error}
+          </div>
+        )}
+
+        {inProgress && latestExport && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+              <span>Preparing your export...</span>
+              <span>{latestExport.progress}%</span>
+            </div>
+            <div className="h-2 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+              <div
+                className="h-full rounded-full bg-primary-600 transition-all dark:bg-primary-500"
+                style={{ width: `${latestExport.progress}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {isReady && latestExport && (
+          <div className="flex items-center justify-between rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+            <div>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">
+                Export ready{latestExport.size !== null && ` (${formatSize(latestExport.size)})`}
+              </p>
+              {latestExport.expiresAt && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Available until {new Date(latestExport.expiresAt).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+            <Button size="sm" onClick={() => handleDownload(latestExport.id)} isLoading={isDownloadingExport}>
+              Download ZIP
+            </Button>
+          </div>
+        )}
+
+        <Button
+          variant={isReady ? 'outline' : 'primary'}
+          onClick={handleStart}
+          isLoading={isStartingExport}
+          disabled={isLoadingExport || inProgress}
+        >
+          {isReady ? 'Create a new export' : 'Download my data'}
+        </Button>
+
+        {latestExport?.completedAt && !inProgress && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Last export {formatDistanceToNow(new Date(latestExport.completedAt), { addSuffix: true })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
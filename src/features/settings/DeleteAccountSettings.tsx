@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/hooks/queries/useAuth';
+
+export function DeleteAccountSettings() {
+  const navigate = useNavigate();
+  const { deleteAccount, isDeletingAccount } = useAuth();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Delete your account? You will be signed out everywhere and everything will be permanently deleted in 14 days unless you sign in again and cancel.')) return;
+
+    setError(null);
+    try {
+      await deleteAccount(password);
+      navigate({ to: '/auth', search: { mode: 'login' } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete account');
+    }
+  };
+
+  const handleCancel = () => {
+    setIsConfirming(false);
+    setPassword('');
+    setError(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delete account</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Your account, blogs, posts, stored images and everything else will be permanently deleted after
+          a 14-day grace period. Signing in during that time lets you cancel. Consider downloading your
+          data first.
+        </p>
+
+        {error && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {isConfirming ? (
+          <form onSubmit={handleDelete} className="space-y-3">
+            <div className="space-y-2">
+              <label htmlFor="deleteAccountPassword" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Confirm your password
+              </label>
+              <Input
+                id="deleteAccountPassword"
+                type="password"
+                required
+                autoComplete="current-password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" variant="danger" isLoading={isDeletingAccount} disabled={!password}>
+                Delete my account
+              </Button>
+              <Button type="button" variant="ghost" onClick={handleCancel} disabled={isDeletingAccount}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="danger" onClick={() => setIsConfirming(true)}>
+            Delete my account
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useAuth } from '@/hooks/queries/useAuth';
+
+export function EmailSettings() {
+  const { currentUser, changeEmail, isChangingEmail } = useAuth();
+  const [isEditing, setIsEditing] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const { message } = await changeEmail({ newEmail, password });
+      setSuccess(`${message}. Your address changes once you open it.`);
+      handleCancel();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change email address');
+    }
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setNewEmail('');
+    setPassword('');
+  };
+
+  if (!currentUser) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email address</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm">
+          <p className="text-gray-900 dark:text-gray-100">{currentUser.email}</p>
+          {currentUser.pendingEmail && (
+            <p className="mt-1 text-gray-500 dark:text-gray-400">
+              Waiting for confirmation from {currentUser.pendingEmail}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="rounded-lg bg-green-50 p-3 text-sm text-green-600 dark:bg-green-900/50 dark:text-green-400">
+            {success}
+          </div>
+        )}
+
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-2">
+              <label htmlFor="newEmail" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                New email address
+              </label>
+              <Input
+                id="newEmail"
+                type="email"
+                required
+                autoComplete="email"
+                value={newEmail}
+                onChange={e => setNewEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="changeEmailPassword" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Confirm your password
+              </label>
+              <Input
+                id="changeEmailPassword"
+                type="password"
+                required
+                autoComplete="current-password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              We'll send a confirmation link to the new address and let your current address know, with a
+              link to undo the change.
+            </p>
+            <div className="flex space-x-2">
+              <Button type="submit" isLoading={isChangingEmail} disabled={!newEmail || !password}>
+                Send confirmation link
+              </Button>
+              <Button type="button" variant="ghost" onClick={handleCancel} disabled={isChangingEmail}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" onClick={() => { setIsEditing(true); setError(null); setSuccess(null); }}>
+            Change email
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { useLoginHistory } from '@/hooks/queries/useLoginHistory';
+import type { LoginEvent } from '@/services/api/auth.api';
+import { describeUserAgent } from '@/utils/userAgent';
+
+const methodLabels: Record<LoginEvent['method'], string> = {
+  password: 'Password',
+  two_factor: 'Two-factor code',
+  passkey: 'Passkey',
+};
+
+const failureLabels: Record<string, string> = {
+  invalid_password: 'Wrong password',
+  invalid_code: 'Wrong two-factor code',
+  invalid_passkey: 'Passkey not accepted',
+  locked_out: 'Too many attempts',
+  account_restricted: 'Account restricted',
+  password_reset_required: 'Password reset required',
+};
+
+export function LoginHistory() {
+  const { loginHistory, isLoadingLoginHistory, loginHistoryError } = useLoginHistory();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent sign-in attempts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loginHistoryError && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {loginHistoryError.message}
+          </div>
+        )}
+
+        {isLoadingLoginHistory ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading sign-in attempts...</p>
+        ) : loginHistory.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No sign-in attempts recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {loginHistory.map(event => (
+              <li key={event.id} className="py-3">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {event.success ? (
+                    <span className="mr-2 rounded-full bg-green-100 px-2 py-0.5 text-xs text-green-700 dark:bg-green-900/50 dark:text-green-300">
+                      Signed in
+                    </span>
+                  ) : (
+                    <span className="mr-2 rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700 dark:bg-red-900/50 dark:text-red-300">
+                      {(event.failureReason && failureLabels[event.failureReason]) || 'Failed'}
+                    </span>
+                  )}
+                  {describeUserAgent(event.userAgent)}
+                  {event.newDevice && (
+                    <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-700 dark:bg-amber-900/50 dark:text-amber-300">
+                      New device
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {methodLabels[event.method]}
+                  {' · '}{event.ipAddress || 'Unknown IP'}
+                  {' · '}
+                  <span title={new Date(event.createdAt).toLocaleString()}>
+                    {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                  </span>
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Attempts are kept for 90 days. Sign-ins from a new device are also emailed to you, with a link to
+          lock the account if it wasn't you.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
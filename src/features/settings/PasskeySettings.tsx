@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { usePasskeys } from '@/hooks/queries/usePasskeys';
+
+export function PasskeySettings() {
+  const { passkeys, isLoadingPasskeys, passkeysError, addPasskey, deletePasskey, isAddingPasskey, isDeletingPasskey } = usePasskeys();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const supported = browserSupportsWebAuthn();
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await addPasskey(name);
+      setName('');
+    } catch (err) {
+      // NotAllowedError means the user dismissed the browser prompt
+      if (err instanceof Error && err.name !== 'NotAllowedError') {
+        setError(err.message);
+      }
+    }
+  };
+
+  const handleDelete = async (passkeyId: string, passkeyName: string) => {
+    if (!confirm(`Remove the passkey "${passkeyName}"? You won't be able to sign in with it anymore.`)) return;
+
+    setError(null);
+    try {
+      await deletePasskey(passkeyId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove passkey');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Sign in with your fingerprint, face or device PIN instead of a password. Your password keeps working too.
+        </p>
+
+        {(error || passkeysError) && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error || passkeysError?.message}
+          </div>
+        )}
+
+        {isLoadingPasskeys ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading passkeys...</p>
+        ) : passkeys.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {passkeys.map(passkey => (
+              <li key={passkey.id} className="flex items-center justify-between py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {passkey.name}
+                    <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600 dark:bg-gray-800 dark:text-gray-300">
+                      {passkey.deviceType === 'multiDevice' ? 'Synced' : 'This device only'}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {' · '}
+                    {passkey.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(passkey.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDelete(passkey.id, passkey.name)}
+                  disabled={isDeletingPasskey}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {supported ? (
+          <form onSubmit={handleAdd} className="flex space-x-2">
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Name, e.g. MacBook Touch ID"
+              maxLength={64}
+            />
+            <Button type="submit" isLoading={isAddingPasskey} className="shrink-0">
+              Add a passkey
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            This browser doesn't support passkeys.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
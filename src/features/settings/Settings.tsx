@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useAtom } from 'jotai';
 import { useNavigate } from '@tanstack/react-router';
+import { useQueryClient } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Container, Section } from '@/components/layouts';
@@ -8,7 +9,18 @@ import { SegmentedControl } from '@/components/ui/SegmentedControl';
 import { VersionBadge } from '@/components/ui/VersionBadge';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
+import { PasswordStrengthMeter } from '@/components/ui/PasswordStrengthMeter';
 import { userAtom } from '@/store/auth';
+import { useAuth } from '@/hooks/queries/useAuth';
+import { weakPasswordMessage } from '@shared/passwordStrength';
+import { ActiveSessions } from './ActiveSessions';
+import { LoginHistory } from './LoginHistory';
+import { EmailSettings } from './EmailSettings';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { PasskeySettings } from './PasskeySettings';
+import { ApiTokenSettings } from './ApiTokenSettings';
+import { DataExportSettings } from './DataExportSettings';
+import { DeleteAccountSettings } from './DeleteAccountSettings';
 import {
   themeModeAtom,
   fontSizeAtom,
@@ -37,7 +49,9 @@ const fontSizeOptions = [
 
 export default function Settings() {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [user] = useAtom(userAtom);
+  const { changePassword, resendVerificationEmail } = useAuth();
   const [themeMode] = useAtom(themeModeAtom);
   const [fontSize] = useAtom(fontSizeAtom);
   const [reducedMotion] = useAtom(reducedMotionAtom);
@@ -81,25 +95,23 @@ export default function Settings() {
       return;
     }
 
+    const weakness = weakPasswordMessage(passwordForm.newPassword, [user?.username, user?.email, user?.displayName], 'New password');
+    if (weakness) {
+      setPasswordError(weakness);
+      return;
+    }
+
     setPasswordLoading(true);
 
     try {
-      const response = await fetch('/api/auth/change-password', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          currentPassword: passwordForm.currentPassword,
-          newPassword: passwordForm.newPassword,
-        }),
+      await changePassword({
+        currentPassword: passwordForm.currentPassword,
+        newPassword: passwordForm.newPassword,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to change password');
-      }
-
       setPasswordSuccess(true);
+      // The server signs out every other session on password change
+      queryClient.invalidateQueries({ queryKey: ['sessions'] });
       setPasswordForm({
         currentPassword: '',
         newPassword: '',
@@ -114,16 +126,7 @@ export default function Settings() {
 
   const handleResendVerification = async () => {
     try {
-      const response = await fetch('/api/auth/resend-verification', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to resend verification email');
-      }
+      await resendVerificationEmail();
 
       setEmailVerificationSent(true);
       setTimeout(() => setEmailVerificationSent(false), 5000);
@@ -377,6 +380,10 @@ export default function Settings() {
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         Must be at least 8 characters with letters and numbers
                       </p>
+                      <PasswordStrengthMeter
+                        password={passwordForm.newPassword}
+                        userInputs={[user?.username, user?.email, user?.displayName]}
+                      />
                     </div>
 
                     <div className="space-y-2">
@@ -430,6 +437,62 @@ export default function Settings() {
             </Card>
           </Section>
 
+          {/* Email Address */}
+          {user && (
+            <Section>
+              <EmailSettings />
+            </Section>
+          )}
+
+          {/* Two-Factor Authentication */}
+          {user && (
+            <Section>
+              <TwoFactorSettings />
+            </Section>
+          )}
+
+          {/* Passkeys */}
+          {user && (
+            <Section>
+              <PasskeySettings />
+            </Section>
+          )}
+
+          {/* Active Sessions */}
+          {user && (
+            <Section>
+              <ActiveSessions />
+            </Section>
+          )}
+
+          {/* Login History */}
+          {user && (
+            <Section>
+              <LoginHistory />
+            </Section>
+          )}
+
+          {/* Personal Access Tokens */}
+          {user && (
+            <Section>
+              <ApiTokenSettings />
+            </Section>
+          )}
+
+          {/* Data Export */}
+          {user && (
+            <Section>
+              <DataExportSettings />
+            </Section>
+          )}
+
+          {/* Delete Account */}
+          {user && (
+            <Section>
+              <DeleteAccountSettings />
+            </Section>
+          )}
+
           {/* Downloads */}
           <Section>
             <Card>
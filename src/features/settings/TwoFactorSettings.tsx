@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useTwoFactor } from '@/hooks/queries/useTwoFactor';
+import type { TwoFactorSetup } from '@/services/api/auth.api';
+
+// Shown once after enabling or regenerating; the server only keeps hashes
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const handleDownload = () => {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg bg-amber-50 p-4 dark:bg-amber-950">
+      <h3 className="text-sm font-medium text-amber-800 dark:text-amber-200">
+        Save your recovery codes
+      </h3>
+      <p className="text-xs text-amber-700 dark:text-amber-300">
+        Each code signs you in once if you lose your authenticator. They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+        {codes.map(code => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex space-x-2">
+        <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(codes.join('\n'))}>
+          Copy
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleDownload}>
+          Download
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const {
+    status,
+    isLoadingStatus,
+    setup,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+    isSettingUp,
+    isEnabling,
+    isDisabling,
+    isRegenerating,
+  } = useTwoFactor();
+
+  const [pendingSetup, setPendingSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (fn: () => Promise<void>) => {
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    setPendingSetup(await setup());
+    setCode('');
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await enable(code);
+      setPendingSetup(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+    });
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await disable({ password, code });
+      setAction(null);
+      setPassword('');
+      setCode('');
+    });
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const result = await regenerateRecoveryCodes(password);
+      setAction(null);
+      setPassword('');
+      setRecoveryCodes(result.recoveryCodes);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/50 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        )}
+
+        {isLoadingStatus ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              <span className="font-medium text-green-600 dark:text-green-400">✓ Enabled.</span>{' '}
+              You'll be asked for a code from your authenticator app when signing in.{' '}
+              {status.recoveryCodesRemaining} recovery code(s) left.
+            </p>
+
+            {action === null && (
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" onClick={() => setAction('regenerate')}>
+                  New recovery codes
+                </Button>
+                <Button size="sm" variant="danger" onClick={() => setAction('disable')}>
+                  Disable
+                </Button>
+              </div>
+            )}
+
+            {action !== null && (
+              <form onSubmit={action === 'disable' ? handleDisable : handleRegenerate} className="space-y-3">
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  placeholder="Current password"
+                  required
+                />
+                {action === 'disable' && (
+                  <Input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={e => setCode(e.target.value)}
+                    placeholder="6-digit code"
+                    required
+                  />
+                )}
+                <div className="flex space-x-2">
+                  <Button
+                    type="submit"
+                    size="sm"
+                    variant={action === 'disable' ? 'danger' : 'primary'}
+                    isLoading={isDisabling || isRegenerating}
+                  >
+                    {action === 'disable' ? 'Disable two-factor' : 'Generate new codes'}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setAction(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        ) : pendingSetup ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={pendingSetup.qrCode}
+              alt="Two-factor QR code"
+              className="h-48 w-48 rounded-lg bg-white p-2"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Can't scan it? Enter this key manually:{' '}
+              <code className="break-all font-mono text-gray-900 dark:text-white">{pendingSetup.secret}</code>
+              {' '}or <a href={pendingSetup.otpauthUrl} className="text-primary-600 hover:underline dark:text-primary-500">open it in your app</a>.
+            </p>
+            <Input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              placeholder="6-digit code"
+              required
+            />
+            <div className="flex space-x-2">
+              <Button type="submit" isLoading={isEnabling}>
+                Turn on
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setPendingSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <Button onClick={handleStartSetup} isLoading={isSettingUp}>
+              Enable two-factor authentication
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
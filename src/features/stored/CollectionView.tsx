@@ -0,0 +1,434 @@
+import { useState, type FormEvent } from 'react';
+import { useAtom } from 'jotai';
+import { useNavigate, useParams } from '@tanstack/react-router';
+import { AnimatePresence } from 'framer-motion';
+import { completeRules, describeRules, type SmartRules } from '@shared/smartRules';
+import { Container } from '@/components/layouts';
+import { Button, ImageViewer, Input, VersionBadge } from '@/components/ui';
+import { userAtom } from '@/store/auth';
+import { useCollection } from '@/hooks/queries/useCollections';
+import { useStoredImageFile } from '@/hooks/queries/useStoredImages';
+import { StoredImageFile } from './StoredImageFile';
+import { SmartRulesBuilder } from './SmartRulesBuilder';
+
+// Smart collections can match a whole library, so they're read a page at a time
+const PAGE_SIZE = 100;
+// An album is reordered as a whole, so it's read in one go: up to the most a
+// collection can hold (MAX_COLLECTION_IMAGES on the server)
+const ALBUM_LIMIT = 5000;
+
+// Move one id to where another is, shifting the ones in between
+const moveTo = (ids: string[], id: string, targetId: string) => {
+  const from = ids.indexOf(id);
+  const to = ids.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) return ids;
+  const moved = [...ids];
+  moved.splice(from, 1);
+  moved.splice(to, 0, id);
+  return moved;
+};
+
+export function CollectionView() {
+  const [user] = useAtom(userAtom);
+  const navigate = useNavigate();
+  const { id } = useParams({ from: '/stored/collections/$id' });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZE);
+  const {
+    collection,
+    isLoadingCollection,
+    collectionError,
+    updateCollection,
+    removeImages,
+    reorder,
+    deleteCollection,
+    isUpdating,
+    isDeleting,
+  } = useCollection(id, { limit: pageSize, offset: page * pageSize });
+
+  // Only known once it has loaded: an album bigger than a page is read again, whole
+  if (collection && !collection.rules && collection.imageCount > pageSize && pageSize !== ALBUM_LIMIT) {
+    setPageSize(ALBUM_LIMIT);
+    setPage(0);
+  }
+  const isSmart = !!collection?.rules;
+  const pageCount = collection ? Math.max(1, Math.ceil(collection.imageCount / pageSize)) : 1;
+  // Dragging needs every image on screen
+  const canReorder = !!collection && !isSmart && collection.images.length === collection.imageCount;
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectedImage, setSelectedImage] = useState<number | null>(null);
+  // Set while editing a smart collection's rules
+  const [editedRules, setEditedRules] = useState<SmartRules | null>(null);
+
+  // While dragging, the order on screen; saved when the image is dropped
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const images = collection?.images ?? [];
+  const savedOrder = images.map(image => image.id);
+  const byId = new Map(images.map(image => [image.id, image]));
+  const orderedImages = (dragOrder ?? savedOrder).flatMap(imageId => byId.get(imageId) ?? []);
+
+  const viewerImage = selectedImage !== null ? orderedImages[selectedImage] : undefined;
+  const viewerImageUrl = useStoredImageFile(viewerImage);
+
+  const saveOrder = async (imageIds: string[]) => {
+    if (imageIds.every((imageId, index) => imageId === savedOrder[index])) return;
+    try {
+      await reorder(imageIds);
+    } catch (error) {
+      console.error('Error reordering collection:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to reorder collection'}`);
+    }
+  };
+
+  const handleDragStart = (imageId: string) => {
+    setDraggedId(imageId);
+    setDragOrder(savedOrder);
+  };
+
+  const handleDragOver = (imageId: string) => {
+    if (!draggedId || !dragOrder) return;
+    setDragOrder(moveTo(dragOrder, draggedId, imageId));
+  };
+
+  // Fires after drop, and also when a drag is cancelled (dropEffect is then "none")
+  const handleDragEnd = (dropped: boolean) => {
+    const order = dragOrder;
+    setDraggedId(null);
+    setDragOrder(null);
+    if (dropped && order) void saveOrder(order);
+  };
+
+  // For touch screens, where HTML drag-and-drop doesn't work
+  const handleNudge = (imageId: string, offset: number) => {
+    const index = savedOrder.indexOf(imageId);
+    const target = savedOrder[index + offset];
+    if (target) void saveOrder(moveTo(savedOrder, imageId, target));
+  };
+
+  const startEditing = () => {
+    if (!collection) return;
+    setName(collection.name);
+    setDescription(collection.description ?? '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await updateCollection({ name: name.trim(), description: description.trim() || null });
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error updating collection:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to update collection'}`);
+    }
+  };
+
+  const handleSaveRules = async () => {
+    const rules = editedRules && completeRules(editedRules);
+    if (!rules) return;
+
+    try {
+      await updateCollection({ rules });
+      setEditedRules(null);
+      setPage(0);
+    } catch (error) {
+      console.error('Error updating rules:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to update rules'}`);
+    }
+  };
+
+  const handleSetCover = async (imageId: string | null) => {
+    try {
+      await updateCollection({ coverImageId: imageId });
+    } catch (error) {
+      console.error('Error setting cover:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to set cover'}`);
+    }
+  };
+
+  const handleRemove = async (imageId: string) => {
+    if (!confirm('Remove this image from the collection? It stays in your stored images.')) return;
+
+    try {
+      await removeImages([imageId]);
+      setSelectedImage(null);
+    } catch (error) {
+      console.error('Error removing image from collection:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to remove image'}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    if (!confirm(`Delete the collection "${collection.name}"? Its images stay in your stored images.`)) return;
+
+    try {
+      await deleteCollection();
+      navigate({ to: '/stored/collections' });
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to delete collection'}`);
+    }
+  };
+
+  if (!user) {
+    return (
+      <Container>
+        <div className="text-center py-12">
+          <p className="text-gray-600 dark:text-gray-400">Please login to view your collections</p>
+        </div>
+      </Container>
+    );
+  }
+
+  if (isLoadingCollection) {
+    return (
+      <Container>
+        <div className="text-center py-12">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto" />
+          <p className="mt-4 text-gray-600 dark:text-gray-400">Loading collection...</p>
+        </div>
+      </Container>
+    );
+  }
+
+  if (collectionError || !collection) {
+    return (
+      <Container>
+        <div className="text-center py-12 space-y-4">
+          <p className="text-gray-600 dark:text-gray-400">Collection not found</p>
+          <Button onClick={() => navigate({ to: '/stored/collections' })} variant="outline">
+            All collections
+          </Button>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <div className="space-y-6 pb-20">
+        {/* Header */}
+        {isEditing ? (
+          <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow space-y-3">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              maxLength={100}
+              aria-label="Collection name"
+              autoFocus
+            />
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              maxLength={1000}
+              aria-label="Collection description"
+            />
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" disabled={!name.trim()} isLoading={isUpdating}>
+                Save
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <button
+                onClick={() => navigate({ to: '/stored/collections' })}
+                className="text-sm text-primary-600 hover:underline dark:text-primary-400"
+              >
+                ← Collections
+              </button>
+              <h1 className="text-2xl font-bold">
+                {isSmart && <span title="Smart collection">⚡ </span>}
+                {collection.name}
+              </h1>
+              {collection.description && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{collection.description}</p>
+              )}
+              {collection.rules && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Matches: {describeRules(collection.rules)}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                {collection.imageCount} image{collection.imageCount === 1 ? '' : 's'}
+                {isSmart ? ' · updates as you store images, newest first' : canReorder && images.length > 1 && ' · drag to reorder'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={startEditing} variant="outline" size="sm">
+                Edit
+              </Button>
+              {collection.rules && !editedRules && (
+                <Button onClick={() => setEditedRules(collection.rules)} variant="outline" size="sm">
+                  Edit rules
+                </Button>
+              )}
+              {collection.coverImageId && (
+                <Button onClick={() => handleSetCover(null)} variant="outline" size="sm" disabled={isUpdating}>
+                  Reset cover
+                </Button>
+              )}
+              <Button onClick={handleDelete} variant="danger" size="sm" isLoading={isDeleting}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Rules */}
+        {editedRules && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow space-y-3">
+            <SmartRulesBuilder rules={editedRules} onChange={setEditedRules} />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSaveRules} disabled={!completeRules(editedRules)} isLoading={isUpdating}>
+                Save rules
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setEditedRules(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Images */}
+        {images.length === 0 ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg">
+            <p className="text-gray-600 dark:text-gray-400 mb-4">This collection is empty</p>
+            <p className="text-sm text-gray-500">
+              {isSmart
+                ? 'None of your stored images match its rules yet'
+                : 'Select images in Stored Images and use "Add to collection"'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+            {orderedImages.map((image, index) => {
+              const isCover = image.id === collection.cover?.id;
+              return (
+                <div
+                  key={image.id}
+                  draggable={canReorder}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    handleDragStart(image.id);
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggedId) return;
+                    e.preventDefault();
+                    handleDragOver(image.id);
+                  }}
+                  onDrop={(e) => e.preventDefault()}
+                  onDragEnd={(e) => handleDragEnd(e.dataTransfer.dropEffect !== 'none')}
+                  className={`group relative aspect-square overflow-hidden rounded-lg bg-gray-100 shadow dark:bg-gray-700 ${
+                    canReorder ? 'cursor-grab active:cursor-grabbing' : ''
+                  } ${
+                    draggedId === image.id ? 'opacity-40 ring-2 ring-primary-500' : ''
+                  }`}
+                >
+                  <button onClick={() => setSelectedImage(index)} className="h-full w-full">
+                    <StoredImageFile image={image} className="pointer-events-none h-full w-full object-cover" />
+                  </button>
+
+                  {isCover && (
+                    <span className="absolute left-2 top-2 rounded bg-black/70 px-1.5 py-0.5 text-xs font-medium text-white">
+                      Cover
+                    </span>
+                  )}
+
+                  {/* Tile actions */}
+                  <div className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-1 bg-gradient-to-t from-black/70 to-transparent p-2 opacity-100 transition-opacity sm:opacity-0 sm:group-hover:opacity-100">
+                    <div className={`flex gap-1 ${canReorder ? '' : 'invisible'}`}>
+                      <button
+                        onClick={() => handleNudge(image.id, -1)}
+                        disabled={index === 0}
+                        className="rounded bg-white/90 px-1.5 text-xs text-gray-800 disabled:opacity-40"
+                        title="Move earlier"
+                      >
+                        ←
+                      </button>
+                      <button
+                        onClick={() => handleNudge(image.id, 1)}
+                        disabled={index === orderedImages.length - 1}
+                        className="rounded bg-white/90 px-1.5 text-xs text-gray-800 disabled:opacity-40"
+                        title="Move later"
+                      >
+                        →
+                      </button>
+                    </div>
+                    <div className="flex gap-1">
+                      {!isCover && (
+                        <button
+                          onClick={() => handleSetCover(image.id)}
+                          disabled={isUpdating}
+                          className="rounded bg-white/90 px-1.5 text-xs text-gray-800"
+                          title="Use as the collection's cover"
+                        >
+                          Cover
+                        </button>
+                      )}
+                      {!isSmart && (
+                        <button
+                          onClick={() => handleRemove(image.id)}
+                          className="rounded bg-red-600 px-1.5 text-xs text-white"
+                          title="Remove from collection"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Pages (smart collections) */}
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-3">
+            <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Page {page + 1} of {pageCount}
+            </span>
+            <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+              Next
+            </Button>
+          </div>
+        )}
+
+        {/* Image Viewer */}
+        <AnimatePresence>
+          {selectedImage !== null && viewerImage && (
+            <ImageViewer
+              imageUrl={viewerImageUrl ?? ''}
+              isOpen
+              onClose={() => setSelectedImage(null)}
+              onNext={selectedImage < orderedImages.length - 1 ? () => setSelectedImage(selectedImage + 1) : undefined}
+              onPrevious={selectedImage > 0 ? () => setSelectedImage(selectedImage - 1) : undefined}
+              currentIndex={selectedImage}
+              totalImages={orderedImages.length}
+              onJumpToEnd={() => setSelectedImage(orderedImages.length - 1)}
+              onJumpToStart={() => setSelectedImage(0)}
+            />
+          )}
+        </AnimatePresence>
+
+        <VersionBadge />
+      </div>
+    </Container>
+  );
+}
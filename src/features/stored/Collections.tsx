@@ -0,0 +1,154 @@
+import { useState, type FormEvent } from 'react';
+import { useAtom } from 'jotai';
+import { useNavigate } from '@tanstack/react-router';
+import { completeRules, describeRules, EMPTY_SMART_RULES, type SmartRules } from '@shared/smartRules';
+import { Container } from '@/components/layouts';
+import { Button, Input, VersionBadge } from '@/components/ui';
+import { userAtom } from '@/store/auth';
+import { useCollections } from '@/hooks/queries/useCollections';
+import { StoredImageFile } from './StoredImageFile';
+import { SmartRulesBuilder } from './SmartRulesBuilder';
+
+export function Collections() {
+  const [user] = useAtom(userAtom);
+  const navigate = useNavigate();
+  const { collections, isLoadingCollections, collectionsError, createCollection, isCreatingCollection } = useCollections();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  // Set while making a smart collection
+  const [rules, setRules] = useState<SmartRules | null>(null);
+
+  const canCreate = !!name.trim() && (!rules || !!completeRules(rules));
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!canCreate) return;
+
+    try {
+      const collection = await createCollection({ name: name.trim(), description: description.trim() || null, rules });
+      setName('');
+      setDescription('');
+      setRules(null);
+      navigate({ to: '/stored/collections/$id', params: { id: collection.id } });
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to create collection'}`);
+    }
+  };
+
+  if (!user) {
+    return (
+      <Container>
+        <div className="text-center py-12">
+          <p className="text-gray-600 dark:text-gray-400">Please login to view your collections</p>
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <div className="space-y-6 pb-20">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Collections</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Albums of your stored images (add images from Stored Images with "Add to collection"),
+              and smart collections that fill themselves from rules.
+            </p>
+          </div>
+          <Button onClick={() => navigate({ to: '/stored' })} variant="outline">
+            Stored Images
+          </Button>
+        </div>
+
+        {/* New collection */}
+        <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow space-y-3">
+          <h2 className="text-sm font-semibold">New collection</h2>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              maxLength={100}
+              aria-label="Collection name"
+            />
+            <Input
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              maxLength={1000}
+              aria-label="Collection description"
+            />
+            <Button type="submit" disabled={!canCreate} isLoading={isCreatingCollection}>
+              Create
+            </Button>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={rules !== null}
+              onChange={(e) => setRules(e.target.checked ? EMPTY_SMART_RULES : null)}
+            />
+            Smart collection: fill it automatically with the stored images that match rules
+          </label>
+          {rules && <SmartRulesBuilder rules={rules} onChange={setRules} />}
+        </form>
+
+        {/* Collections */}
+        {isLoadingCollections ? (
+          <div className="text-center py-12">
+            <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto" />
+            <p className="mt-4 text-gray-600 dark:text-gray-400">Loading collections...</p>
+          </div>
+        ) : collectionsError ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg">
+            <p className="text-red-600 dark:text-red-400">Failed to load collections</p>
+          </div>
+        ) : collections.length === 0 ? (
+          <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg">
+            <p className="text-gray-600 dark:text-gray-400">No collections yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+            {collections.map(collection => (
+              <button
+                key={collection.id}
+                onClick={() => navigate({ to: '/stored/collections/$id', params: { id: collection.id } })}
+                className="group overflow-hidden rounded-lg bg-white text-left shadow transition-shadow hover:shadow-lg dark:bg-gray-800"
+              >
+                <div className="aspect-square bg-gray-100 dark:bg-gray-700">
+                  {collection.cover ? (
+                    <StoredImageFile
+                      image={collection.cover}
+                      className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-sm text-gray-400">Empty</div>
+                  )}
+                </div>
+                <div className="p-3">
+                  <p className="truncate font-semibold">
+                    {collection.rules && <span title="Smart collection">⚡ </span>}
+                    {collection.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {collection.imageCount} image{collection.imageCount === 1 ? '' : 's'}
+                  </p>
+                  {(collection.description || collection.rules) && (
+                    <p className="mt-1 line-clamp-2 text-xs text-gray-600 dark:text-gray-400">
+                      {collection.description || describeRules(collection.rules!)}
+                    </p>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <VersionBadge />
+      </div>
+    </Container>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import {
+  completeRules,
+  defaultRule,
+  MAX_SMART_RULE_CONDITIONS,
+  RULE_OPERATORS,
+  ruleFieldKind,
+  SMART_RULE_FIELD_LABELS,
+  SMART_RULE_OPERATOR_LABELS,
+  type SmartRule,
+  type SmartRuleField,
+  type SmartRuleOperator,
+  type SmartRules,
+} from '@shared/smartRules';
+import { Button } from '@/components/ui';
+import { useSmartCollectionPreview } from '@/hooks/queries/useCollections';
+import { StoredImageFile } from './StoredImageFile';
+
+const FIELDS = Object.keys(SMART_RULE_FIELD_LABELS) as SmartRuleField[];
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+// "a, b, c" for an "is one of" rule; keeps what's typed (trailing commas and all)
+// until the list it stands for changes from outside
+function ListInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join(', '));
+  const [shown, setShown] = useState(value);
+
+  if (value !== shown) {
+    setShown(value);
+    if (splitList(text).join(',') !== value.join(',')) setText(value.join(', '));
+  }
+
+  return (
+    <input
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(splitList(e.target.value));
+      }}
+      placeholder="Comma-separated, e.g. blog1, blog2"
+      className={inputClass}
+    />
+  );
+}
+
+const inputClass = 'min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm dark:border-gray-700 dark:bg-gray-900';
+const selectClass = 'rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm dark:border-gray-700 dark:bg-gray-900';
+
+function RuleValue({ rule, onChange }: { rule: SmartRule; onChange: (rule: SmartRule) => void }) {
+  // Each branch narrows rule, so the value keeps the type its operator needs
+  switch (rule.op) {
+    case 'in':
+    case 'notIn':
+      return <ListInput value={rule.value} onChange={value => onChange({ ...rule, value })} />;
+    case 'contains':
+    case 'includes':
+    case 'excludes':
+      return (
+        <input
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          placeholder={rule.field === 'tags' ? 'A tag, e.g. film photography' : 'Text'}
+          className={inputClass}
+        />
+      );
+    case 'after':
+    case 'before':
+      return (
+        <input
+          type="date"
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          className={inputClass}
+        />
+      );
+    default:
+      return (
+        <input
+          type="number"
+          min={rule.op === 'lastDays' ? 1 : 0}
+          value={Number.isFinite(rule.value) ? rule.value : ''}
+          onChange={(e) => onChange({ ...rule, value: e.target.valueAsNumber })}
+          className={inputClass}
+        />
+      );
+  }
+}
+
+interface SmartRulesBuilderProps {
+  rules: SmartRules;
+  onChange: (rules: SmartRules) => void;
+}
+
+/**
+ * Edit a smart collection's rules, with a live count of what they match
+ */
+export function SmartRulesBuilder({ rules, onChange }: SmartRulesBuilderProps) {
+  const { preview, isLoadingPreview, previewError } = useSmartCollectionPreview(completeRules(rules));
+
+  const setCondition = (index: number, rule: SmartRule) =>
+    onChange({ ...rules, conditions: rules.conditions.map((condition, i) => (i === index ? rule : condition)) });
+
+  const removeCondition = (index: number) =>
+    onChange({ ...rules, conditions: rules.conditions.filter((_, i) => i !== index) });
+
+  const addCondition = () =>
+    onChange({ ...rules, conditions: [...rules.conditions, defaultRule('blogName')] });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span>Images matching</span>
+        <select
+          value={rules.match}
+          onChange={(e) => onChange({ ...rules, match: e.target.value as SmartRules['match'] })}
+          className={selectClass}
+          aria-label="Match all or any rules"
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these rules:</span>
+      </div>
+
+      {rules.conditions.length === 0 && (
+        <p className="text-sm text-gray-500">No rules yet, so every stored image matches.</p>
+      )}
+
+      {rules.conditions.map((rule, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <select
+            value={rule.field}
+            onChange={(e) => setCondition(index, defaultRule(e.target.value as SmartRuleField, rule.op))}
+            className={selectClass}
+            aria-label="Field"
+          >
+            {FIELDS.map(field => (
+              <option key={field} value={field}>{SMART_RULE_FIELD_LABELS[field]}</option>
+            ))}
+          </select>
+          <select
+            value={rule.op}
+            onChange={(e) => setCondition(index, defaultRule(rule.field, e.target.value as SmartRuleOperator))}
+            className={selectClass}
+            aria-label="Comparison"
+          >
+            {RULE_OPERATORS[ruleFieldKind(rule.field)].map(op => (
+              <option key={op} value={op}>{SMART_RULE_OPERATOR_LABELS[op]}</option>
+            ))}
+          </select>
+          <RuleValue rule={rule} onChange={updated => setCondition(index, updated)} />
+          <button
+            type="button"
+            onClick={() => removeCondition(index)}
+            className="rounded-md px-2 py-1 text-sm text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+            aria-label="Remove rule"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={addCondition}
+        disabled={rules.conditions.length >= MAX_SMART_RULE_CONDITIONS}
+      >
+        Add rule
+      </Button>
+
+      {/* Live preview */}
+      <div className="rounded-md bg-gray-50 p-3 dark:bg-gray-900/50">
+        {!completeRules(rules) ? (
+          <p className="text-sm text-gray-500">Fill in every rule to see what matches.</p>
+        ) : previewError ? (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {previewError instanceof Error ? previewError.message : 'Failed to preview'}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {preview ? `${preview.total} image${preview.total === 1 ? '' : 's'} match` : 'Checking...'}
+              {isLoadingPreview && preview && ' (updating...)'}
+            </p>
+            {preview && preview.images.length > 0 && (
+              <div className="mt-2 grid grid-cols-6 gap-1">
+                {preview.images.map(image => (
+                  <StoredImageFile key={image.id} image={image} className="aspect-square w-full rounded object-cover" />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
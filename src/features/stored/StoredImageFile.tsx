@@ -0,0 +1,8 @@
+import { useStoredImageFile } from '@/hooks/queries/useStoredImages';
+import type { StoredImage } from '@/services/api/storedImages.api';
+
+// Rendered from the archived copy on our server, so it outlives the original host
+export function StoredImageFile({ image, className }: { image: Pick<StoredImage, 'id' | 'sha256' | 'url' | 'description'>; className?: string }) {
+  const src = useStoredImageFile(image);
+  return <img src={src} alt={image.description || 'Stored image'} className={className} />;
+}
@@ -1,48 +1,64 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { useAtom } from 'jotai';
+import { useNavigate } from '@tanstack/react-router';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Container } from '@/components/layouts';
-import { Button, ImageViewer, VersionBadge, SelectionToolbar, ImageFilters, type ImageFiltersState } from '@/components/ui';
+import { Button, ImageViewer, VersionBadge, SelectionToolbar, ImageFilters, PhotosetBadge, type ImageFiltersState } from '@/components/ui';
 import { userAtom } from '@/store/auth';
+import { useStoredImages, useStoredImageFile } from '@/hooks/queries/useStoredImages';
+import { useCollections } from '@/hooks/queries/useCollections';
+import type { StoredImage } from '@/services/api/storedImages.api';
+import { StoredImageFile } from './StoredImageFile';
 import { shareImages, downloadImages, downloadImagesServerSide, canShareFiles, getImageFilename, type ImageMetadata } from '@/utils/imageDownload';
 import { filenamePatternAtom, includeIndexInFilenameAtom, includeSidecarMetadataAtom, downloadMethodAtom, gridColumnsAtom, gridImageSizeAtom, updatePreferencesAtom } from '@/store/preferences';
 
-// Dynamic API URL based on current host
-const getApiUrl = () => {
-  if (import.meta.env.VITE_API_URL) return import.meta.env.VITE_API_URL;
-  if (typeof window !== 'undefined') {
-    return `${window.location.protocol}//${window.location.hostname}:3001`;
-  }
-  return 'http://localhost:3001';
-};
-const API_URL = getApiUrl();
-
-interface StoredImage {
-  id: string;
+// The stored photos of one post; a grid tile, so a photoset stays together
+interface Photoset {
   postId: string;
-  blogName: string;
-  url: string;
-  width: number | null;
-  height: number | null;
-  tags: string;
-  description: string | null;
-  notes: number;
-  timestamp: string;
-  storedAt: string;
+  images: StoredImage[];
 }
 
-interface StoredImagesStats {
-  total: number;
-  byBlog: Array<{ blogName: string; count: number }>;
+// Group in order of each post's first image, photos in post order
+function groupPhotosets(images: StoredImage[]): Photoset[] {
+  const photosets = new Map<string, Photoset>();
+  for (const image of images) {
+    const photoset = photosets.get(image.postId);
+    if (photoset) {
+      photoset.images.push(image);
+    } else {
+      photosets.set(image.postId, { postId: image.postId, images: [image] });
+    }
+  }
+  for (const photoset of photosets.values()) {
+    photoset.images.sort((a, b) => a.photoIndex - b.photoIndex);
+  }
+  return [...photosets.values()];
 }
 
+// Tiles select or deselect all of their photos at once
+const selectPhotoset = (selection: Set<string>, photoset: Photoset) => {
+  photoset.images.forEach(image => selection.add(image.id));
+};
+
+const togglePhotoset = (selection: Set<string>, photoset: Photoset) => {
+  const allSelected = photoset.images.every(image => selection.has(image.id));
+  photoset.images.forEach(image => (allSelected ? selection.delete(image.id) : selection.add(image.id)));
+};
+
 export function StoredImages() {
   const [user] = useAtom(userAtom);
-  const [images, setImages] = useState<StoredImage[]>([]);
-  const [stats, setStats] = useState<StoredImagesStats | null>(null);
-  const [loading, setLoading] = useState(true);
   const [selectedImage, setSelectedImage] = useState<number | null>(null);
   const [filterBlog, setFilterBlog] = useState<string | null>(null);
+  const {
+    images,
+    isLoadingImages: loading,
+    imagesError,
+    stats,
+    refreshStoredImages,
+    deleteImages,
+  } = useStoredImages({ limit: 500, offset: 0, blogName: filterBlog ?? undefined });
+  const { collections, createCollection, addToCollection, isCreatingCollection, isAddingToCollection } = useCollections();
+  const navigate = useNavigate();
   
   // Grid preferences
   const [filenamePattern] = useAtom(filenamePatternAtom);
@@ -76,11 +92,11 @@ export function StoredImages() {
   const [rangeStart, setRangeStart] = useState<number | null>(null);
 
   useEffect(() => {
-    if (user?.id) {
-      fetchImages();
-      fetchStats();
+    if (imagesError) {
+      console.error('Error fetching images:', imagesError);
+      alert('Failed to load stored images');
     }
-  }, [user?.id, filterBlog]);
+  }, [imagesError]);
 
   // Filter and sort images - MUST BE BEFORE useEffects that use it
   const filteredAndSortedImages = useMemo(() => {
@@ -130,6 +146,29 @@ export function StoredImages() {
     return filtered;
   }, [images, imageFilters]);
 
+  const photosets = useMemo(() => groupPhotosets(filteredAndSortedImages), [filteredAndSortedImages]);
+
+  // What the viewer steps through: every photo, photosets kept together
+  const viewerImages = useMemo(() => photosets.flatMap(photoset => photoset.images), [photosets]);
+  const viewerImage = selectedImage !== null ? viewerImages[selectedImage] : undefined;
+  const viewerPhotoset = viewerImage && photosets.find(photoset => photoset.postId === viewerImage.postId);
+
+  const viewerImageUrl = useStoredImageFile(viewerImage);
+
+  const openPhotoset = (photoset: Photoset) => {
+    setSelectedImage(viewerImages.indexOf(photoset.images[0]));
+  };
+
+  const toggleSelectImage = (id: string) => {
+    const newSelection = new Set(gridSelection);
+    if (newSelection.has(id)) {
+      newSelection.delete(id);
+    } else {
+      newSelection.add(id);
+    }
+    setGridSelection(newSelection);
+  };
+
   // Reset focused index when filters change
   useEffect(() => {
     setFocusedIndex(0);
@@ -138,12 +177,12 @@ export function StoredImages() {
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!filteredAndSortedImages.length) return;
+      if (!photosets.length) return;
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
       const currentIndex = focusedIndex;
       const cols = gridColumns;
-      const maxIndex = filteredAndSortedImages.length - 1;
+      const maxIndex = photosets.length - 1;
 
       switch (e.key) {
         case 'ArrowLeft':
@@ -180,18 +219,16 @@ export function StoredImages() {
           break;
         case 'Enter':
           e.preventDefault();
-          setSelectedImage(currentIndex);
+          if (photosets[currentIndex]) {
+            openPhotoset(photosets[currentIndex]);
+          }
           break;
         case ' ':
           e.preventDefault();
-          const image = filteredAndSortedImages[currentIndex];
-          if (image) {
+          const photoset = photosets[currentIndex];
+          if (photoset) {
             const newSelection = new Set(gridSelection);
-            if (newSelection.has(image.id)) {
-              newSelection.delete(image.id);
-            } else {
-              newSelection.add(image.id);
-            }
+            togglePhotoset(newSelection, photoset);
             setGridSelection(newSelection);
           }
           break;
@@ -200,7 +237,7 @@ export function StoredImages() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [focusedIndex, filteredAndSortedImages, gridColumns, gridSelection]);
+  }, [focusedIndex, photosets, viewerImages, gridColumns, gridSelection]);
 
   // Scroll focused element into view
   useEffect(() => {
@@ -210,53 +247,6 @@ export function StoredImages() {
     }
   }, [focusedIndex]);
 
-  const fetchImages = async () => {
-    if (!user?.id) return;
-
-    try {
-      setLoading(true);
-      const params = new URLSearchParams({
-        limit: '500',
-        offset: '0',
-      });
-      
-      if (filterBlog) {
-        params.append('blogName', filterBlog);
-      }
-
-      const response = await fetch(
-        `${API_URL}/api/stored-images/${user.id}?${params}`
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch images');
-
-      const data = await response.json();
-      setImages(data.images);
-    } catch (error) {
-      console.error('Error fetching images:', error);
-      alert('Failed to load stored images');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchStats = async () => {
-    if (!user?.id) return;
-
-    try {
-      const response = await fetch(
-        `${API_URL}/api/stored-images/${user.id}/stats`
-      );
-
-      if (!response.ok) throw new Error('Failed to fetch stats');
-
-      const data = await response.json();
-      setStats(data);
-    } catch (error) {
-      console.error('Error fetching stats:', error);
-    }
-  };
-
   // Selection handlers
   const handleSelectAll = () => {
     setGridSelection(new Set(filteredAndSortedImages.map(img => img.id)));
@@ -283,25 +273,40 @@ export function StoredImages() {
     if (!confirm(`Delete ${gridSelection.size} image(s) from storage?`)) return;
 
     try {
-      let successCount = 0;
-      for (const imageId of Array.from(gridSelection)) {
-        const response = await fetch(
-          `${API_URL}/api/stored-images/${imageId}?userId=${user?.id}`,
-          { method: 'DELETE' }
-        );
-        if (response.ok) successCount++;
-      }
+      const { deleted } = await deleteImages(Array.from(gridSelection));
 
-      alert(`✅ Deleted ${successCount} image(s) from storage`);
+      alert(`✅ Deleted ${deleted} image(s) from storage`);
       setGridSelection(new Set());
-      fetchImages();
-      fetchStats();
     } catch (error) {
       console.error('Error deleting images:', error);
       alert('❌ Failed to delete images');
     }
   };
 
+  // null starts a new collection with the selection in it
+  const handleAddToCollection = async (collectionId: string | null) => {
+    if (gridSelection.size === 0) return;
+
+    // In grid order, which is how they'll appear in the collection
+    const imageIds = filteredAndSortedImages.filter(image => gridSelection.has(image.id)).map(image => image.id);
+
+    try {
+      if (collectionId === null) {
+        const name = prompt('Name for the new collection:')?.trim();
+        if (!name) return;
+        await createCollection({ name, imageIds });
+        alert(`✅ Created "${name}" with ${imageIds.length} image(s)`);
+      } else {
+        const { name, added } = await addToCollection({ collectionId, imageIds });
+        const skipped = imageIds.length - added;
+        alert(`✅ Added ${added} image(s) to "${name}"${skipped > 0 ? ` (${skipped} already there)` : ''}`);
+      }
+    } catch (error) {
+      console.error('Error adding to collection:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to add images to collection'}`);
+    }
+  };
+
   const handleShare = async () => {
     if (gridSelection.size === 0 || isDownloading) return;
 
@@ -478,9 +483,14 @@ export function StoredImages() {
               {stats ? `${stats.total} total images stored` : 'Loading...'}
             </p>
           </div>
-          <Button onClick={() => { setFilterBlog(null); fetchImages(); }} variant="outline">
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            <Button onClick={() => navigate({ to: '/stored/collections' })} variant="outline">
+              Collections{collections.length > 0 && ` (${collections.length})`}
+            </Button>
+            <Button onClick={() => { setFilterBlog(null); refreshStoredImages(); }} variant="outline">
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Stats / Blog Filter */}
@@ -536,6 +546,9 @@ export function StoredImages() {
               onDownload={handleDownload}
               onShare={handleShare}
               onDelete={handleDelete}
+              collections={collections}
+              onAddToCollection={handleAddToCollection}
+              isAddingToCollection={isCreatingCollection || isAddingToCollection}
               isDownloading={isDownloading}
               downloadProgress={downloadProgress}
               canShare={canShareFiles()}
@@ -610,14 +623,18 @@ export function StoredImages() {
                     gap: gridImageSize === 'compact' ? '0.25rem' : gridImageSize === 'comfortable' ? '0.5rem' : '1rem'
                   }}
                 >
-                  {filteredAndSortedImages.map((image, index) => {
-                    const isSelected = gridSelection.has(image.id);
+                  {photosets.map((photoset, index) => {
+                    const image = photoset.images[0];
+                    const selectedCount = photoset.images.filter(photo => gridSelection.has(photo.id)).length;
+                    const isSelected = selectedCount === photoset.images.length;
+                    // Some photos of the set picked one by one in the viewer
+                    const isPartlySelected = selectedCount > 0 && !isSelected;
                     const isFocused = index === focusedIndex;
                     const isRangeStart = rangeMode && rangeStart === index;
                     
                     return (
                       <motion.div
-                        key={image.id}
+                        key={photoset.postId}
                         data-grid-index={index}
                         initial={{ opacity: 0, scale: 0.9 }}
                         animate={{ opacity: 1, scale: 1 }}
@@ -632,7 +649,7 @@ export function StoredImages() {
                               // First tap - set range start
                               setRangeStart(index);
                               const newSelection = new Set(gridSelection);
-                              newSelection.add(image.id);
+                              selectPhotoset(newSelection, photoset);
                               setGridSelection(newSelection);
                             } else {
                               // Second tap - select range and exit mode
@@ -640,7 +657,7 @@ export function StoredImages() {
                               const end = Math.max(rangeStart, index);
                               const newSelection = new Set(gridSelection);
                               for (let i = start; i <= end; i++) {
-                                newSelection.add(filteredAndSortedImages[i].id);
+                                selectPhotoset(newSelection, photosets[i]);
                               }
                               setGridSelection(newSelection);
                               setRangeMode(false);
@@ -655,27 +672,22 @@ export function StoredImages() {
                             const end = Math.max(lastSelectedIndex, index);
                             const newSelection = new Set(gridSelection);
                             for (let i = start; i <= end; i++) {
-                              newSelection.add(filteredAndSortedImages[i].id);
+                              selectPhotoset(newSelection, photosets[i]);
                             }
                             setGridSelection(newSelection);
                             setLastSelectedIndex(index);
                           } else if (e.ctrlKey || e.metaKey) {
                             const newSelection = new Set(gridSelection);
-                            if (newSelection.has(image.id)) {
-                              newSelection.delete(image.id);
-                            } else {
-                              newSelection.add(image.id);
-                            }
+                            togglePhotoset(newSelection, photoset);
                             setGridSelection(newSelection);
                             setLastSelectedIndex(index);
                           } else {
-                            setSelectedImage(index);
+                            openPhotoset(photoset);
                           }
                         }}
                       >
-                        <img
-                          src={image.url}
-                          alt={image.description || 'Stored image'}
+                        <StoredImageFile
+                          image={image}
                           className={`h-full w-full object-cover transition-transform ${
                             isSelected ? 'scale-95' : 'group-hover:scale-105'
                           }`}
@@ -693,7 +705,7 @@ export function StoredImages() {
                         
                         {/* Checkbox - Always visible when selected */}
                         <div className={`absolute left-2 top-2 transition-opacity ${
-                          isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                          isSelected || isPartlySelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
                         }`}>
                           <div 
                             className={`flex h-6 w-6 cursor-pointer items-center justify-center rounded border-2 transition-all hover:scale-110 ${
@@ -710,18 +722,14 @@ export function StoredImages() {
                                 const end = Math.max(lastSelectedIndex, index);
                                 const newSelection = new Set(gridSelection);
                                 for (let i = start; i <= end; i++) {
-                                  newSelection.add(filteredAndSortedImages[i].id);
+                                  selectPhotoset(newSelection, photosets[i]);
                                 }
                                 setGridSelection(newSelection);
                                 setLastSelectedIndex(index);
                               } else {
                                 // Normal toggle
                                 const newSelection = new Set(gridSelection);
-                                if (newSelection.has(image.id)) {
-                                  newSelection.delete(image.id);
-                                } else {
-                                  newSelection.add(image.id);
-                                }
+                                togglePhotoset(newSelection, photoset);
                                 setGridSelection(newSelection);
                                 setLastSelectedIndex(index);
                               }
@@ -732,6 +740,11 @@ export function StoredImages() {
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
                               </svg>
                             )}
+                            {isPartlySelected && (
+                              <svg className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 12h14" />
+                              </svg>
+                            )}
                           </div>
                         </div>
                         
@@ -741,6 +754,11 @@ export function StoredImages() {
                             START
                           </div>
                         )}
+
+                        {/* Photoset badge */}
+                        {!isRangeStart && photoset.images.length > 1 && (
+                          <PhotosetBadge count={photoset.images.length} />
+                        )}
                         
                         {/* Info on hover */}
                         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-2 opacity-0 transition-opacity group-hover:opacity-100">
@@ -761,13 +779,19 @@ export function StoredImages() {
         <AnimatePresence>
           {selectedImage !== null && (
             <ImageViewer
-              images={filteredAndSortedImages.map((img) => img.url)}
-              initialIndex={selectedImage}
+              imageUrl={viewerImageUrl ?? ''}
+              isOpen
               onClose={() => setSelectedImage(null)}
+              onNext={selectedImage < viewerImages.length - 1 ? () => setSelectedImage(selectedImage + 1) : undefined}
+              onPrevious={selectedImage > 0 ? () => setSelectedImage(selectedImage - 1) : undefined}
               currentIndex={selectedImage}
-              totalImages={filteredAndSortedImages.length}
-              onJumpToEnd={() => setSelectedImage(filteredAndSortedImages.length - 1)}
+              totalImages={viewerImages.length}
+              onJumpToEnd={() => setSelectedImage(viewerImages.length - 1)}
               onJumpToStart={() => setSelectedImage(0)}
+              photoIndex={viewerImage && viewerPhotoset ? viewerPhotoset.images.indexOf(viewerImage) : 0}
+              photoCount={viewerPhotoset?.images.length}
+              isSelected={!!viewerImage && gridSelection.has(viewerImage.id)}
+              onToggleSelect={viewerImage ? () => toggleSelectImage(viewerImage.id) : undefined}
             />
           )}
         </AnimatePresence>
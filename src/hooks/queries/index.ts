@@ -1,6 +1,15 @@
+export * from './useAdmin';
+export * from './useApiTokens';
 export * from './useAuth';
+export * from './useCollections';
+export * from './useDataExport';
+export * from './useLoginHistory';
+export * from './usePasskeys';
 export * from './usePosts';
 export * from './useSearch';
+export * from './useSessions';
+export * from './useStoredImages';
+export * from './useTwoFactor';
 
 
 
@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import { adminApi, canManageUsers, canViewAdmin, type CreateInviteCodeData } from '@/services/api/admin.api';
+import type { UserRole } from '@/services/api/auth.api';
+import { tokenAtom, userAtom } from '@/store/auth';
+
+export function useAdmin() {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+  const [user] = useAtom(userAtom);
+  const enabled = !!token && canViewAdmin(user?.role);
+
+  const usersQuery = useQuery({
+    queryKey: ['admin', 'users', token],
+    queryFn: () => adminApi.getUsers(token!),
+    enabled,
+  });
+
+  const statsQuery = useQuery({
+    queryKey: ['admin', 'stats', token],
+    queryFn: () => adminApi.getStats(token!),
+    enabled,
+  });
+
+  // Invite codes are admin-only; moderators would just get a 403
+  const invitesQuery = useQuery({
+    queryKey: ['admin', 'invites', token],
+    queryFn: () => adminApi.getInvites(token!),
+    enabled: enabled && canManageUsers(user?.role),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['admin'] });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: UserRole }) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.updateUserRole(token, userId, role);
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.deleteUser(token, userId);
+    },
+    onSuccess: invalidate,
+  });
+
+  const suspendUserMutation = useMutation({
+    mutationFn: async ({ userId, reason, until }: { userId: string; reason: string; until: Date }) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.suspendUser(token, userId, reason, until);
+    },
+    onSuccess: invalidate,
+  });
+
+  const banUserMutation = useMutation({
+    mutationFn: async ({ userId, reason }: { userId: string; reason: string }) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.banUser(token, userId, reason);
+    },
+    onSuccess: invalidate,
+  });
+
+  const unsuspendUserMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.unsuspendUser(token, userId);
+    },
+    onSuccess: invalidate,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async (data: CreateInviteCodeData) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.createInvite(token, data);
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await adminApi.revokeInvite(token, inviteId);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    users: usersQuery.data ?? [],
+    isLoadingUsers: usersQuery.isLoading,
+    usersError: usersQuery.error,
+    stats: statsQuery.data,
+    isLoadingStats: statsQuery.isLoading,
+
+    updateRole: updateRoleMutation.mutateAsync,
+    deleteUser: deleteUserMutation.mutateAsync,
+    isUpdatingRole: updateRoleMutation.isPending,
+    isDeletingUser: deleteUserMutation.isPending,
+
+    suspendUser: suspendUserMutation.mutateAsync,
+    banUser: banUserMutation.mutateAsync,
+    unsuspendUser: unsuspendUserMutation.mutateAsync,
+    isChangingStatus: suspendUserMutation.isPending || banUserMutation.isPending || unsuspendUserMutation.isPending,
+
+    invites: invitesQuery.data ?? [],
+    isLoadingInvites: invitesQuery.isLoading,
+    invitesError: invitesQuery.error,
+    createInvite: createInviteMutation.mutateAsync,
+    revokeInvite: revokeInviteMutation.mutateAsync,
+    isCreatingInvite: createInviteMutation.isPending,
+    isRevokingInvite: revokeInviteMutation.isPending,
+  };
+}
@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import { authApi, type CreateApiTokenData } from '@/services/api/auth.api';
+import { tokenAtom } from '@/store/auth';
+
+export function useApiTokens() {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+
+  const apiTokensQuery = useQuery({
+    queryKey: ['apiTokens', token],
+    queryFn: () => authApi.getApiTokens(token!),
+    enabled: !!token,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['apiTokens'] });
+
+  const createApiTokenMutation = useMutation({
+    mutationFn: async (data: CreateApiTokenData) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.createApiToken(token, data);
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeApiTokenMutation = useMutation({
+    mutationFn: async (apiTokenId: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.revokeApiToken(token, apiTokenId);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    apiTokens: apiTokensQuery.data ?? [],
+    isLoadingApiTokens: apiTokensQuery.isLoading,
+    apiTokensError: apiTokensQuery.error,
+
+    createApiToken: createApiTokenMutation.mutateAsync,
+    revokeApiToken: revokeApiTokenMutation.mutateAsync,
+    isCreatingApiToken: createApiTokenMutation.isPending,
+    isRevokingApiToken: revokeApiTokenMutation.isPending,
+  };
+}
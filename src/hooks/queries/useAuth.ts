@@ -1,52 +1,106 @@
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { useSetAtom, useAtom } from 'jotai';
+import { startAuthentication } from '@simplewebauthn/browser';
 
-import { authApi, type LoginData, type RegisterData } from '@/services/api/auth.api';
-import { loginAtom, logoutAtom, userAtom } from '@/store/auth';
+import {
+  authApi,
+  type AuthResponse,
+  type DeletionPending,
+  type LoginData,
+  type RegisterData,
+  type TwoFactorChallenge,
+  type TwoFactorVerifyData,
+} from '@/services/api/auth.api';
+import { loginAtom, logoutAtom, userAtom, tokenAtom } from '@/store/auth';
+
+// Whether the sign-up form should ask for an invite code, or not be shown at all
+export function useRegistrationMode() {
+  const registrationQuery = useQuery({
+    queryKey: ['registrationMode'],
+    queryFn: () => authApi.getRegistrationMode(),
+    staleTime: Infinity, // Only changes when the server restarts
+  });
+
+  return {
+    registrationMode: registrationQuery.data?.mode,
+    isLoadingRegistrationMode: registrationQuery.isLoading,
+  };
+}
 
 export function useAuth() {
   const setLogin = useSetAtom(loginAtom);
   const setLogout = useSetAtom(logoutAtom);
   const [user] = useAtom(userAtom);
+  const [token] = useAtom(tokenAtom);
+
+  const startSession = ({ token, user: userSession }: AuthResponse) => {
+    const fullUser = {
+      ...userSession,
+      blogs: [], // You can add blogs later if needed
+    };
+
+    // Persisted to localStorage by authAtom
+    setLogin({ token, user: fullUser });
+
+    return { token, user: fullUser };
+  };
+
+  // An account pending deletion gets no session until the user chooses to keep it
+  const startSessionUnlessPendingDeletion = (response: AuthResponse | DeletionPending) =>
+    'deletionPending' in response ? response : startSession(response);
 
   const loginMutation = useMutation({
-    mutationFn: async ({ emailOrUsername, password }: LoginData) => {
+    mutationFn: async ({ emailOrUsername, password }: LoginData): Promise<ReturnType<typeof startSession> | TwoFactorChallenge | DeletionPending> => {
       try {
-        const userSession = await authApi.login({ emailOrUsername, password });
-        
-        // Store in localStorage for persistence
-        localStorage.setItem('userId', userSession.id);
-        
-        const fullUser = {
-          ...userSession,
-          blogs: [], // You can add blogs later if needed
-        };
+        const response = await authApi.login({ emailOrUsername, password });
 
-        setLogin({ token: userSession.id, user: fullUser });
-        
-        return { token: userSession.id, user: fullUser };
+        // The caller has to collect a second factor before a session exists
+        if ('twoFactorRequired' in response) {
+          return response;
+        }
+
+        return startSessionUnlessPendingDeletion(response);
       } catch (error) {
-        throw new Error(error instanceof Error ? error.message : 'Login failed');
+        // Rethrow as-is so callers can tell a RateLimitError apart
+        throw error instanceof Error ? error : new Error('Login failed');
       }
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorVerifyData) => {
+      return startSessionUnlessPendingDeletion(await authApi.verifyTwoFactor(data));
+    },
+  });
+
+  // Passwordless sign-in: the browser asks which passkey to use, then the server checks the assertion
+  const loginWithPasskeyMutation = useMutation({
+    mutationFn: async () => {
+      const { challengeId, options } = await authApi.getPasskeyLoginOptions();
+      const credential = await startAuthentication({ optionsJSON: options });
+      return startSessionUnlessPendingDeletion(await authApi.verifyPasskeyLogin(challengeId, credential));
+    },
+  });
+
+  const cancelAccountDeletionMutation = useMutation({
+    mutationFn: async (cancelToken: string) => {
+      return startSession(await authApi.cancelAccountDeletion(cancelToken));
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (data: RegisterData) => {
       try {
-        const userSession = await authApi.register(data);
-        
-        // Store in localStorage for persistence
-        localStorage.setItem('userId', userSession.id);
+        const { token, user: userSession } = await authApi.register(data);
         
         const fullUser = {
           ...userSession,
           blogs: [],
         };
 
-        setLogin({ token: userSession.id, user: fullUser });
+        setLogin({ token, user: fullUser });
         
-        return { token: userSession.id, user: fullUser };
+        return { token, user: fullUser };
       } catch (error) {
         throw new Error(error instanceof Error ? error.message : 'Registration failed');
       }
@@ -55,15 +109,72 @@ export function useAuth() {
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
-      localStorage.removeItem('userId');
-      setLogout();
+      try {
+        if (token) await authApi.logout(token);
+      } finally {
+        setLogout();
+      }
     },
   });
 
   const changePasswordMutation = useMutation({
     mutationFn: async ({ currentPassword, newPassword }: { currentPassword: string; newPassword: string }) => {
-      if (!user?.id) throw new Error('Not authenticated');
-      await authApi.changePassword(user.id, currentPassword, newPassword);
+      if (!token) throw new Error('Not authenticated');
+      await authApi.changePassword(token, currentPassword, newPassword);
+    },
+  });
+
+  // Reload the signed-in user so settings show the address waiting for confirmation
+  const refreshCurrentUser = async () => {
+    if (!token || !user) return;
+    const updatedUser = await authApi.getCurrentUser(token);
+    if (updatedUser) {
+      setLogin({ token, user: { ...updatedUser, blogs: user.blogs || [] } });
+    }
+  };
+
+  const changeEmailMutation = useMutation({
+    mutationFn: async ({ newEmail, password }: { newEmail: string; password: string }) => {
+      if (!token) throw new Error('Not authenticated');
+      const result = await authApi.changeEmail(token, newEmail, password);
+      await refreshCurrentUser();
+      return result;
+    },
+  });
+
+  const confirmEmailChangeMutation = useMutation({
+    mutationFn: async (confirmationToken: string) => {
+      const result = await authApi.confirmEmailChange(confirmationToken);
+      await refreshCurrentUser();
+      return result;
+    },
+  });
+
+  // Undoing a change signs out every session, this one included
+  const revertEmailChangeMutation = useMutation({
+    mutationFn: async (revertToken: string) => {
+      const result = await authApi.revertEmailChange(revertToken);
+      if (token) setLogout();
+      return result;
+    },
+  });
+
+  // Signs out every session, so drop the local one too; the caller goes on to reset the password
+  const reportNotMeMutation = useMutation({
+    mutationFn: async (notMeToken: string) => {
+      const result = await authApi.reportNotMe(notMeToken);
+      if (token) setLogout();
+      return result;
+    },
+  });
+
+  // Every session is revoked server-side, so just drop the local one afterwards
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (password: string) => {
+      if (!token) throw new Error('Not authenticated');
+      const result = await authApi.requestAccountDeletion(token, password);
+      setLogout();
+      return result;
     },
   });
 
@@ -80,23 +191,17 @@ export function useAuth() {
   });
 
   const verifyEmailMutation = useMutation({
-    mutationFn: async (token: string) => {
-      const result = await authApi.verifyEmail(token);
-      // Update user state if currently logged in
-      if (user?.id) {
-        const updatedUser = await authApi.getUserById(user.id);
-        if (updatedUser) {
-          setLogin({ token: user.id, user: { ...updatedUser, blogs: user.blogs || [] } });
-        }
-      }
+    mutationFn: async (verificationToken: string) => {
+      const result = await authApi.verifyEmail(verificationToken);
+      await refreshCurrentUser();
       return result;
     },
   });
 
   const resendVerificationEmailMutation = useMutation({
     mutationFn: async () => {
-      if (!user?.id) throw new Error('Not authenticated');
-      return await authApi.resendVerificationEmail(user.id);
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.resendVerificationEmail(token);
     },
   });
 
@@ -108,14 +213,14 @@ export function useAuth() {
 
   // Check for existing session on mount
   const currentUserQuery = useQuery({
-    queryKey: ['currentUser'],
+    queryKey: ['currentUser', token],
     queryFn: async () => {
-      const userId = localStorage.getItem('userId');
-      if (!userId) return null;
+      if (!token) return null;
 
-      const userSession = await authApi.getUserById(userId);
+      const userSession = await authApi.getCurrentUser(token);
       if (!userSession) {
-        localStorage.removeItem('userId');
+        // Session expired or was revoked server-side
+        setLogout();
         return null;
       }
 
@@ -124,7 +229,7 @@ export function useAuth() {
         blogs: [],
       };
 
-      setLogin({ token: userId, user: fullUser });
+      setLogin({ token, user: fullUser });
       return fullUser;
     },
     staleTime: Infinity, // User data doesn't go stale
@@ -133,9 +238,17 @@ export function useAuth() {
   return {
     // Auth actions
     login: loginMutation.mutateAsync,
+    verifyTwoFactor: verifyTwoFactorMutation.mutateAsync,
+    loginWithPasskey: loginWithPasskeyMutation.mutateAsync,
+    cancelAccountDeletion: cancelAccountDeletionMutation.mutateAsync,
     register: registerMutation.mutateAsync,
     logout: logoutMutation.mutate,
     changePassword: changePasswordMutation.mutateAsync,
+    changeEmail: changeEmailMutation.mutateAsync,
+    confirmEmailChange: confirmEmailChangeMutation.mutateAsync,
+    revertEmailChange: revertEmailChangeMutation.mutateAsync,
+    reportNotMe: reportNotMeMutation.mutateAsync,
+    deleteAccount: deleteAccountMutation.mutateAsync,
     requestPasswordReset: requestPasswordResetMutation.mutateAsync,
     resetPassword: resetPasswordMutation.mutateAsync,
     verifyEmail: verifyEmailMutation.mutateAsync,
@@ -144,9 +257,17 @@ export function useAuth() {
     
     // Loading states
     isLoggingIn: loginMutation.isPending,
+    isVerifyingTwoFactor: verifyTwoFactorMutation.isPending,
+    isLoggingInWithPasskey: loginWithPasskeyMutation.isPending,
+    isCancellingDeletion: cancelAccountDeletionMutation.isPending,
     isRegistering: registerMutation.isPending,
     isLoggingOut: logoutMutation.isPending,
     isChangingPassword: changePasswordMutation.isPending,
+    isChangingEmail: changeEmailMutation.isPending,
+    isConfirmingEmailChange: confirmEmailChangeMutation.isPending,
+    isRevertingEmailChange: revertEmailChangeMutation.isPending,
+    isReportingNotMe: reportNotMeMutation.isPending,
+    isDeletingAccount: deleteAccountMutation.isPending,
     isRequestingReset: requestPasswordResetMutation.isPending,
     isResettingPassword: resetPasswordMutation.isPending,
     isVerifyingEmail: verifyEmailMutation.isPending,
@@ -159,6 +280,7 @@ export function useAuth() {
     
     // Errors
     loginError: loginMutation.error,
+    verifyTwoFactorError: verifyTwoFactorMutation.error,
     registerError: registerMutation.error,
     changePasswordError: changePasswordMutation.error,
     passwordResetError: requestPasswordResetMutation.error,
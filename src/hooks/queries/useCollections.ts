@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import {
+  collectionsApi,
+  type CollectionDetail,
+  type CollectionQuery,
+  type CollectionUpdate,
+  type NewCollection,
+  type SmartRules,
+} from '@/services/api/collections.api';
+import { tokenAtom } from '@/store/auth';
+
+export function useCollections(options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+
+  const collectionsQuery = useQuery({
+    queryKey: ['collections', token],
+    queryFn: () => collectionsApi.getCollections(token!),
+    enabled: (options.enabled ?? true) && !!token,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['collections'] });
+
+  const createCollectionMutation = useMutation({
+    mutationFn: async (data: NewCollection) => {
+      if (!token) throw new Error('Not authenticated');
+      return await collectionsApi.createCollection(token, data);
+    },
+    onSuccess: invalidate,
+  });
+
+  const addImagesMutation = useMutation({
+    mutationFn: async ({ collectionId, imageIds }: { collectionId: string; imageIds: string[] }) => {
+      if (!token) throw new Error('Not authenticated');
+      return await collectionsApi.addImages(token, collectionId, imageIds);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    collections: collectionsQuery.data ?? [],
+    isLoadingCollections: collectionsQuery.isLoading,
+    collectionsError: collectionsQuery.error,
+
+    createCollection: createCollectionMutation.mutateAsync,
+    addToCollection: addImagesMutation.mutateAsync,
+    isCreatingCollection: createCollectionMutation.isPending,
+    isAddingToCollection: addImagesMutation.isPending,
+  };
+}
+
+export function useCollection(id: string, query: CollectionQuery = {}) {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+  const queryKey = ['collections', id, query, token];
+
+  const collectionQuery = useQuery({
+    queryKey,
+    queryFn: () => collectionsApi.getCollection(token!, id, query),
+    enabled: !!token,
+    // Paging through a smart collection keeps the current page up until the next arrives
+    placeholderData: previous => (previous?.id === id ? previous : undefined),
+  });
+
+  // The list shows covers and counts, so it goes stale along with the collection
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['collections'] });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: CollectionUpdate) => {
+      if (!token) throw new Error('Not authenticated');
+      return await collectionsApi.updateCollection(token, id, data);
+    },
+    onSuccess: invalidate,
+  });
+
+  const removeImagesMutation = useMutation({
+    mutationFn: async (imageIds: string[]) => {
+      if (!token) throw new Error('Not authenticated');
+      return await collectionsApi.removeImages(token, id, imageIds);
+    },
+    onSuccess: invalidate,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (imageIds: string[]) => {
+      if (!token) throw new Error('Not authenticated');
+      return await collectionsApi.reorder(token, id, imageIds);
+    },
+    // Show the new order straight away; put the old one back if saving fails
+    onMutate: async (imageIds) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<CollectionDetail>(queryKey);
+      if (previous) {
+        const byId = new Map(previous.images.map(image => [image.id, image]));
+        queryClient.setQueryData<CollectionDetail>(queryKey, {
+          ...previous,
+          images: imageIds.flatMap(imageId => byId.get(imageId) ?? []),
+        });
+      }
+      return { previous };
+    },
+    onError: (_error, _imageIds, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+    },
+    onSettled: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      if (!token) throw new Error('Not authenticated');
+      return await collectionsApi.deleteCollection(token, id);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey });
+      return invalidate();
+    },
+  });
+
+  return {
+    collection: collectionQuery.data ?? null,
+    isLoadingCollection: collectionQuery.isLoading,
+    collectionError: collectionQuery.error,
+
+    updateCollection: updateMutation.mutateAsync,
+    removeImages: removeImagesMutation.mutateAsync,
+    reorder: reorderMutation.mutateAsync,
+    deleteCollection: deleteMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+    isRemoving: removeImagesMutation.isPending,
+    isReordering: reorderMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+}
+
+// Rules change with every keystroke in the builder; wait for a pause before asking
+const PREVIEW_DELAY = 400;
+
+/**
+ * How many stored images a smart collection with these rules would hold, and
+ * the newest few. null rules (e.g. half-filled in) skip the request.
+ */
+export function useSmartCollectionPreview(rules: SmartRules | null) {
+  const [token] = useAtom(tokenAtom);
+  const [settled, setSettled] = useState(rules);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(rules), PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [rules]);
+
+  const previewQuery = useQuery({
+    queryKey: ['collections', 'preview', settled, token],
+    queryFn: () => collectionsApi.previewSmartCollection(token!, settled!),
+    enabled: !!token && !!settled,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    preview: rules ? previewQuery.data ?? null : null,
+    isLoadingPreview: previewQuery.isFetching || rules !== settled,
+    previewError: previewQuery.error,
+  };
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import { dataExportApi, isExportInProgress } from '@/services/api/dataExport.api';
+import { tokenAtom, userAtom } from '@/store/auth';
+
+export function useDataExport() {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+  const [user] = useAtom(userAtom);
+  const userId = user?.id;
+
+  const exportQuery = useQuery({
+    queryKey: ['dataExport', userId, token],
+    queryFn: () => dataExportApi.getLatestExport(token!, userId!),
+    enabled: !!token && !!userId,
+    // Poll for progress while the archive is being built
+    refetchInterval: query => (isExportInProgress(query.state.data) ? 1000 : false),
+  });
+
+  const startExportMutation = useMutation({
+    mutationFn: async () => {
+      if (!token || !userId) throw new Error('Not authenticated');
+      return await dataExportApi.startExport(token, userId);
+    },
+    onSuccess: job => queryClient.setQueryData(['dataExport', userId, token], job),
+  });
+
+  const downloadExportMutation = useMutation({
+    mutationFn: async (exportId: string) => {
+      if (!token || !userId) throw new Error('Not authenticated');
+      return await dataExportApi.downloadExport(token, userId, exportId);
+    },
+  });
+
+  return {
+    latestExport: exportQuery.data ?? null,
+    isLoadingExport: exportQuery.isLoading,
+    exportError: exportQuery.error,
+
+    startExport: startExportMutation.mutateAsync,
+    downloadExport: downloadExportMutation.mutateAsync,
+    isStartingExport: startExportMutation.isPending,
+    isDownloadingExport: downloadExportMutation.isPending,
+  };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import { authApi } from '@/services/api/auth.api';
+import { tokenAtom } from '@/store/auth';
+
+export function useLoginHistory() {
+  const [token] = useAtom(tokenAtom);
+
+  const loginHistoryQuery = useQuery({
+    queryKey: ['loginHistory', token],
+    queryFn: () => authApi.getLoginHistory(token!),
+    enabled: !!token,
+  });
+
+  return {
+    loginHistory: loginHistoryQuery.data ?? [],
+    isLoadingLoginHistory: loginHistoryQuery.isLoading,
+    loginHistoryError: loginHistoryQuery.error,
+  };
+}
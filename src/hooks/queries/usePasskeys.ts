@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+import { startRegistration } from '@simplewebauthn/browser';
+
+import { authApi } from '@/services/api/auth.api';
+import { tokenAtom } from '@/store/auth';
+
+export function usePasskeys() {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+
+  const passkeysQuery = useQuery({
+    queryKey: ['passkeys', token],
+    queryFn: () => authApi.getPasskeys(token!),
+    enabled: !!token,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['passkeys'] });
+
+  // Registration ceremony: server options -> authenticator -> server verification
+  const addPasskeyMutation = useMutation({
+    mutationFn: async (name: string) => {
+      if (!token) throw new Error('Not authenticated');
+      const { challengeId, options } = await authApi.getPasskeyRegistrationOptions(token);
+      const credential = await startRegistration({ optionsJSON: options });
+      return await authApi.verifyPasskeyRegistration(token, challengeId, credential, name);
+    },
+    onSuccess: invalidate,
+  });
+
+  const deletePasskeyMutation = useMutation({
+    mutationFn: async (passkeyId: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.deletePasskey(token, passkeyId);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    passkeys: passkeysQuery.data ?? [],
+    isLoadingPasskeys: passkeysQuery.isLoading,
+    passkeysError: passkeysQuery.error,
+
+    addPasskey: addPasskeyMutation.mutateAsync,
+    deletePasskey: deletePasskeyMutation.mutateAsync,
+    isAddingPasskey: addPasskeyMutation.isPending,
+    isDeletingPasskey: deletePasskeyMutation.isPending,
+  };
+}
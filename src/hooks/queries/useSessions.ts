@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import { authApi } from '@/services/api/auth.api';
+import { tokenAtom } from '@/store/auth';
+
+export function useSessions() {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+
+  const sessionsQuery = useQuery({
+    queryKey: ['sessions', token],
+    queryFn: () => authApi.getSessions(token!),
+    enabled: !!token,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['sessions'] });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.revokeSession(token, sessionId);
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeOtherSessionsMutation = useMutation({
+    mutationFn: async () => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.revokeOtherSessions(token);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    sessions: sessionsQuery.data ?? [],
+    isLoadingSessions: sessionsQuery.isLoading,
+    sessionsError: sessionsQuery.error,
+
+    revokeSession: revokeSessionMutation.mutateAsync,
+    revokeOtherSessions: revokeOtherSessionsMutation.mutateAsync,
+    isRevoking: revokeSessionMutation.isPending || revokeOtherSessionsMutation.isPending,
+  };
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom } from 'jotai';
+
+import {
+  storedImagesApi,
+  type NewStoredImage,
+  type StoredImage,
+  type StoredImagesQuery,
+} from '@/services/api/storedImages.api';
+import { tokenAtom, userAtom } from '@/store/auth';
+
+export function useStoredImages(query: StoredImagesQuery = {}, options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+  const [user] = useAtom(userAtom);
+  const userId = user?.id;
+  const enabled = (options.enabled ?? true) && !!token && !!userId;
+
+  const imagesQuery = useQuery({
+    queryKey: ['storedImages', userId, query, token],
+    queryFn: () => storedImagesApi.getImages(token!, userId!, query),
+    enabled,
+  });
+
+  const statsQuery = useQuery({
+    queryKey: ['storedImages', userId, 'stats', token],
+    queryFn: () => storedImagesApi.getStats(token!, userId!),
+    enabled,
+  });
+
+  // Smart collections, and covers and counts, change along with the images
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['storedImages', userId] }),
+    queryClient.invalidateQueries({ queryKey: ['collections'] }),
+  ]);
+
+  const storeImagesMutation = useMutation({
+    mutationFn: async (images: NewStoredImage[]) => {
+      if (!token) throw new Error('Not authenticated');
+      return await storedImagesApi.storeImages(token, images);
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteImagesMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      if (!token) throw new Error('Not authenticated');
+      return await storedImagesApi.deleteImages(token, ids);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    images: imagesQuery.data?.images ?? [],
+    isLoadingImages: imagesQuery.isLoading,
+    imagesError: imagesQuery.error,
+    stats: statsQuery.data ?? null,
+    refreshStoredImages: invalidate,
+
+    storeImages: storeImagesMutation.mutateAsync,
+    deleteImages: deleteImagesMutation.mutateAsync,
+    isStoring: storeImagesMutation.isPending,
+    isDeleting: deleteImagesMutation.isPending,
+  };
+}
+
+/**
+ * Displayable URL for a stored image: its archived copy when there is one,
+ * otherwise (stored before archiving, or the copy failed to load) the original URL
+ */
+export function useStoredImageFile(image: Pick<StoredImage, 'id' | 'sha256' | 'url'> | undefined) {
+  const [token] = useAtom(tokenAtom);
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  // Keyed by content hash, so identical files are only fetched once
+  const fileQuery = useQuery({
+    queryKey: ['storedImageFile', image?.sha256],
+    queryFn: () => storedImagesApi.getFile(token!, image!.id),
+    enabled: !!token && !!image?.sha256,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!fileQuery.data) return;
+    const url = URL.createObjectURL(fileQuery.data);
+    setObjectUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [fileQuery.data]);
+
+  if (!image) return undefined;
+  if (!image.sha256 || fileQuery.isError) return image.url;
+  return objectUrl ?? undefined;
+}
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom, useSetAtom } from 'jotai';
+
+import { authApi } from '@/services/api/auth.api';
+import { authAtom, tokenAtom } from '@/store/auth';
+
+export function useTwoFactor() {
+  const queryClient = useQueryClient();
+  const [token] = useAtom(tokenAtom);
+  const setAuth = useSetAtom(authAtom);
+
+  const statusQuery = useQuery({
+    queryKey: ['twoFactor', token],
+    queryFn: () => authApi.getTwoFactorStatus(token!),
+    enabled: !!token,
+  });
+
+  // Keep the cached user in sync so other screens see the new status
+  const setEnabled = (twoFactorEnabled: boolean) => {
+    setAuth(prev => prev.user ? { ...prev, user: { ...prev.user, twoFactorEnabled } } : prev);
+    queryClient.invalidateQueries({ queryKey: ['twoFactor'] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.setupTwoFactor(token);
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.enableTwoFactor(token, code);
+    },
+    onSuccess: () => setEnabled(true),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async ({ password, code }: { password: string; code: string }) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.disableTwoFactor(token, password, code);
+    },
+    onSuccess: () => setEnabled(false),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (password: string) => {
+      if (!token) throw new Error('Not authenticated');
+      return await authApi.regenerateRecoveryCodes(token, password);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['twoFactor'] }),
+  });
+
+  return {
+    status: statusQuery.data,
+    isLoadingStatus: statusQuery.isLoading,
+
+    setup: setupMutation.mutateAsync,
+    enable: enableMutation.mutateAsync,
+    disable: disableMutation.mutateAsync,
+    regenerateRecoveryCodes: regenerateMutation.mutateAsync,
+
+    isSettingUp: setupMutation.isPending,
+    isEnabling: enableMutation.isPending,
+    isDisabling: disableMutation.isPending,
+    isRegenerating: regenerateMutation.isPending,
+  };
+}
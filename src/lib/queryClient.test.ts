@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// localStorage that outlives the module, like the browser's across a reload
+const storage = new Map<string, string>();
+
+const loadQueryClient = async () => {
+  vi.resetModules();
+  const { queryClient } = await import('./queryClient');
+  // Let the saved cache restore before anything else happens
+  await vi.advanceTimersByTimeAsync(0);
+  return queryClient;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('window', {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    },
+  });
+});
+
+afterEach(() => {
+  storage.clear();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('queryClient persistence', () => {
+  it('restores queries after a reload, but fetches archived image files again', async () => {
+    const before = await loadQueryClient();
+    before.setQueryData(['storedImages'], [{ id: 'image-1' }]);
+    before.setQueryData(['storedImageFile', 'abc123'], new Blob(['png']));
+    // Saving to localStorage is throttled
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const after = await loadQueryClient();
+
+    expect(after.getQueryData(['storedImages'])).toEqual([{ id: 'image-1' }]);
+    expect(after.getQueryData(['storedImageFile', 'abc123'])).toBeUndefined();
+  });
+});
@@ -16,6 +16,10 @@ export const queryClient = new QueryClient({
   },
 });
 
+// Queries whose data doesn't survive JSON (archived image files are Blobs),
+// so they're fetched again after a reload instead of coming back as {}
+const UNPERSISTED_QUERIES = ['storedImageFile'];
+
 // Create a persister for localStorage
 const localStoragePersister = createSyncStoragePersister({
   storage: window.localStorage,
@@ -30,7 +34,7 @@ persistQueryClient({
   dehydrateOptions: {
     shouldDehydrateQuery: (query) => {
       // Only persist successful queries
-      return query.state.status === 'success';
+      return query.state.status === 'success' && !UNPERSISTED_QUERIES.includes(query.queryKey[0] as string);
     },
   },
 });
@@ -6,9 +6,17 @@ import Profile from '@/features/profile/Profile';
 import Settings from '@/features/settings/Settings';
 import Search from '@/features/search/Search';
 import Auth from '@/features/auth/Auth';
+import VerifyEmail from '@/features/auth/VerifyEmail';
+import ResetPassword from '@/features/auth/ResetPassword';
+import ConfirmEmailChange from '@/features/auth/ConfirmEmailChange';
+import RevertEmailChange from '@/features/auth/RevertEmailChange';
+import NotMe from '@/features/auth/NotMe';
 import { Blog } from '@/features/blog/Blog';
 import { TagView } from '@/features/tag/TagView';
 import { StoredImages } from '@/features/stored/StoredImages';
+import { Collections } from '@/features/stored/Collections';
+import { CollectionView } from '@/features/stored/CollectionView';
+import Admin from '@/features/admin/Admin';
 
 // Define root route
 const rootRoute = createRootRoute({
@@ -50,9 +58,68 @@ const authRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/auth',
   component: Auth,
-  validateSearch: (search: Record<string, unknown>) => {
+  validateSearch: (search: Record<string, unknown>): { mode: string; invite?: string } => {
     return {
       mode: (search.mode as string) || 'login',
+      invite: search.invite as string | undefined,
+    };
+  },
+});
+
+// Landing pages for the links in verification and password reset emails
+const verifyEmailRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/auth/verify-email',
+  component: VerifyEmail,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      token: search.token as string | undefined,
+    };
+  },
+});
+
+const resetPasswordRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/auth/reset-password',
+  component: ResetPassword,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      token: search.token as string | undefined,
+    };
+  },
+});
+
+// Links from the email change messages: one to the new address, one to the old
+const confirmEmailChangeRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/auth/confirm-email',
+  component: ConfirmEmailChange,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      token: search.token as string | undefined,
+    };
+  },
+});
+
+const revertEmailChangeRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/auth/revert-email',
+  component: RevertEmailChange,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      token: search.token as string | undefined,
+    };
+  },
+});
+
+// "This wasn't me" link from the new-device sign-in alert
+const notMeRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/auth/not-me',
+  component: NotMe,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      token: search.token as string | undefined,
     };
   },
 });
@@ -81,6 +148,25 @@ const storedImagesRoute = createRoute({
   component: StoredImages,
 });
 
+const collectionsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/stored/collections',
+  component: Collections,
+});
+
+const collectionRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/stored/collections/$id',
+  component: CollectionView,
+});
+
+// Admin console; the page itself checks the role (the API enforces it too)
+const adminRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/admin',
+  component: Admin,
+});
+
 // Create and export the router
 const routeTree = rootRoute.addChildren([
   indexRoute,
@@ -89,9 +175,17 @@ const routeTree = rootRoute.addChildren([
   settingsRoute,
   searchRoute,
   authRoute,
+  verifyEmailRoute,
+  resetPasswordRoute,
+  confirmEmailChangeRoute,
+  revertEmailChangeRoute,
+  notMeRoute,
   blogRoute,
   tagRoute,
   storedImagesRoute,
+  collectionsRoute,
+  collectionRoute,
+  adminRoute,
 ]);
 
 export const router = createRouter({ 
@@ -0,0 +1,82 @@
+import type { AdminUser, CreateInviteCodeData, UserRole } from '@shared/api';
+import { api } from './client';
+
+export type { AccountStatusUpdate, AdminStats, AdminUser, CreateInviteCodeData, InviteCode } from '@shared/api';
+
+// Mirrors the server: moderators can look, only admins can change things
+export const canViewAdmin = (role?: UserRole) => role === 'ADMIN' || role === 'MODERATOR';
+export const canManageUsers = (role?: UserRole) => role === 'ADMIN';
+
+// Moderators can suspend regular users; admins anyone except themselves
+export const canModerateUser = (role: UserRole | undefined, target: Pick<AdminUser, 'role'>) =>
+  role === 'ADMIN' || (role === 'MODERATOR' && target.role === 'USER');
+
+// A suspension whose end date has passed no longer applies
+export const isRestricted = (user: Pick<AdminUser, 'status' | 'suspendedUntil'>) =>
+  user.status === 'BANNED' ||
+  (user.status === 'SUSPENDED' && (!user.suspendedUntil || new Date(user.suspendedUntil) > new Date()));
+
+export const adminApi = {
+  getUsers(token: string) {
+    return api.call('GET /api/admin/users', { token, fallback: 'Failed to load users' });
+  },
+
+  getStats(token: string) {
+    return api.call('GET /api/admin/stats', { token, fallback: 'Failed to load stats' });
+  },
+
+  updateUserRole(token: string, userId: string, role: UserRole) {
+    return api.call('PUT /api/admin/users/:id/role', {
+      token,
+      params: { id: userId },
+      body: { role },
+      fallback: 'Failed to update role',
+    });
+  },
+
+  deleteUser(token: string, userId: string) {
+    return api.call('DELETE /api/admin/users/:id', { token, params: { id: userId }, fallback: 'Failed to delete user' });
+  },
+
+  suspendUser(token: string, userId: string, reason: string, until: Date) {
+    return api.call('POST /api/admin/users/:id/suspend', {
+      token,
+      params: { id: userId },
+      body: { reason, until: until.toISOString() },
+      fallback: 'Failed to suspend user',
+    });
+  },
+
+  banUser(token: string, userId: string, reason: string) {
+    return api.call('POST /api/admin/users/:id/ban', {
+      token,
+      params: { id: userId },
+      body: { reason },
+      fallback: 'Failed to ban user',
+    });
+  },
+
+  unsuspendUser(token: string, userId: string) {
+    return api.call('POST /api/admin/users/:id/unsuspend', {
+      token,
+      params: { id: userId },
+      fallback: 'Failed to lift suspension',
+    });
+  },
+
+  getInvites(token: string) {
+    return api.call('GET /api/admin/invites', { token, fallback: 'Failed to load invite codes' });
+  },
+
+  createInvite(token: string, data: CreateInviteCodeData) {
+    return api.call('POST /api/admin/invites', { token, body: data, fallback: 'Failed to create invite code' });
+  },
+
+  revokeInvite(token: string, inviteId: string) {
+    return api.call('DELETE /api/admin/invites/:id', {
+      token,
+      params: { id: inviteId },
+      fallback: 'Failed to revoke invite code',
+    });
+  },
+};
@@ -1,192 +1,262 @@
-// Dynamic API URL based on current host
-const getApiUrl = () => {
-  // If VITE_API_URL is explicitly set, use it
-  if (import.meta.env.VITE_API_URL) {
-    return import.meta.env.VITE_API_URL;
-  }
-  
-  // Otherwise, use the same host as the frontend (works for WiFi, Tailscale, localhost)
-  if (typeof window !== 'undefined') {
-    const protocol = window.location.protocol;
-    const hostname = window.location.hostname;
-    return `${protocol}//${hostname}:3001`;
-  }
-  
-  // Fallback for SSR or Node environment
-  return 'http://localhost:3001';
-};
-
-const API_URL = getApiUrl();
-
-export interface RegisterData {
-  email: string;
-  username: string;
-  password: string;
-  displayName?: string;
-}
-
-export interface LoginData {
-  emailOrUsername: string;
-  password: string;
-}
-
-export type UserRole = 'USER' | 'ADMIN' | 'MODERATOR';
-
-export interface UserSession {
-  id: string;
-  email: string;
-  username: string;
-  displayName: string | null;
-  avatar: string | null;
-  emailVerified?: boolean;
-  lastLoginAt?: Date | null;
-  role?: UserRole;
-}
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/browser';
+import type {
+  CreateApiTokenData,
+  LoginData,
+  RegisterData,
+  TwoFactorVerifyData,
+  UserSession,
+} from '@shared/api';
+import { api, ApiError } from './client';
+
+// The contract types live in shared/api.ts; re-exported so pages keep importing them from here
+export {
+  API_TOKEN_SCOPES,
+  type AccountStatus,
+  type ApiToken,
+  type ApiTokenScope,
+  type AuthResponse,
+  type CreateApiTokenData,
+  type DeletionPending,
+  type DeviceSession,
+  type LoginData,
+  type LoginEvent,
+  type LoginResponse,
+  type Passkey,
+  type PasskeyLoginOptions,
+  type PasskeyRegistrationOptions,
+  type RegisterData,
+  type RegistrationMode,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  type TwoFactorVerifyData,
+  type UserRole,
+  type UserSession,
+} from '@shared/api';
+export { API_URL, AccountRestrictedError, RateLimitError, responseError } from './client';
 
 export const authApi = {
-  async register(data: RegisterData): Promise<UserSession> {
-    const response = await fetch(`${API_URL}/api/auth/register`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Registration failed');
-    }
+  getRegistrationMode() {
+    return api.call('GET /api/auth/registration', { token: null, fallback: 'Failed to check registration' });
+  },
 
-    return response.json();
+  register(data: RegisterData) {
+    return api.call('POST /api/auth/register', { body: data, fallback: 'Registration failed' });
   },
 
-  async login(data: LoginData): Promise<UserSession> {
-    const response = await fetch(`${API_URL}/api/auth/login`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
+  login(data: LoginData) {
+    return api.call('POST /api/auth/login', { body: data, fallback: 'Login failed' });
+  },
+
+  verifyTwoFactor(data: TwoFactorVerifyData) {
+    return api.call('POST /api/auth/login/2fa', { body: data, fallback: 'Verification failed' });
+  },
+
+  getPasskeyLoginOptions() {
+    return api.call('POST /api/auth/passkeys/login/options', { fallback: 'Failed to start passkey sign-in' });
+  },
+
+  verifyPasskeyLogin(challengeId: string, credential: AuthenticationResponseJSON) {
+    return api.call('POST /api/auth/passkeys/login/verify', {
+      body: { challengeId, response: credential },
+      fallback: 'Passkey sign-in failed',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Login failed');
-    }
+  getPasskeys(token: string) {
+    return api.call('GET /api/auth/passkeys', { token, fallback: 'Failed to load passkeys' });
+  },
 
-    return response.json();
+  getPasskeyRegistrationOptions(token: string) {
+    return api.call('POST /api/auth/passkeys/register/options', { token, fallback: 'Failed to start passkey registration' });
   },
 
-  async getUserById(userId: string): Promise<UserSession | null> {
-    const response = await fetch(`${API_URL}/api/users/${userId}`);
+  verifyPasskeyRegistration(token: string, challengeId: string, credential: RegistrationResponseJSON, name: string) {
+    return api.call('POST /api/auth/passkeys/register/verify', {
+      token,
+      body: { challengeId, response: credential, name },
+      fallback: 'Failed to register passkey',
+    });
+  },
 
-    if (!response.ok) {
-      if (response.status === 404) return null;
-      throw new Error('Failed to get user');
-    }
+  deletePasskey(token: string, passkeyId: string) {
+    return api.call('DELETE /api/auth/passkeys/:id', {
+      token,
+      params: { id: passkeyId },
+      fallback: 'Failed to remove passkey',
+    });
+  },
+
+  getTwoFactorStatus(token: string) {
+    return api.call('GET /api/auth/2fa', { token, fallback: 'Failed to get two-factor status' });
+  },
 
-    return response.json();
+  setupTwoFactor(token: string) {
+    return api.call('POST /api/auth/2fa/setup', { token, fallback: 'Failed to start two-factor setup' });
   },
 
-  async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void> {
-    const response = await fetch(`${API_URL}/api/auth/change-password`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ userId, currentPassword, newPassword }),
+  enableTwoFactor(token: string, code: string) {
+    return api.call('POST /api/auth/2fa/enable', {
+      token,
+      body: { code },
+      fallback: 'Failed to enable two-factor authentication',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to change password');
-    }
+  disableTwoFactor(token: string, password: string, code: string) {
+    return api.call('POST /api/auth/2fa/disable', {
+      token,
+      body: { password, code },
+      fallback: 'Failed to disable two-factor authentication',
+    });
   },
 
-  async requestPasswordReset(emailOrUsername: string): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/api/auth/request-password-reset`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ emailOrUsername }),
+  regenerateRecoveryCodes(token: string, password: string) {
+    return api.call('POST /api/auth/2fa/recovery-codes', {
+      token,
+      body: { password },
+      fallback: 'Failed to regenerate recovery codes',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to request password reset');
+  async logout(token: string): Promise<void> {
+    try {
+      await api.call('POST /api/auth/logout', { token, fallback: 'Logout failed' });
+    } catch (error) {
+      // An already-expired session is as good as logged out
+      if (!(error instanceof ApiError && error.status === 401)) throw error;
     }
+  },
+
+  async getCurrentUser(token: string): Promise<UserSession | null> {
+    try {
+      return await api.call('GET /api/auth/me', { token, fallback: 'Failed to get current user' });
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 401 || error.status === 404)) return null;
+      throw error;
+    }
+  },
 
-    return response.json();
+  async getUserById(userId: string): Promise<UserSession | null> {
+    try {
+      return await api.call('GET /api/users/:id', { params: { id: userId }, fallback: 'Failed to get user' });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
   },
 
-  async resetPassword(token: string, newPassword: string): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/api/auth/reset-password`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ token, newPassword }),
+  async changePassword(token: string, currentPassword: string, newPassword: string): Promise<void> {
+    await api.call('POST /api/auth/change-password', {
+      token,
+      body: { currentPassword, newPassword },
+      fallback: 'Failed to change password',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to reset password');
-    }
+  changeEmail(token: string, newEmail: string, password: string) {
+    return api.call('POST /api/auth/change-email', {
+      token,
+      body: { newEmail, password },
+      fallback: 'Failed to change email address',
+    });
+  },
+
+  confirmEmailChange(token: string) {
+    return api.call('POST /api/auth/confirm-email-change', {
+      body: { token },
+      fallback: 'Failed to confirm email address',
+    });
+  },
 
-    return response.json();
+  revertEmailChange(token: string) {
+    return api.call('POST /api/auth/revert-email-change', {
+      body: { token },
+      fallback: 'Failed to undo the email change',
+    });
   },
 
-  async verifyEmail(token: string): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/api/auth/verify-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ token }),
+  requestAccountDeletion(token: string, password: string) {
+    return api.call('POST /api/auth/account/delete', {
+      token,
+      body: { password },
+      fallback: 'Failed to delete account',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to verify email');
-    }
+  cancelAccountDeletion(cancelToken: string) {
+    return api.call('POST /api/auth/account/cancel-deletion', {
+      body: { cancelToken },
+      fallback: 'Failed to cancel account deletion',
+    });
+  },
+
+  getApiTokens(token: string) {
+    return api.call('GET /api/auth/tokens', { token, fallback: 'Failed to load access tokens' });
+  },
 
-    return response.json();
+  createApiToken(token: string, data: CreateApiTokenData) {
+    return api.call('POST /api/auth/tokens', { token, body: data, fallback: 'Failed to create access token' });
   },
 
-  async resendVerificationEmail(userId: string): Promise<{ message: string }> {
-    const response = await fetch(`${API_URL}/api/auth/resend-verification`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ userId }),
+  revokeApiToken(token: string, apiTokenId: string) {
+    return api.call('DELETE /api/auth/tokens/:id', {
+      token,
+      params: { id: apiTokenId },
+      fallback: 'Failed to revoke access token',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to resend verification email');
-    }
+  getSessions(token: string) {
+    return api.call('GET /api/auth/sessions', { token, fallback: 'Failed to load sessions' });
+  },
+
+  revokeSession(token: string, sessionId: string) {
+    return api.call('DELETE /api/auth/sessions/:id', {
+      token,
+      params: { id: sessionId },
+      fallback: 'Failed to revoke session',
+    });
+  },
+
+  revokeOtherSessions(token: string) {
+    return api.call('POST /api/auth/sessions/revoke-others', { token, fallback: 'Failed to revoke sessions' });
+  },
 
-    return response.json();
+  getLoginHistory(token: string) {
+    return api.call('GET /api/auth/login-history', { token, fallback: 'Failed to load login history' });
   },
 
-  async findAccountByEmail(email: string): Promise<{ username: string; message: string }> {
-    const response = await fetch(`${API_URL}/api/auth/find-account`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ email }),
+  reportNotMe(notMeToken: string) {
+    return api.call('POST /api/auth/login-history/not-me', {
+      body: { token: notMeToken },
+      fallback: 'Failed to secure your account',
     });
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to find account');
-    }
+  requestPasswordReset(emailOrUsername: string) {
+    return api.call('POST /api/auth/request-password-reset', {
+      body: { emailOrUsername },
+      fallback: 'Failed to request password reset',
+    });
+  },
 
-    return response.json();
+  resetPassword(token: string, newPassword: string) {
+    return api.call('POST /api/auth/reset-password', {
+      body: { token, newPassword },
+      fallback: 'Failed to reset password',
+    });
+  },
+
+  verifyEmail(token: string) {
+    return api.call('POST /api/auth/verify-email', { body: { token }, fallback: 'Failed to verify email' });
   },
-};
 
+  resendVerificationEmail(token: string) {
+    return api.call('POST /api/auth/resend-verification', { token, fallback: 'Failed to resend verification email' });
+  },
+
+  findAccountByEmail(email: string) {
+    return api.call('POST /api/auth/find-account', { body: { email }, fallback: 'Failed to find account' });
+  },
+};
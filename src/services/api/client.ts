@@ -1,11 +1,45 @@
 import { tokenAtom } from '@/store';
 import { getDefaultStore } from 'jotai';
+import {
+  errorCodeForStatus,
+  isApiErrorResponse,
+  type ApiAccountRestriction,
+  type ApiErrorCode,
+  type ApiErrorResponse,
+} from '@shared/apiError';
+import {
+  buildPath,
+  splitRoute,
+  type ApiRoute,
+  type RouteInput,
+  type RouteParams,
+  type RouteResponse,
+} from '@shared/api';
 
 const store = getDefaultStore();
 
+// Dynamic API URL based on current host
+const getApiUrl = () => {
+  // If VITE_API_URL is explicitly set, use it
+  if (import.meta.env.VITE_API_URL) {
+    return import.meta.env.VITE_API_URL;
+  }
+
+  // Otherwise, use the same host as the frontend (works for WiFi, Tailscale, localhost)
+  if (typeof window !== 'undefined') {
+    const protocol = window.location.protocol;
+    const hostname = window.location.hostname;
+    return `${protocol}//${hostname}:3001`;
+  }
+
+  // Fallback for SSR or Node environment
+  return 'http://localhost:3001';
+};
+
+export const API_URL = getApiUrl();
+
 interface ApiClientConfig {
   baseURL: string;
-  version: string;
   timeout: number;
 }
 
@@ -14,57 +48,124 @@ interface ApiRequestConfig {
   body?: unknown;
   headers?: Record<string, string>;
   signal?: AbortSignal;
+  // Session or personal access token; defaults to the signed-in user's
+  token?: string | null;
+  // Message to show if the server's error body can't be read
+  fallback?: string;
 }
 
-interface ApiErrorResponse {
-  error: string;
-  message: string;
-  status: number;
-}
+// Options for a route in the contract: its params/query/body plus request settings
+export type CallOptions<R extends ApiRoute> = RouteInput<R> & Omit<ApiRequestConfig, 'method' | 'body' | 'headers'>;
+
+// Routes that take no params or body can be called without options
+type CallArgs<R extends ApiRoute> = {} extends RouteInput<R>
+  ? [options?: CallOptions<R>]
+  : [options: CallOptions<R>];
+
+export type { ApiErrorCode, ApiErrorResponse };
 
 export class ApiError extends Error {
   constructor(
     public status: number,
     public message: string,
-    public error: string
+    public error: ApiErrorCode,
+    // Validation messages keyed like "body.email"
+    public fields?: Record<string, string[]>
   ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
+// Thrown when the server answers 429; retryAfter is in seconds
+export class RateLimitError extends ApiError {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(429, message, 'RATE_LIMITED');
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Thrown when a suspended or banned account tries to sign in; until is null for bans
+export class AccountRestrictedError extends ApiError {
+  accountStatus: ApiAccountRestriction['status'];
+  reason: string | null;
+  until: Date | null;
+
+  constructor(message: string, restriction: ApiAccountRestriction) {
+    super(403, message, 'ACCOUNT_RESTRICTED');
+    this.name = 'AccountRestrictedError';
+    this.accountStatus = restriction.status;
+    this.reason = restriction.reason;
+    this.until = restriction.until ? new Date(restriction.until) : null;
+  }
+}
+
+/**
+ * Read the error envelope from a failed response. Anything else (an HTML
+ * error page from a proxy, an empty body) becomes the fallback message.
+ */
+export async function readApiError(response: Response, fallback: string): Promise<ApiErrorResponse> {
+  const body = await response.json().catch(() => null);
+  if (isApiErrorResponse(body)) {
+    return body;
+  }
+  return { error: errorCodeForStatus(response.status), message: fallback, status: response.status };
+}
+
+/**
+ * Build an error from a failed response, keeping the retry time on 429s, the
+ * suspension details on restricted accounts and field errors on validation failures
+ */
+export const responseError = async (response: Response, fallback: string): Promise<ApiError> => {
+  const error = await readApiError(response, fallback);
+  if (error.error === 'RATE_LIMITED' || response.status === 429) {
+    const retryAfter = Number(error.retryAfter ?? response.headers.get('Retry-After')) || 60;
+    return new RateLimitError(error.message, retryAfter);
+  }
+  if (error.error === 'ACCOUNT_RESTRICTED' && error.accountStatus) {
+    return new AccountRestrictedError(error.message, error.accountStatus);
+  }
+  return new ApiError(error.status, error.message, error.error, error.fields);
+};
+
+/**
+ * Absolute URL of a contract route, e.g. for downloads that can't go through JSON
+ */
+export const apiUrl = <R extends ApiRoute>(route: R, input: { params?: RouteParams<R>; query?: object } = {}) =>
+  API_URL + buildPath(splitRoute(route).path, input.params as Record<string, string> | undefined, input.query);
+
 export class ApiClient {
   private baseURL: string;
-  private version: string;
   private timeout: number;
 
   constructor(config: ApiClientConfig) {
     this.baseURL = config.baseURL;
-    this.version = config.version;
     this.timeout = config.timeout;
   }
 
-  private getHeaders(): Headers {
+  private getHeaders(token?: string | null): Headers {
     const headers = new Headers({
       'Content-Type': 'application/json',
     });
 
-    const token = store.get(tokenAtom);
-    if (token) {
-      headers.set('Authorization', `Bearer ${token}`);
+    const bearer = token === undefined ? store.get(tokenAtom) : token;
+    if (bearer) {
+      headers.set('Authorization', `Bearer ${bearer}`);
     }
 
     return headers;
   }
 
   private getRequestURL(endpoint: string): string {
-    return `${this.baseURL}/${this.version}/${endpoint.replace(/^\//, '')}`;
+    return `${this.baseURL}/api/${endpoint.replace(/^\/(api\/)?/, '')}`;
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
+  private async handleResponse<T>(response: Response, fallback?: string): Promise<T> {
     if (!response.ok) {
-      const error: ApiErrorResponse = await response.json();
-      throw new ApiError(response.status, error.message, error.error);
+      throw await responseError(response, fallback || response.statusText || 'Request failed');
     }
 
     return response.json();
@@ -74,7 +175,7 @@ export class ApiClient {
     endpoint: string,
     config: ApiRequestConfig = {}
   ): Promise<T> {
-    const { method = 'GET', body, headers = {}, signal } = config;
+    const { method = 'GET', body, headers = {}, signal, token, fallback } = config;
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
@@ -83,7 +184,7 @@ export class ApiClient {
       const response = await fetch(this.getRequestURL(endpoint), {
         method,
         headers: {
-          ...Object.fromEntries(this.getHeaders()),
+          ...Object.fromEntries(this.getHeaders(token)),
           ...headers,
         },
         body: body ? JSON.stringify(body) : undefined,
@@ -91,9 +192,12 @@ export class ApiClient {
       });
 
       clearTimeout(timeoutId);
-      return this.handleResponse<T>(response);
+      return await this.handleResponse<T>(response, fallback);
     } catch (error) {
       clearTimeout(timeoutId);
+      if (error instanceof ApiError) {
+        throw error;
+      }
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
           throw new ApiError(408, 'Request timeout', 'TIMEOUT');
@@ -104,6 +208,21 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Call a route from the shared contract (shared/api.ts). The params, query,
+   * body and result are all typed from it:
+   *
+   *   api.call('GET /api/stored-images/:userId', { params: { userId }, query: { limit: 500 } })
+   */
+  async call<R extends ApiRoute>(route: R, ...[options]: CallArgs<R>): Promise<RouteResponse<R>> {
+    const { method, path } = splitRoute(route);
+    const { params, query, body, ...config } = (options ?? {}) as ApiRequestConfig & {
+      params?: Record<string, string>;
+      query?: object;
+    };
+    return this.request<RouteResponse<R>>(buildPath(path, params, query), { ...config, method, body });
+  }
+
   // Convenience methods
   async get<T>(endpoint: string, config?: Omit<ApiRequestConfig, 'method' | 'body'>) {
     return this.request<T>(endpoint, { ...config, method: 'GET' });
@@ -126,12 +245,8 @@ export class ApiClient {
   }
 }
 
-// Create and export default instance
+// Create and export default instance, pointed at our own Express server
 export const api = new ApiClient({
-  baseURL: 'https://api.tumblr.com',
-  version: import.meta.env.VITE_API_VERSION || 'v2',
+  baseURL: API_URL,
   timeout: Number(import.meta.env.VITE_API_TIMEOUT) || 30000,
 });
-
-
-
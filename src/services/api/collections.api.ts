@@ -0,0 +1,69 @@
+import type { CollectionQuery, CollectionUpdate, NewCollection, SmartRules } from '@shared/api';
+import { api } from './client';
+
+export type {
+  Collection,
+  CollectionCover,
+  CollectionDetail,
+  CollectionQuery,
+  CollectionUpdate,
+  NewCollection,
+  SmartCollectionPreview,
+  SmartRule,
+  SmartRules,
+} from '@shared/api';
+
+export const collectionsApi = {
+  getCollections(token: string) {
+    return api.call('GET /api/collections', { token, fallback: 'Failed to load collections' });
+  },
+
+  getCollection(token: string, id: string, query: CollectionQuery = {}) {
+    return api.call('GET /api/collections/:id', { token, params: { id }, query, fallback: 'Failed to load collection' });
+  },
+
+  // What a smart collection with these rules would hold
+  previewSmartCollection(token: string, rules: SmartRules) {
+    return api.call('POST /api/collections/preview', { token, body: { rules }, fallback: 'Failed to preview smart collection' });
+  },
+
+  createCollection(token: string, data: NewCollection) {
+    return api.call('POST /api/collections', { token, body: data, fallback: 'Failed to create collection' });
+  },
+
+  updateCollection(token: string, id: string, data: CollectionUpdate) {
+    return api.call('PUT /api/collections/:id', { token, params: { id }, body: data, fallback: 'Failed to update collection' });
+  },
+
+  deleteCollection(token: string, id: string) {
+    return api.call('DELETE /api/collections/:id', { token, params: { id }, fallback: 'Failed to delete collection' });
+  },
+
+  addImages(token: string, id: string, imageIds: string[]) {
+    return api.call('POST /api/collections/:id/images', {
+      token,
+      params: { id },
+      body: { imageIds },
+      fallback: 'Failed to add images to collection',
+    });
+  },
+
+  removeImages(token: string, id: string, imageIds: string[]) {
+    return api.call('POST /api/collections/:id/images/remove', {
+      token,
+      params: { id },
+      body: { imageIds },
+      fallback: 'Failed to remove images from collection',
+    });
+  },
+
+  // imageIds is every image in the collection, in the new order
+  reorder(token: string, id: string, imageIds: string[]) {
+    return api.call('PUT /api/collections/:id/order', {
+      token,
+      params: { id },
+      body: { imageIds },
+      fallback: 'Failed to reorder collection',
+    });
+  },
+};
@@ -0,0 +1,39 @@
+import type { DataExport } from '@shared/api';
+import { api, apiUrl, responseError } from './client';
+
+export type { DataExport, DataExportStatus } from '@shared/api';
+
+export const isExportInProgress = (job?: DataExport | null) =>
+  job?.status === 'PENDING' || job?.status === 'RUNNING';
+
+export const dataExportApi = {
+  getLatestExport(token: string, userId: string) {
+    return api.call('GET /api/users/:id/export', { token, params: { id: userId }, fallback: 'Failed to load data export' });
+  },
+
+  startExport(token: string, userId: string) {
+    return api.call('POST /api/users/:id/export', { token, params: { id: userId }, fallback: 'Failed to start data export' });
+  },
+
+  // Needs the session token, so fetch the ZIP and hand it to the browser as a blob
+  async downloadExport(token: string, userId: string, exportId: string): Promise<void> {
+    const url = apiUrl('GET /api/users/:id/export/:exportId/download', { params: { id: userId, exportId } });
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      throw await responseError(response, 'Failed to download data export');
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const fileName = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? 'data-export.zip';
+
+    const blobUrl = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = blobUrl;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(blobUrl);
+  },
+};
@@ -0,0 +1,11 @@
+import type { BulkDownloadRequest } from '@shared/api';
+import { api } from './client';
+
+export type { BulkDownloadRequest, BulkDownloadResult } from '@shared/api';
+
+export const downloadsApi = {
+  // Works signed out, so don't send a session that may have expired
+  bulkDownload(images: BulkDownloadRequest['images']) {
+    return api.call('POST /api/download/bulk', { token: null, body: { images }, fallback: 'Failed to download images' });
+  },
+};
@@ -1,5 +1,4 @@
 export * from './client';
-export * from './auth';
 export * from './posts';
 export * from './search';
 
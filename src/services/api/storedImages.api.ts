@@ -0,0 +1,52 @@
+import type { NewStoredImage, StoredImagesQuery } from '@shared/api';
+import { api, apiUrl, responseError } from './client';
+
+export type {
+  NewStoredImage,
+  StoredImage,
+  StoredImageStats,
+  StoredImagesPage,
+  StoredImagesQuery,
+  StoreImagesResult,
+} from '@shared/api';
+
+export const storedImagesApi = {
+  getImages(token: string, userId: string, query: StoredImagesQuery = {}) {
+    return api.call('GET /api/stored-images/:userId', {
+      token,
+      params: { userId },
+      query,
+      fallback: 'Failed to load stored images',
+    });
+  },
+
+  getStats(token: string, userId: string) {
+    return api.call('GET /api/stored-images/:userId/stats', {
+      token,
+      params: { userId },
+      fallback: 'Failed to load stored image stats',
+    });
+  },
+
+  storeImages(token: string, images: NewStoredImage[]) {
+    return api.call('POST /api/stored-images', { token, body: { images }, fallback: 'Failed to store images' });
+  },
+
+  deleteImages(token: string, ids: string[]) {
+    return api.call('POST /api/stored-images/bulk-delete', { token, body: { ids }, fallback: 'Failed to delete images' });
+  },
+
+  // Needs the session token, so an <img> can't load it directly; fetch the archived copy as a blob
+  async getFile(token: string, id: string): Promise<Blob> {
+    const url = apiUrl('GET /api/stored-images/:id/file', { params: { id } });
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      throw await responseError(response, 'Failed to load image file');
+    }
+
+    return response.blob();
+  },
+};
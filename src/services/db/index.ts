@@ -1,10 +1,6 @@
-export { AuthService } from './auth.service';
-export { PreferencesService } from './preferences.service';
 export { PostsService } from './posts.service';
 export { searchDbService, SearchService } from './search.service';
 
-export type { RegisterData, LoginData, UserSession } from './auth.service';
-export type { PreferencesData } from './preferences.service';
 export type { CreatePostData, UpdatePostData } from './posts.service';
 export type { SearchParams, SearchResult, Blog as DbBlog } from './search.service';
 
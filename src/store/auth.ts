@@ -5,7 +5,13 @@ export interface User {
   id: string;
   username: string;
   email: string;
-  avatar?: string;
+  displayName?: string | null;
+  avatar?: string | null;
+  emailVerified?: boolean;
+  pendingEmail?: string | null;
+  twoFactorEnabled?: boolean;
+  lastLoginAt?: Date | string | null;
+  role?: 'USER' | 'ADMIN' | 'MODERATOR';
   blogs: Blog[];
 }
 
@@ -30,8 +36,11 @@ const initialAuthState: AuthState = {
   token: null,
 };
 
-// Persist auth state in localStorage
-export const authAtom = atomWithStorage<AuthState>('auth', initialAuthState);
+// Persist auth state in localStorage (read on init so the session token is
+// available to the very first authenticated request)
+export const authAtom = atomWithStorage<AuthState>('auth', initialAuthState, undefined, {
+  getOnInit: true,
+});
 
 // Derived atoms
 export const isAuthenticatedAtom = atom(get => get(authAtom).isAuthenticated);
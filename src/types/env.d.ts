@@ -4,7 +4,7 @@ interface ImportMetaEnv {
   // API Configuration
   readonly VITE_TUMBLR_API_KEY: string;
   readonly VITE_TUMBLR_API_SECRET: string;
-  readonly VITE_API_VERSION: string;
+  readonly VITE_API_URL: string;
   readonly VITE_API_RATE_LIMIT: number;
   readonly VITE_API_TIMEOUT: number;
   readonly VITE_TUMBLR_CALLBACK_URL: string;
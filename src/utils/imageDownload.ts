@@ -1,3 +1,5 @@
+import { downloadsApi } from '@/services/api/downloads.api';
+
 /**
  * Check if Web Share API with files is supported
  */
@@ -418,36 +420,20 @@ export async function downloadImagesServerSide(
   includeSidecars: boolean = false
 ): Promise<{ succeeded: number; failed: number }> {
   try {
-    // Determine API URL
-    const API_URL = import.meta.env.VITE_API_URL || 
-                    (typeof window !== 'undefined' 
-                      ? `${window.location.protocol}//${window.location.hostname}:3001` 
-                      : 'http://localhost:3001');
-
     console.log(`[Server-side Download] Requesting parallel fetch of ${images.length} images...`);
     
     // Send request to server to fetch all images in parallel (like Python's asyncio.gather())
-    const response = await fetch(`${API_URL}/api/download/bulk`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        images: images.map((img, i) => ({
-          url: img.url,
-          filename: generateMetadataFilename(
-            img.filename,
-            img.metadata,
-            { ...img.options, index: i }
-          ),
-          metadata: img.metadata,
-        })),
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await downloadsApi.bulkDownload(
+      images.map((img, i) => ({
+        url: img.url,
+        filename: generateMetadataFilename(
+          img.filename,
+          img.metadata,
+          { ...img.options, index: i }
+        ),
+        metadata: img.metadata,
+      }))
+    );
     console.log(`[Server-side Download] Server fetched ${result.downloaded}/${result.total} images in ${(result.totalTimeMs / 1000).toFixed(2)}s (${(result.totalSizeBytes / 1024 / 1024).toFixed(2)}MB)`);
 
     // Now download each image from the base64 data (all already fetched in parallel!)
@@ -479,7 +465,7 @@ export async function downloadImagesServerSide(
         // Download sidecar if requested
         if (includeSidecars && imageData.metadata) {
           await new Promise(resolve => setTimeout(resolve, 100));
-          await downloadMetadataSidecar(imageData.filename, imageData.metadata);
+          await downloadMetadataSidecar(imageData.filename, imageData.metadata as ImageMetadata);
         }
         
         succeeded++;
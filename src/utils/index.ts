@@ -1,6 +1,7 @@
 export { cn } from './cn';
 export { imageCache, preloadBlogImages } from './imageCache';
 export { searchCache, blogCache, userCache, CacheManager } from './cacheManager';
+export { describeUserAgent } from './userAgent';
 export { 
   downloadImage, 
   downloadImages, 
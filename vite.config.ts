@@ -8,6 +8,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Code used by both the client and the server (server/ imports it relatively)
+      '@shared': path.resolve(__dirname, './shared'),
     },
   },
   server: {